@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."human_review_queue" (
+    "id" TEXT NOT NULL,
+    "context_id" TEXT NOT NULL,
+    "conversation_id" TEXT,
+    "agent_role" TEXT NOT NULL,
+    "attempted_action" TEXT NOT NULL,
+    "error_message" TEXT NOT NULL,
+    "resolution" JSONB,
+    "attempts" JSONB NOT NULL DEFAULT '[]',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolution_notes" TEXT,
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "human_review_queue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "human_review_queue_status_idx" ON "vsl_frontend"."human_review_queue"("status");
+
+-- CreateIndex
+CREATE INDEX "human_review_queue_context_id_idx" ON "vsl_frontend"."human_review_queue"("context_id");
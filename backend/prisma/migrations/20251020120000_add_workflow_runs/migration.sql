@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."workflow_runs" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "context_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "input" JSONB NOT NULL,
+    "steps" JSONB NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "workflow_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_workflow_id_idx" ON "vsl_frontend"."workflow_runs"("workflow_id");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_context_id_idx" ON "vsl_frontend"."workflow_runs"("context_id");
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_status_idx" ON "vsl_frontend"."workflow_runs"("status");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."agent_usage" (
+    "id" TEXT NOT NULL,
+    "agent_role" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cached_prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "reasoning_tokens" INTEGER NOT NULL DEFAULT 0,
+    "total_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cost" DECIMAL(12,6) NOT NULL DEFAULT 0,
+    "latency_ms" INTEGER NOT NULL,
+    "streamed" BOOLEAN NOT NULL DEFAULT false,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "project_id" TEXT,
+    "novela_id" TEXT,
+    "section_id" TEXT,
+    "conversation_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_usage_agent_role_idx" ON "vsl_frontend"."agent_usage"("agent_role");
+
+-- CreateIndex
+CREATE INDEX "agent_usage_project_id_idx" ON "vsl_frontend"."agent_usage"("project_id");
+
+-- CreateIndex
+CREATE INDEX "agent_usage_novela_id_idx" ON "vsl_frontend"."agent_usage"("novela_id");
+
+-- CreateIndex
+CREATE INDEX "agent_usage_conversation_id_idx" ON "vsl_frontend"."agent_usage"("conversation_id");
+
+-- CreateIndex
+CREATE INDEX "agent_usage_created_at_idx" ON "vsl_frontend"."agent_usage"("created_at");
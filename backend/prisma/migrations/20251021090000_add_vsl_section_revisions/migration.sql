@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."vsl_section_revisions" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "revision_number" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "ai_suggestion" TEXT,
+    "persuasion_score" INTEGER NOT NULL DEFAULT 0,
+    "strengths" TEXT[],
+    "weaknesses" TEXT[],
+    "improvements" TEXT[],
+    "hooks" TEXT[],
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "author_type" TEXT NOT NULL,
+    "author_id" TEXT,
+    "source" TEXT NOT NULL,
+    "restored_from_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vsl_section_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vsl_section_revisions_section_id_idx" ON "vsl_frontend"."vsl_section_revisions"("section_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vsl_section_revisions_section_id_revision_number_key" ON "vsl_frontend"."vsl_section_revisions"("section_id", "revision_number");
+
+-- AddForeignKey
+ALTER TABLE "vsl_frontend"."vsl_section_revisions" ADD CONSTRAINT "vsl_section_revisions_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "vsl_frontend"."vsl_sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."vsl_templates" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "framework" TEXT NOT NULL,
+    "sections" JSONB NOT NULL,
+    "cloned_from" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vsl_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vsl_templates_user_id_idx" ON "vsl_frontend"."vsl_templates"("user_id");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."vsl_projects" ADD COLUMN     "analysis_report" JSONB,
+ADD COLUMN     "analyzed_at" TIMESTAMP(3);
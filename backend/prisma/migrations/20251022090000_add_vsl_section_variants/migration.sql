@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."vsl_section_variants" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "angle" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "hooks" TEXT[],
+    "persuasion_score" INTEGER NOT NULL DEFAULT 0,
+    "strengths" TEXT[],
+    "weaknesses" TEXT[],
+    "recommendations" TEXT[],
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vsl_section_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vsl_section_variants_section_id_idx" ON "vsl_frontend"."vsl_section_variants"("section_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vsl_section_variants_section_id_label_key" ON "vsl_frontend"."vsl_section_variants"("section_id", "label");
+
+-- AddForeignKey
+ALTER TABLE "vsl_frontend"."vsl_section_variants" ADD CONSTRAINT "vsl_section_variants_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "vsl_frontend"."vsl_sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
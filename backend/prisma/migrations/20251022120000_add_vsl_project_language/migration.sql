@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."vsl_projects" ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'pt-br';
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "vsl_frontend"."compliance_findings" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "video_id" TEXT,
+    "source" TEXT NOT NULL,
+    "rule_id" TEXT,
+    "category" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "phrase" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "explanation" TEXT NOT NULL,
+    "suggestion" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolved_by" TEXT,
+    "resolution_note" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "compliance_findings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "compliance_findings_project_id_idx" ON "vsl_frontend"."compliance_findings"("project_id");
+
+-- CreateIndex
+CREATE INDEX "compliance_findings_section_id_status_idx" ON "vsl_frontend"."compliance_findings"("section_id", "status");
+
+-- CreateIndex
+CREATE INDEX "compliance_findings_video_id_idx" ON "vsl_frontend"."compliance_findings"("video_id");
+
+-- AddForeignKey
+ALTER TABLE "vsl_frontend"."compliance_findings" ADD CONSTRAINT "compliance_findings_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "vsl_frontend"."vsl_sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
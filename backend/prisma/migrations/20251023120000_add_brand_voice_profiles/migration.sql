@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."vsl_projects" ADD COLUMN     "brand_voice_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "vsl_frontend"."brand_voice_profiles" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "formality" TEXT NOT NULL DEFAULT 'neutral',
+    "reading_level" TEXT NOT NULL DEFAULT 'standard',
+    "pronoun_style" TEXT,
+    "use_vocabulary" TEXT[],
+    "avoid_vocabulary" TEXT[],
+    "forbidden_claims" TEXT[],
+    "sample_copy" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "brand_voice_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vsl_projects_brand_voice_id_idx" ON "vsl_frontend"."vsl_projects"("brand_voice_id");
+
+-- CreateIndex
+CREATE INDEX "brand_voice_profiles_user_id_idx" ON "vsl_frontend"."brand_voice_profiles"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "vsl_frontend"."vsl_projects" ADD CONSTRAINT "vsl_projects_brand_voice_id_fkey" FOREIGN KEY ("brand_voice_id") REFERENCES "vsl_frontend"."brand_voice_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- Full-text search (src/services/listing/fullTextSearch.ts). Expression
+-- indexes are not expressible in schema.prisma; keep the expressions in
+-- sync with the queries.
+
+-- CreateIndex
+CREATE INDEX "vsl_projects_search_idx" ON "vsl_frontend"."vsl_projects" USING GIN (to_tsvector('simple', "project_name" || ' ' || coalesce("product_service", '')));
+
+-- CreateIndex
+CREATE INDEX "vsl_sections_content_search_idx" ON "vsl_frontend"."vsl_sections" USING GIN (to_tsvector('simple', "content"));
+
+-- CreateIndex
+CREATE INDEX "novelas_search_idx" ON "vsl_frontend"."novelas" USING GIN (to_tsvector('simple', "title" || ' ' || coalesce("description", '')));
+
+-- CreateIndex
+CREATE INDEX "agent_messages_content_search_idx" ON "vsl_frontend"."agent_messages" USING GIN (to_tsvector('simple', "content"));
+
+-- CreateIndex
+CREATE INDEX "vsl_projects_created_at_id_idx" ON "vsl_frontend"."vsl_projects"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "novelas_created_at_id_idx" ON "vsl_frontend"."novelas"("created_at", "id");
+
+-- CreateIndex
+CREATE INDEX "agent_messages_timestamp_id_idx" ON "vsl_frontend"."agent_messages"("timestamp", "id");
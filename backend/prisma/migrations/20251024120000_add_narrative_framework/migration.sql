@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."section_detailed_scripts" ADD COLUMN     "narrative_framework" TEXT NOT NULL DEFAULT 'heros-journey';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."section_videos" ADD COLUMN     "storyboard" JSONB,
+ADD COLUMN     "storyboard_note" TEXT,
+ADD COLUMN     "storyboard_reviewed_at" TIMESTAMP(3),
+ADD COLUMN     "storyboard_reviewed_by" TEXT,
+ADD COLUMN     "storyboard_status" TEXT NOT NULL DEFAULT 'none';
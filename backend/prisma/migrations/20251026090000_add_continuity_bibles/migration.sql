@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."section_videos" ADD COLUMN     "continuity" JSONB;
+
+-- CreateTable
+CREATE TABLE "vsl_frontend"."continuity_bibles" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "characters" JSONB NOT NULL DEFAULT '[]',
+    "locations" JSONB NOT NULL DEFAULT '[]',
+    "wardrobe" JSONB NOT NULL DEFAULT '[]',
+    "palette" JSONB NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "continuity_bibles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "continuity_bibles_project_id_key" ON "vsl_frontend"."continuity_bibles"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "vsl_frontend"."continuity_bibles" ADD CONSTRAINT "continuity_bibles_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "vsl_frontend"."vsl_projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
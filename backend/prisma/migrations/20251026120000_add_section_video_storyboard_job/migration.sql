@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."section_videos" ADD COLUMN     "storyboard_job_id" TEXT;
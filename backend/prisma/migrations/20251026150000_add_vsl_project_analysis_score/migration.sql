@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."vsl_projects" ADD COLUMN     "analysis_score" INTEGER;
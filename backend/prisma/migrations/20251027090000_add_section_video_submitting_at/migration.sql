@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "vsl_frontend"."section_videos" ADD COLUMN     "submitting_at" TIMESTAMP(3);
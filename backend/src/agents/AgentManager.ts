@@ -8,7 +8,7 @@
  * - Agent lifecycle management
  * - Communication bus coordination
  * - Workflow orchestration
- * - Error handling and recovery
+ * - Error handling and recovery (RetryOrchestrator)
  */
 
 import { Server as SocketIOServer } from 'socket.io';
@@ -20,8 +20,13 @@ import { FallbackHandlerAgent } from './FallbackHandlerAgent.js';
 import { VSLSpecialistAgent } from './VSLSpecialistAgent.js';
 import { LambdaConfigAgent } from './LambdaConfigAgent.js';
 import { ScriptDetailAgent } from './ScriptDetailAgent.js';
+import { BaseAgent } from './BaseAgent.js';
+import { RetryOrchestrator, RecoveryOptions } from './RetryOrchestrator.js';
+import { LLMProviderConfig } from './providers/index.js';
+import { trackUsage, UsageContext } from './usage.js';
 import {
   AgentRole,
+  AgentResponse,
   ScriptWriterInput,
   ScriptWriterOutput,
   SystemIntegratorInput,
@@ -29,13 +34,29 @@ import {
   FallbackHandlerInput,
   FallbackHandlerOutput,
   VSLSpecialistInput,
+  VSLProjectAnalysisInput,
+  VSLVariantInput,
+  VSLVariantComparisonInput,
+  ComplianceReviewInput,
+  BrandVoiceScoreInput,
+  VSLTranslationInput,
   VSLSpecialistOutput,
   LambdaConfigInput,
   LambdaConfigOutput,
   ScriptDetailInput,
   ScriptDetailOutput,
+  ScriptClipRewriteInput,
+  ScriptClipRewriteOutput,
+  StoryboardInput,
+  StoryboardOutput,
+  ContinuityLintInput,
+  ContinuityLintOutput,
 } from './types.js';
 
+export interface AgentManagerOptions {
+  provider?: LLMProviderConfig; // Overrides the provider of every agent (e.g. { type: 'mock' })
+}
+
 export class AgentManager {
   private communicationBus: CommunicationBus;
   private scriptWriter: ScriptWriterAgent;
@@ -44,19 +65,31 @@ export class AgentManager {
   private vslSpecialist: VSLSpecialistAgent;
   private lambdaConfig: LambdaConfigAgent;
   private scriptDetail: ScriptDetailAgent;
+  private retryOrchestrator: RetryOrchestrator;
   private initialized: boolean = false;
 
-  constructor(io: SocketIOServer) {
+  constructor(io: SocketIOServer, options: AgentManagerOptions = {}) {
     // Initialize Communication Bus
     this.communicationBus = new CommunicationBus(io);
 
     // Initialize Agents
-    this.scriptWriter = new ScriptWriterAgent();
-    this.systemIntegrator = new SystemIntegratorAgent();
-    this.fallbackHandler = new FallbackHandlerAgent();
-    this.vslSpecialist = new VSLSpecialistAgent();
-    this.lambdaConfig = new LambdaConfigAgent();
-    this.scriptDetail = new ScriptDetailAgent();
+    this.scriptWriter = new ScriptWriterAgent(options.provider);
+    this.systemIntegrator = new SystemIntegratorAgent(options.provider);
+    this.fallbackHandler = new FallbackHandlerAgent(options.provider);
+    this.vslSpecialist = new VSLSpecialistAgent(options.provider);
+    this.lambdaConfig = new LambdaConfigAgent(options.provider);
+    this.scriptDetail = new ScriptDetailAgent(options.provider);
+
+    // Applies FallbackHandler resolutions to failed workflow steps
+    this.retryOrchestrator = new RetryOrchestrator(
+      this.communicationBus,
+      this.fallbackHandler
+    );
+
+    // Route agent messages and token streams through the bus
+    for (const role of Object.values(AgentRole)) {
+      this.getAgent(role).attachBus(this.communicationBus);
+    }
 
     logger.info('✅ Agent Manager created');
   }
@@ -73,46 +106,14 @@ export class AgentManager {
     try {
       logger.info('🚀 Initializing Agent Manager...');
 
-      // Subscribe agents to communication bus
-      this.communicationBus.subscribe(AgentRole.SCRIPT_WRITER, (message) => {
-        logger.info(
-          `📨 Script Writer received message from ${message.fromAgent}`
-        );
-        // Agent-specific message handling logic can be added here
-      });
-
-      this.communicationBus.subscribe(
-        AgentRole.SYSTEM_INTEGRATOR,
-        (message) => {
-          logger.info(
-            `📨 System Integrator received message from ${message.fromAgent}`
-          );
-        }
-      );
-
-      this.communicationBus.subscribe(AgentRole.FALLBACK_HANDLER, (message) => {
-        logger.info(
-          `📨 Fallback Handler received message from ${message.fromAgent}`
-        );
-      });
-
-      this.communicationBus.subscribe(AgentRole.VSL_SPECIALIST, (message) => {
-        logger.info(
-          `📨 VSL Specialist received message from ${message.fromAgent}`
-        );
-      });
-
-      this.communicationBus.subscribe(AgentRole.LAMBDA_CONFIG, (message) => {
-        logger.info(
-          `📨 Lambda Config Agent received message from ${message.fromAgent}`
-        );
-      });
-
-      this.communicationBus.subscribe(AgentRole.SCRIPT_DETAIL, (message) => {
-        logger.info(
-          `📨 Script Detail Agent received message from ${message.fromAgent}`
+      // Subscribe agents to communication bus - each agent answers
+      // REQUESTs addressed to it and records responses/broadcasts
+      for (const role of Object.values(AgentRole)) {
+        const agent = this.getAgent(role);
+        this.communicationBus.subscribe(role, (message) =>
+          agent.handleMessage(message)
         );
-      });
+      }
 
       this.initialized = true;
       logger.info('✅ Agent Manager initialized successfully');
@@ -129,7 +130,9 @@ export class AgentManager {
     input: ScriptWriterInput
   ): Promise<ScriptWriterOutput> {
     this.ensureInitialized();
-    return await this.scriptWriter.process(input);
+    return this.withCost({ novelaId: input.novelaId }, () =>
+      this.scriptWriter.process(input)
+    );
   }
 
   /**
@@ -139,7 +142,9 @@ export class AgentManager {
     input: SystemIntegratorInput
   ): Promise<SystemIntegratorOutput> {
     this.ensureInitialized();
-    return await this.systemIntegrator.process(input);
+    return this.withCost({ novelaId: input.novelaId }, () =>
+      this.systemIntegrator.process(input)
+    );
   }
 
   /**
@@ -169,7 +174,9 @@ export class AgentManager {
     input: FallbackHandlerInput
   ): Promise<FallbackHandlerOutput> {
     this.ensureInitialized();
-    return await this.fallbackHandler.process(input);
+    return this.withCost({ novelaId: input.novelaId }, () =>
+      this.fallbackHandler.process(input)
+    );
   }
 
   /**
@@ -179,7 +186,87 @@ export class AgentManager {
     input: VSLSpecialistInput
   ): Promise<VSLSpecialistOutput> {
     this.ensureInitialized();
-    return await this.vslSpecialist.process(input);
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.process(input)
+    );
+  }
+
+  /**
+   * Analyze a whole VSL script (score + cross-section consistency)
+   */
+  async analyzeVSLProject(
+    input: VSLProjectAnalysisInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost({ projectId: input.projectId }, () =>
+      this.vslSpecialist.analyzeProject(input)
+    );
+  }
+
+  /**
+   * Generate A/B copy variants for a VSL section
+   */
+  async generateVSLVariants(
+    input: VSLVariantInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.generateVariants(input)
+    );
+  }
+
+  /**
+   * Explain score differences between variants of a VSL section
+   */
+  async compareVSLVariants(
+    input: VSLVariantComparisonInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.compareVariants(input)
+    );
+  }
+
+  /**
+   * LLM-assisted compliance review of section copy and clip voices
+   */
+  async reviewCompliance(
+    input: ComplianceReviewInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.reviewCompliance(input)
+    );
+  }
+
+  /**
+   * Score how closely copy matches a brand voice profile
+   */
+  async scoreBrandVoice(
+    input: BrandVoiceScoreInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.scoreBrandVoice(input)
+    );
+  }
+
+  /**
+   * Translate section copy into another narration language
+   */
+  async translateVSLCopy(
+    input: VSLTranslationInput
+  ): Promise<VSLSpecialistOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.vslSpecialist.translateCopy(input)
+    );
   }
 
   /**
@@ -189,7 +276,9 @@ export class AgentManager {
     input: LambdaConfigInput
   ): Promise<LambdaConfigOutput> {
     this.ensureInitialized();
-    return await this.lambdaConfig.process(input);
+    return this.withCost({ projectId: input.projectId }, () =>
+      this.lambdaConfig.process(input)
+    );
   }
 
   /**
@@ -199,89 +288,83 @@ export class AgentManager {
     input: ScriptDetailInput
   ): Promise<ScriptDetailOutput> {
     this.ensureInitialized();
-    return await this.scriptDetail.process(input);
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.scriptDetail.process(input)
+    );
   }
 
   /**
-   * Complete workflow: Script → Estimation → Video Generation
+   * Rewrite (or write) a single clip of a detailed script
    */
-  async generateSceneVideo(input: {
-    novelaId: string;
-    sceneNumber: number;
-    previousScenes?: string[];
-    characterDescriptions?: Record<string, string>;
-    plotPoints?: string[];
-    tone?: string;
-    duration?: number;
-    modelId?: string;
-  }): Promise<{
-    script: ScriptWriterOutput;
-    estimation: SystemIntegratorOutput;
-    videoJob?: SystemIntegratorOutput;
-  }> {
+  async rewriteScriptClip(
+    input: ScriptClipRewriteInput
+  ): Promise<ScriptClipRewriteOutput> {
     this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.scriptDetail.rewriteClip(input)
+    );
+  }
 
-    try {
-      logger.info(
-        `🎬 Starting complete workflow for scene ${input.sceneNumber}`
-      );
-
-      // Step 1: Generate script
-      logger.info('📝 Step 1: Generating script...');
-      const scriptResult = await this.scriptWriter.process({
-        novelaId: input.novelaId,
-        sceneNumber: input.sceneNumber,
-        previousScenes: input.previousScenes,
-        characterDescriptions: input.characterDescriptions,
-        plotPoints: input.plotPoints,
-        tone: input.tone,
-        duration: input.duration,
-      });
-
-      if (!scriptResult.success) {
-        throw new Error(`Script generation failed: ${scriptResult.message}`);
-      }
+  /**
+   * Shot list with still-frame prompts for one clip
+   */
+  async generateStoryboard(input: StoryboardInput): Promise<StoryboardOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.scriptDetail.buildStoryboard(input)
+    );
+  }
 
-      // Step 2: Get video estimation
-      logger.info('💰 Step 2: Getting video estimation...');
-      const estimationResult = await this.systemIntegrator.process({
-        novelaId: input.novelaId,
-        videoRequest: {
-          prompt: scriptResult.data!.script.visualPrompt,
-          modelId: input.modelId,
-          duration: scriptResult.data!.script.estimatedDuration,
-        },
-      });
-
-      if (!estimationResult.success) {
-        throw new Error(
-          `Video estimation failed: ${estimationResult.message}`
-        );
-      }
+  /**
+   * Clip visuals that contradict a project's continuity bible
+   */
+  async lintContinuity(input: ContinuityLintInput): Promise<ContinuityLintOutput> {
+    this.ensureInitialized();
+    return this.withCost(
+      { projectId: input.projectId, sectionId: input.sectionId },
+      () => this.scriptDetail.lintContinuity(input)
+    );
+  }
 
-      logger.info('✅ Complete workflow finished successfully');
+  /**
+   * Video models known to the System Integrator (for model substitution)
+   */
+  getVideoModels() {
+    this.ensureInitialized();
+    return this.systemIntegrator.getModels();
+  }
 
-      return {
-        script: scriptResult,
-        estimation: estimationResult,
-      };
-    } catch (error: any) {
-      logger.error('❌ Complete workflow failed:', error.message);
-
-      // Trigger fallback handler
-      const fallbackResult = await this.fallbackHandler.process({
-        novelaId: input.novelaId,
-        errorContext: {
-          failedAgent: AgentRole.SCRIPT_WRITER, // or detect which step failed
-          errorMessage: error.message,
-          attemptedAction: 'Complete scene video generation workflow',
-          metadata: { sceneNumber: input.sceneNumber },
-        },
-      });
+  /**
+   * Run any agent step with automatic recovery (backoff, shortened
+   * context, model substitution, human-review escalation)
+   */
+  async runWithRecovery<T>(options: RecoveryOptions<T>): Promise<T> {
+    this.ensureInitialized();
+    return await this.retryOrchestrator.run(options);
+  }
 
-      throw new Error(
-        `Workflow failed: ${error.message}. Fallback: ${fallbackResult.data?.resolution?.strategy}`
-      );
+  /**
+   * Get agent instance by role
+   */
+  getAgent(role: AgentRole): BaseAgent {
+    switch (role) {
+      case AgentRole.SCRIPT_WRITER:
+        return this.scriptWriter;
+      case AgentRole.SYSTEM_INTEGRATOR:
+        return this.systemIntegrator;
+      case AgentRole.FALLBACK_HANDLER:
+        return this.fallbackHandler;
+      case AgentRole.VSL_SPECIALIST:
+        return this.vslSpecialist;
+      case AgentRole.LAMBDA_CONFIG:
+        return this.lambdaConfig;
+      case AgentRole.SCRIPT_DETAIL:
+        return this.scriptDetail;
+      default:
+        throw new Error(`Unknown agent role: ${role}`);
     }
   }
 
@@ -311,16 +394,30 @@ export class AgentManager {
    */
   shutdown() {
     logger.info('🛑 Shutting down Agent Manager...');
-    this.communicationBus.unsubscribe(AgentRole.SCRIPT_WRITER);
-    this.communicationBus.unsubscribe(AgentRole.SYSTEM_INTEGRATOR);
-    this.communicationBus.unsubscribe(AgentRole.FALLBACK_HANDLER);
-    this.communicationBus.unsubscribe(AgentRole.VSL_SPECIALIST);
-    this.communicationBus.unsubscribe(AgentRole.LAMBDA_CONFIG);
-    this.communicationBus.unsubscribe(AgentRole.SCRIPT_DETAIL);
+    for (const role of Object.values(AgentRole)) {
+      this.communicationBus.unsubscribe(role);
+    }
     this.initialized = false;
     logger.info('✅ Agent Manager shut down');
   }
 
+  /**
+   * Run an agent call inside a usage scope: LLM calls are linked to the
+   * context and their summed cost is set on AgentResponse.cost
+   */
+  private async withCost<T extends AgentResponse>(
+    context: UsageContext,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const { result, cost } = await trackUsage(context, fn);
+
+    if (result.cost === undefined) {
+      result.cost = Math.round(cost * 1_000_000) / 1_000_000;
+    }
+
+    return result;
+  }
+
   /**
    * Ensure system is initialized
    */
@@ -332,3 +429,20 @@ export class AgentManager {
     }
   }
 }
+
+let sharedAgentManager: AgentManager | null = null;
+
+/**
+ * Get the process-wide AgentManager, creating it on first use. Routers
+ * receive this instance instead of building their own, so agents, the
+ * bus and conversation caches are shared.
+ */
+export function getAgentManager(
+  io: SocketIOServer | null = null,
+  options: AgentManagerOptions = {}
+): AgentManager {
+  if (!sharedAgentManager) {
+    sharedAgentManager = new AgentManager(io as SocketIOServer, options);
+  }
+  return sharedAgentManager;
+}
@@ -2,42 +2,94 @@
  * BaseAgent - Abstract base class for all GPT-5 agents
  *
  * Provides common functionality:
- * - GPT-5 API communication
- * - Message handling
- * - Conversation context management
+ * - GPT-5 API communication (through a pluggable LLM provider)
+ * - Message handling (publishing to and reacting to the communication bus)
+ * - Token streaming to the frontend through the communication bus
+ * - Conversation context management (persisted, token-budgeted window
+ *   with summarization of older turns)
  * - Error handling
  */
 
-import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import { logger } from '../utils/logger.js';
+import { zodIssues } from '../utils/httpError.js';
 import {
   AgentRole,
   AgentConfig,
   AgentMessage,
+  AgentReply,
   AgentResponse,
+  BrandVoiceContext,
+  ContinuityBibleContext,
+  ContinuityRefs,
   MessageType,
   MessagePriority,
 } from './types.js';
 import { prisma } from '../config/database.js';
+import {
+  LLMProvider,
+  LLMChatMessage,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  createLLMProvider,
+  resolveProviderConfig,
+} from './providers/index.js';
+import { StructuredOutputError } from './errors.js';
+import {
+  DEFAULT_HISTORY_TOKEN_BUDGET,
+  loadConversationMessages,
+  splitHistoryWindow,
+  summaryTokenBudget,
+  formatTranscript,
+  extractiveSummary,
+} from './conversationMemory.js';
+import { recordLLMCall } from './usage.js';
+import { isInRecovery } from './recoveryScope.js';
+import type { CommunicationBus } from './CommunicationBus.js';
+
+const MAX_CACHED_CONVERSATIONS = 200;
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize earlier turns of a conversation between AI agents.
+Keep decisions, constraints, names, numbers and open questions. Drop pleasantries and repetition.
+Answer with plain text only.`;
+
+/**
+ * Per-call overrides for callGPT5
+ */
+export interface CallOptions {
+  systemPrompt?: string; // Replaces the configured system prompt for this call
+  maxCompletionTokens?: number;
+  stream?: {
+    novelaId: string; // Room that receives agent:stream events
+  };
+}
+
+/**
+ * Options for callStructured
+ */
+export interface StructuredCallOptions extends CallOptions {
+  maxRetries?: number; // Re-asks after the first attempt (default 2)
+}
 
 export abstract class BaseAgent {
   protected config: AgentConfig;
-  protected openai: OpenAI;
-  protected conversationHistory: Map<string, AgentMessage[]> = new Map();
+  protected provider: LLMProvider;
+  protected bus?: CommunicationBus;
+  protected conversationHistory: Map<string, AgentMessage[]> = new Map(); // Cache of agent_messages
+  private historySummaries: Map<string, { covered: number; text: string }> = new Map();
 
   constructor(config: AgentConfig) {
-    this.config = config;
-
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not set in environment variables');
-    }
+    this.config = {
+      ...config,
+      provider: config.provider || resolveProviderConfig(config.role),
+    };
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.provider = createLLMProvider(this.config.provider!);
 
-    logger.info(`✅ Agent initialized: ${config.role}`);
+    logger.info(
+      `✅ Agent initialized: ${config.role} (provider: ${this.provider.type})`
+    );
   }
 
   /**
@@ -50,25 +102,20 @@ export abstract class BaseAgent {
    */
   protected async callGPT5(
     userMessage: string,
-    conversationId?: string
+    conversationId?: string,
+    options: CallOptions = {}
   ): Promise<string> {
     try {
-      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      const messages: LLMChatMessage[] = [
         {
           role: 'system',
-          content: this.config.systemPrompt,
+          content: options.systemPrompt || this.config.systemPrompt,
         },
       ];
 
-      // Add conversation history if available
-      if (conversationId && this.conversationHistory.has(conversationId)) {
-        const history = this.conversationHistory.get(conversationId)!;
-        history.forEach((msg) => {
-          messages.push({
-            role: msg.fromAgent === this.config.role ? 'assistant' : 'user',
-            content: msg.content,
-          });
-        });
+      // Add conversation history (loaded from agent_messages on demand)
+      if (conversationId) {
+        messages.push(...(await this.buildHistoryMessages(conversationId)));
       }
 
       // Add current user message
@@ -77,19 +124,29 @@ export abstract class BaseAgent {
         content: userMessage,
       });
 
-      logger.info(`🤖 ${this.config.role} calling GPT-5...`);
+      logger.info(
+        `🤖 ${this.config.role} calling ${this.config.model} via ${this.provider.type}...`
+      );
 
-      // GPT-5 API call with supported parameters only
-      // NO temperature, top_p, presence_penalty, frequency_penalty, logprobs
-      const response = await this.openai.chat.completions.create({
+      const request = {
+        agentRole: this.config.role,
         model: this.config.model,
-        messages: messages,
-        max_completion_tokens: this.config.maxCompletionTokens,
-        reasoning_effort: this.config.reasoningEffort,
-        response_format: { type: 'json_object' }, // Force JSON mode to fix empty response bug
-      });
+        messages,
+        maxCompletionTokens:
+          options.maxCompletionTokens || this.config.maxCompletionTokens,
+        reasoningEffort: this.config.reasoningEffort,
+        temperature: this.config.temperature,
+        jsonMode: true, // Force JSON mode to fix empty response bug
+      };
 
-      const content = response.choices[0].message.content || '';
+      const streamed = Boolean(options.stream && this.bus);
+      const response = await this.recordUsage(request, streamed, conversationId, () =>
+        streamed
+          ? this.streamCompletion(request, options.stream!.novelaId, conversationId)
+          : this.provider.complete(request)
+      );
+
+      const content = response.content;
 
       logger.info(
         `✅ ${this.config.role} received response (${content.length} chars)`
@@ -98,9 +155,9 @@ export abstract class BaseAgent {
       // Log full response if empty or very short
       if (content.length < 50) {
         logger.warn(`⚠️ Short/empty response from GPT-5:`);
-        logger.warn(`Response object: ${JSON.stringify(response, null, 2)}`);
+        logger.warn(`Response object: ${JSON.stringify(response.raw ?? response, null, 2)}`);
         logger.warn(`Content: "${content}"`);
-        logger.warn(`Finish reason: ${response.choices[0].finish_reason}`);
+        logger.warn(`Finish reason: ${response.finishReason}`);
       }
 
       return content;
@@ -111,6 +168,162 @@ export abstract class BaseAgent {
     }
   }
 
+  /**
+   * Run a provider call and record its token usage, latency and cost
+   * (agent_usage), including failed calls
+   */
+  private async recordUsage(
+    request: LLMCompletionRequest,
+    streamed: boolean,
+    conversationId: string | undefined,
+    call: () => Promise<LLMCompletionResult>
+  ): Promise<LLMCompletionResult> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await call();
+
+      await recordLLMCall({
+        agentRole: this.config.role,
+        provider: this.provider.type,
+        model: response.model || request.model,
+        usage: response.usage,
+        latencyMs: Date.now() - startedAt,
+        streamed,
+        conversationId,
+      });
+
+      return response;
+    } catch (error: any) {
+      await recordLLMCall({
+        agentRole: this.config.role,
+        provider: this.provider.type,
+        model: request.model,
+        latencyMs: Date.now() - startedAt,
+        streamed,
+        conversationId,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a completion through the communication bus. Partial tokens are
+   * emitted as agent:stream events and the consolidated response is
+   * persisted as a single AgentMessage once the stream ends.
+   */
+  private async streamCompletion(
+    request: LLMCompletionRequest,
+    novelaId: string,
+    conversationId?: string
+  ): Promise<LLMCompletionResult> {
+    const bus = this.bus!;
+    const stream = bus.startStream(
+      novelaId,
+      this.config.role,
+      conversationId || uuidv4()
+    );
+    let index = 0;
+
+    try {
+      const response = await this.provider.completeStream(request, (delta) =>
+        bus.streamDelta(stream, delta, index++)
+      );
+
+      await bus.completeStream(stream, response.content, {
+        model: response.model,
+        finishReason: response.finishReason,
+        chunks: index,
+      });
+
+      return response;
+    } catch (error: any) {
+      bus.failStream(stream, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Call GPT-5 and validate the JSON response against a schema.
+   *
+   * Malformed or incomplete responses are sent back to the model together
+   * with the validation errors. Throws StructuredOutputError once every
+   * retry has been used.
+   */
+  protected async callStructured<T extends z.ZodType>(
+    userMessage: string,
+    schema: T,
+    conversationId?: string,
+    options: StructuredCallOptions = {}
+  ): Promise<z.infer<T>> {
+    const maxRetries = options.maxRetries ?? 2;
+    let prompt = userMessage;
+    let issues: string[] = [];
+    let response = '';
+
+    for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+      response = await this.callGPT5(prompt, conversationId, options);
+
+      const parsed = this.parseJSON(response);
+
+      if (parsed.ok) {
+        const result = schema.safeParse(parsed.value);
+
+        if (result.success) {
+          if (attempt > 1) {
+            logger.info(
+              `✅ ${this.config.role} returned valid output on attempt ${attempt}`
+            );
+          }
+          return result.data;
+        }
+
+        issues = zodIssues(result.error);
+      } else {
+        issues = [`Response is not valid JSON: ${parsed.error}`];
+      }
+
+      logger.warn(
+        `⚠️ ${this.config.role} output rejected (attempt ${attempt}/${maxRetries + 1}): ${issues.join('; ')}`
+      );
+
+      prompt =
+        `${userMessage}\n\n` +
+        `YOUR PREVIOUS RESPONSE WAS REJECTED:\n` +
+        issues.map((issue) => `- ${issue}`).join('\n') +
+        `\n\nReturn the complete JSON object again, fixing every problem listed above.`;
+    }
+
+    throw new StructuredOutputError(
+      this.config.role,
+      issues,
+      maxRetries + 1,
+      response
+    );
+  }
+
+  /**
+   * Parse a model response as JSON, accepting markdown code fences
+   */
+  private parseJSON(
+    response: string
+  ): { ok: true; value: unknown } | { ok: false; error: string } {
+    try {
+      return { ok: true, value: JSON.parse(response) };
+    } catch (error: any) {
+      const jsonMatch = response.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+      if (jsonMatch) {
+        try {
+          return { ok: true, value: JSON.parse(jsonMatch[1]) };
+        } catch (fencedError: any) {
+          return { ok: false, error: fencedError.message };
+        }
+      }
+      return { ok: false, error: error.message };
+    }
+  }
+
   /**
    * Send a message to another agent or broadcast
    */
@@ -122,24 +335,259 @@ export abstract class BaseAgent {
     priority: MessagePriority = MessagePriority.MEDIUM,
     metadata?: Record<string, any>
   ): Promise<AgentMessage> {
-    const message: AgentMessage = {
+    const message = this.buildMessage(
+      novelaId,
+      content,
+      toAgent ? MessageType.REQUEST : MessageType.BROADCAST,
+      toAgent,
+      conversationId,
+      priority,
+      metadata
+    );
+
+    await this.deliverMessage(message);
+
+    return message;
+  }
+
+  /**
+   * Ask the Fallback Handler to analyse a failure. Skipped inside
+   * RetryOrchestrator.run, which analyses failures itself.
+   */
+  protected async requestFallback(
+    novelaId: string,
+    content: string,
+    priority: MessagePriority,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    if (isInRecovery()) return;
+
+    await this.sendMessage(novelaId, content, AgentRole.FALLBACK_HANDLER, novelaId, priority, metadata);
+  }
+
+  /**
+   * Entry point for messages delivered by the communication bus.
+   * REQUESTs addressed to this agent are answered with a RESPONSE on the
+   * same conversation; everything else is recorded in the history.
+   */
+  async handleMessage(message: AgentMessage): Promise<void> {
+    logger.info(
+      `📨 ${this.config.role} received ${message.type} from ${message.fromAgent}: ${message.id}`
+    );
+
+    if (message.toAgent === this.config.role) {
+      this.recordMessage(message);
+    }
+
+    if (
+      message.type !== MessageType.REQUEST ||
+      message.toAgent !== this.config.role
+    ) {
+      return;
+    }
+
+    let reply: AgentReply | null;
+
+    try {
+      reply = await this.handleRequest(message);
+    } catch (error: any) {
+      logger.error(`❌ ${this.config.role} failed to handle request ${message.id}:`, error.message);
+      reply = {
+        content: `${this.config.role} could not handle request: ${error.message}`,
+        metadata: { error: error.message },
+      };
+    }
+
+    if (reply) {
+      await this.respond(message, reply);
+    }
+  }
+
+  /**
+   * React to a REQUEST addressed to this agent. Return null to leave it
+   * unanswered (default for agents without bus-driven behaviour).
+   */
+  protected async handleRequest(_message: AgentMessage): Promise<AgentReply | null> {
+    return null;
+  }
+
+  /**
+   * Publish a RESPONSE to a request, correlated by conversationId
+   */
+  protected async respond(
+    request: AgentMessage,
+    reply: AgentReply
+  ): Promise<AgentMessage> {
+    const message = this.buildMessage(
+      request.novelaId,
+      reply.content,
+      MessageType.RESPONSE,
+      request.fromAgent,
+      request.conversationId,
+      reply.priority || request.priority,
+      { ...reply.metadata, inReplyTo: request.id }
+    );
+
+    await this.deliverMessage(message);
+
+    return message;
+  }
+
+  private buildMessage(
+    novelaId: string,
+    content: string,
+    type: MessageType,
+    toAgent: AgentRole | undefined,
+    conversationId: string | undefined,
+    priority: MessagePriority,
+    metadata?: Record<string, any>
+  ): AgentMessage {
+    return {
       id: uuidv4(),
       novelaId,
       fromAgent: this.config.role,
       toAgent,
-      type: toAgent ? MessageType.REQUEST : MessageType.BROADCAST,
+      type,
       priority,
       content,
       metadata,
       timestamp: new Date(),
       conversationId: conversationId || uuidv4(),
     };
+  }
+
+  /**
+   * Add a message to a cached conversation. Conversations that are not
+   * cached are loaded from agent_messages (where it is persisted) later.
+   */
+  private recordMessage(message: AgentMessage): void {
+    const history = this.conversationHistory.get(message.conversationId);
+
+    if (history && !history.some((existing) => existing.id === message.id)) {
+      history.push(message);
+    }
+  }
+
+  /**
+   * Get a conversation's history, loading it from the database on first use
+   */
+  protected async loadConversationHistory(conversationId: string): Promise<AgentMessage[]> {
+    const cached = this.conversationHistory.get(conversationId);
+    if (cached) {
+      return cached;
+    }
+
+    let history: AgentMessage[] = [];
+    try {
+      history = await loadConversationMessages(conversationId, this.config.role);
+    } catch (error: any) {
+      logger.warn(`⚠️ ${this.config.role} could not load conversation ${conversationId}: ${error.message}`);
+    }
+
+    this.conversationHistory.set(conversationId, history);
 
-    // Store in conversation history
-    if (!this.conversationHistory.has(message.conversationId)) {
-      this.conversationHistory.set(message.conversationId, []);
+    // Evict the least recently loaded conversations
+    while (this.conversationHistory.size > MAX_CACHED_CONVERSATIONS) {
+      const oldest = this.conversationHistory.keys().next().value!;
+      this.conversationHistory.delete(oldest);
+      this.historySummaries.delete(oldest);
+    }
+
+    return history;
+  }
+
+  /**
+   * History messages for the model: recent turns verbatim within the
+   * token budget, older turns replaced by a summary
+   */
+  private async buildHistoryMessages(conversationId: string): Promise<LLMChatMessage[]> {
+    const history = await this.loadConversationHistory(conversationId);
+    const budget = this.config.historyTokenBudget || DEFAULT_HISTORY_TOKEN_BUDGET;
+    const { older, recent } = splitHistoryWindow(history, budget);
+    const messages: LLMChatMessage[] = [];
+
+    if (older.length > 0) {
+      const summary = await this.summarizeHistory(conversationId, older, summaryTokenBudget(budget));
+      messages.push({
+        role: 'system',
+        content: `Summary of ${older.length} earlier messages in this conversation:\n${summary}`,
+      });
+    }
+
+    recent.forEach((msg) => {
+      messages.push({
+        role: msg.fromAgent === this.config.role ? 'assistant' : 'user',
+        content: msg.content,
+      });
+    });
+
+    return messages;
+  }
+
+  /**
+   * Summarize older turns, extending the previous summary when the window
+   * moved. Falls back to an extractive summary if the model call fails.
+   */
+  private async summarizeHistory(
+    conversationId: string,
+    older: AgentMessage[],
+    budgetTokens: number
+  ): Promise<string> {
+    const cached = this.historySummaries.get(conversationId);
+
+    if (cached && cached.covered === older.length) {
+      return cached.text;
+    }
+
+    const extending = cached && cached.covered < older.length;
+    const transcript = formatTranscript(extending ? older.slice(cached!.covered) : older);
+
+    let text: string;
+    try {
+      const request: LLMCompletionRequest = {
+        agentRole: this.config.role,
+        model: this.config.model,
+        messages: [
+          { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: extending
+              ? `Previous summary:\n${cached!.text}\n\nNew turns:\n${transcript}\n\nUpdated summary (max ${budgetTokens} tokens):`
+              : `Turns:\n${transcript}\n\nSummary (max ${budgetTokens} tokens):`,
+          },
+        ],
+        maxCompletionTokens: budgetTokens * 2, // Headroom for reasoning tokens
+        reasoningEffort: this.config.reasoningEffort ? 'minimal' : undefined,
+        temperature: this.config.temperature,
+      };
+
+      const response = await this.recordUsage(request, false, conversationId, () =>
+        this.provider.complete(request)
+      );
+
+      text = response.content.trim() || extractiveSummary(older, budgetTokens);
+    } catch (error: any) {
+      logger.warn(`⚠️ ${this.config.role} history summary failed (${error.message}), using extractive summary`);
+      text = extractiveSummary(older, budgetTokens);
+    }
+
+    this.historySummaries.set(conversationId, { covered: older.length, text });
+    logger.info(`🗜️ ${this.config.role} summarized ${older.length} earlier messages of ${conversationId}`);
+
+    return text;
+  }
+
+  /**
+   * Publish through the bus (which persists and dispatches), or persist
+   * directly when the agent runs standalone
+   */
+  private async deliverMessage(message: AgentMessage): Promise<void> {
+    this.recordMessage(message);
+
+    if (this.bus) {
+      await this.bus.publish(message);
+      return;
     }
-    this.conversationHistory.get(message.conversationId)!.push(message);
 
     // Validate novelaId exists before persisting
     const validatedNovelaId = await this.validateNovelaId(message.novelaId);
@@ -161,10 +609,8 @@ export abstract class BaseAgent {
     });
 
     logger.info(
-      `📨 ${this.config.role} sent message to ${toAgent || 'ALL'}: ${message.id}${validatedNovelaId ? ` (novela: ${validatedNovelaId})` : ' (no novela)'}`
+      `📨 ${this.config.role} sent message to ${message.toAgent || 'ALL'}: ${message.id}${validatedNovelaId ? ` (novela: ${validatedNovelaId})` : ' (no novela)'}`
     );
-
-    return message;
   }
 
   /**
@@ -186,15 +632,17 @@ export abstract class BaseAgent {
   /**
    * Get conversation history for a specific conversation
    */
-  getConversationHistory(conversationId: string): AgentMessage[] {
-    return this.conversationHistory.get(conversationId) || [];
+  async getConversationHistory(conversationId: string): Promise<AgentMessage[]> {
+    return this.loadConversationHistory(conversationId);
   }
 
   /**
-   * Clear conversation history
+   * Clear conversation history for this process (persisted messages are
+   * kept, but no longer sent as context until the cache is evicted)
    */
   clearConversationHistory(conversationId: string): void {
-    this.conversationHistory.delete(conversationId);
+    this.conversationHistory.set(conversationId, []);
+    this.historySummaries.delete(conversationId);
     logger.info(`🗑️ Cleared conversation history: ${conversationId}`);
   }
 
@@ -205,6 +653,28 @@ export abstract class BaseAgent {
     return this.config.role;
   }
 
+  /**
+   * Get the LLM provider used by this agent
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Replace the LLM provider (e.g. inject a MockProvider in tests)
+   */
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+    logger.info(`🔌 ${this.config.role} now using provider: ${provider.type}`);
+  }
+
+  /**
+   * Attach the communication bus used for streaming
+   */
+  attachBus(bus: CommunicationBus): void {
+    this.bus = bus;
+  }
+
   /**
    * Get agent configuration
    */
@@ -212,6 +682,117 @@ export abstract class BaseAgent {
     return { ...this.config };
   }
 
+  /**
+   * BRAND VOICE block for copy prompts (empty without a profile)
+   */
+  protected buildBrandVoiceBlock(brandVoice?: BrandVoiceContext): string {
+    if (!brandVoice) return '';
+
+    const formality: Record<BrandVoiceContext['formality'], string> = {
+      casual: 'casual - relaxed, conversational, contractions and everyday expressions',
+      neutral: 'neutral - friendly but professional',
+      formal: 'formal - polished and respectful, no slang',
+    };
+    const readingLevel: Record<BrandVoiceContext['readingLevel'], string> = {
+      simple: 'simple - short sentences (~12 words), everyday words, no jargon',
+      standard: 'standard - sentences of ~18 words, plain language',
+      advanced: 'advanced - longer sentences allowed, technical terms where the audience expects them',
+    };
+
+    let block = `BRAND VOICE (${brandVoice.name}) - follow it strictly:\n`;
+    block += `Formality: ${formality[brandVoice.formality]}\n`;
+    block += `Reading level: ${readingLevel[brandVoice.readingLevel]}\n`;
+    if (brandVoice.pronounStyle) {
+      block += `Pronouns / form of address: ${brandVoice.pronounStyle}\n`;
+    }
+    if (brandVoice.useVocabulary.length) {
+      block += `Use these words and phrases: ${brandVoice.useVocabulary.join(', ')}\n`;
+    }
+    if (brandVoice.avoidVocabulary.length) {
+      block += `Never use: ${brandVoice.avoidVocabulary.join(', ')}\n`;
+    }
+    if (brandVoice.forbiddenClaims.length) {
+      block += `Never claim or imply: ${brandVoice.forbiddenClaims.join('; ')}\n`;
+    }
+    if (brandVoice.sampleCopy.length) {
+      block += `Approved sample copy (match this voice, do not copy it):\n`;
+      block += brandVoice.sampleCopy.map((sample) => `"""${sample}"""`).join('\n');
+      block += `\n`;
+    }
+
+    return `${block}\n`;
+  }
+
+  /**
+   * CONTINUITY BIBLE block for visual prompts (empty without a bible).
+   * With tagUnit the model has to tag every clip/scene with the ids of the
+   * entries it shows.
+   */
+  protected buildContinuityBlock(continuity: ContinuityBibleContext | undefined, tagUnit?: string): string {
+    if (!continuity) return '';
+
+    let block = `CONTINUITY BIBLE - every visual must match it exactly (same faces, hair, age, clothes, places and colours):\n`;
+    if (continuity.characters.length) {
+      block += `Characters:\n`;
+      block += continuity.characters.map((c) => `- [${c.id}] ${c.name}: ${c.appearance}`).join('\n');
+      block += `\n`;
+    }
+    if (continuity.locations.length) {
+      block += `Locations:\n`;
+      block += continuity.locations.map((l) => `- [${l.id}] ${l.name}: ${l.description}`).join('\n');
+      block += `\n`;
+    }
+    if (continuity.wardrobe.length) {
+      block += `Wardrobe:\n`;
+      block += continuity.wardrobe
+        .map((w) => `- [${w.id}] ${w.name}${w.characterId ? ` (worn by ${w.characterId})` : ''}: ${w.description}`)
+        .join('\n');
+      block += `\n`;
+    }
+    if (continuity.palette.length) {
+      block += `Colour palette: ${continuity.palette.map((color) => `${color.name} ${color.hex}`).join(', ')}\n`;
+    }
+    if (continuity.notes) {
+      block += `Notes: ${continuity.notes}\n`;
+    }
+    if (tagUnit) {
+      block += `Describe recurring characters, locations and wardrobe only as the bible does; do not invent new recurring characters.\n`;
+      block += `For each ${tagUnit} return "continuity": {"characterIds": [...], "locationId": "..." or null, "wardrobeIds": [...]} with the bracketed ids of the entries it shows.\n`;
+    }
+
+    return `${block}\n`;
+  }
+
+  /**
+   * Drop ids the bible doesn't have from a model's continuity tags
+   */
+  protected resolveContinuityRefs(
+    refs: ContinuityRefs | undefined,
+    continuity: ContinuityBibleContext | undefined
+  ): ContinuityRefs | undefined {
+    if (!continuity) return undefined;
+
+    const known = (ids: string[], entries: Array<{ id: string }>) =>
+      [...new Set(ids)].filter((id) => entries.some((entry) => entry.id === id));
+    const resolved: ContinuityRefs = {
+      characterIds: known(refs?.characterIds ?? [], continuity.characters),
+      locationId:
+        refs?.locationId && continuity.locations.some((l) => l.id === refs.locationId)
+          ? refs.locationId
+          : null,
+      wardrobeIds: known(refs?.wardrobeIds ?? [], continuity.wardrobe),
+    };
+
+    const dropped =
+      (refs?.characterIds.length ?? 0) + (refs?.wardrobeIds.length ?? 0) + (refs?.locationId ? 1 : 0) -
+      (resolved.characterIds.length + resolved.wardrobeIds.length + (resolved.locationId ? 1 : 0));
+    if (dropped > 0) {
+      logger.warn(`⚠️ ${this.config.role} dropped ${dropped} unknown continuity id(s)`, { refs });
+    }
+
+    return resolved;
+  }
+
   /**
    * Helper to create standardized error response
    */
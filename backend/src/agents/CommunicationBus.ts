@@ -6,28 +6,61 @@
  *
  * Features:
  * - Message routing between agents
- * - Priority-based message queuing
+ * - Priority-ordered dispatch (URGENT → LOW) to subscribed agent handlers;
+ *   each agent handles one message at a time, without blocking the others
+ * - Request/response correlation by conversationId
  * - Real-time frontend updates via Socket.IO
- * - Conversation context tracking
+ * - Streaming of partial agent responses (agent:stream)
+ * - Conversation context tracking (reloaded from agent_messages on demand)
  * - Message persistence to database
  */
 
 import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
 import { Server as SocketIOServer } from 'socket.io';
 import { logger } from '../utils/logger.js';
 import { prisma } from '../config/database.js';
 import {
   AgentRole,
   AgentMessage,
+  AgentMessageHandler,
+  AgentStream,
   MessageType,
   MessagePriority,
   ConversationContext,
 } from './types.js';
+import { loadConversationMessages } from './conversationMemory.js';
+
+const DISPATCH_ORDER: MessagePriority[] = [
+  MessagePriority.URGENT,
+  MessagePriority.HIGH,
+  MessagePriority.MEDIUM,
+  MessagePriority.LOW,
+];
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+
+// A queued message for one recipient (broadcasts fan out to every agent)
+interface Delivery {
+  message: AgentMessage;
+  recipient: AgentRole;
+}
+
+interface PendingRequest {
+  request: AgentMessage;
+  resolve: (response: AgentMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
 
 export class CommunicationBus extends EventEmitter {
   private io: SocketIOServer;
   private conversations: Map<string, ConversationContext> = new Map();
-  private messageQueue: Map<MessagePriority, AgentMessage[]> = new Map();
+  private hydratedConversations: Set<string> = new Set(); // Loaded from the database
+  private messageQueue: Map<MessagePriority, Delivery[]> = new Map();
+  private handlers: Map<AgentRole, AgentMessageHandler> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map(); // By request message id
+  private busyRecipients: Set<AgentRole> = new Set(); // Handling a message
 
   constructor(io: SocketIOServer) {
     super();
@@ -51,9 +84,6 @@ export class CommunicationBus extends EventEmitter {
         `📨 Message published: ${message.fromAgent} → ${message.toAgent || 'ALL'} [${message.priority}]`
       );
 
-      // Add to priority queue
-      this.messageQueue.get(message.priority)!.push(message);
-
       // Update conversation context
       this.updateConversation(message);
 
@@ -63,14 +93,15 @@ export class CommunicationBus extends EventEmitter {
       // Broadcast to Socket.IO frontend
       this.broadcastToFrontend(message);
 
-      // Emit event for agent listeners
-      if (message.toAgent) {
-        // Direct message to specific agent
-        this.emit(`message:${message.toAgent}`, message);
-      } else {
-        // Broadcast to all agents
-        this.emit('message:broadcast', message);
+      // Resolve a pending request() waiting for this response
+      if (message.type === MessageType.RESPONSE) {
+        this.resolvePendingRequest(message);
       }
+
+      // Add to priority queue - drained asynchronously so publishers never
+      // wait for the receiving agent to finish handling the message
+      this.enqueue(message);
+      setImmediate(() => this.dispatch());
     } catch (error: any) {
       logger.error(`❌ Failed to publish message:`, error.message);
       throw error;
@@ -78,23 +109,246 @@ export class CommunicationBus extends EventEmitter {
   }
 
   /**
-   * Subscribe an agent to receive messages
+   * Publish a REQUEST and wait for the RESPONSE from the target agent.
+   * Responses are matched by metadata.inReplyTo, falling back to the
+   * conversationId and responding agent.
+   */
+  async request(
+    message: AgentMessage,
+    timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+  ): Promise<AgentMessage> {
+    if (!message.toAgent) {
+      throw new Error('request() needs a target agent (toAgent)');
+    }
+
+    const response = new Promise<AgentMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.id);
+        reject(
+          new Error(`No response from ${message.toAgent} within ${timeoutMs}ms`)
+        );
+      }, timeoutMs);
+
+      this.pendingRequests.set(message.id, {
+        request: message,
+        resolve,
+        reject,
+        timer,
+      });
+    });
+
+    try {
+      await this.publish(message);
+    } catch (error) {
+      const pending = this.pendingRequests.get(message.id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(message.id);
+      }
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * Queue a message for its recipient (or every other agent for broadcasts)
+   */
+  private enqueue(message: AgentMessage): void {
+    const recipients = message.toAgent
+      ? [message.toAgent]
+      : Array.from(this.handlers.keys()).filter(
+          (role) => role !== message.fromAgent // Don't send broadcast back to sender
+        );
+
+    for (const recipient of recipients) {
+      if (!this.handlers.has(recipient)) {
+        logger.warn(`⚠️ No handler subscribed for ${recipient}, message ${message.id} dropped`);
+        continue;
+      }
+      this.messageQueue.get(message.priority)!.push({ message, recipient });
+    }
+
+    // Emit event for external listeners
+    this.emit(message.toAgent ? `message:${message.toAgent}` : 'message:broadcast', message);
+  }
+
+  /**
+   * Start handlers for queued messages, highest priority first. An agent
+   * handles one message at a time; its next message waits in the queue
+   * while the other agents keep receiving theirs, so an agent waiting on
+   * another agent's response never blocks that response.
    */
-  subscribe(
-    agentRole: AgentRole,
-    handler: (message: AgentMessage) => void
-  ): void {
-    // Subscribe to direct messages
-    this.on(`message:${agentRole}`, handler);
-
-    // Subscribe to broadcasts
-    this.on('message:broadcast', (message: AgentMessage) => {
-      // Don't send broadcast back to sender
-      if (message.fromAgent !== agentRole) {
-        handler(message);
+  private dispatch(): void {
+    let delivery = this.nextQueuedDelivery();
+
+    while (delivery) {
+      this.busyRecipients.add(delivery.recipient);
+      void this.deliver(delivery);
+      delivery = this.nextQueuedDelivery();
+    }
+  }
+
+  private nextQueuedDelivery(): Delivery | undefined {
+    for (const priority of DISPATCH_ORDER) {
+      const queue = this.messageQueue.get(priority)!;
+      const index = queue.findIndex((delivery) => !this.busyRecipients.has(delivery.recipient));
+      if (index !== -1) {
+        return queue.splice(index, 1)[0];
       }
+    }
+    return undefined;
+  }
+
+  /**
+   * Hand a message to its recipient, then dispatch the recipient's next one
+   */
+  private async deliver({ message, recipient }: Delivery): Promise<void> {
+    try {
+      const handler = this.handlers.get(recipient);
+
+      if (!handler) {
+        logger.warn(`⚠️ ${recipient} unsubscribed, message ${message.id} dropped`);
+        return;
+      }
+
+      await handler(message);
+    } catch (error: any) {
+      logger.error(`❌ ${recipient} failed to handle message ${message.id}:`, error.message);
+    } finally {
+      this.busyRecipients.delete(recipient);
+      this.dispatch();
+    }
+  }
+
+  private resolvePendingRequest(response: AgentMessage): void {
+    const inReplyTo = response.metadata?.inReplyTo;
+    let pending = inReplyTo ? this.pendingRequests.get(inReplyTo) : undefined;
+
+    if (!pending) {
+      pending = Array.from(this.pendingRequests.values()).find(
+        (candidate) =>
+          candidate.request.conversationId === response.conversationId &&
+          candidate.request.toAgent === response.fromAgent
+      );
+    }
+
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(pending.request.id);
+    pending.resolve(response);
+  }
+
+  /**
+   * Open a stream for a completion that is about to start
+   */
+  startStream(
+    novelaId: string,
+    fromAgent: AgentRole,
+    conversationId: string
+  ): AgentStream {
+    const stream: AgentStream = {
+      streamId: uuidv4(),
+      novelaId,
+      fromAgent,
+      conversationId,
+      startedAt: new Date(),
+    };
+
+    this.emitToRoom(novelaId, 'agent:stream', {
+      streamId: stream.streamId,
+      fromAgent,
+      conversationId,
+      status: 'started',
+      timestamp: stream.startedAt,
+    });
+
+    logger.info(`📡 Stream started: ${fromAgent} → novela:${novelaId} (${stream.streamId})`);
+
+    return stream;
+  }
+
+  /**
+   * Forward a partial token chunk to the frontend
+   */
+  streamDelta(stream: AgentStream, delta: string, index: number): void {
+    this.emitToRoom(stream.novelaId, 'agent:stream', {
+      streamId: stream.streamId,
+      fromAgent: stream.fromAgent,
+      conversationId: stream.conversationId,
+      status: 'streaming',
+      index,
+      delta,
+    });
+  }
+
+  /**
+   * Close a stream and persist the consolidated response as an AgentMessage
+   */
+  async completeStream(
+    stream: AgentStream,
+    content: string,
+    metadata?: Record<string, any>
+  ): Promise<AgentMessage> {
+    const message: AgentMessage = {
+      id: uuidv4(),
+      novelaId: stream.novelaId,
+      fromAgent: stream.fromAgent,
+      type: MessageType.RESPONSE,
+      priority: MessagePriority.LOW,
+      content,
+      metadata: {
+        ...metadata,
+        streamId: stream.streamId,
+        streamDurationMs: Date.now() - stream.startedAt.getTime(),
+      },
+      timestamp: new Date(),
+      conversationId: stream.conversationId,
+    };
+
+    this.updateConversation(message);
+    await this.persistMessage(message);
+
+    this.emitToRoom(stream.novelaId, 'agent:stream', {
+      streamId: stream.streamId,
+      fromAgent: stream.fromAgent,
+      conversationId: stream.conversationId,
+      status: 'completed',
+      messageId: message.id,
+      content,
+      timestamp: message.timestamp,
     });
 
+    logger.info(`📡 Stream completed: ${stream.streamId} (${content.length} chars)`);
+
+    return message;
+  }
+
+  /**
+   * Close a stream that ended with an error
+   */
+  failStream(stream: AgentStream, error: string): void {
+    this.emitToRoom(stream.novelaId, 'agent:stream', {
+      streamId: stream.streamId,
+      fromAgent: stream.fromAgent,
+      conversationId: stream.conversationId,
+      status: 'failed',
+      error,
+      timestamp: new Date(),
+    });
+
+    logger.warn(`📡 Stream failed: ${stream.streamId}: ${error}`);
+  }
+
+  /**
+   * Subscribe an agent to receive messages
+   */
+  subscribe(agentRole: AgentRole, handler: AgentMessageHandler): void {
+    // One handler per role receives direct messages and broadcasts
+    this.handlers.set(agentRole, handler);
     logger.info(`✅ Agent subscribed: ${agentRole}`);
   }
 
@@ -102,14 +356,44 @@ export class CommunicationBus extends EventEmitter {
    * Unsubscribe an agent from messages
    */
   unsubscribe(agentRole: AgentRole): void {
+    this.handlers.delete(agentRole);
     this.removeAllListeners(`message:${agentRole}`);
+
+    // Fail requests that can no longer be answered
+    for (const pending of Array.from(this.pendingRequests.values())) {
+      if (pending.request.toAgent === agentRole) {
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(pending.request.id);
+        pending.reject(new Error(`${agentRole} unsubscribed before responding`));
+      }
+    }
+
     logger.info(`❌ Agent unsubscribed: ${agentRole}`);
   }
 
   /**
-   * Get conversation context
+   * Get conversation context. Conversations started before a restart or
+   * in another process are loaded from the database on first access.
    */
-  getConversation(conversationId: string): ConversationContext | undefined {
+  async getConversation(conversationId: string): Promise<ConversationContext | undefined> {
+    if (!this.hydratedConversations.has(conversationId)) {
+      const messages = await this.getConversationMessages(conversationId);
+
+      if (messages.length > 0) {
+        const last = messages[messages.length - 1];
+
+        this.conversations.set(conversationId, {
+          conversationId,
+          novelaId: this.conversations.get(conversationId)?.novelaId || messages[0].novelaId,
+          messages,
+          currentAgent: last.fromAgent,
+          startedAt: messages[0].timestamp,
+          lastActivityAt: last.timestamp,
+        });
+        this.hydratedConversations.add(conversationId);
+      }
+    }
+
     return this.conversations.get(conversationId);
   }
 
@@ -119,30 +403,15 @@ export class CommunicationBus extends EventEmitter {
   async getConversationMessages(
     conversationId: string
   ): Promise<AgentMessage[]> {
-    const messages = await prisma.agentMessage.findMany({
-      where: { conversationId },
-      orderBy: { timestamp: 'asc' },
-    });
-
-    return messages.map((msg) => ({
-      id: msg.id,
-      novelaId: msg.novelaId,
-      fromAgent: msg.fromAgent as AgentRole,
-      toAgent: msg.toAgent as AgentRole | undefined,
-      type: msg.type as MessageType,
-      priority: msg.priority as MessagePriority,
-      content: msg.content,
-      metadata: msg.metadata as Record<string, any>,
-      timestamp: msg.timestamp,
-      conversationId: msg.conversationId,
-    }));
+    return loadConversationMessages(conversationId);
   }
 
   /**
    * Get messages by priority
    */
   getMessagesByPriority(priority: MessagePriority): AgentMessage[] {
-    return this.messageQueue.get(priority) || [];
+    const messages = (this.messageQueue.get(priority) || []).map((delivery) => delivery.message);
+    return messages.filter((message, index) => messages.indexOf(message) === index);
   }
 
   /**
@@ -160,6 +429,7 @@ export class CommunicationBus extends EventEmitter {
     let conversation = this.conversations.get(message.conversationId);
 
     if (!conversation) {
+      // Not loaded yet: getConversation() hydrates it from the database
       conversation = {
         conversationId: message.conversationId,
         novelaId: message.novelaId,
@@ -171,7 +441,9 @@ export class CommunicationBus extends EventEmitter {
       this.conversations.set(message.conversationId, conversation);
     }
 
-    conversation.messages.push(message);
+    if (!conversation.messages.some((existing) => existing.id === message.id)) {
+      conversation.messages.push(message);
+    }
     conversation.currentAgent = message.fromAgent;
     conversation.lastActivityAt = new Date();
   }
@@ -184,7 +456,7 @@ export class CommunicationBus extends EventEmitter {
       await prisma.agentMessage.create({
         data: {
           id: message.id,
-          novelaId: message.novelaId,
+          novelaId: await this.resolveNovelaId(message.novelaId), // VSL agents pass project ids
           fromAgent: message.fromAgent,
           toAgent: message.toAgent,
           type: message.type,
@@ -201,6 +473,37 @@ export class CommunicationBus extends EventEmitter {
     }
   }
 
+  /**
+   * Return novelaId if it references an existing novela, null otherwise
+   */
+  private async resolveNovelaId(novelaId: string): Promise<string | null> {
+    try {
+      const novela = await prisma.novela.findUnique({
+        where: { id: novelaId },
+        select: { id: true },
+      });
+      return novela ? novelaId : null;
+    } catch (error) {
+      logger.warn(`⚠️ Could not validate novelaId ${novelaId}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Emit an event to a novela/project room (no-op without Socket.IO)
+   */
+  private emitToRoom(novelaId: string, event: string, payload: Record<string, any>): void {
+    if (!this.io) {
+      return;
+    }
+
+    try {
+      this.io.to(`novela:${novelaId}`).emit(event, payload);
+    } catch (error: any) {
+      logger.error(`❌ Failed to emit ${event} to frontend:`, error.message);
+    }
+  }
+
   /**
    * Broadcast message to frontend via Socket.IO
    */
@@ -242,6 +545,7 @@ export class CommunicationBus extends EventEmitter {
     for (const [id, conversation] of this.conversations.entries()) {
       if (conversation.lastActivityAt < cutoffTime) {
         this.conversations.delete(id);
+        this.hydratedConversations.delete(id);
         cleaned++;
       }
     }
@@ -257,6 +561,7 @@ export class CommunicationBus extends EventEmitter {
   getStats(): {
     activeConversations: number;
     totalMessages: number;
+    pendingRequests: number;
     messagesByPriority: Record<MessagePriority, number>;
   } {
     return {
@@ -265,15 +570,12 @@ export class CommunicationBus extends EventEmitter {
         (total, conv) => total + conv.messages.length,
         0
       ),
+      pendingRequests: this.pendingRequests.size,
       messagesByPriority: {
-        [MessagePriority.URGENT]: this.messageQueue.get(MessagePriority.URGENT)!
-          .length,
-        [MessagePriority.HIGH]: this.messageQueue.get(MessagePriority.HIGH)!
-          .length,
-        [MessagePriority.MEDIUM]: this.messageQueue.get(MessagePriority.MEDIUM)!
-          .length,
-        [MessagePriority.LOW]: this.messageQueue.get(MessagePriority.LOW)!
-          .length,
+        [MessagePriority.URGENT]: this.getMessagesByPriority(MessagePriority.URGENT).length,
+        [MessagePriority.HIGH]: this.getMessagesByPriority(MessagePriority.HIGH).length,
+        [MessagePriority.MEDIUM]: this.getMessagesByPriority(MessagePriority.MEDIUM).length,
+        [MessagePriority.LOW]: this.getMessagesByPriority(MessagePriority.LOW).length,
       },
     };
   }
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackHandlerAgent } from './FallbackHandlerAgent.js';
+import { AgentRole } from './types.js';
+
+vi.mock('../config/database.js', () => ({
+  prisma: {
+    agentMessage: { findMany: vi.fn(async () => []), create: vi.fn(async () => ({})) },
+    agentUsage: { create: vi.fn(async () => ({})) },
+    novela: { findUnique: vi.fn(async () => null) },
+  },
+}));
+
+async function categorize(errorMessage: string) {
+  // Known patterns never reach the model; an empty mock response would fail validation
+  const agent = new FallbackHandlerAgent({ type: 'mock' });
+
+  const result = await agent.process({
+    novelaId: 'novela-1',
+    errorContext: {
+      failedAgent: AgentRole.VSL_SPECIALIST,
+      errorMessage,
+      attemptedAction: 'Generate section copy',
+    },
+  });
+
+  return result.data?.category;
+}
+
+describe('FallbackHandlerAgent error patterns', () => {
+  it.each([
+    "GPT-5 API error: This model's maximum context length is 128000 tokens. However, your messages resulted in 142900 tokens. Please reduce the length of the messages.",
+    'GPT-5 API error: 400 context_length_exceeded',
+    'Prompt is too long for this model',
+  ])('maps %j to Context Overflow', async (errorMessage) => {
+    expect(await categorize(errorMessage)).toBe('Context Overflow');
+  });
+
+  it('still maps rate limits to Rate Limit', async () => {
+    expect(await categorize('GPT-5 API error: 429 Too Many Requests')).toBe('Rate Limit');
+  });
+});
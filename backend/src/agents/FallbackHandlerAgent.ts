@@ -17,10 +17,14 @@ import { BaseAgent } from './BaseAgent.js';
 import {
   AgentRole,
   AgentConfig,
+  AgentMessage,
+  AgentReply,
   FallbackHandlerInput,
   FallbackHandlerOutput,
   MessagePriority,
 } from './types.js';
+import { LLMProviderConfig } from './providers/index.js';
+import { fallbackResolutionSchema, FallbackResolution } from './schemas.js';
 import { logger } from '../utils/logger.js';
 
 interface ErrorPattern {
@@ -33,9 +37,10 @@ interface ErrorPattern {
 export class FallbackHandlerAgent extends BaseAgent {
   private errorPatterns: ErrorPattern[] = [];
 
-  constructor() {
+  constructor(provider?: LLMProviderConfig) {
     const config: AgentConfig = {
       role: AgentRole.FALLBACK_HANDLER,
+      provider,
       model: process.env.OPENAI_MODEL || 'gpt-5',
       maxCompletionTokens: 1500, // Detailed problem solving
       reasoningEffort: 'medium', // Balanced analysis
@@ -116,6 +121,13 @@ Output format:
    */
   private initializeErrorPatterns(): void {
     this.errorPatterns = [
+      {
+        // First: token counts in the message ("... 142900 tokens") would match 429
+        pattern: /maximum context length|context_length_exceeded|prompt.*too long|context.*exceeded/i,
+        category: 'Context Overflow',
+        retryable: true,
+        resolutionStrategy: 'Reduce context size or split into smaller requests',
+      },
       {
         pattern: /rate limit|429|too many requests/i,
         category: 'Rate Limit',
@@ -130,7 +142,7 @@ Output format:
         resolutionStrategy: 'Retry with increased timeout (2x current)',
       },
       {
-        pattern: /JSON|parse|syntax/i,
+        pattern: /JSON|parse|syntax|structured output/i,
         category: 'JSON Parsing',
         retryable: true,
         resolutionStrategy:
@@ -142,12 +154,6 @@ Output format:
         retryable: false,
         resolutionStrategy: 'Check API keys in environment variables',
       },
-      {
-        pattern: /prompt.*too long|context.*exceeded/i,
-        category: 'Context Overflow',
-        retryable: true,
-        resolutionStrategy: 'Reduce context size or split into smaller requests',
-      },
       {
         pattern: /model.*not found|model.*unavailable/i,
         category: 'Model Unavailable',
@@ -172,90 +178,22 @@ Output format:
    */
   async process(input: FallbackHandlerInput): Promise<FallbackHandlerOutput> {
     try {
-      logger.info(
-        `🛟 Fallback Handler processing error from ${input.errorContext.failedAgent}`
-      );
-
-      // Check for known error patterns first
-      const knownPattern = this.matchErrorPattern(
-        input.errorContext.errorMessage
-      );
+      const analysis = await this.analyzeError(input);
 
-      if (knownPattern) {
-        logger.info(
-          `✅ Matched known error pattern: ${knownPattern.category}`
-        );
-
-        // Use known resolution strategy
-        const resolution = {
-          strategy: knownPattern.resolutionStrategy,
-          alternativeApproach: this.getAlternativeApproach(
-            input.errorContext.failedAgent
-          ),
-          requiresHumanIntervention: !knownPattern.retryable,
-          retryable: knownPattern.retryable,
-          recommendedAction: knownPattern.resolutionStrategy,
-          preventionSuggestion: 'Add input validation before API calls',
-        };
-
-        // Send resolution message
-        await this.sendMessage(
-          input.novelaId,
-          `Error resolved: ${knownPattern.category} - ${resolution.strategy}`,
-          input.errorContext.failedAgent, // Send back to failed agent
-          input.novelaId,
-          MessagePriority.HIGH,
-          {
-            errorCategory: knownPattern.category,
-            retryable: resolution.retryable,
-          }
-        );
-
-        return this.createSuccessResponse('Error resolution strategy found', {
-          resolution,
-        }) as FallbackHandlerOutput;
-      }
-
-      // Unknown error - use GPT-5 for analysis
-      logger.info(`🤖 Using GPT-5 for unknown error analysis`);
-
-      const userPrompt = this.buildFallbackPrompt(input);
-      const response = await this.callGPT5(userPrompt, input.novelaId);
-
-      // Parse JSON response
-      let resolution;
-      try {
-        resolution = JSON.parse(response);
-      } catch (parseError) {
-        // Fallback: Try to extract JSON from markdown
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          resolution = JSON.parse(jsonMatch[1]);
-        } else {
-          throw new Error('GPT-5 response is not valid JSON');
-        }
-      }
-
-      // Send resolution message
+      // Send resolution message back to failed agent
       await this.sendMessage(
         input.novelaId,
-        `Error analyzed: ${resolution.strategy}`,
+        analysis.summary,
         input.errorContext.failedAgent,
         input.novelaId,
-        resolution.requiresHumanIntervention
-          ? MessagePriority.URGENT
-          : MessagePriority.HIGH,
-        {
-          retryable: resolution.retryable,
-          humanInterventionNeeded: resolution.requiresHumanIntervention,
-        }
+        analysis.priority,
+        analysis.metadata
       );
 
-      logger.info(`✅ Error resolution strategy generated`);
-
-      return this.createSuccessResponse('Error analysis completed', {
-        resolution,
-        retryable: resolution.retryable,
+      return this.createSuccessResponse(analysis.message, {
+        resolution: analysis.resolution,
+        retryable: analysis.resolution.retryable,
+        category: analysis.category,
       }) as FallbackHandlerOutput;
     } catch (error: any) {
       logger.error(`❌ Fallback Handler error:`, error.message);
@@ -278,6 +216,110 @@ Output format:
     }
   }
 
+  /**
+   * Analyze errors other agents report over the communication bus and
+   * answer with the resolution (RESPONSE on the same conversation)
+   */
+  protected async handleRequest(message: AgentMessage): Promise<AgentReply> {
+    const { error, attemptedAction, ...metadata } = message.metadata || {};
+
+    const analysis = await this.analyzeError({
+      novelaId: message.novelaId,
+      errorContext: {
+        failedAgent: message.fromAgent,
+        errorMessage: error || message.content,
+        attemptedAction: attemptedAction || message.content,
+        metadata,
+      },
+    });
+
+    return {
+      content: analysis.summary,
+      priority: analysis.priority,
+      metadata: {
+        ...analysis.metadata,
+        resolution: analysis.resolution,
+      },
+    };
+  }
+
+  /**
+   * Build a resolution from known patterns, or GPT-5 for unknown errors
+   */
+  private async analyzeError(input: FallbackHandlerInput): Promise<{
+    resolution: FallbackResolution;
+    category: string | null; // Known pattern category, null for GPT-5 analysis
+    summary: string;
+    message: string;
+    priority: MessagePriority;
+    metadata: Record<string, any>;
+  }> {
+    logger.info(
+      `🛟 Fallback Handler processing error from ${input.errorContext.failedAgent}`
+    );
+
+    // Check for known error patterns first
+    const knownPattern = this.matchErrorPattern(
+      input.errorContext.errorMessage
+    );
+
+    if (knownPattern) {
+      logger.info(
+        `✅ Matched known error pattern: ${knownPattern.category}`
+      );
+
+      // Use known resolution strategy
+      const resolution: FallbackResolution = {
+        strategy: knownPattern.resolutionStrategy,
+        alternativeApproach: this.getAlternativeApproach(
+          input.errorContext.failedAgent
+        ),
+        requiresHumanIntervention: !knownPattern.retryable,
+        retryable: knownPattern.retryable,
+        recommendedAction: knownPattern.resolutionStrategy,
+        preventionSuggestion: 'Add input validation before API calls',
+      };
+
+      return {
+        resolution,
+        category: knownPattern.category,
+        summary: `Error resolved: ${knownPattern.category} - ${resolution.strategy}`,
+        message: 'Error resolution strategy found',
+        priority: MessagePriority.HIGH,
+        metadata: {
+          errorCategory: knownPattern.category,
+          retryable: resolution.retryable,
+        },
+      };
+    }
+
+    // Unknown error - use GPT-5 for analysis
+    logger.info(`🤖 Using GPT-5 for unknown error analysis`);
+
+    const userPrompt = this.buildFallbackPrompt(input);
+    const resolution = await this.callStructured(
+      userPrompt,
+      fallbackResolutionSchema,
+      input.novelaId
+    );
+
+    logger.info(`✅ Error resolution strategy generated`);
+
+    return {
+      resolution,
+      category: null,
+      summary: `Error analyzed: ${resolution.strategy}`,
+      message: 'Error analysis completed',
+      priority: resolution.requiresHumanIntervention
+        ? MessagePriority.URGENT
+        : MessagePriority.HIGH,
+      metadata: {
+        retryable: resolution.retryable,
+        humanInterventionNeeded: resolution.requiresHumanIntervention,
+      },
+    };
+  }
+
   /**
    * Match error message against known patterns
    */
@@ -0,0 +1,61 @@
+import { fileURLToPath } from 'url';
+import { describe, it, expect, vi } from 'vitest';
+import { LambdaConfigAgent } from './LambdaConfigAgent.js';
+import type { LambdaConfigInput } from './types.js';
+
+// The agent persists messages and usage; replay runs without a database
+vi.mock('../config/database.js', () => ({
+  prisma: {
+    agentMessage: { findMany: vi.fn(async () => []), create: vi.fn(async () => ({})) },
+    agentUsage: { create: vi.fn(async () => ({})) },
+    novela: { findUnique: vi.fn(async () => null) },
+  },
+}));
+
+const fixturesDir = fileURLToPath(new URL('../../fixtures/llm', import.meta.url));
+
+const suggestInput: LambdaConfigInput = {
+  projectId: 'replay-project',
+  mediaType: 'video',
+  requestType: 'suggest',
+  context: {
+    vslScript: 'A tired nurse discovers a 10-minute morning routine that restores her energy.',
+    projectName: 'Morning Energy VSL',
+    targetAudience: 'Women 35-55 working night shifts',
+    tone: 'Empathetic',
+    budget: 'low',
+    qualityPriority: 'balanced',
+  },
+};
+
+describe('LambdaConfigAgent (replay)', () => {
+  it('replays the recorded suggestion', async () => {
+    const agent = new LambdaConfigAgent({ type: 'replay', fixturesDir });
+
+    const result = await agent.process(suggestInput);
+
+    expect(result.success).toBe(true);
+    expect(result.data.suggestedConfig).toEqual({
+      modelId: 'wan-2.5-fast',
+      mediaType: 'video',
+      parameters: { duration: 8, size: '720p', enable_prompt_expansion: true },
+    });
+    expect(result.data.alternatives.map((alternative: { modelId: string }) => alternative.modelId)).toEqual([
+      'wan-2.5-t2v',
+      'veo-3.1-fast',
+    ]);
+    expect(result.data.estimatedCost).toBe(0.2);
+  });
+
+  it('fails without calling a vendor when no fixture matches the prompt', async () => {
+    const agent = new LambdaConfigAgent({ type: 'replay', fixturesDir });
+
+    const result = await agent.process({
+      ...suggestInput,
+      context: { ...suggestInput.context, projectName: 'Unrecorded VSL' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('No LLM fixture for lambda_config');
+  });
+});
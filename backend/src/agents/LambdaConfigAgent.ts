@@ -19,8 +19,13 @@ import {
   LambdaConfigOutput,
   MessagePriority,
 } from './types.js';
+import { LLMProviderConfig } from './providers/index.js';
 import { logger } from '../utils/logger.js';
 import { SuccessLogger } from '../utils/successLogger.js';
+import {
+  lambdaSuggestResponseSchema,
+  lambdaOptimizeResponseSchema,
+} from './schemas.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -33,9 +38,10 @@ interface ModelConfig {
 export class LambdaConfigAgent extends BaseAgent {
   private modelsConfig: ModelConfig;
 
-  constructor() {
+  constructor(provider?: LLMProviderConfig) {
     const config: AgentConfig = {
       role: AgentRole.LAMBDA_CONFIG,
+      provider,
       model: process.env.OPENAI_MODEL || 'gpt-5',
       maxCompletionTokens: 16000, // Increased: up to 10000 for reasoning + 6000 for response
       reasoningEffort: 'medium', // Medium reasoning to balance quality and token usage
@@ -189,60 +195,38 @@ Output format for 'optimize' requests:
       // Build context-rich prompt
       const userPrompt = this.buildConfigPrompt(input);
 
-      // Call GPT-5
-      const response = await this.callGPT5(userPrompt, input.projectId);
-
-      // Parse JSON response
-      let configData;
-      try {
-        configData = JSON.parse(response);
-      } catch (parseError) {
-        logger.error('❌ Failed to parse GPT-5 response as JSON');
-
-        // Fallback: Try to extract JSON from markdown code blocks
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          configData = JSON.parse(jsonMatch[1]);
-        } else {
-          throw new Error('GPT-5 response is not valid JSON');
-        }
-      }
-
-      // Send message to Communication Bus
-      await this.sendMessage(
-        input.projectId,
-        `Lambda config ${input.requestType} completed for ${input.mediaType}`,
-        undefined, // broadcast
-        input.projectId,
-        MessagePriority.MEDIUM,
-        {
-          mediaType: input.mediaType,
-          requestType: input.requestType,
-          modelId: configData.suggestedConfig?.modelId || configData.optimizedParams?.modelId,
-        }
-      );
-
-      SuccessLogger.success(`Lambda Config - ${input.requestType} for ${input.mediaType}`, {
-        requestType: input.requestType,
-        mediaType: input.mediaType,
-        modelId: configData.suggestedConfig?.modelId || 'optimized',
-      });
-
       // Format response based on request type
       if (input.requestType === 'suggest') {
+        // Call GPT-5 and validate the structured response
+        const configData = await this.callStructured(
+          userPrompt,
+          lambdaSuggestResponseSchema,
+          input.projectId
+        );
+
+        await this.notifyCompletion(input, configData.suggestedConfig.modelId);
+
         return this.createSuccessResponse(`Lambda config suggested for ${input.mediaType}`, {
           suggestedConfig: configData.suggestedConfig,
           reasoning: configData.reasoning,
-          alternatives: configData.alternatives || [],
+          alternatives: configData.alternatives,
           estimatedCost: configData.estimatedCost,
           estimatedTime: configData.estimatedTime,
-          recommendations: configData.recommendations || [],
+          recommendations: configData.recommendations,
         }) as LambdaConfigOutput;
       } else {
         // optimize request
+        const configData = await this.callStructured(
+          userPrompt,
+          lambdaOptimizeResponseSchema,
+          input.projectId
+        );
+
+        await this.notifyCompletion(input, configData.optimizedParams.modelId);
+
         return this.createSuccessResponse(`Parameters optimized for ${input.mediaType}`, {
           optimizedParams: configData.optimizedParams,
-          changes: configData.changes || [],
+          changes: configData.changes,
           costImpact: configData.costImpact,
           qualityImpact: configData.qualityImpact,
         }) as LambdaConfigOutput;
@@ -251,11 +235,9 @@ Output format for 'optimize' requests:
       SuccessLogger.error(`Lambda Config - ${input.requestType} for ${input.mediaType}`, error);
 
       // Request help from Fallback Handler
-      await this.sendMessage(
+      await this.requestFallback(
         input.projectId,
         `Lambda config ${input.requestType} failed for ${input.mediaType}: ${error.message}`,
-        AgentRole.FALLBACK_HANDLER,
-        input.projectId,
         MessagePriority.HIGH,
         {
           error: error.message,
@@ -268,6 +250,30 @@ Output format for 'optimize' requests:
     }
   }
 
+  /**
+   * Notify the Communication Bus and success log of a completed request
+   */
+  private async notifyCompletion(input: LambdaConfigInput, modelId?: string): Promise<void> {
+    await this.sendMessage(
+      input.projectId,
+      `Lambda config ${input.requestType} completed for ${input.mediaType}`,
+      undefined, // broadcast
+      input.projectId,
+      MessagePriority.MEDIUM,
+      {
+        mediaType: input.mediaType,
+        requestType: input.requestType,
+        modelId,
+      }
+    );
+
+    SuccessLogger.success(`Lambda Config - ${input.requestType} for ${input.mediaType}`, {
+      requestType: input.requestType,
+      mediaType: input.mediaType,
+      modelId: modelId || 'optimized',
+    });
+  }
+
   /**
    * Build comprehensive prompt for Lambda configuration
    */
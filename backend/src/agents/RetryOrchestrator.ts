@@ -0,0 +1,337 @@
+/**
+ * Retry Orchestrator - Applies FallbackHandler resolutions
+ *
+ * Runs an agent step and, when it fails, asks the Fallback Handler for a
+ * resolution and acts on it:
+ * - Rate limits / timeouts: exponential backoff before retrying
+ * - Context overflow: retry with a shortened context
+ * - Model unavailable: retry with the next substitute model
+ * - requiresHumanIntervention (or attempts exhausted): human-review queue
+ *
+ * The orchestrator owns the failure analysis: agents running inside it
+ * don't send their own request to the Fallback Handler (recoveryScope.ts).
+ *
+ * Every attempt is published on the communication bus, so it is stored
+ * in AgentMessage.metadata.recovery and shown in the frontend.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { prisma } from '../config/database.js';
+import { CommunicationBus } from './CommunicationBus.js';
+import { FallbackHandlerAgent } from './FallbackHandlerAgent.js';
+import { runInRecovery } from './recoveryScope.js';
+import { RecoveryEscalatedError } from './errors.js';
+import { FallbackResolution } from './schemas.js';
+import {
+  AgentRole,
+  AgentMessage,
+  MessageType,
+  MessagePriority,
+} from './types.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+export type RecoveryAction =
+  | 'retry'
+  | 'backoff'
+  | 'shorten_context'
+  | 'substitute_model'
+  | 'escalate'
+  | 'abort';
+
+/**
+ * Parameters for one attempt, adjusted by the previous resolution
+ */
+export interface RecoveryAttempt {
+  attempt: number;
+  contextScale: number; // 1 = full context, halved on every context overflow
+  modelId?: string; // Current model (after substitutions)
+}
+
+export interface RecoveryAttemptRecord {
+  attempt: number;
+  action: RecoveryAction;
+  error?: string;
+  category?: string | null;
+  strategy?: string;
+  delayMs?: number;
+  contextScale: number;
+  modelId?: string;
+  timestamp: string;
+}
+
+export interface RecoveryOptions<T> {
+  novelaId: string; // Novela or VSL project id
+  conversationId?: string;
+  failedAgent: AgentRole;
+  attemptedAction: string;
+  metadata?: Record<string, any>;
+  maxAttempts?: number;
+  modelId?: string; // Initial model - enables substitution
+  substituteModels?: string[]; // Tried in order on "model unavailable"
+  run: (attempt: RecoveryAttempt) => Promise<T>;
+}
+
+export class RetryOrchestrator {
+  private bus: CommunicationBus;
+  private fallbackHandler: FallbackHandlerAgent;
+
+  constructor(bus: CommunicationBus, fallbackHandler: FallbackHandlerAgent) {
+    this.bus = bus;
+    this.fallbackHandler = fallbackHandler;
+  }
+
+  /**
+   * Run a step, recovering from failures until it succeeds, the error is
+   * not retryable (original error is rethrown) or it is escalated
+   * (RecoveryEscalatedError).
+   */
+  async run<T>(options: RecoveryOptions<T>): Promise<T> {
+    const maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    const conversationId = options.conversationId || uuidv4();
+    const substitutes = (options.substituteModels || []).filter(
+      (modelId) => modelId !== options.modelId
+    );
+    const history: RecoveryAttemptRecord[] = [];
+    const state: RecoveryAttempt = {
+      attempt: 1,
+      contextScale: 1,
+      modelId: options.modelId,
+    };
+
+    for (;;) {
+      try {
+        const result = await runInRecovery(() => options.run({ ...state }));
+
+        if (state.attempt > 1) {
+          await this.recordAttempt(options, conversationId, history, {
+            attempt: state.attempt,
+            action: 'retry',
+            contextScale: state.contextScale,
+            modelId: state.modelId,
+            timestamp: new Date().toISOString(),
+          }, true);
+
+          logger.info(
+            `✅ ${options.attemptedAction} recovered on attempt ${state.attempt}/${maxAttempts}`
+          );
+        }
+
+        return result;
+      } catch (error: any) {
+        if (error instanceof RecoveryEscalatedError) {
+          throw error; // Already escalated by a nested step
+        }
+
+        const fallback = await this.fallbackHandler.process({
+          novelaId: options.novelaId,
+          errorContext: {
+            failedAgent: options.failedAgent,
+            errorMessage: error.message,
+            attemptedAction: options.attemptedAction,
+            metadata: { ...options.metadata, attempt: state.attempt },
+          },
+        });
+
+        const resolution: FallbackResolution | undefined = fallback.data?.resolution;
+        const category: string | null = fallback.data?.category ?? null;
+        let action = this.chooseAction(resolution, category);
+
+        if (action === 'substitute_model' && substitutes.length === 0) {
+          action = 'escalate'; // Nothing left to substitute
+        }
+        if (
+          state.attempt >= maxAttempts &&
+          action !== 'abort' &&
+          action !== 'escalate'
+        ) {
+          action = 'escalate';
+        }
+
+        const record: RecoveryAttemptRecord = {
+          attempt: state.attempt,
+          action,
+          error: error.message,
+          category,
+          strategy: resolution?.strategy,
+          contextScale: state.contextScale,
+          modelId: state.modelId,
+          timestamp: new Date().toISOString(),
+        };
+
+        if (action === 'backoff') {
+          record.delayMs = Math.min(
+            BACKOFF_BASE_MS * Math.pow(2, state.attempt - 1),
+            BACKOFF_MAX_MS
+          );
+        }
+
+        await this.recordAttempt(options, conversationId, history, record, false);
+
+        logger.warn(
+          `🔁 ${options.attemptedAction} attempt ${state.attempt}/${maxAttempts} failed (${error.message}) → ${action}`
+        );
+
+        switch (action) {
+          case 'abort':
+            throw error;
+
+          case 'escalate': {
+            const reviewId = await this.escalate(
+              options,
+              conversationId,
+              error.message,
+              resolution,
+              history
+            );
+            throw new RecoveryEscalatedError(
+              options.attemptedAction,
+              reviewId,
+              state.attempt,
+              error.message
+            );
+          }
+
+          case 'backoff':
+            await new Promise((resolve) => setTimeout(resolve, record.delayMs));
+            break;
+
+          case 'shorten_context':
+            state.contextScale = state.contextScale / 2;
+            break;
+
+          case 'substitute_model':
+            state.modelId = substitutes.shift();
+            break;
+
+          case 'retry':
+            break;
+        }
+
+        state.attempt += 1;
+      }
+    }
+  }
+
+  /**
+   * Map a resolution to an action. Known pattern categories are exact;
+   * GPT-5 resolutions are matched on their strategy text.
+   */
+  private chooseAction(
+    resolution: FallbackResolution | undefined,
+    category: string | null
+  ): RecoveryAction {
+    if (!resolution) {
+      return 'escalate'; // Fallback Handler itself failed
+    }
+    if (resolution.requiresHumanIntervention) {
+      return 'escalate';
+    }
+    if (!resolution.retryable) {
+      return 'abort';
+    }
+
+    switch (category) {
+      case 'Rate Limit':
+      case 'Network Timeout':
+        return 'backoff';
+      case 'Context Overflow':
+        return 'shorten_context';
+      case 'Model Unavailable':
+        return 'substitute_model';
+      case null:
+        break;
+      default:
+        return 'retry';
+    }
+
+    const strategy = `${resolution.strategy} ${resolution.recommendedAction || ''}`;
+
+    if (/rate limit|backoff|wait/i.test(strategy)) {
+      return 'backoff';
+    }
+    if (/context|shorten|truncat|reduce (the )?(prompt|input)/i.test(strategy)) {
+      return 'shorten_context';
+    }
+    if (/alternative model|different model|fallback model|substitut/i.test(strategy)) {
+      return 'substitute_model';
+    }
+
+    return 'retry';
+  }
+
+  /**
+   * Publish an attempt so it is persisted in AgentMessage metadata
+   */
+  private async recordAttempt(
+    options: RecoveryOptions<unknown>,
+    conversationId: string,
+    history: RecoveryAttemptRecord[],
+    record: RecoveryAttemptRecord,
+    succeeded: boolean
+  ): Promise<void> {
+    history.push(record);
+
+    const message: AgentMessage = {
+      id: uuidv4(),
+      novelaId: options.novelaId,
+      fromAgent: AgentRole.FALLBACK_HANDLER,
+      toAgent: options.failedAgent,
+      type: succeeded ? MessageType.BROADCAST : MessageType.ERROR,
+      priority: succeeded ? MessagePriority.LOW : MessagePriority.HIGH,
+      content: succeeded
+        ? `${options.attemptedAction} succeeded on attempt ${record.attempt}`
+        : `${options.attemptedAction} attempt ${record.attempt} failed: ${record.error} (next: ${record.action})`,
+      metadata: {
+        recovery: {
+          ...record,
+          succeeded,
+          attemptedAction: options.attemptedAction,
+        },
+      },
+      timestamp: new Date(),
+      conversationId,
+    };
+
+    try {
+      await this.bus.publish(message);
+    } catch (error: any) {
+      logger.error(`❌ Failed to record recovery attempt:`, error.message);
+    }
+  }
+
+  /**
+   * Add the failure to the human-review queue
+   */
+  private async escalate(
+    options: RecoveryOptions<unknown>,
+    conversationId: string,
+    errorMessage: string,
+    resolution: FallbackResolution | undefined,
+    history: RecoveryAttemptRecord[]
+  ): Promise<string | null> {
+    try {
+      const review = await prisma.humanReviewItem.create({
+        data: {
+          contextId: options.novelaId,
+          conversationId,
+          agentRole: options.failedAgent,
+          attemptedAction: options.attemptedAction,
+          errorMessage,
+          resolution: resolution as any,
+          attempts: history as any,
+        },
+      });
+
+      logger.warn(`🙋 Escalated to human review: ${review.id} (${options.attemptedAction})`);
+
+      return review.id;
+    } catch (error: any) {
+      logger.error(`❌ Failed to create human review item:`, error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { fileURLToPath } from 'url';
+import { describe, it, expect, vi } from 'vitest';
+import { ScriptDetailAgent } from './ScriptDetailAgent.js';
+import type { ScriptDetailInput } from './types.js';
+
+// The agent persists messages and usage; replay runs without a database
+vi.mock('../config/database.js', () => ({
+  prisma: {
+    agentMessage: { findMany: vi.fn(async () => []), create: vi.fn(async () => ({})) },
+    agentUsage: { create: vi.fn(async () => ({})) },
+    novela: { findUnique: vi.fn(async () => null) },
+  },
+}));
+
+const fixturesDir = fileURLToPath(new URL('../../fixtures/llm', import.meta.url));
+
+const detailInput: ScriptDetailInput = {
+  projectId: 'replay-project',
+  sectionId: 'replay-section',
+  sectionContent: 'Night shifts drain you. A ten-minute routine brings your energy back.',
+  totalDuration: 12,
+  language: 'en',
+  modelId: 'veo-3.1-fast',
+  narrativeFramework: 'heros-journey',
+  productContext: {
+    productName: 'Morning Energy VSL',
+    targetAudience: 'Women 35-55 working night shifts',
+    tone: 'Empathetic',
+  },
+};
+
+describe('ScriptDetailAgent (replay)', () => {
+  it('replays the recorded script and fits clip durations to the narration', async () => {
+    const agent = new ScriptDetailAgent({ type: 'replay', fixturesDir });
+
+    const result = await agent.process(detailInput);
+
+    expect(result.success).toBe(true);
+    expect(result.detailedScript).toMatchObject({
+      language: 'en',
+      totalDuration: 12,
+      videoCount: 2,
+      narrativeFramework: 'heros-journey',
+    });
+    expect(
+      result.detailedScript!.videos.map(({ videoOrder, startTime, endTime, duration, partName }) => ({
+        videoOrder,
+        startTime,
+        endTime,
+        duration,
+        partName,
+      }))
+    ).toEqual([
+      { videoOrder: 1, startTime: '0:00', endTime: '0:06', duration: 6, partName: 'PART 1: The Ordinary World' },
+      { videoOrder: 2, startTime: '0:06', endTime: '0:12', duration: 6, partName: 'PART 2: The Call to Adventure' },
+    ]);
+    expect(result.detailedScript!.videos[0].step).toBe('Step 1: The Hero in Their World');
+  });
+
+  it('re-asks when the first response has the wrong number of videos', async () => {
+    // Recorded pair: one video for a two-clip plan, then the corrected script
+    const agent = new ScriptDetailAgent({ type: 'replay', fixturesDir });
+    const complete = vi.spyOn((agent as any).provider, 'complete');
+
+    const result = await agent.process({
+      ...detailInput,
+      sectionContent: 'Night shifts drain you. One simple habit changed everything for Maria.',
+    });
+
+    expect(result.success).toBe(true);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect((complete.mock.calls[1][0] as any).messages.at(-1).content).toContain(
+      'YOUR PREVIOUS RESPONSE WAS REJECTED:\n- videos: Expected exactly 2 videos'
+    );
+    expect(result.detailedScript!.videoCount).toBe(2);
+    expect(result.detailedScript!.videos[1].partName).toBe('PART 2: The Call to Adventure');
+  });
+
+  it('fails without calling a vendor when no fixture matches the prompt', async () => {
+    const agent = new ScriptDetailAgent({ type: 'replay', fixturesDir });
+
+    const result = await agent.process({ ...detailInput, sectionContent: 'Unrecorded section copy.' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('No LLM fixture for script_detail');
+  });
+});
@@ -1,88 +1,92 @@
-import OpenAI from 'openai';
+import { BaseAgent } from './BaseAgent.js';
 import { logger } from '../utils/logger.js';
 import {
+  AgentRole,
+  AgentConfig,
   ScriptDetailInput,
   ScriptDetailOutput,
+  ScriptClipContext,
+  ScriptClipRewriteInput,
+  ScriptClipRewriteOutput,
   SectionVideoDetail,
+  StoryboardInput,
+  StoryboardOutput,
+  ContinuityLintInput,
+  ContinuityLintOutput,
 } from './types.js';
+import { LLMProviderConfig } from './providers/index.js';
+import {
+  continuityLintResponseSchema,
+  scriptClipRewriteResponseSchema,
+  scriptDetailResponseSchema,
+  storyboardResponseSchema,
+} from './schemas.js';
+import {
+  estimateNarration,
+  formatClipTime,
+  wordsForDuration,
+  NARRATION_LANGUAGE_NAMES,
+} from '../utils/narrationTiming.js';
+import {
+  clipPlanCost,
+  fitClipDurations,
+  planClipDurations,
+  sentenceBoundaries,
+} from '../utils/clipPlanning.js';
+import { getVideoModelLimits, VideoModelLimits } from '../utils/videoModelLimits.js';
+import { buildClipPrompt } from '../utils/clipPrompt.js';
+import {
+  NarrativeFramework,
+  DEFAULT_NARRATIVE_FRAMEWORK,
+  NARRATIVE_FRAMEWORKS,
+  findNarrativeBeat,
+  inferNarrativeFramework,
+} from './narrativeFrameworks.js';
+
+export class ScriptDetailAgent extends BaseAgent {
+  constructor(provider?: LLMProviderConfig) {
+    const config: AgentConfig = {
+      role: AgentRole.SCRIPT_DETAIL,
+      provider,
+      model: process.env.SCRIPT_DETAIL_MODEL || 'gpt-4-turbo',
+      maxCompletionTokens: 4000,
+      temperature: 0.7, // Non-reasoning model: creative but consistent
+      // Replaced per request by buildSystemPrompt (depends on language and video count)
+      systemPrompt: 'You are a professional VSL (Video Sales Letter) scriptwriter specialized in narrative frameworks.',
+    };
 
-const HEROS_JOURNEY_PARTS = [
-  { part: 1, name: 'The Ordinary World', step: 'Step 1: The Hero in Their World', objective: 'Establish the routine and problems of the hero before the adventure begins' },
-  { part: 2, name: 'The Call to Adventure', step: 'Step 2: The Problem Arises', objective: 'Present the challenge or opportunity that disrupts the status quo' },
-  { part: 3, name: 'Refusal of the Call', step: 'Step 3: Initial Hesitation', objective: 'Show the hero\'s doubts, fears, or reasons for not taking action' },
-  { part: 4, name: 'Meeting the Mentor', step: 'Step 4: Guidance and Wisdom', objective: 'Introduce the mentor who provides knowledge, tools, or encouragement' },
-  { part: 5, name: 'Crossing the Threshold', step: 'Step 5: Commitment to Change', objective: 'The hero commits to the journey and enters a new world or situation' },
-  { part: 6, name: 'Tests, Allies, and Enemies', step: 'Step 6: The Journey Begins', objective: 'The hero faces challenges, meets allies, and identifies obstacles' },
-  { part: 7, name: 'Approach to the Inmost Cave', step: 'Step 7: Preparing for the Major Challenge', objective: 'The hero prepares for the biggest test or confrontation' },
-  { part: 8, name: 'The Ordeal', step: 'Step 8: The Biggest Challenge', objective: 'The hero faces their greatest fear or challenge' },
-  { part: 9, name: 'The Reward', step: 'Step 9: Achieving the Goal', objective: 'The hero achieves the goal and gains the reward or solution' },
-  { part: 10, name: 'The Road Back', step: 'Step 10: Returning with New Knowledge', objective: 'The hero begins the journey back with newfound wisdom' },
-  { part: 11, name: 'The Resurrection', step: 'Step 11: The Final Test', objective: 'The hero faces a final test to prove the transformation is complete' },
-  { part: 12, name: 'Return with the Elixir', step: 'Step 12: Sharing the Transformation', objective: 'The hero returns transformed and shares the benefits with others' }
-];
-
-export class ScriptDetailAgent {
-  private openai: OpenAI;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables');
-    }
-    this.openai = new OpenAI({ apiKey });
-  }
-
-  private calculateVideoCount(totalDuration: number, maxDuration: number): number {
-    return Math.ceil(totalDuration / maxDuration);
-  }
-
-  private calculateVideoDuration(totalDuration: number, videoCount: number, videoIndex: number): number {
-    const baseDuration = Math.floor(totalDuration / videoCount);
-    const remainder = totalDuration % videoCount;
-    return videoIndex < remainder ? baseDuration + 1 : baseDuration;
-  }
-
-  private formatTime(seconds: number): string {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  }
-
-  private generatePrompt(voice: string, visual: string): string {
-    return `${visual}. Narration: "${voice}"`;
+    super(config);
   }
 
-  private buildSystemPrompt(language: string, videoCount: number): string {
-    const languageNames: Record<string, string> = {
-      'pt-br': 'Portuguese (Brazil)',
-      'en': 'English',
-      'es': 'Spanish',
-      'it': 'Italian',
-      'fr': 'French',
-      'de': 'German'
-    };
+  private buildSystemPrompt(
+    language: ScriptDetailInput['language'],
+    videoCount: number,
+    framework: NarrativeFramework
+  ): string {
+    const beatCount = framework.beats.length;
+    const firstBeat = framework.beats[0];
 
-    return `You are a professional VSL (Video Sales Letter) scriptwriter specialized in the Hero's Journey framework.
+    return `You are a professional VSL (Video Sales Letter) scriptwriter specialized in the ${framework.name} framework.
 
-Your task is to transform a simple VSL script into a detailed, engaging narrative following the 12-step Hero's Journey structure.
+Your task is to transform a simple VSL script into a detailed, engaging narrative following the ${beatCount}-part ${framework.name} structure (${framework.description}).
 
-LANGUAGE: Write all content in ${languageNames[language] || language}
+LANGUAGE: Write all content in ${NARRATION_LANGUAGE_NAMES[language] || language}
 
-HERO'S JOURNEY FRAMEWORK (12 PARTS):
-${HEROS_JOURNEY_PARTS.map(p => `${p.part}. ${p.name} - ${p.step}: ${p.objective}`).join('\n')}
+${framework.name.toUpperCase()} FRAMEWORK (${beatCount} PARTS):
+${framework.beats.map((beat, i) => `${i + 1}. ${beat.name} - ${beat.step}: ${beat.objective}${beat.repeatable ? ' (may span several consecutive videos)' : ''}`).join('\n')}
 
 OUTPUT REQUIREMENTS:
 - Generate exactly ${videoCount} video scripts
-- Each video must correspond to one or more Hero's Journey parts
-- Distribute the 12 parts evenly across ${videoCount} videos
+- Each video must correspond to one or more ${framework.name} parts, in order
+- ${videoCount >= beatCount ? `Cover every part; give extra videos to the parts that need the most room` : `Distribute the ${beatCount} parts evenly across ${videoCount} videos`}
 - Each video script MUST include:
-  * partName: The Hero's Journey part name (e.g., "PART 1: The Ordinary World")
-  * step: The step description (e.g., "Step 1: The Hero in Their World")
-  * objective: What this part aims to achieve
-  * voice: Compelling narration text (2-4 sentences)
+  * partName: The framework part name (e.g., "PART 1: ${firstBeat.name}")
+  * step: The step description, copied from the framework (e.g., "${firstBeat.step}")
+  * objective: The part's objective, copied from the framework
+  * voice: Compelling narration text that can be spoken within the video's duration (respect the word budget per video), made of complete sentences
   * example: A concrete scenario or example (1-2 sentences)
   * visual: Detailed visual description for AI video generation (1-2 sentences)
-
+${framework.guidance ? `\nFRAMEWORK GUIDANCE:\n${framework.guidance}\n` : ''}
 VISUAL DESCRIPTION GUIDELINES:
 - Be specific about scenes, settings, and actions
 - Use cinematic language (e.g., "close-up", "wide shot", "slow motion")
@@ -90,6 +94,7 @@ VISUAL DESCRIPTION GUIDELINES:
 - Keep it concise but vivid (1-2 sentences max)
 
 VOICE GUIDELINES:
+- Every video's voice line starts and ends on a sentence boundary: never split a sentence across two videos
 - Write compelling, persuasive narration
 - Use emotional triggers and storytelling
 - Keep it conversational and engaging
@@ -100,9 +105,9 @@ Return ONLY valid JSON matching this exact structure:
   "videos": [
     {
       "videoOrder": 1,
-      "partName": "PART 1: The Ordinary World",
-      "step": "Step 1: The Hero in Their World",
-      "objective": "...",
+      "partName": "PART 1: ${firstBeat.name}",
+      "step": "${firstBeat.step}",
+      "objective": "${firstBeat.objective}",
       "voice": "...",
       "example": "...",
       "visual": "..."
@@ -111,18 +116,25 @@ Return ONLY valid JSON matching this exact structure:
 }`;
   }
 
-  private buildUserPrompt(input: ScriptDetailInput, videoCount: number, videoDurations: number[]): string {
+  private buildUserPrompt(
+    input: ScriptDetailInput,
+    videoCount: number,
+    videoDurations: number[],
+    framework: NarrativeFramework,
+    limits: VideoModelLimits
+  ): string {
     return `ORIGINAL VSL SCRIPT:
 ${input.sectionContent}
 
 PRODUCT: ${input.productContext?.productName || input.productContext?.productService || 'Not specified'}
 TARGET AUDIENCE: ${input.productContext?.targetAudience || 'General audience'}
 TONE: ${input.productContext?.tone || 'professional'}
-TOTAL DURATION: ${input.totalDuration} seconds
+TOTAL DURATION: ${videoDurations.reduce((sum, d) => sum + d, 0)} seconds
+VIDEO MODEL: ${input.modelId} (clip lengths: ${limits.durations.join('/')}s)
 NUMBER OF VIDEOS: ${videoCount}
-VIDEO DURATIONS: ${videoDurations.map((d, i) => `Video ${i + 1}: ${d}s`).join(', ')}
+VIDEO DURATIONS: ${videoDurations.map((d, i) => `Video ${i + 1}: ${d}s (~${wordsForDuration(d, input.language)} words of narration)`).join(', ')}
 
-Transform this VSL script into ${videoCount} detailed video scripts following the Hero's Journey framework.
+${this.buildBrandVoiceBlock(input.brandVoice)}${this.buildContinuityBlock(input.continuity, 'video')}Transform this VSL script into ${videoCount} detailed video scripts following the ${framework.name} framework.
 Each video should be engaging, persuasive, and optimized for AI video generation.`;
   }
 
@@ -135,72 +147,89 @@ Each video should be engaging, persuasive, and optimized for AI video generation
         modelId: input.modelId
       });
 
-      // Get model configuration for maxDuration (simplified - could be from DB)
-      const modelMaxDuration = 10; // seconds - adjust based on actual model
-      const videoCount = this.calculateVideoCount(input.totalDuration, modelMaxDuration);
-      const videoDurations = Array.from({ length: videoCount }, (_, i) =>
-        this.calculateVideoDuration(input.totalDuration, videoCount, i)
+      // Clip lengths the model accepts, cut near the copy's sentence ends
+      const limits = getVideoModelLimits(input.modelId);
+      const plan = planClipDurations(
+        input.totalDuration,
+        limits,
+        sentenceBoundaries(input.sectionContent, input.totalDuration, input.language)
       );
-
-      logger.info('[ScriptDetailAgent] Video breakdown', { videoCount, videoDurations });
-
-      const systemPrompt = this.buildSystemPrompt(input.language, videoCount);
-      const userPrompt = this.buildUserPrompt(input, videoCount, videoDurations);
-
-      logger.info('[ScriptDetailAgent] Calling OpenAI API');
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-        max_tokens: 4000
+      const videoCount = plan.durations.length;
+      const videoDurations = plan.durations;
+
+      const frameworkId =
+        input.narrativeFramework || inferNarrativeFramework(input.templateId, input.sectionName);
+      const framework = NARRATIVE_FRAMEWORKS[frameworkId];
+
+      logger.info('[ScriptDetailAgent] Video breakdown', {
+        videoCount,
+        videoDurations,
+        allowedDurations: limits.durations,
+        estimatedCost: plan.estimatedCost,
+        narrativeFramework: frameworkId,
       });
 
-      const responseText = completion.choices[0].message.content;
-      if (!responseText) {
-        return {
-          success: false,
-          message: 'Empty response from OpenAI',
-          timestamp: new Date()
-        };
-      }
+      const systemPrompt = this.buildSystemPrompt(input.language, videoCount, framework);
+      const userPrompt = this.buildUserPrompt(input, videoCount, videoDurations, framework, limits);
 
-      logger.info('[ScriptDetailAgent] Received response from OpenAI');
+      logger.info('[ScriptDetailAgent] Calling LLM provider');
+      // Schema enforces exactly videoCount complete videos (re-asks on mismatch)
+      const parsedResponse = await this.callStructured(
+        userPrompt,
+        scriptDetailResponseSchema(videoCount),
+        undefined,
+        { systemPrompt }
+      );
+      const gptVideos = parsedResponse.videos;
 
-      const parsedResponse = JSON.parse(responseText);
-      const gptVideos = parsedResponse.videos || [];
+      logger.info('[ScriptDetailAgent] Received response from LLM provider');
 
-      if (gptVideos.length !== videoCount) {
-        logger.warn('[ScriptDetailAgent] Video count mismatch', {
-          expected: videoCount,
-          received: gptVideos.length
+      // Re-assign the allowed clip lengths by how long each voice line takes
+      // to narrate, keeping the planned total
+      const narrationSeconds = gptVideos.map(
+        (video) => estimateNarration(video.voice, input.language).exactSeconds
+      );
+      const fittedDurations = fitClipDurations(narrationSeconds, plan.totalDuration, limits);
+      const totalDuration = fittedDurations.reduce((sum, duration) => sum + duration, 0);
+
+      const totalNarration = narrationSeconds.reduce((sum, seconds) => sum + seconds, 0);
+      if (totalNarration > totalDuration) {
+        logger.warn('[ScriptDetailAgent] Narration is longer than the section duration', {
+          totalNarration: Math.round(totalNarration),
+          totalDuration,
         });
       }
 
+      logger.info('[ScriptDetailAgent] Clip durations fitted to narration', {
+        narrationSeconds,
+        fittedDurations,
+      });
+
       let currentTime = 0;
-      const videos: SectionVideoDetail[] = gptVideos.map((video: any, index: number) => {
-        const duration = videoDurations[index] || videoDurations[0];
-        const startTime = this.formatTime(currentTime);
+      const videos: SectionVideoDetail[] = gptVideos.map((video, index) => {
+        const duration = fittedDurations[index];
+        const startTime = formatClipTime(currentTime);
         currentTime += duration;
-        const endTime = this.formatTime(currentTime);
+        const endTime = formatClipTime(currentTime);
 
-        const optimizedPrompt = this.generatePrompt(video.voice, video.visual);
+        const optimizedPrompt = buildClipPrompt(video);
+        // Keep step/objective verbatim from the framework when the part is recognised
+        const beat = findNarrativeBeat(framework, video.partName);
 
         return {
           videoOrder: index + 1,
           startTime,
           endTime,
           duration,
-          partName: video.partName || `PART ${index + 1}`,
-          step: video.step || `Step ${index + 1}`,
-          objective: video.objective || '',
-          voice: video.voice || '',
-          example: video.example || '',
-          visual: video.visual || '',
-          optimizedPrompt
+          partName: video.partName,
+          step: beat?.step ?? video.step,
+          objective: beat?.objective ?? video.objective,
+          voice: video.voice,
+          example: video.example,
+          visual: video.visual,
+          optimizedPrompt,
+          narrationDuration: narrationSeconds[index],
+          continuity: this.resolveContinuityRefs(video.continuity, input.continuity)
         };
       });
 
@@ -213,10 +242,12 @@ Each video should be engaging, persuasive, and optimized for AI video generation
         message: 'Detailed script generated successfully',
         detailedScript: {
           language: input.language,
-          totalDuration: input.totalDuration,
+          totalDuration,
           videoCount: videos.length,
+          narrativeFramework: frameworkId,
+          estimatedCost: clipPlanCost(fittedDurations, limits.pricing),
           videos,
-          reasoning: `Generated ${videoCount} videos based on Hero's Journey framework to fit ${input.totalDuration}s total duration`
+          reasoning: `Generated ${videoCount} videos based on ${framework.name} framework to fit ${input.totalDuration}s total duration with ${input.modelId} clips of ${limits.durations.join('/')}s (${totalDuration}s planned)`
         },
         timestamp: new Date()
       };
@@ -234,4 +265,281 @@ Each video should be engaging, persuasive, and optimized for AI video generation
       };
     }
   }
+
+  private describeNeighbour(label: string, clip?: ScriptClipContext): string {
+    if (!clip) return `${label}: none (this is the ${label === 'PREVIOUS CLIP' ? 'first' : 'last'} clip)`;
+    return `${label} (${clip.partName}):
+- Voice: ${clip.voice}
+- Visual: ${clip.visual}`;
+  }
+
+  /**
+   * Rewrite one clip of an existing script (or write a new one), keeping it
+   * consistent with its neighbours. The clip keeps its duration.
+   */
+  async rewriteClip(input: ScriptClipRewriteInput): Promise<ScriptClipRewriteOutput> {
+    try {
+      logger.info('[ScriptDetailAgent] Rewriting clip', {
+        projectId: input.projectId,
+        sectionId: input.sectionId,
+        duration: input.duration,
+        newClip: !input.clip,
+      });
+
+      const framework = NARRATIVE_FRAMEWORKS[input.narrativeFramework || DEFAULT_NARRATIVE_FRAMEWORK];
+      const words = wordsForDuration(input.duration, input.language);
+
+      const systemPrompt = `You are a professional VSL (Video Sales Letter) scriptwriter specialized in the ${framework.name} framework.
+
+Your task is to ${input.clip ? 'rewrite ONE clip' : 'write ONE new clip'} of an existing multi-video script. The clips before and after it stay as they are, so the clip must continue from the previous clip and lead into the next one without repeating them.
+
+LANGUAGE: Write voice and example in ${NARRATION_LANGUAGE_NAMES[input.language] || input.language}; write visual in English
+
+${framework.name.toUpperCase()} FRAMEWORK PARTS:
+${framework.beats.map((beat, i) => `${i + 1}. ${beat.name} - ${beat.step}: ${beat.objective}`).join('\n')}
+${framework.guidance ? `\nFRAMEWORK GUIDANCE:\n${framework.guidance}\n` : ''}
+CLIP REQUIREMENTS:
+- partName, step and objective name the framework part this clip covers (e.g. "PART 1: ${framework.beats[0].name}")
+- voice: narration of about ${words} words (the clip is ${input.duration}s), complete sentences only
+- example: a concrete scenario or example (1-2 sentences)
+- visual: detailed cinematic description for AI video generation (1-2 sentences), visually continuous with the neighbouring clips
+
+Return ONLY valid JSON:
+{
+  "partName": "...",
+  "step": "...",
+  "objective": "...",
+  "voice": "...",
+  "example": "...",
+  "visual": "..."
+}`;
+
+      const userPrompt = `SECTION SCRIPT:
+${input.sectionContent}
+
+PRODUCT: ${input.productContext?.productName || input.productContext?.productService || 'Not specified'}
+TARGET AUDIENCE: ${input.productContext?.targetAudience || 'General audience'}
+TONE: ${input.productContext?.tone || 'professional'}
+
+${this.describeNeighbour('PREVIOUS CLIP', input.previous)}
+
+${input.clip ? `CURRENT CLIP (${input.clip.partName}):
+- Step: ${input.clip.step}
+- Objective: ${input.clip.objective}
+- Voice: ${input.clip.voice}
+- Example: ${input.clip.example}
+- Visual: ${input.clip.visual}
+
+` : ''}${this.describeNeighbour('NEXT CLIP', input.next)}
+
+${this.buildBrandVoiceBlock(input.brandVoice)}${this.buildContinuityBlock(input.continuity, 'clip')}${input.instructions ? `INSTRUCTIONS: ${input.instructions}\n\n` : ''}${input.clip ? 'Rewrite the current clip.' : 'Write the clip that goes between the previous and next clips.'}`;
+
+      const clip = await this.callStructured(
+        userPrompt,
+        scriptClipRewriteResponseSchema,
+        undefined,
+        { systemPrompt }
+      );
+
+      const beat = findNarrativeBeat(framework, clip.partName);
+      const narrationDuration = estimateNarration(clip.voice, input.language).exactSeconds;
+
+      if (narrationDuration > input.duration) {
+        logger.warn('[ScriptDetailAgent] Rewritten narration is longer than the clip', {
+          narrationDuration,
+          duration: input.duration,
+        });
+      }
+
+      return {
+        success: true,
+        message: input.clip ? 'Clip rewritten successfully' : 'Clip written successfully',
+        clip: {
+          ...clip,
+          step: beat?.step ?? clip.step,
+          objective: beat?.objective ?? clip.objective,
+          optimizedPrompt: buildClipPrompt(clip),
+          narrationDuration,
+          continuity: this.resolveContinuityRefs(clip.continuity, input.continuity),
+        },
+        timestamp: new Date(),
+      };
+    } catch (error: any) {
+      logger.error('[ScriptDetailAgent] Error rewriting clip', {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return {
+        success: false,
+        message: `Failed to rewrite clip: ${error.message}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Expand a clip's visual into a shot list with a still-frame prompt per
+   * shot. Shot durations are scaled to add up to the clip duration.
+   */
+  async buildStoryboard(input: StoryboardInput): Promise<StoryboardOutput> {
+    try {
+      logger.info('[ScriptDetailAgent] Building storyboard', {
+        projectId: input.projectId,
+        sectionId: input.sectionId,
+        duration: input.duration,
+      });
+
+      const systemPrompt = `You are a storyboard artist and director of photography for VSL (Video Sales Letter) videos.
+
+Your task is to break ONE video clip into a shot list a reviewer can approve before the clip is generated.
+
+SHOT REQUIREMENTS:
+- 1 to ${Math.min(6, Math.max(1, Math.floor(input.duration / 2)))} shots; their durations add up to ${input.duration} seconds
+- shotType: extreme-wide, wide, medium, close-up, extreme-close-up, over-the-shoulder, pov or insert
+- cameraMove: static, pan, tilt, dolly-in, dolly-out, tracking, handheld, crane or zoom
+- subject, setting, lighting: short concrete descriptions, consistent across shots
+- onScreenText: text overlay shown in the shot, or null
+- transitionIn / transitionOut: cut, fade, dissolve, whip-pan, match-cut or none
+- imagePrompt: a self-contained English prompt for a still frame of the shot (subject, setting, lighting, framing, style), no text overlays
+
+Return ONLY valid JSON:
+{
+  "shots": [
+    {
+      "shotNumber": 1,
+      "duration": 3,
+      "shotType": "wide",
+      "cameraMove": "dolly-in",
+      "subject": "...",
+      "setting": "...",
+      "lighting": "...",
+      "onScreenText": null,
+      "transitionIn": "cut",
+      "transitionOut": "cut",
+      "imagePrompt": "..."
+    }
+  ]
+}`;
+
+      const userPrompt = `CLIP: ${input.partName} (${input.duration}s)
+NARRATION: ${input.voice}
+VISUAL: ${input.visual}
+${input.previousVisual ? `PREVIOUS CLIP VISUAL: ${input.previousVisual}\n` : ''}${input.nextVisual ? `NEXT CLIP VISUAL: ${input.nextVisual}\n` : ''}
+PRODUCT: ${input.productContext?.productName || input.productContext?.productService || 'Not specified'}
+TARGET AUDIENCE: ${input.productContext?.targetAudience || 'General audience'}
+TONE: ${input.productContext?.tone || 'professional'}
+
+Break this clip into shots that show the visual while the narration plays.`;
+
+      const response = await this.callStructured(
+        userPrompt,
+        storyboardResponseSchema,
+        undefined,
+        { systemPrompt }
+      );
+
+      // Renumber and scale durations to the clip length (0.1s steps)
+      const totalShotSeconds = response.shots.reduce((sum, shot) => sum + shot.duration, 0);
+      let remaining = input.duration;
+      const shots = response.shots.map((shot, index) => {
+        const isLast = index === response.shots.length - 1;
+        const duration = isLast
+          ? Math.round(remaining * 10) / 10
+          : Math.round(((shot.duration / totalShotSeconds) * input.duration) * 10) / 10;
+        remaining -= duration;
+        return { ...shot, shotNumber: index + 1, duration };
+      });
+
+      logger.info('[ScriptDetailAgent] Storyboard built', { shotCount: shots.length });
+
+      return {
+        success: true,
+        message: 'Storyboard generated successfully',
+        shots,
+        timestamp: new Date(),
+      };
+    } catch (error: any) {
+      logger.error('[ScriptDetailAgent] Error building storyboard', {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return {
+        success: false,
+        message: `Failed to generate storyboard: ${error.message}`,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Find clip visuals that contradict the continuity bible entries they
+   * reference (different hair, clothes, place, colours...)
+   */
+  async lintContinuity(input: ContinuityLintInput): Promise<ContinuityLintOutput> {
+    try {
+      logger.info('[ScriptDetailAgent] Linting continuity', {
+        projectId: input.projectId,
+        clipCount: input.clips.length,
+      });
+
+      const systemPrompt = `You are a script supervisor checking visual continuity of a multi-clip video against its continuity bible.
+
+For every clip, compare its visual and prompt with the bible entries it references and with the colour palette. Report only real contradictions - a character described with different hair, age, build or clothes, a different place than the referenced location, wardrobe worn by the wrong character, colours that clash with the palette. Details the bible doesn't mention are not contradictions.
+
+Return ONLY valid JSON:
+{
+  "contradictions": [
+    {
+      "videoOrder": 1,
+      "entityId": "bible entry id",
+      "phrase": "exact phrase from the clip",
+      "issue": "what contradicts the bible",
+      "suggestion": "rewrite of the phrase that matches the bible"
+    }
+  ]
+}
+Return {"contradictions": []} when everything matches.`;
+
+      const userPrompt = `${this.buildContinuityBlock(input.continuity)}CLIPS:
+${input.clips.map((clip) => `Clip ${clip.videoOrder} (characters: ${clip.continuity.characterIds.join(', ') || 'none'}; location: ${clip.continuity.locationId || 'none'}; wardrobe: ${clip.continuity.wardrobeIds.join(', ') || 'none'})
+- Visual: ${clip.visual}
+- Prompt: ${clip.prompt}`).join('\n\n')}`;
+
+      const response = await this.callStructured(
+        userPrompt,
+        continuityLintResponseSchema,
+        undefined,
+        { systemPrompt }
+      );
+
+      // Only clips that were sent
+      const contradictions = response.contradictions.filter((contradiction) =>
+        input.clips.some((clip) => clip.videoOrder === contradiction.videoOrder)
+      );
+
+      logger.info('[ScriptDetailAgent] Continuity lint complete', {
+        contradictionCount: contradictions.length,
+      });
+
+      return {
+        success: true,
+        message: 'Continuity checked successfully',
+        contradictions,
+        timestamp: new Date(),
+      };
+    } catch (error: any) {
+      logger.error('[ScriptDetailAgent] Error linting continuity', {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return {
+        success: false,
+        message: `Failed to lint continuity: ${error.message}`,
+        timestamp: new Date(),
+      };
+    }
+  }
 }
@@ -20,13 +20,15 @@ import {
   ScriptWriterOutput,
   MessagePriority,
 } from './types.js';
-import { logger } from '../utils/logger.js';
+import { LLMProviderConfig } from './providers/index.js';
+import { scriptWriterResponseSchema } from './schemas.js';
 import { SuccessLogger } from '../utils/successLogger.js';
 
 export class ScriptWriterAgent extends BaseAgent {
-  constructor() {
+  constructor(provider?: LLMProviderConfig) {
     const config: AgentConfig = {
       role: AgentRole.SCRIPT_WRITER,
+      provider,
       model: process.env.OPENAI_MODEL || 'gpt-5',
       maxCompletionTokens: 2000, // Generous for creative writing
       reasoningEffort: 'medium', // Creative but controlled
@@ -81,29 +83,12 @@ Remember: The visual prompt is the most critical output - it will be sent direct
       // Build context-rich prompt
       const userPrompt = this.buildScriptPrompt(input);
 
-      // Call GPT-5
-      const response = await this.callGPT5(userPrompt, input.novelaId);
-
-      // Parse JSON response
-      let scriptData;
-      try {
-        scriptData = JSON.parse(response);
-      } catch (parseError) {
-        logger.error('❌ Failed to parse GPT-5 response as JSON');
-
-        // Fallback: Try to extract JSON from markdown code blocks
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          scriptData = JSON.parse(jsonMatch[1]);
-        } else {
-          throw new Error('GPT-5 response is not valid JSON');
-        }
-      }
-
-      // Validate required fields
-      if (!scriptData.sceneDescription || !scriptData.visualPrompt) {
-        throw new Error('Missing required fields in script output');
-      }
+      // Call GPT-5 and validate the structured response
+      const scriptData = await this.callStructured(
+        userPrompt,
+        scriptWriterResponseSchema,
+        input.novelaId
+      );
 
       // Send message to Communication Bus for other agents
       await this.sendMessage(
@@ -131,9 +116,10 @@ Remember: The visual prompt is the most critical output - it will be sent direct
           script: {
             sceneDescription: scriptData.sceneDescription,
             visualPrompt: scriptData.visualPrompt,
-            audioPrompt: scriptData.audioPrompt || '',
-            characterActions: scriptData.characterActions || [],
+            audioPrompt: scriptData.audioPrompt,
+            characterActions: scriptData.characterActions,
             estimatedDuration: scriptData.estimatedDuration || input.duration || 8,
+            continuity: this.resolveContinuityRefs(scriptData.continuity, input.continuity),
           },
         }
       ) as ScriptWriterOutput;
@@ -141,11 +127,9 @@ Remember: The visual prompt is the most critical output - it will be sent direct
       SuccessLogger.error(`Script Writer - Scene ${input.sceneNumber}`, error);
 
       // Request help from Fallback Handler
-      await this.sendMessage(
+      await this.requestFallback(
         input.novelaId,
         `Script writing failed for scene ${input.sceneNumber}: ${error.message}`,
-        AgentRole.FALLBACK_HANDLER,
-        input.novelaId,
         MessagePriority.HIGH,
         {
           error: error.message,
@@ -194,6 +178,8 @@ Remember: The visual prompt is the most critical output - it will be sent direct
     if (input.tone) {
       prompt += `TONE: ${input.tone}\n\n`;
     }
+    prompt += this.buildBrandVoiceBlock(input.brandVoice);
+    prompt += this.buildContinuityBlock(input.continuity, 'scene');
 
     // Add duration constraint
     const duration = input.duration || 8;
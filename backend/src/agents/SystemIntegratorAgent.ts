@@ -22,6 +22,8 @@ import {
   SystemIntegratorOutput,
   MessagePriority,
 } from './types.js';
+import { LLMProviderConfig } from './providers/index.js';
+import { systemIntegratorResponseSchema } from './schemas.js';
 import { logger } from '../utils/logger.js';
 
 interface ReplicateModel {
@@ -37,9 +39,10 @@ export class SystemIntegratorAgent extends BaseAgent {
   private lambdaBaseUrl: string;
   private replicateModels: Map<string, ReplicateModel> = new Map();
 
-  constructor() {
+  constructor(provider?: LLMProviderConfig) {
     const config: AgentConfig = {
       role: AgentRole.SYSTEM_INTEGRATOR,
+      provider,
       model: process.env.OPENAI_MODEL || 'gpt-5',
       maxCompletionTokens: 1000, // Precise, technical responses
       reasoningEffort: 'low', // Fast, deterministic
@@ -148,21 +151,11 @@ Output format:
 
       // Get model estimation from GPT-5
       const userPrompt = this.buildIntegrationPrompt(input);
-      const response = await this.callGPT5(userPrompt, input.novelaId);
-
-      // Parse JSON response
-      let estimation;
-      try {
-        estimation = JSON.parse(response);
-      } catch (parseError) {
-        // Fallback: Try to extract JSON from markdown
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          estimation = JSON.parse(jsonMatch[1]);
-        } else {
-          throw new Error('GPT-5 response is not valid JSON');
-        }
-      }
+      const estimation = await this.callStructured(
+        userPrompt,
+        systemIntegratorResponseSchema,
+        input.novelaId
+      );
 
       // Validate model exists
       const model = this.replicateModels.get(estimation.modelId);
@@ -210,11 +203,9 @@ Output format:
       logger.error(`❌ System Integrator error:`, error.message);
 
       // Request help from Fallback Handler
-      await this.sendMessage(
+      await this.requestFallback(
         input.novelaId,
         `System integration failed: ${error.message}`,
-        AgentRole.FALLBACK_HANDLER,
-        input.novelaId,
         MessagePriority.HIGH,
         {
           error: error.message,
@@ -285,11 +276,9 @@ Output format:
       logger.error(`❌ Lambda API call failed:`, error.message);
 
       // Request help from Fallback Handler
-      await this.sendMessage(
+      await this.requestFallback(
         novelaId,
         `Lambda API call failed: ${error.message}`,
-        AgentRole.FALLBACK_HANDLER,
-        novelaId,
         MessagePriority.URGENT,
         {
           error: error.message,
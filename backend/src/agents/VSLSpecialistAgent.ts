@@ -5,12 +5,15 @@
  * Specializes in copywriting, persuasion psychology, and conversion optimization.
  *
  * Specializations:
- * - VSL frameworks: PAS, AIDA, Story, Authority
+ * - VSL frameworks: PAS, AIDA, Story, Authority, plus custom templates
  * - Copywriting and persuasion techniques
  * - Hook creation and attention retention
  * - Pain point amplification and desire building
  * - Call-to-action optimization
  * - Persuasion scoring and content analysis
+ * - Whole-script analysis and cross-section consistency checks
+ * - A/B copy variants and variant comparison
+ * - Compliance review of income/health claims and guarantees
  */
 
 import { BaseAgent } from './BaseAgent.js';
@@ -19,15 +22,37 @@ import {
   AgentConfig,
   VSLSpecialistInput,
   VSLSpecialistOutput,
+  VSLProjectAnalysisInput,
+  VSLVariantInput,
+  VSLVariantComparisonInput,
+  ComplianceReviewInput,
+  BrandVoiceScoreInput,
+  VSLTranslationInput,
   MessagePriority,
 } from './types.js';
-import { logger } from '../utils/logger.js';
+import { LLMProviderConfig } from './providers/index.js';
 import { SuccessLogger } from '../utils/successLogger.js';
+import {
+  vslGenerateResponseSchema,
+  vslImproveResponseSchema,
+  vslScoreResponseSchema,
+  vslProjectAnalysisResponseSchema,
+  vslVariantsResponseSchema,
+  vslVariantComparisonResponseSchema,
+  complianceReviewResponseSchema,
+  brandVoiceScoreResponseSchema,
+  vslTranslationResponseSchema,
+} from './schemas.js';
+import { NARRATION_LANGUAGE_NAMES, NarrationLanguage } from '../utils/narrationTiming.js';
+
+// Per previous section in 'generate' prompts (keeps long VSLs within budget)
+const MAX_PREVIOUS_SECTION_CHARS = 2000;
 
 export class VSLSpecialistAgent extends BaseAgent {
-  constructor() {
+  constructor(provider?: LLMProviderConfig) {
     const config: AgentConfig = {
       role: AgentRole.VSL_SPECIALIST,
+      provider,
       model: process.env.OPENAI_MODEL || 'gpt-5',
       maxCompletionTokens: 10000, // Increased: 3000 for reasoning + 7000 for response
       reasoningEffort: 'high', // High reasoning for persuasive content
@@ -118,6 +143,23 @@ Output format for 'score' requests:
   "strengths": ["Strength 1...", "Strength 2..."],
   "weaknesses": ["Weakness 1...", "Weakness 2..."],
   "recommendations": ["Fix 1...", "Fix 2..."]
+}
+
+Output format for project analysis requests (full script):
+{
+  "score": 78,
+  "strengths": ["Strength 1..."],
+  "weaknesses": ["Weakness 1..."],
+  "recommendations": ["Fix 1..."],
+  "consistencyIssues": [
+    {
+      "type": "price" | "claim" | "tone" | "other",
+      "severity": "low" | "medium" | "high",
+      "sections": ["Section A", "Section B"],
+      "description": "What contradicts what...",
+      "suggestion": "How to fix it..."
+    }
+  ]
 }`,
     };
 
@@ -134,101 +176,118 @@ Output format for 'score' requests:
       // Build context-rich prompt based on request type
       const userPrompt = this.buildVSLPrompt(input);
 
-      // Call GPT-5
-      const response = await this.callGPT5(userPrompt, input.projectId);
-
-      // Parse JSON response
-      let vslData;
-      try {
-        vslData = JSON.parse(response);
-      } catch (parseError) {
-        logger.error('❌ Failed to parse GPT-5 response as JSON');
-
-        // Fallback: Try to extract JSON from markdown code blocks
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-          vslData = JSON.parse(jsonMatch[1]);
-        } else {
-          throw new Error('GPT-5 response is not valid JSON');
-        }
-      }
+      // Stream partial tokens to the project room when requested; custom
+      // template frameworks extend the system prompt
+      const callOptions = {
+        ...(input.stream && { stream: { novelaId: input.projectId } }),
+        ...(input.template?.framework && {
+          systemPrompt: this.buildSystemPrompt(input.template.name, input.template.framework),
+        }),
+      };
 
-      // Send message to Communication Bus
-      await this.sendMessage(
-        input.projectId,
-        `VSL ${input.requestType} completed for section: ${input.sectionName}`,
-        undefined, // broadcast
-        input.projectId,
-        MessagePriority.MEDIUM,
-        {
-          templateId: input.templateId,
-          sectionName: input.sectionName,
-          requestType: input.requestType,
-          persuasionScore: vslData.persuasionScore || vslData.score || 0,
-        }
-      );
-
-      SuccessLogger.success(`VSL Specialist - ${input.requestType} for ${input.sectionName}`, {
-        requestType: input.requestType,
-        sectionName: input.sectionName,
-        persuasionScore: vslData.persuasionScore || vslData.score || 0,
-      });
+      // Call GPT-5 with the schema matching the request type
+      let result: VSLSpecialistOutput;
+      let persuasionScore: number;
 
-      // Format response based on request type
       if (input.requestType === 'generate') {
-        return this.createSuccessResponse(
+        const vslData = await this.callStructured(
+          userPrompt,
+          vslGenerateResponseSchema,
+          input.projectId,
+          callOptions
+        );
+        persuasionScore = vslData.persuasionScore;
+
+        result = this.createSuccessResponse(
           `VSL content generated for ${input.sectionName}`,
           {
             sectionContent: {
-              content: vslData.content || '',
-              persuasionScore: vslData.persuasionScore || 0,
-              improvements: vslData.improvements || [],
-              hooks: vslData.hooks || [],
+              content: vslData.content,
+              persuasionScore: vslData.persuasionScore,
+              improvements: vslData.improvements,
+              hooks: vslData.hooks,
             },
             persuasionAnalysis: {
-              score: vslData.persuasionScore || 0,
-              strengths: vslData.strengths || [],
-              weaknesses: vslData.weaknesses || [],
-              recommendations: vslData.improvements || [],
+              score: vslData.persuasionScore,
+              strengths: vslData.strengths,
+              weaknesses: vslData.weaknesses,
+              recommendations: vslData.improvements,
             },
           }
         ) as VSLSpecialistOutput;
       } else if (input.requestType === 'improve') {
-        return this.createSuccessResponse(
+        const vslData = await this.callStructured(
+          userPrompt,
+          vslImproveResponseSchema,
+          input.projectId,
+          callOptions
+        );
+        persuasionScore = vslData.persuasionScore;
+
+        result = this.createSuccessResponse(
           `VSL content improved for ${input.sectionName}`,
           {
             sectionContent: {
-              content: vslData.improvedContent || vslData.content || '',
-              persuasionScore: vslData.persuasionScore || 0,
-              improvements: vslData.changes || [],
+              content: vslData.improvedContent,
+              persuasionScore: vslData.persuasionScore,
+              improvements: vslData.changes,
               hooks: [],
             },
-            aiSuggestion: vslData.aiSuggestion || '',
+            aiSuggestion: vslData.aiSuggestion,
           }
         ) as VSLSpecialistOutput;
       } else {
         // score request
-        return this.createSuccessResponse(
+        const vslData = await this.callStructured(
+          userPrompt,
+          vslScoreResponseSchema,
+          input.projectId,
+          callOptions
+        );
+        persuasionScore = vslData.score;
+
+        result = this.createSuccessResponse(
           `VSL content scored for ${input.sectionName}`,
           {
             persuasionAnalysis: {
-              score: vslData.score || 0,
-              strengths: vslData.strengths || [],
-              weaknesses: vslData.weaknesses || [],
-              recommendations: vslData.recommendations || [],
+              score: vslData.score,
+              strengths: vslData.strengths,
+              weaknesses: vslData.weaknesses,
+              recommendations: vslData.recommendations,
             },
           }
         ) as VSLSpecialistOutput;
       }
+
+      // Send message to Communication Bus
+      await this.sendMessage(
+        input.projectId,
+        `VSL ${input.requestType} completed for section: ${input.sectionName}`,
+        undefined, // broadcast
+        input.projectId,
+        MessagePriority.MEDIUM,
+        {
+          templateId: input.templateId,
+          sectionName: input.sectionName,
+          requestType: input.requestType,
+          persuasionScore,
+        }
+      );
+
+      SuccessLogger.success(`VSL Specialist - ${input.requestType} for ${input.sectionName}`, {
+        requestType: input.requestType,
+        sectionName: input.sectionName,
+        persuasionScore,
+      });
+
+      return result;
     } catch (error: any) {
       SuccessLogger.error(`VSL Specialist - ${input.requestType} for ${input.sectionName}`, error);
 
       // Request help from Fallback Handler
-      await this.sendMessage(
+      await this.requestFallback(
         input.projectId,
         `VSL ${input.requestType} failed for ${input.sectionName}: ${error.message}`,
-        AgentRole.FALLBACK_HANDLER,
-        input.projectId,
         MessagePriority.HIGH,
         {
           error: error.message,
@@ -241,16 +300,488 @@ Output format for 'score' requests:
     }
   }
 
+  /**
+   * Score the full script as a whole and flag contradictions between
+   * sections (price vs. the offer, inconsistent claims, tone drift)
+   */
+  async analyzeProject(input: VSLProjectAnalysisInput): Promise<VSLSpecialistOutput> {
+    try {
+      SuccessLogger.start(`VSL Specialist - project analysis for ${input.projectId}`);
+
+      const userPrompt = this.buildProjectAnalysisPrompt(input);
+      const callOptions = input.template?.framework
+        ? { systemPrompt: this.buildSystemPrompt(input.template.name, input.template.framework) }
+        : {};
+
+      const analysis = await this.callStructured(
+        userPrompt,
+        vslProjectAnalysisResponseSchema,
+        input.projectId,
+        callOptions
+      );
+
+      const result = this.createSuccessResponse(
+        `VSL project analyzed (${input.sections.length} sections)`,
+        {
+          projectAnalysis: {
+            score: analysis.score,
+            strengths: analysis.strengths,
+            weaknesses: analysis.weaknesses,
+            recommendations: analysis.recommendations,
+            consistencyIssues: analysis.consistencyIssues.map((issue) => ({
+              ...issue,
+              source: 'agent' as const,
+            })),
+          },
+        }
+      ) as VSLSpecialistOutput;
+
+      await this.sendMessage(
+        input.projectId,
+        `VSL project analysis completed: score ${analysis.score}, ${analysis.consistencyIssues.length} consistency issue(s)`,
+        undefined, // broadcast
+        input.projectId,
+        MessagePriority.MEDIUM,
+        {
+          templateId: input.templateId,
+          requestType: 'analyze-project',
+          persuasionScore: analysis.score,
+        }
+      );
+
+      SuccessLogger.success(`VSL Specialist - project analysis for ${input.projectId}`, {
+        sections: input.sections.length,
+        persuasionScore: analysis.score,
+        consistencyIssues: analysis.consistencyIssues.length,
+      });
+
+      return result;
+    } catch (error: any) {
+      SuccessLogger.error(`VSL Specialist - project analysis for ${input.projectId}`, error);
+
+      await this.requestFallback(
+        input.projectId,
+        `VSL project analysis failed: ${error.message}`,
+        MessagePriority.HIGH,
+        {
+          error: error.message,
+          requestType: 'analyze-project',
+        }
+      );
+
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Write alternative versions of a section, each from a distinct angle,
+   * with its own persuasion analysis
+   */
+  async generateVariants(input: VSLVariantInput): Promise<VSLSpecialistOutput> {
+    const label = `VSL Specialist - ${input.count} variants for ${input.sectionName}`;
+
+    try {
+      SuccessLogger.start(label);
+
+      const frameworkName = input.template?.name || input.templateId.toUpperCase();
+      let prompt = `Write ${input.count} alternative versions of the "${input.sectionName}" section of a ${frameworkName} framework VSL for A/B testing.\n\n`;
+
+      prompt += this.buildContextBlock(input);
+      prompt += this.buildBrandVoiceBlock(input.brandVoice);
+
+      if (input.template?.section?.guidance) {
+        prompt += `SECTION GOAL: ${input.template.section.guidance}\n\n`;
+      }
+      if (input.currentContent) {
+        prompt += `CURRENT VERSION (the control - do not copy it):\n${input.currentContent}\n\n`;
+      }
+
+      prompt += `TASK: Each variant must take a clearly DIFFERENT angle (hook, emotional driver and structure), not a reworded copy.\n`;
+      if (input.angles?.length) {
+        prompt += `Use these angles, in order: ${input.angles.join('; ')}\n`;
+      }
+      prompt += `Score every variant honestly with the 0-100 scoring system from your system prompt.\n\n`;
+      prompt += `Respond with JSON only:\n`;
+      prompt += `{\n  "variants": [\n    {\n      "angle": "Short name of the angle",\n      "content": "The section copy...",\n      "hooks": ["Hook..."],\n      "persuasionScore": 80,\n      "strengths": ["..."],\n      "weaknesses": ["..."],\n      "recommendations": ["..."]\n    }\n  ]\n}`;
+
+      const data = await this.callStructured(
+        prompt,
+        vslVariantsResponseSchema,
+        input.projectId,
+        {
+          ...(input.stream && { stream: { novelaId: input.projectId } }),
+          ...(input.template?.framework && {
+            systemPrompt: this.buildSystemPrompt(input.template.name, input.template.framework),
+          }),
+        }
+      );
+
+      const variants = data.variants.slice(0, input.count);
+
+      await this.sendMessage(
+        input.projectId,
+        `${variants.length} variants generated for section: ${input.sectionName}`,
+        undefined, // broadcast
+        input.projectId,
+        MessagePriority.MEDIUM,
+        {
+          templateId: input.templateId,
+          sectionName: input.sectionName,
+          requestType: 'variants',
+          scores: variants.map((variant) => variant.persuasionScore),
+        }
+      );
+
+      SuccessLogger.success(label, {
+        sectionName: input.sectionName,
+        variants: variants.length,
+      });
+
+      return this.createSuccessResponse(
+        `${variants.length} variants generated for ${input.sectionName}`,
+        { variants }
+      ) as VSLSpecialistOutput;
+    } catch (error: any) {
+      SuccessLogger.error(label, error);
+
+      await this.requestFallback(
+        input.projectId,
+        `VSL variants failed for ${input.sectionName}: ${error.message}`,
+        MessagePriority.HIGH,
+        {
+          error: error.message,
+          sectionName: input.sectionName,
+          requestType: 'variants',
+        }
+      );
+
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Explain why variants of a section score differently
+   */
+  async compareVariants(input: VSLVariantComparisonInput): Promise<VSLSpecialistOutput> {
+    const label = `VSL Specialist - compare variants for ${input.sectionName}`;
+
+    try {
+      SuccessLogger.start(label);
+
+      const frameworkName = input.template?.name || input.templateId.toUpperCase();
+      let prompt = `Compare these A/B variants of the "${input.sectionName}" section of a ${frameworkName} framework VSL.\n\n`;
+
+      for (const variant of input.variants) {
+        prompt += `--- Variant ${variant.label} (angle: ${variant.angle}, score ${variant.persuasionScore}) ---\n${variant.content}\n\n`;
+      }
+
+      prompt += `TASK: Pick the variant most likely to convert and explain, for every other variant, what specifically makes it score higher or lower (hook strength, specificity, emotional driver, proof, CTA). Refer to variants by label.\n\n`;
+      prompt += `Respond with JSON only:\n`;
+      prompt += `{\n  "winner": "A",\n  "summary": "Why the winner wins...",\n  "differences": [{ "label": "B", "explanation": "..." }]\n}`;
+
+      const comparison = await this.callStructured(
+        prompt,
+        vslVariantComparisonResponseSchema,
+        input.projectId,
+        input.template?.framework
+          ? { systemPrompt: this.buildSystemPrompt(input.template.name, input.template.framework) }
+          : {}
+      );
+
+      SuccessLogger.success(label, {
+        sectionName: input.sectionName,
+        winner: comparison.winner,
+      });
+
+      return this.createSuccessResponse(
+        `Variants compared for ${input.sectionName}`,
+        { variantComparison: comparison }
+      ) as VSLSpecialistOutput;
+    } catch (error: any) {
+      SuccessLogger.error(label, error);
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Flag risky claims (income, health, guarantees, fake urgency) in copy
+   * and suggest compliant rewrites
+   */
+  async reviewCompliance(input: ComplianceReviewInput): Promise<VSLSpecialistOutput> {
+    const label = `VSL Specialist - compliance review for section ${input.sectionId}`;
+
+    try {
+      SuccessLogger.start(label);
+
+      let prompt = `Review this sales copy for ad-platform and consumer-protection compliance (Meta, Google/YouTube ads policies, FTC/CONAR style rules).\n\n`;
+      prompt += `Flag phrases that:\n`;
+      prompt += `- income: promise or imply specific/unrealistic earnings or effortless wealth\n`;
+      prompt += `- health: claim to cure, treat or prevent disease, replace medication, or promise specific body results\n`;
+      prompt += `- guarantee: guarantee results or imply certainty of success\n`;
+      prompt += `- urgency: scarcity or deadlines that look fabricated\n`;
+      prompt += `- testimonial: present individual results as typical\n`;
+      prompt += `- other: anything else likely to get an ad account restricted\n\n`;
+      prompt += `Severity: high = likely ad rejection/account ban, medium = needs a disclaimer or softening, low = worth reviewing.\n\n`;
+
+      if (input.knownPhrases?.length) {
+        prompt += `ALREADY FLAGGED (do not repeat): ${input.knownPhrases.map((phrase) => `"${phrase}"`).join(', ')}\n\n`;
+      }
+
+      for (const text of input.texts) {
+        prompt += `--- [${text.id}] ${text.label} ---\n${text.text}\n\n`;
+      }
+
+      prompt += `TASK: Quote each risky phrase EXACTLY as written, with the textId in brackets above it. The suggestion must be a safer rewrite of the phrase in the same language (${input.language || 'the language of the text'}). Return an empty list if the copy is compliant.\n\n`;
+      prompt += `Respond with JSON only:\n`;
+      prompt += `{\n  "findings": [\n    {\n      "textId": "...",\n      "phrase": "...",\n      "category": "income" | "health" | "guarantee" | "urgency" | "testimonial" | "other",\n      "severity": "low" | "medium" | "high",\n      "explanation": "...",\n      "suggestion": "..."\n    }\n  ]\n}`;
+
+      const review = await this.callStructured(
+        prompt,
+        complianceReviewResponseSchema,
+        input.projectId
+      );
+
+      // Drop findings for unknown texts or phrases not actually in the text
+      const texts = new Map(input.texts.map((text) => [text.id, text.text.toLowerCase()]));
+      const findings = review.findings.filter((finding) =>
+        texts.get(finding.textId)?.includes(finding.phrase.toLowerCase())
+      );
+
+      SuccessLogger.success(label, {
+        texts: input.texts.length,
+        findings: findings.length,
+        discarded: review.findings.length - findings.length,
+      });
+
+      return this.createSuccessResponse(
+        `Compliance review found ${findings.length} issue(s)`,
+        { complianceFindings: findings }
+      ) as VSLSpecialistOutput;
+    } catch (error: any) {
+      SuccessLogger.error(label, error);
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Judge how closely copy matches a brand voice profile and quote the
+   * phrases that break it
+   */
+  async scoreBrandVoice(input: BrandVoiceScoreInput): Promise<VSLSpecialistOutput> {
+    const label = `VSL Specialist - brand voice score (${input.brandVoice.name})`;
+
+    try {
+      SuccessLogger.start(label);
+
+      let prompt = `Score how well this copy matches the brand voice below. Judge the voice only, not persuasion.\n\n`;
+      prompt += this.buildBrandVoiceBlock(input.brandVoice);
+      prompt += `COPY TO SCORE:\n${input.text}\n\n`;
+      prompt += `TASK:\n`;
+      prompt += `1. Score each dimension 0-100: vocabulary (uses the brand words, avoids the banned ones), readingLevel, formality, pronouns (form of address), style (closeness to the sample copy; 100 if there is none).\n`;
+      prompt += `2. Give an overall score 0-100. Any forbidden claim caps it at 40.\n`;
+      prompt += `3. List deviations: quote each off-voice phrase EXACTLY as written and suggest an on-voice rewrite in the same language (${input.language || 'the language of the copy'}). Return an empty list if the copy is on voice.\n\n`;
+      prompt += `Respond with JSON only:\n`;
+      prompt += `{\n  "score": 85,\n  "dimensions": { "vocabulary": 90, "readingLevel": 80, "formality": 85, "pronouns": 100, "style": 75 },\n  "deviations": [\n    {\n      "dimension": "vocabulary" | "readingLevel" | "formality" | "pronouns" | "claims" | "style",\n      "phrase": "...",\n      "issue": "...",\n      "suggestion": "..."\n    }\n  ],\n  "summary": "..."\n}`;
+
+      const review = await this.callStructured(
+        prompt,
+        brandVoiceScoreResponseSchema,
+        input.projectId
+      );
+
+      // Drop deviations quoting phrases that are not in the copy
+      const text = input.text.toLowerCase();
+      const deviations = review.deviations.filter((deviation) =>
+        text.includes(deviation.phrase.toLowerCase())
+      );
+
+      SuccessLogger.success(label, {
+        score: review.score,
+        deviations: deviations.length,
+      });
+
+      return this.createSuccessResponse(
+        `Brand voice match: ${review.score}/100`,
+        { brandVoiceScore: { ...review, deviations } }
+      ) as VSLSpecialistOutput;
+    } catch (error: any) {
+      SuccessLogger.error(label, error);
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Translate a section's copy for another market, keeping its persuasive
+   * structure (used when a project is cloned into another language)
+   */
+  async translateCopy(input: VSLTranslationInput): Promise<VSLSpecialistOutput> {
+    const label = `VSL Specialist - translate ${input.sectionName} to ${input.targetLanguage}`;
+    const languageName = (language: string) =>
+      NARRATION_LANGUAGE_NAMES[language as NarrationLanguage] || language;
+
+    try {
+      SuccessLogger.start(label);
+
+      let prompt = `Translate the "${input.sectionName}" section of a VSL from ${languageName(input.sourceLanguage)} to ${languageName(input.targetLanguage)}.\n\n`;
+      prompt += `RULES:\n`;
+      prompt += `- Adapt it for native speakers of the target market: idioms, rhythm and emotional triggers, not word-for-word\n`;
+      prompt += `- Keep every fact, number, price, promise and call-to-action; do not add claims\n`;
+      prompt += `- Keep roughly the same length: the text is narrated and clip durations depend on it\n`;
+      prompt += `- Keep product and brand names as they are\n\n`;
+
+      for (const text of input.texts) {
+        prompt += `--- [${text.id}] ---\n${text.text}\n\n`;
+      }
+
+      prompt += `Return one translation per text, with the same id.\n\n`;
+      prompt += `Respond with JSON only:\n`;
+      prompt += `{\n  "translations": [\n    { "id": "...", "text": "..." }\n  ]\n}`;
+
+      const data = await this.callStructured(
+        prompt,
+        vslTranslationResponseSchema,
+        input.projectId
+      );
+
+      const translated = new Map(data.translations.map((translation) => [translation.id, translation.text]));
+      const missing = input.texts.filter((text) => !translated.get(text.id)?.trim());
+      if (missing.length > 0) {
+        throw new Error(`Missing translations for: ${missing.map((text) => text.id).join(', ')}`);
+      }
+
+      const translations = input.texts.map((text) => ({ id: text.id, text: translated.get(text.id)! }));
+
+      SuccessLogger.success(label, {
+        sectionName: input.sectionName,
+        texts: translations.length,
+      });
+
+      return this.createSuccessResponse(
+        `${input.sectionName} translated to ${input.targetLanguage}`,
+        { translations }
+      ) as VSLSpecialistOutput;
+    } catch (error: any) {
+      SuccessLogger.error(label, error);
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * CONTEXT block shared by variant prompts
+   */
+  private buildContextBlock(input: Pick<VSLSpecialistInput, 'userContext'>): string {
+    const { userContext } = input;
+    if (!userContext) return '';
+
+    let block = `CONTEXT:\n`;
+    if (userContext.productService) {
+      block += `Product/Service: ${userContext.productService}\n`;
+    }
+    if (userContext.targetAudience) {
+      block += `Target Audience: ${userContext.targetAudience}\n`;
+    }
+    if (userContext.mainProblem) {
+      block += `Main Problem: ${userContext.mainProblem}\n`;
+    }
+    if (userContext.priceOffer) {
+      block += `Price/Offer: ${userContext.priceOffer}\n`;
+    }
+    if (userContext.tone) {
+      block += `Tone: ${userContext.tone}\n`;
+    }
+    return `${block}\n`;
+  }
+
+  /**
+   * Build the full-script prompt for project analysis
+   */
+  private buildProjectAnalysisPrompt(input: VSLProjectAnalysisInput): string {
+    const { sections, userContext, template } = input;
+    const frameworkName = template?.name || input.templateId.toUpperCase();
+
+    let prompt = `Analyze this complete ${frameworkName} framework VSL as ONE script, the way a viewer experiences it from start to finish.\n\n`;
+
+    if (userContext) {
+      prompt += `CONTEXT:\n`;
+      if (userContext.productService) {
+        prompt += `Product/Service: ${userContext.productService}\n`;
+      }
+      if (userContext.targetAudience) {
+        prompt += `Target Audience: ${userContext.targetAudience}\n`;
+      }
+      if (userContext.mainProblem) {
+        prompt += `Main Problem: ${userContext.mainProblem}\n`;
+      }
+      if (userContext.priceOffer) {
+        prompt += `Price/Offer (source of truth): ${userContext.priceOffer}\n`;
+      }
+      if (userContext.tone) {
+        prompt += `Intended Tone: ${userContext.tone}\n`;
+      }
+      prompt += `\n`;
+    }
+
+    prompt += this.buildBrandVoiceBlock(input.brandVoice);
+
+    prompt += `FULL SCRIPT:\n`;
+    for (const section of sections) {
+      prompt += `--- ${section.sectionName} (section score ${section.persuasionScore}) ---\n${section.content}\n\n`;
+    }
+
+    prompt += `TASK:\n`;
+    prompt += `1. Score the script as a whole (0-100) using the scoring system from your system prompt - flow, escalation and payoff matter, not just individual sections.\n`;
+    prompt += `2. List consistencyIssues between sections:\n`;
+    prompt += `   - price: any price, discount or guarantee that differs from the Price/Offer or from another section\n`;
+    prompt += `   - claim: numbers, results, timelines or facts that contradict each other\n`;
+    prompt += `   - tone: sections that drift from the intended tone${input.brandVoice ? ' or the brand voice' : ''} or from the rest of the script\n`;
+    prompt += `   - other: broken narrative continuity, repeated hooks, promises never paid off\n`;
+    prompt += `   Use the exact section names. Return an empty list if the script is consistent.\n\n`;
+    prompt += `Follow the JSON format for project analysis requests in your system prompt.`;
+
+    return prompt;
+  }
+
+  private truncate(text: string, maxChars: number): string {
+    return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+  }
+
+  /**
+   * System prompt with a custom template framework appended
+   */
+  private buildSystemPrompt(templateName: string, framework: string): string {
+    return `${this.config.systemPrompt}
+
+CUSTOM FRAMEWORK - ${templateName}:
+${framework}
+
+Follow this framework for this request instead of the built-in ones.`;
+  }
+
   /**
    * Build comprehensive prompt for VSL content generation
    */
   private buildVSLPrompt(input: VSLSpecialistInput): string {
-    const { requestType, templateId, sectionName, userContext, currentContent } = input;
+    const { requestType, sectionName, userContext, currentContent, template } = input;
+    const frameworkName = template?.name || input.templateId.toUpperCase();
 
     let prompt = '';
 
     if (requestType === 'generate') {
-      prompt = `Create compelling VSL content for the "${sectionName}" section of a ${templateId.toUpperCase()} framework VSL.\n\n`;
+      prompt = `Create compelling VSL content for the "${sectionName}" section of a ${frameworkName} framework VSL.\n\n`;
+
+      // Add template structure and section guidance
+      if (template?.sectionNames?.length) {
+        prompt += `VSL STRUCTURE: ${template.sectionNames.join(' → ')}\n`;
+      }
+      if (template?.section?.guidance) {
+        prompt += `SECTION GOAL: ${template.section.guidance}\n`;
+      }
+      if (template?.section?.targetDuration) {
+        prompt += `TARGET DURATION: ~${template.section.targetDuration} seconds of narration (~${template.section.targetDuration * 2} words)\n`;
+      }
+      if (template?.sectionNames?.length || template?.section) {
+        prompt += `\n`;
+      }
 
       // Add user context
       if (userContext) {
@@ -273,7 +804,18 @@ Output format for 'score' requests:
         prompt += `\n`;
       }
 
-      prompt += `TASK: Write ${sectionName} section following ${templateId.toUpperCase()} framework principles.\n\n`;
+      prompt += this.buildBrandVoiceBlock(input.brandVoice);
+
+      // Add earlier sections so the VSL reads as one narrative
+      if (input.previousSections?.length) {
+        prompt += `PREVIOUS SECTIONS (already written, in order):\n`;
+        for (const previous of input.previousSections) {
+          prompt += `--- ${previous.sectionName} ---\n${this.truncate(previous.content, MAX_PREVIOUS_SECTION_CHARS)}\n`;
+        }
+        prompt += `\nContinue from these sections: keep the same voice, facts and promises, and do not repeat their hooks.\n\n`;
+      }
+
+      prompt += `TASK: Write ${sectionName} section following ${frameworkName} framework principles.\n\n`;
       prompt += `Focus on:\n`;
       prompt += `- Strong emotional connection\n`;
       prompt += `- Specific, concrete examples\n`;
@@ -283,7 +825,11 @@ Output format for 'score' requests:
       prompt += `Generate content following the JSON format for 'generate' requests in your system prompt.`;
 
     } else if (requestType === 'improve') {
-      prompt = `Improve this ${sectionName} section for a ${templateId.toUpperCase()} framework VSL.\n\n`;
+      prompt = `Improve this ${sectionName} section for a ${frameworkName} framework VSL.\n\n`;
+
+      if (template?.section?.guidance) {
+        prompt += `SECTION GOAL: ${template.section.guidance}\n\n`;
+      }
 
       prompt += `CURRENT CONTENT:\n${currentContent}\n\n`;
 
@@ -298,6 +844,8 @@ Output format for 'score' requests:
         prompt += `\n`;
       }
 
+      prompt += this.buildBrandVoiceBlock(input.brandVoice);
+
       prompt += `TASK: Enhance this content for better conversion. Make it more:\n`;
       prompt += `- Emotionally compelling\n`;
       prompt += `- Specific and concrete\n`;
@@ -307,7 +855,11 @@ Output format for 'score' requests:
 
     } else {
       // score request
-      prompt = `Analyze and score this ${sectionName} section from a ${templateId.toUpperCase()} framework VSL.\n\n`;
+      prompt = `Analyze and score this ${sectionName} section from a ${frameworkName} framework VSL.\n\n`;
+
+      if (template?.section?.guidance) {
+        prompt += `SECTION GOAL: ${template.section.guidance}\n\n`;
+      }
 
       prompt += `CONTENT TO SCORE:\n${currentContent}\n\n`;
 
@@ -0,0 +1,131 @@
+/**
+ * Conversation Memory - Persisted agent context
+ *
+ * Conversation history lives in the agent_messages table, so multi-turn
+ * context survives restarts and is shared between processes. Agents load
+ * a conversation on demand and send the model a token-budgeted window:
+ * the most recent turns verbatim, older turns as a summary.
+ */
+
+import { prisma } from '../config/database.js';
+import {
+  AgentRole,
+  AgentMessage,
+  MessageType,
+  MessagePriority,
+} from './types.js';
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = parseInt(
+  process.env.AGENT_HISTORY_TOKEN_BUDGET || '6000',
+  10
+);
+
+// Share of the budget kept for the summary of older turns
+const SUMMARY_BUDGET_SHARE = 0.25;
+
+/**
+ * Rough token count (~4 characters per token for English/Portuguese)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Map an agent_messages row to an AgentMessage
+ */
+export function toAgentMessage(row: any): AgentMessage {
+  return {
+    id: row.id,
+    novelaId: row.novelaId,
+    fromAgent: row.fromAgent as AgentRole,
+    toAgent: row.toAgent as AgentRole | undefined,
+    type: row.type as MessageType,
+    priority: row.priority as MessagePriority,
+    content: row.content,
+    metadata: row.metadata as Record<string, any>,
+    timestamp: row.timestamp,
+    conversationId: row.conversationId,
+  };
+}
+
+/**
+ * Load the persisted messages of a conversation, oldest first.
+ * With a role, only messages sent by or addressed to that agent are
+ * returned, excluding streamed completions (the agent's own model
+ * output, which is not part of its history).
+ */
+export async function loadConversationMessages(
+  conversationId: string,
+  role?: AgentRole
+): Promise<AgentMessage[]> {
+  const rows = await prisma.agentMessage.findMany({
+    where: role
+      ? { conversationId, OR: [{ fromAgent: role }, { toAgent: role }] }
+      : { conversationId },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  const messages = rows.map(toAgentMessage);
+
+  return role
+    ? messages.filter((message: AgentMessage) => !message.metadata?.streamId)
+    : messages;
+}
+
+/**
+ * Split a history into turns sent verbatim (newest, within the budget)
+ * and older turns that have to be summarized
+ */
+export function splitHistoryWindow(
+  history: AgentMessage[],
+  budgetTokens: number
+): { older: AgentMessage[]; recent: AgentMessage[] } {
+  const total = history.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+  if (total <= budgetTokens) {
+    return { older: [], recent: history };
+  }
+
+  const recentBudget = budgetTokens * (1 - SUMMARY_BUDGET_SHARE);
+  let used = 0;
+  let start = history.length;
+
+  while (start > 0) {
+    const tokens = estimateTokens(history[start - 1].content);
+    if (used + tokens > recentBudget) break;
+    used += tokens;
+    start--;
+  }
+
+  return { older: history.slice(0, start), recent: history.slice(start) };
+}
+
+/**
+ * Summary budget for a given history budget
+ */
+export function summaryTokenBudget(budgetTokens: number): number {
+  return Math.max(200, Math.floor(budgetTokens * SUMMARY_BUDGET_SHARE));
+}
+
+/**
+ * Plain-text transcript of messages for the summarizer
+ */
+export function formatTranscript(messages: AgentMessage[]): string {
+  return messages
+    .map((message) => `[${message.fromAgent} → ${message.toAgent || 'ALL'}] ${message.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Summary used when the model cannot summarize: first line of each turn
+ */
+export function extractiveSummary(messages: AgentMessage[], budgetTokens: number): string {
+  const perMessage = Math.max(40, Math.floor((budgetTokens * 4) / Math.max(1, messages.length)));
+
+  return messages
+    .map((message) => {
+      const text = message.content.replace(/\s+/g, ' ').trim();
+      return `- ${message.fromAgent}: ${text.length > perMessage ? `${text.substring(0, perMessage)}…` : text}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,57 @@
+/**
+ * GPT-5 Multi-Agent System - Error Types
+ */
+
+import { AgentRole } from './types.js';
+
+/**
+ * Raised when a model keeps returning JSON that fails schema validation
+ * after every re-ask attempt has been used.
+ */
+export class StructuredOutputError extends Error {
+  readonly agentRole: AgentRole;
+  readonly issues: string[];
+  readonly attempts: number;
+  readonly lastResponse: string;
+
+  constructor(
+    agentRole: AgentRole,
+    issues: string[],
+    attempts: number,
+    lastResponse: string
+  ) {
+    super(
+      `${agentRole} returned invalid structured output after ${attempts} attempt(s): ${issues.join('; ')}`
+    );
+    this.name = 'StructuredOutputError';
+    this.agentRole = agentRole;
+    this.issues = issues;
+    this.attempts = attempts;
+    this.lastResponse = lastResponse;
+  }
+}
+
+/**
+ * Raised when the retry orchestrator gives up and hands the failure to the
+ * human-review queue.
+ */
+export class RecoveryEscalatedError extends Error {
+  readonly reviewId: string | null;
+  readonly attempts: number;
+  readonly lastError: string;
+
+  constructor(
+    attemptedAction: string,
+    reviewId: string | null,
+    attempts: number,
+    lastError: string
+  ) {
+    super(
+      `${attemptedAction} escalated to human review after ${attempts} attempt(s): ${lastError}`
+    );
+    this.name = 'RecoveryEscalatedError';
+    this.reviewId = reviewId;
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
@@ -5,6 +5,9 @@
  */
 
 export * from './types.js';
+export * from './schemas.js';
+export * from './errors.js';
+export * from './narrativeFrameworks.js';
 export { BaseAgent } from './BaseAgent.js';
 export { ScriptWriterAgent } from './ScriptWriterAgent.js';
 export { SystemIntegratorAgent } from './SystemIntegratorAgent.js';
@@ -13,4 +16,15 @@ export { VSLSpecialistAgent } from './VSLSpecialistAgent.js';
 export { LambdaConfigAgent } from './LambdaConfigAgent.js';
 export { ScriptDetailAgent } from './ScriptDetailAgent.js';
 export { CommunicationBus } from './CommunicationBus.js';
-export { AgentManager } from './AgentManager.js';
+export { AgentManager, getAgentManager } from './AgentManager.js';
+export { RetryOrchestrator } from './RetryOrchestrator.js';
+export type {
+  RecoveryAction,
+  RecoveryAttempt,
+  RecoveryAttemptRecord,
+  RecoveryOptions,
+} from './RetryOrchestrator.js';
+export type { AgentManagerOptions } from './AgentManager.js';
+export { trackUsage, recordLLMCall, computeLLMCost, getModelPricing } from './usage.js';
+export type { UsageContext, LLMCallRecord, ModelPricing } from './usage.js';
+export * from './providers/index.js';
@@ -0,0 +1,176 @@
+/**
+ * Narrative Frameworks
+ *
+ * The beat structures ScriptDetailAgent maps a section's clips onto. Each
+ * clip's partName/step/objective come from the beat it covers. A framework
+ * is chosen per request or inferred from the section name (a "Proof"
+ * section reads best as a testimonial montage whatever the template) and
+ * then from the project template (PAS, AIDA, Story). Hero's Journey is the
+ * fallback, as it was before frameworks were pluggable.
+ */
+
+export const NARRATIVE_FRAMEWORK_IDS = [
+  'heros-journey',
+  'pas',
+  'aida',
+  'before-after-bridge',
+  'testimonial-montage',
+  'listicle',
+] as const;
+
+export type NarrativeFrameworkId = (typeof NARRATIVE_FRAMEWORK_IDS)[number];
+
+export interface NarrativeBeat {
+  name: string;
+  step: string;
+  objective: string;
+  repeatable?: boolean; // May span several consecutive clips (e.g. list items)
+}
+
+export interface NarrativeFramework {
+  id: NarrativeFrameworkId;
+  name: string;
+  description: string;
+  beats: NarrativeBeat[];
+  guidance?: string; // Extra writing rules for the prompt
+}
+
+export const DEFAULT_NARRATIVE_FRAMEWORK: NarrativeFrameworkId = 'heros-journey';
+
+export const NARRATIVE_FRAMEWORKS: Record<NarrativeFrameworkId, NarrativeFramework> = {
+  'heros-journey': {
+    id: 'heros-journey',
+    name: "Hero's Journey",
+    description: 'The 12-step mythic journey from ordinary world to transformation',
+    beats: [
+      { name: 'The Ordinary World', step: 'Step 1: The Hero in Their World', objective: 'Establish the routine and problems of the hero before the adventure begins' },
+      { name: 'The Call to Adventure', step: 'Step 2: The Problem Arises', objective: 'Present the challenge or opportunity that disrupts the status quo' },
+      { name: 'Refusal of the Call', step: 'Step 3: Initial Hesitation', objective: 'Show the hero\'s doubts, fears, or reasons for not taking action' },
+      { name: 'Meeting the Mentor', step: 'Step 4: Guidance and Wisdom', objective: 'Introduce the mentor who provides knowledge, tools, or encouragement' },
+      { name: 'Crossing the Threshold', step: 'Step 5: Commitment to Change', objective: 'The hero commits to the journey and enters a new world or situation' },
+      { name: 'Tests, Allies, and Enemies', step: 'Step 6: The Journey Begins', objective: 'The hero faces challenges, meets allies, and identifies obstacles' },
+      { name: 'Approach to the Inmost Cave', step: 'Step 7: Preparing for the Major Challenge', objective: 'The hero prepares for the biggest test or confrontation' },
+      { name: 'The Ordeal', step: 'Step 8: The Biggest Challenge', objective: 'The hero faces their greatest fear or challenge' },
+      { name: 'The Reward', step: 'Step 9: Achieving the Goal', objective: 'The hero achieves the goal and gains the reward or solution' },
+      { name: 'The Road Back', step: 'Step 10: Returning with New Knowledge', objective: 'The hero begins the journey back with newfound wisdom' },
+      { name: 'The Resurrection', step: 'Step 11: The Final Test', objective: 'The hero faces a final test to prove the transformation is complete' },
+      { name: 'Return with the Elixir', step: 'Step 12: Sharing the Transformation', objective: 'The hero returns transformed and shares the benefits with others' },
+    ],
+  },
+  pas: {
+    id: 'pas',
+    name: 'PAS (Problem-Agitate-Solution)',
+    description: 'Name the pain, make it hurt, present the way out',
+    beats: [
+      { name: 'The Pain Point', step: 'Step 1: Name the Problem', objective: 'Call out a specific, relatable problem the viewer has right now' },
+      { name: 'Making It Real', step: 'Step 2: Make It Specific', objective: 'Show the problem in a concrete everyday moment the viewer recognizes' },
+      { name: 'The Cost of Waiting', step: 'Step 3: Agitate', objective: 'Amplify the consequences of leaving the problem unsolved' },
+      { name: 'Failed Alternatives', step: 'Step 4: Close the Other Doors', objective: 'Show why the usual fixes have not worked' },
+      { name: 'The Way Out', step: 'Step 5: Present the Solution', objective: 'Introduce the product as the answer to the problem' },
+      { name: 'Life Solved', step: 'Step 6: Show the Outcome', objective: 'Picture the viewer with the problem gone' },
+    ],
+  },
+  aida: {
+    id: 'aida',
+    name: 'AIDA (Attention-Interest-Desire-Action)',
+    description: 'Classic funnel from pattern interrupt to call-to-action',
+    beats: [
+      { name: 'Pattern Interrupt', step: 'Step 1: Attention', objective: 'Stop the scroll with a bold claim, question or striking image' },
+      { name: 'The Big Promise', step: 'Step 2: Attention', objective: 'State what the viewer will get from watching' },
+      { name: 'The Curiosity Gap', step: 'Step 3: Interest', objective: 'Reveal something surprising that makes the viewer want to know more' },
+      { name: 'Benefits in Action', step: 'Step 4: Desire', objective: 'Show the concrete benefits as the viewer would live them' },
+      { name: 'Proof', step: 'Step 5: Desire', objective: 'Back the promise with results, numbers or social proof' },
+      { name: 'Call to Action', step: 'Step 6: Action', objective: 'Tell the viewer exactly what to do next and why now' },
+    ],
+  },
+  'before-after-bridge': {
+    id: 'before-after-bridge',
+    name: 'Before-After-Bridge',
+    description: 'The world today, the world after, and the product as the bridge',
+    beats: [
+      { name: 'The Before', step: 'Step 1: Before', objective: 'Describe the viewer\'s current situation and frustration' },
+      { name: 'Living With It', step: 'Step 2: Before', objective: 'Show what the problem costs day to day' },
+      { name: 'The After', step: 'Step 3: After', objective: 'Paint the world where the problem is solved' },
+      { name: 'How It Feels', step: 'Step 4: After', objective: 'Make the after emotional and personal' },
+      { name: 'The Bridge', step: 'Step 5: Bridge', objective: 'Present the product as the way from before to after' },
+    ],
+  },
+  'testimonial-montage': {
+    id: 'testimonial-montage',
+    name: 'Testimonial Montage',
+    description: 'A sequence of customer voices telling one shared story',
+    beats: [
+      { name: 'First Voice', step: 'Step 1: The Hook Testimonial', objective: 'Open with the most striking customer result in their own words' },
+      { name: 'The Struggle', step: 'Step 2: Shared Pain', objective: 'Customers describe the problem they had before' },
+      { name: 'The Turning Point', step: 'Step 3: Discovery', objective: 'Customers describe finding and trying the product' },
+      { name: 'The Results', step: 'Step 4: Outcomes', objective: 'Customers describe specific, believable results', repeatable: true },
+      { name: 'Chorus of Voices', step: 'Step 5: Social Proof', objective: 'Quick succession of short reactions showing it works for many people' },
+      { name: 'The Invitation', step: 'Step 6: Your Turn', objective: 'Invite the viewer to be the next story' },
+    ],
+    guidance:
+      'Write voice lines as first-person customer quotes, a different customer per clip, each with a distinct name, age and situation. Visuals show different real-looking people speaking to camera or in their own setting. Keep results realistic and typical.',
+  },
+  listicle: {
+    id: 'listicle',
+    name: 'Listicle',
+    description: 'A numbered list of reasons, benefits or mistakes',
+    beats: [
+      { name: 'The Hook', step: 'Step 1: Promise the List', objective: 'State how many items are coming and why they matter' },
+      { name: 'List Item', step: 'Step 2: One Item per Clip', objective: 'Deliver one numbered item with a concrete example', repeatable: true },
+      { name: 'The Wrap-Up', step: 'Step 3: Recap and Next Step', objective: 'Recap the list and point to the product as the way to act on it' },
+    ],
+    guidance:
+      'Number the items in voice and partName (e.g. "PART 2: Reason #1 - ..."). Every item gets its own clip; the item count follows from the number of clips.',
+  },
+};
+
+export function isNarrativeFrameworkId(value: unknown): value is NarrativeFrameworkId {
+  return typeof value === 'string' && (NARRATIVE_FRAMEWORK_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * The beat a generated clip's partName refers to (e.g. "PART 3: The Ordeal")
+ */
+export function findNarrativeBeat(
+  framework: NarrativeFramework,
+  partName: string
+): NarrativeBeat | undefined {
+  const normalized = partName.toLowerCase();
+  return framework.beats.find((beat) => normalized.includes(beat.name.toLowerCase()));
+}
+
+// Section name keywords (en, pt, es) → framework, checked in order
+const SECTION_NAME_FRAMEWORKS: Array<{ pattern: RegExp; framework: NarrativeFrameworkId }> = [
+  { pattern: /testimonial|depoimento|testimonio|proof|prova|prueba|cases?\b|casos?\b|reviews?/i, framework: 'testimonial-montage' },
+  { pattern: /benefits?|benef[íi]cios?|reasons?|raz[õo]es|motivos|features?|bonus|b[ôo]nus|mistakes?|erros|errores|tips|dicas|consejos/i, framework: 'listicle' },
+  { pattern: /transform|before|after|antes|depois|despu[ée]s/i, framework: 'before-after-bridge' },
+  { pattern: /story|hist[óo]ria|journey|jornada|viaje|origin/i, framework: 'heros-journey' },
+  { pattern: /problem|agitat|pain|dor\b|dolor/i, framework: 'pas' },
+];
+
+// Built-in VSL templates (services/vsl/templates.ts) → framework
+const TEMPLATE_FRAMEWORKS: Record<string, NarrativeFrameworkId> = {
+  pas: 'pas',
+  aida: 'aida',
+  story: 'heros-journey',
+  authority: 'testimonial-montage',
+};
+
+/**
+ * Pick a framework from the section name, then the template, then the default
+ */
+export function inferNarrativeFramework(
+  templateId?: string,
+  sectionName?: string
+): NarrativeFrameworkId {
+  if (sectionName) {
+    const match = SECTION_NAME_FRAMEWORKS.find(({ pattern }) => pattern.test(sectionName));
+    if (match) return match.framework;
+  }
+
+  if (templateId && TEMPLATE_FRAMEWORKS[templateId]) {
+    return TEMPLATE_FRAMEWORKS[templateId];
+  }
+
+  return DEFAULT_NARRATIVE_FRAMEWORK;
+}
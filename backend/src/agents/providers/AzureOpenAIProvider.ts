@@ -0,0 +1,37 @@
+/**
+ * Azure OpenAI Provider
+ *
+ * Same Chat Completions contract as OpenAI, routed to an Azure resource.
+ * When no deployment is configured the agent model name is used as the
+ * deployment name by the Azure client.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { LLMProviderConfig, LLMProviderType } from './types.js';
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  readonly type: LLMProviderType = 'azure';
+
+  protected createClient(config: LLMProviderConfig): OpenAI {
+    const apiKey = config.apiKey || process.env.AZURE_OPENAI_API_KEY;
+    const endpoint = config.baseURL || process.env.AZURE_OPENAI_ENDPOINT;
+
+    if (!apiKey || !endpoint) {
+      throw new Error(
+        'AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT must be set for the azure provider'
+      );
+    }
+
+    return new AzureOpenAI({
+      apiKey,
+      endpoint,
+      apiVersion:
+        config.apiVersion ||
+        process.env.AZURE_OPENAI_API_VERSION ||
+        '2025-04-01-preview',
+      ...(config.deployment && { deployment: config.deployment }),
+      ...(config.timeoutMs && { timeout: config.timeoutMs }),
+    });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Local OpenAI-Compatible Provider
+ *
+ * Targets self-hosted servers exposing the OpenAI Chat Completions API
+ * (vLLM, Ollama, LM Studio, llama.cpp server). These servers usually
+ * ignore the API key, so a placeholder is sent when none is configured.
+ */
+
+import OpenAI from 'openai';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { LLMProviderConfig, LLMProviderType } from './types.js';
+
+export class LocalOpenAIProvider extends OpenAIProvider {
+  readonly type: LLMProviderType = 'local';
+
+  protected createClient(config: LLMProviderConfig): OpenAI {
+    const baseURL = config.baseURL || process.env.LOCAL_LLM_BASE_URL;
+
+    if (!baseURL) {
+      throw new Error('LOCAL_LLM_BASE_URL must be set for the local provider');
+    }
+
+    return new OpenAI({
+      apiKey: config.apiKey || process.env.LOCAL_LLM_API_KEY || 'local',
+      baseURL,
+      ...(config.timeoutMs && { timeout: config.timeoutMs }),
+    });
+  }
+}
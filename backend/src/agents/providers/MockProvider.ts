@@ -0,0 +1,90 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline provider for tests and local development.
+ * Responses are registered per agent role; an array is consumed in order
+ * and its last entry keeps being returned once the queue is exhausted.
+ * Roles without a registered response get an empty JSON object.
+ */
+
+import { AgentRole } from '../types.js';
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamHandler,
+} from './types.js';
+
+const STREAM_CHUNK_SIZE = 16; // characters per simulated stream delta
+
+export class MockProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'mock';
+  private responses: Map<AgentRole, string[]> = new Map();
+  private requests: LLMCompletionRequest[] = [];
+
+  constructor(config: LLMProviderConfig = { type: 'mock' }) {
+    Object.entries(config.mockResponses || {}).forEach(([role, response]) => {
+      this.setResponse(role as AgentRole, response!);
+    });
+  }
+
+  /**
+   * Register the response(s) returned for an agent role
+   */
+  setResponse(role: AgentRole, response: string | string[]): void {
+    this.responses.set(role, Array.isArray(response) ? [...response] : [response]);
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  getRequests(): LLMCompletionRequest[] {
+    return [...this.requests];
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    this.requests.push(request);
+
+    const queue = this.responses.get(request.agentRole);
+    const content =
+      queue && queue.length > 0
+        ? queue.length > 1
+          ? queue.shift()!
+          : queue[0]
+        : '{}';
+
+    // Approximate usage (~4 characters per token) so cost accounting runs offline
+    const promptTokens = Math.ceil(
+      request.messages.reduce((sum, message) => sum + message.content.length, 0) / 4
+    );
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: request.model,
+      finishReason: 'stop',
+      usage: {
+        promptTokens,
+        cachedPromptTokens: 0,
+        completionTokens,
+        reasoningTokens: 0,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  async completeStream(
+    request: LLMCompletionRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMCompletionResult> {
+    const result = await this.complete(request);
+
+    for (let i = 0; i < result.content.length; i += STREAM_CHUNK_SIZE) {
+      onDelta(result.content.substring(i, i + STREAM_CHUNK_SIZE));
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * OpenAI Provider
+ *
+ * Chat Completions client shared by every OpenAI-compatible backend.
+ * Azure OpenAI and local servers reuse the request mapping and only
+ * differ in how the underlying client is constructed.
+ */
+
+import OpenAI from 'openai';
+import type { CompletionUsage } from 'openai/resources/completions';
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamHandler,
+  LLMUsage,
+} from './types.js';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'openai';
+  protected client: OpenAI;
+
+  constructor(config: LLMProviderConfig) {
+    this.client = this.createClient(config);
+  }
+
+  protected createClient(config: LLMProviderConfig): OpenAI {
+    const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY not set in environment variables');
+    }
+
+    return new OpenAI({
+      apiKey,
+      ...(config.baseURL && { baseURL: config.baseURL }),
+      ...(config.timeoutMs && { timeout: config.timeoutMs }),
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const response = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: false,
+    });
+
+    return {
+      content: response.choices[0]?.message.content || '',
+      model: response.model,
+      finishReason: response.choices[0]?.finish_reason,
+      usage: this.mapUsage(response.usage),
+      raw: response,
+    };
+  }
+
+  async completeStream(
+    request: LLMCompletionRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMCompletionResult> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+      stream_options: { include_usage: true }, // Usage arrives in the last chunk
+    });
+
+    let content = '';
+    let model = request.model;
+    let finishReason: string | null | undefined;
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+
+      model = chunk.model || model;
+      finishReason = choice?.finish_reason ?? finishReason;
+      usage = this.mapUsage(chunk.usage) || usage;
+
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+
+    return { content, model, finishReason, usage };
+  }
+
+  protected mapUsage(usage: CompletionUsage | null | undefined): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      cachedPromptTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+      completionTokens: usage.completion_tokens,
+      reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  /**
+   * Map a provider-neutral request onto Chat Completions parameters.
+   * GPT-5 only accepts max_completion_tokens and reasoning_effort -
+   * temperature is sent only when the agent explicitly configures it.
+   */
+  protected buildParams(request: LLMCompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      max_completion_tokens: request.maxCompletionTokens,
+      ...(request.reasoningEffort && {
+        reasoning_effort: request.reasoningEffort,
+      }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(request.jsonMode && {
+        response_format: { type: 'json_object' as const },
+      }),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Recording Provider
+ *
+ * Wraps a real provider and writes every request/response pair to disk
+ * so the exchange can later be replayed offline by ReplayProvider.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { writeFixture } from './fixtures.js';
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamHandler,
+} from './types.js';
+
+export class RecordingProvider implements LLMProvider {
+  readonly type: LLMProviderType;
+
+  constructor(
+    private inner: LLMProvider,
+    private fixturesDir: string
+  ) {
+    this.type = inner.type;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const result = await this.inner.complete(request);
+    await this.record(request, result);
+    return result;
+  }
+
+  async completeStream(
+    request: LLMCompletionRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMCompletionResult> {
+    const result = await this.inner.completeStream(request, onDelta);
+    await this.record(request, result);
+    return result;
+  }
+
+  private async record(
+    request: LLMCompletionRequest,
+    result: LLMCompletionResult
+  ): Promise<void> {
+    try {
+      const filePath = await writeFixture(this.fixturesDir, request, result);
+      logger.info(`📼 Recorded ${request.agentRole} fixture: ${filePath}`);
+    } catch (error: any) {
+      // Recording must never break a live call
+      logger.warn(`⚠️ Failed to record ${request.agentRole} fixture: ${error.message}`);
+    }
+  }
+}
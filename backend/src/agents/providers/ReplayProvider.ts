@@ -0,0 +1,50 @@
+/**
+ * Replay Provider
+ *
+ * Serves responses previously captured by RecordingProvider, keyed by
+ * agent role + prompt hash. Never touches the network: a missing fixture
+ * is an error so tests fail loudly when a prompt changes.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { fixturePath, readFixture } from './fixtures.js';
+import {
+  LLMProvider,
+  LLMProviderType,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMStreamHandler,
+} from './types.js';
+
+export class ReplayProvider implements LLMProvider {
+  readonly type: LLMProviderType = 'replay';
+
+  constructor(private fixturesDir: string) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const fixture = await readFixture(this.fixturesDir, request);
+
+    if (!fixture) {
+      throw new Error(
+        `No LLM fixture for ${request.agentRole} at ${fixturePath(this.fixturesDir, request)}. ` +
+          'Record it first with LLM_FIXTURE_MODE=record.'
+      );
+    }
+
+    logger.info(`📼 Replaying ${request.agentRole} fixture ${fixture.promptHash}`);
+
+    return {
+      ...fixture.response,
+      raw: fixture,
+    };
+  }
+
+  async completeStream(
+    request: LLMCompletionRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMCompletionResult> {
+    const result = await this.complete(request);
+    onDelta(result.content);
+    return result;
+  }
+}
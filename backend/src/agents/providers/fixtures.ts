@@ -0,0 +1,91 @@
+/**
+ * LLM Fixtures - Record & Replay Storage
+ *
+ * Fixtures are stored as one JSON file per request/response pair:
+ *   <fixturesDir>/<agentRole>/<promptHash>.json
+ *
+ * The prompt hash covers the full message list (system prompt, history and
+ * user message) so any prompt change produces a new fixture. The model name
+ * is deliberately left out of the key so fixtures recorded against one model
+ * still replay when OPENAI_MODEL differs between machines.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AgentRole } from '../types.js';
+import { LLMCompletionRequest, LLMCompletionResult } from './types.js';
+
+export interface LLMFixture {
+  agentRole: AgentRole;
+  promptHash: string;
+  model: string;
+  request: Pick<LLMCompletionRequest, 'messages' | 'maxCompletionTokens' | 'jsonMode'>;
+  response: Omit<LLMCompletionResult, 'raw'>;
+  recordedAt: string;
+}
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'llm');
+
+/**
+ * Stable hash of the prompt sent to the model
+ */
+export function hashPrompt(request: LLMCompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify(request.messages))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Absolute path of the fixture file for a request
+ */
+export function fixturePath(fixturesDir: string, request: LLMCompletionRequest): string {
+  return path.join(fixturesDir, request.agentRole, `${hashPrompt(request)}.json`);
+}
+
+export async function readFixture(
+  fixturesDir: string,
+  request: LLMCompletionRequest
+): Promise<LLMFixture | null> {
+  try {
+    const data = await fs.readFile(fixturePath(fixturesDir, request), 'utf-8');
+    return JSON.parse(data) as LLMFixture;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeFixture(
+  fixturesDir: string,
+  request: LLMCompletionRequest,
+  result: LLMCompletionResult
+): Promise<string> {
+  const filePath = fixturePath(fixturesDir, request);
+
+  const fixture: LLMFixture = {
+    agentRole: request.agentRole,
+    promptHash: hashPrompt(request),
+    model: result.model,
+    request: {
+      messages: request.messages,
+      maxCompletionTokens: request.maxCompletionTokens,
+      jsonMode: request.jsonMode,
+    },
+    response: {
+      content: result.content,
+      model: result.model,
+      finishReason: result.finishReason,
+      usage: result.usage,
+    },
+    recordedAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+
+  return filePath;
+}
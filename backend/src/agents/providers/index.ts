@@ -0,0 +1,105 @@
+/**
+ * LLM Provider Factory
+ *
+ * Resolves which provider an agent uses. Precedence:
+ * 1. Explicit `provider` in the agent's AgentConfig
+ * 2. LLM_PROVIDER_<ROLE> environment variable (e.g. LLM_PROVIDER_VSL_SPECIALIST=azure)
+ * 3. LLM_PROVIDER environment variable
+ * 4. openai
+ *
+ * LLM_FIXTURE_MODE=record wraps the resolved provider so every call is saved
+ * to LLM_FIXTURES_DIR; LLM_FIXTURE_MODE=replay serves those files instead of
+ * calling any vendor (used to run the agent system offline on CI).
+ */
+
+import { AgentRole } from '../types.js';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { AzureOpenAIProvider } from './AzureOpenAIProvider.js';
+import { LocalOpenAIProvider } from './LocalOpenAIProvider.js';
+import { MockProvider } from './MockProvider.js';
+import { RecordingProvider } from './RecordingProvider.js';
+import { ReplayProvider } from './ReplayProvider.js';
+import { DEFAULT_FIXTURES_DIR } from './fixtures.js';
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderType,
+  LLMFixtureMode,
+} from './types.js';
+
+export * from './types.js';
+export * from './fixtures.js';
+export {
+  OpenAIProvider,
+  AzureOpenAIProvider,
+  LocalOpenAIProvider,
+  MockProvider,
+  RecordingProvider,
+  ReplayProvider,
+};
+
+const PROVIDER_TYPES: LLMProviderType[] = ['openai', 'azure', 'local', 'mock', 'replay'];
+const FIXTURE_MODES: LLMFixtureMode[] = ['off', 'record', 'replay'];
+
+/**
+ * Resolve provider configuration for an agent role from the environment
+ */
+export function resolveProviderConfig(role: AgentRole): LLMProviderConfig {
+  const configured = (
+    process.env[`LLM_PROVIDER_${role.toUpperCase()}`] ||
+    process.env.LLM_PROVIDER ||
+    'openai'
+  ).toLowerCase() as LLMProviderType;
+
+  if (!PROVIDER_TYPES.includes(configured)) {
+    throw new Error(
+      `Unknown LLM provider "${configured}". Must be one of: ${PROVIDER_TYPES.join(', ')}`
+    );
+  }
+
+  const fixtureMode = (process.env.LLM_FIXTURE_MODE || 'off').toLowerCase() as LLMFixtureMode;
+
+  if (!FIXTURE_MODES.includes(fixtureMode)) {
+    throw new Error(
+      `Unknown LLM fixture mode "${fixtureMode}". Must be one of: ${FIXTURE_MODES.join(', ')}`
+    );
+  }
+
+  return {
+    type: configured,
+    fixtureMode,
+    ...(process.env.LLM_FIXTURES_DIR && { fixturesDir: process.env.LLM_FIXTURES_DIR }),
+  };
+}
+
+/**
+ * Create a provider instance from its configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const fixturesDir = config.fixturesDir || DEFAULT_FIXTURES_DIR;
+
+  if (config.type === 'replay' || config.fixtureMode === 'replay') {
+    return new ReplayProvider(fixturesDir);
+  }
+
+  const provider = createBaseProvider(config);
+
+  return config.fixtureMode === 'record'
+    ? new RecordingProvider(provider, fixturesDir)
+    : provider;
+}
+
+function createBaseProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'azure':
+      return new AzureOpenAIProvider(config);
+    case 'local':
+      return new LocalOpenAIProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    default:
+      throw new Error(`Unsupported LLM provider: ${(config as LLMProviderConfig).type}`);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * LLM Provider Layer - Type Definitions
+ *
+ * Every agent talks to its language model through an LLMProvider, so the
+ * vendor (OpenAI, Azure OpenAI, a local OpenAI-compatible server, a
+ * deterministic mock or recorded fixtures) can be swapped per agent without
+ * touching agent code.
+ */
+
+import { AgentRole } from '../types.js';
+
+export type LLMProviderType = 'openai' | 'azure' | 'local' | 'mock' | 'replay';
+
+export type LLMFixtureMode = 'off' | 'record' | 'replay';
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  agentRole: AgentRole;
+  model: string;
+  messages: LLMChatMessage[];
+  maxCompletionTokens: number;
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
+  temperature?: number; // Only for non-reasoning models (GPT-5 rejects it)
+  jsonMode?: boolean;
+}
+
+/**
+ * Token usage reported by the vendor. completionTokens includes
+ * reasoningTokens; cachedPromptTokens is the cached share of promptTokens.
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  model: string;
+  finishReason?: string | null;
+  usage?: LLMUsage; // Missing when the backend does not report usage
+  raw?: unknown; // Vendor response, for debugging only
+}
+
+/**
+ * Receives each content delta of a streamed completion, in order
+ */
+export type LLMStreamHandler = (delta: string) => void;
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  /**
+   * Stream the completion, calling onDelta for each chunk, and resolve
+   * with the consolidated result once the stream ends
+   */
+  completeStream(
+    request: LLMCompletionRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMCompletionResult>;
+}
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  apiKey?: string;
+  baseURL?: string; // local: OpenAI-compatible server URL, azure: resource endpoint
+  apiVersion?: string; // azure only
+  deployment?: string; // azure only - defaults to the agent model name
+  timeoutMs?: number;
+  mockResponses?: Partial<Record<AgentRole, string | string[]>>; // mock only
+  fixtureMode?: LLMFixtureMode; // record: capture to disk, replay: serve from disk only
+  fixturesDir?: string; // Defaults to <cwd>/fixtures/llm
+}
@@ -0,0 +1,19 @@
+/**
+ * Recovery Scope
+ *
+ * Marks agent calls made inside RetryOrchestrator.run. The orchestrator
+ * asks the Fallback Handler about each failure itself, so failing agents
+ * don't also send it a request over the bus (BaseAgent.requestFallback).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const recoveryScope = new AsyncLocalStorage<true>();
+
+export function runInRecovery<T>(fn: () => Promise<T>): Promise<T> {
+  return recoveryScope.run(true, fn);
+}
+
+export function isInRecovery(): boolean {
+  return recoveryScope.getStore() === true;
+}
@@ -0,0 +1,301 @@
+/**
+ * GPT-5 Multi-Agent System - Structured Output Schemas
+ *
+ * Zod schemas for the raw JSON each agent asks the model to return.
+ * BaseAgent.callStructured validates responses against these and re-asks
+ * the model with the validation errors when a response is malformed.
+ */
+
+import { z } from 'zod';
+
+const score = z.number().min(0).max(100);
+const stringList = z.array(z.string()).default([]);
+const requiredText = z.string().trim().min(1);
+
+// Continuity bible entries a clip or scene shows (ids are checked against the bible afterwards)
+const continuityRefsSchema = z.object({
+  characterIds: stringList,
+  locationId: z.string().trim().min(1).nullable().catch(null),
+  wardrobeIds: stringList,
+});
+
+// ============================================================================
+// SCRIPT WRITER
+// ============================================================================
+
+export const scriptWriterResponseSchema = z.object({
+  sceneDescription: requiredText,
+  visualPrompt: requiredText,
+  audioPrompt: z.string().default(''),
+  characterActions: stringList,
+  estimatedDuration: z.number().positive().optional(),
+  continuity: continuityRefsSchema.optional(),
+});
+
+export type ScriptWriterResponse = z.infer<typeof scriptWriterResponseSchema>;
+
+// ============================================================================
+// SYSTEM INTEGRATOR
+// ============================================================================
+
+export const systemIntegratorResponseSchema = z.object({
+  modelId: requiredText,
+  estimatedCost: z.number().min(0),
+  estimatedTime: z.number().min(0),
+  lambdaEndpoint: z.string().optional(),
+  reasoning: z.string().optional(),
+});
+
+export type SystemIntegratorResponse = z.infer<typeof systemIntegratorResponseSchema>;
+
+// ============================================================================
+// FALLBACK HANDLER
+// ============================================================================
+
+export const fallbackResolutionSchema = z.object({
+  strategy: requiredText,
+  alternativeApproach: z.string().optional(),
+  requiresHumanIntervention: z.boolean(),
+  retryable: z.boolean(),
+  recommendedAction: z.string().optional(),
+  preventionSuggestion: z.string().optional(),
+});
+
+export type FallbackResolution = z.infer<typeof fallbackResolutionSchema>;
+
+// ============================================================================
+// VSL SPECIALIST
+// ============================================================================
+
+export const vslGenerateResponseSchema = z.object({
+  content: requiredText,
+  persuasionScore: score,
+  hooks: stringList,
+  improvements: stringList,
+  strengths: stringList,
+  weaknesses: stringList,
+});
+
+export const vslImproveResponseSchema = z.object({
+  improvedContent: requiredText,
+  aiSuggestion: z.string().default(''),
+  persuasionScore: score,
+  changes: stringList,
+});
+
+export const vslScoreResponseSchema = z.object({
+  score,
+  strengths: stringList,
+  weaknesses: stringList,
+  recommendations: stringList,
+});
+
+export const vslProjectAnalysisResponseSchema = z.object({
+  score,
+  strengths: stringList,
+  weaknesses: stringList,
+  recommendations: stringList,
+  consistencyIssues: z
+    .array(
+      z.object({
+        type: z.enum(['price', 'claim', 'tone', 'other']).catch('other'),
+        severity: z.enum(['low', 'medium', 'high']).catch('medium'),
+        sections: stringList,
+        description: requiredText,
+        suggestion: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+export const vslVariantsResponseSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        angle: requiredText,
+        content: requiredText,
+        hooks: stringList,
+        persuasionScore: score,
+        strengths: stringList,
+        weaknesses: stringList,
+        recommendations: stringList,
+      })
+    )
+    .min(1),
+});
+
+export const vslVariantComparisonResponseSchema = z.object({
+  winner: requiredText,
+  summary: requiredText,
+  differences: z
+    .array(
+      z.object({
+        label: requiredText,
+        explanation: requiredText,
+      })
+    )
+    .default([]),
+});
+
+export const complianceReviewResponseSchema = z.object({
+  findings: z
+    .array(
+      z.object({
+        textId: requiredText,
+        phrase: requiredText,
+        category: z
+          .enum(['income', 'health', 'guarantee', 'urgency', 'testimonial', 'other'])
+          .catch('other'),
+        severity: z.enum(['low', 'medium', 'high']).catch('medium'),
+        explanation: requiredText,
+        suggestion: z.string().default(''),
+      })
+    )
+    .default([]),
+});
+
+export const vslTranslationResponseSchema = z.object({
+  translations: z.array(
+    z.object({
+      id: requiredText,
+      text: z.string(),
+    })
+  ),
+});
+
+export const brandVoiceScoreResponseSchema = z.object({
+  score,
+  dimensions: z.object({
+    vocabulary: score,
+    readingLevel: score,
+    formality: score,
+    pronouns: score,
+    style: score,
+  }),
+  deviations: z
+    .array(
+      z.object({
+        dimension: z
+          .enum(['vocabulary', 'readingLevel', 'formality', 'pronouns', 'claims', 'style'])
+          .catch('style'),
+        phrase: requiredText,
+        issue: requiredText,
+        suggestion: z.string().default(''),
+      })
+    )
+    .default([]),
+  summary: z.string().default(''),
+});
+
+export type VSLGenerateResponse = z.infer<typeof vslGenerateResponseSchema>;
+export type VSLImproveResponse = z.infer<typeof vslImproveResponseSchema>;
+export type VSLScoreResponse = z.infer<typeof vslScoreResponseSchema>;
+export type VSLProjectAnalysisResponse = z.infer<typeof vslProjectAnalysisResponseSchema>;
+export type VSLVariantsResponse = z.infer<typeof vslVariantsResponseSchema>;
+export type VSLVariantComparisonResponse = z.infer<typeof vslVariantComparisonResponseSchema>;
+export type ComplianceReviewResponse = z.infer<typeof complianceReviewResponseSchema>;
+export type VSLTranslationResponse = z.infer<typeof vslTranslationResponseSchema>;
+export type BrandVoiceScoreResponse = z.infer<typeof brandVoiceScoreResponseSchema>;
+
+// ============================================================================
+// LAMBDA CONFIG
+// ============================================================================
+
+export const lambdaSuggestResponseSchema = z.object({
+  suggestedConfig: z.object({
+    modelId: requiredText,
+    mediaType: z.enum(['video', 'image', 'audio']),
+    parameters: z.record(z.string(), z.any()),
+  }),
+  reasoning: z.string().default(''),
+  alternatives: z
+    .array(
+      z.object({
+        modelId: z.string(),
+        why: z.string(),
+        costComparison: z.string(),
+      })
+    )
+    .default([]),
+  estimatedCost: z.number().min(0).optional(),
+  estimatedTime: z.number().min(0).optional(),
+  recommendations: stringList,
+});
+
+export const lambdaOptimizeResponseSchema = z.object({
+  optimizedParams: z.record(z.string(), z.any()),
+  changes: stringList,
+  costImpact: z.string().optional(),
+  qualityImpact: z.string().optional(),
+});
+
+export type LambdaSuggestResponse = z.infer<typeof lambdaSuggestResponseSchema>;
+export type LambdaOptimizeResponse = z.infer<typeof lambdaOptimizeResponseSchema>;
+
+// ============================================================================
+// SCRIPT DETAIL
+// ============================================================================
+
+export const scriptDetailVideoSchema = z.object({
+  videoOrder: z.number().int().positive().optional(),
+  partName: requiredText,
+  step: requiredText,
+  objective: requiredText,
+  voice: requiredText,
+  example: requiredText,
+  visual: requiredText,
+  continuity: continuityRefsSchema.optional(),
+});
+
+/**
+ * The video count is decided before the call, so the schema is built per
+ * request to reject responses with too few or too many videos.
+ */
+export function scriptDetailResponseSchema(videoCount: number) {
+  return z.object({
+    videos: z
+      .array(scriptDetailVideoSchema)
+      .length(videoCount, `Expected exactly ${videoCount} videos`),
+  });
+}
+
+export const scriptClipRewriteResponseSchema = scriptDetailVideoSchema.omit({ videoOrder: true });
+
+export const storyboardShotSchema = z.object({
+  shotNumber: z.number().int().positive(),
+  duration: z.number().positive(),
+  shotType: z
+    .enum(['extreme-wide', 'wide', 'medium', 'close-up', 'extreme-close-up', 'over-the-shoulder', 'pov', 'insert'])
+    .catch('medium'),
+  cameraMove: z
+    .enum(['static', 'pan', 'tilt', 'dolly-in', 'dolly-out', 'tracking', 'handheld', 'crane', 'zoom'])
+    .catch('static'),
+  subject: requiredText,
+  setting: requiredText,
+  lighting: requiredText,
+  onScreenText: z.string().trim().nullable().default(null),
+  transitionIn: z.enum(['cut', 'fade', 'dissolve', 'whip-pan', 'match-cut', 'none']).catch('cut'),
+  transitionOut: z.enum(['cut', 'fade', 'dissolve', 'whip-pan', 'match-cut', 'none']).catch('cut'),
+  imagePrompt: requiredText,
+});
+
+export const storyboardResponseSchema = z.object({
+  shots: z.array(storyboardShotSchema).min(1).max(6),
+});
+
+export const continuityLintResponseSchema = z.object({
+  contradictions: z
+    .array(
+      z.object({
+        videoOrder: z.number().int().positive(),
+        entityId: requiredText,
+        phrase: requiredText,
+        issue: requiredText,
+        suggestion: z.string().default(''),
+      })
+    )
+    .default([]),
+});
+
+export type ScriptDetailVideo = z.infer<typeof scriptDetailVideoSchema>;
+export type ScriptDetailResponse = z.infer<ReturnType<typeof scriptDetailResponseSchema>>;
@@ -7,6 +7,9 @@
  * 3. Fallback Error Handler
  */
 
+import type { LLMProviderConfig } from './providers/types.js';
+import type { NarrativeFrameworkId } from './narrativeFrameworks.js';
+
 export enum AgentRole {
   SCRIPT_WRITER = 'script_writer',
   SYSTEM_INTEGRATOR = 'system_integrator',
@@ -43,6 +46,31 @@ export interface AgentMessage {
   conversationId: string; // Groups related messages
 }
 
+/**
+ * Bus message handler registered per agent role
+ */
+export type AgentMessageHandler = (message: AgentMessage) => void | Promise<void>;
+
+/**
+ * Reply produced by an agent for a REQUEST addressed to it
+ */
+export interface AgentReply {
+  content: string;
+  priority?: MessagePriority; // Defaults to the request priority
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Handle for a streamed completion forwarded to the frontend
+ */
+export interface AgentStream {
+  streamId: string;
+  novelaId: string; // Socket.IO room key (novela or VSL project id)
+  fromAgent: AgentRole;
+  conversationId: string;
+  startedAt: Date;
+}
+
 export interface AgentResponse {
   success: boolean;
   message: string;
@@ -61,6 +89,8 @@ export interface ScriptWriterInput {
   plotPoints?: string[];
   tone?: string;
   duration?: number;
+  brandVoice?: BrandVoiceContext;
+  continuity?: ContinuityBibleContext;
 }
 
 export interface ScriptWriterOutput extends AgentResponse {
@@ -70,6 +100,7 @@ export interface ScriptWriterOutput extends AgentResponse {
     audioPrompt?: string;
     characterActions: string[];
     estimatedDuration: number;
+    continuity?: ContinuityRefs; // With a continuity bible
   };
 }
 
@@ -118,8 +149,11 @@ export interface AgentConfig {
   role: AgentRole;
   model: string;
   maxCompletionTokens: number;
-  reasoningEffort: 'minimal' | 'low' | 'medium' | 'high';
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high'; // Reasoning models only
+  temperature?: number; // Non-reasoning models only
   systemPrompt: string;
+  provider?: LLMProviderConfig; // Defaults to LLM_PROVIDER_<ROLE> / LLM_PROVIDER env
+  historyTokenBudget?: number; // Conversation history sent per call (default AGENT_HISTORY_TOKEN_BUDGET)
 }
 
 export interface ConversationContext {
@@ -131,9 +165,147 @@ export interface ConversationContext {
   lastActivityAt: Date;
 }
 
+/**
+ * Template details for one VSL section (built-in framework or custom template)
+ */
+export interface VSLTemplateContext {
+  id: string;
+  name: string; // Shown in prompts, e.g. "AIDA" or a custom template name
+  builtIn: boolean;
+  framework?: string; // Custom framework description (built-ins are in the system prompt)
+  sectionNames?: string[]; // Ordered sections of the template
+  section?: {
+    name: string;
+    guidance?: string;
+    targetDuration?: number; // Seconds
+  };
+}
+
+/**
+ * Brand voice profile applied to copy prompts (VSL Specialist, Script
+ * Detail, Script Writer)
+ */
+export type BrandVoiceFormality = 'casual' | 'neutral' | 'formal';
+
+export type BrandVoiceReadingLevel = 'simple' | 'standard' | 'advanced';
+
+export interface BrandVoiceContext {
+  id: string;
+  name: string;
+  formality: BrandVoiceFormality;
+  readingLevel: BrandVoiceReadingLevel;
+  pronounStyle?: string; // e.g. "second person singular (você)"
+  useVocabulary: string[];
+  avoidVocabulary: string[];
+  forbiddenClaims: string[];
+  sampleCopy: string[];
+}
+
+/**
+ * Continuity bible of a project (services/continuity) as the agents see
+ * it: recurring characters, locations and wardrobe with stable ids, and
+ * the colour palette. Clips reference entries by id.
+ */
+export interface ContinuityCharacterContext {
+  id: string;
+  name: string;
+  appearance: string;
+}
+
+export interface ContinuityLocationContext {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface ContinuityWardrobeContext {
+  id: string;
+  name: string;
+  description: string;
+  characterId?: string; // Character who wears it
+}
+
+export interface ContinuityPaletteColor {
+  name: string;
+  hex: string; // "#1f2a44"
+}
+
+export interface ContinuityBibleContext {
+  id: string;
+  characters: ContinuityCharacterContext[];
+  locations: ContinuityLocationContext[];
+  wardrobe: ContinuityWardrobeContext[];
+  palette: ContinuityPaletteColor[];
+  notes?: string;
+}
+
+// Bible entries a clip (or scene) shows
+export interface ContinuityRefs {
+  characterIds: string[];
+  locationId: string | null;
+  wardrobeIds: string[];
+}
+
+export interface ContinuityLintClip {
+  videoOrder: number;
+  visual: string;
+  prompt: string; // Prompt sent to the video model (before bible injection)
+  continuity: ContinuityRefs;
+}
+
+export interface ContinuityLintInput {
+  projectId: string;
+  sectionId?: string;
+  continuity: ContinuityBibleContext;
+  clips: ContinuityLintClip[];
+}
+
+export interface ContinuityContradiction {
+  videoOrder: number;
+  entityId: string; // Bible entry contradicted
+  phrase: string; // Exact phrase from the clip
+  issue: string;
+  suggestion: string; // Rewrite of the phrase that matches the bible
+}
+
+export interface ContinuityLintOutput extends AgentResponse {
+  contradictions?: ContinuityContradiction[];
+}
+
+export interface BrandVoiceScoreInput {
+  projectId?: string; // Links LLM usage when scoring project copy
+  sectionId?: string;
+  brandVoice: BrandVoiceContext;
+  text: string;
+  language?: string;
+}
+
+export interface BrandVoiceDeviation {
+  dimension: 'vocabulary' | 'readingLevel' | 'formality' | 'pronouns' | 'claims' | 'style';
+  phrase: string; // Exact phrase from the text
+  issue: string;
+  suggestion: string; // On-voice rewrite of the phrase
+}
+
+export interface BrandVoiceAgentScore {
+  score: number; // 0-100 overall match
+  dimensions: {
+    vocabulary: number;
+    readingLevel: number;
+    formality: number;
+    pronouns: number;
+    style: number; // Closeness to the sample copy
+  };
+  deviations: BrandVoiceDeviation[];
+  summary: string;
+}
+
 export interface VSLSpecialistInput {
   projectId: string;
-  templateId: 'pas' | 'aida' | 'story' | 'authority';
+  sectionId?: string; // Links LLM usage to the section
+  templateId: string; // Built-in framework key (pas, aida, story, authority) or custom template id
+  template?: VSLTemplateContext;
+  brandVoice?: BrandVoiceContext;
   sectionName: string;
   userContext?: {
     productService?: string;
@@ -143,7 +315,9 @@ export interface VSLSpecialistInput {
     tone?: string;
   };
   currentContent?: string; // For improvement suggestions
+  previousSections?: Array<{ sectionName: string; content: string }>; // Earlier sections, for narrative continuity
   requestType: 'generate' | 'improve' | 'score';
+  stream?: boolean; // Forward partial tokens to the project Socket.IO room
 }
 
 export interface VSLSpecialistOutput extends AgentResponse {
@@ -160,6 +334,130 @@ export interface VSLSpecialistOutput extends AgentResponse {
     weaknesses: string[];
     recommendations: string[];
   };
+  projectAnalysis?: VSLProjectAnalysis;
+  variants?: VSLVariantDraft[];
+  variantComparison?: VSLVariantComparison;
+  complianceFindings?: ComplianceReviewFinding[];
+  brandVoiceScore?: BrandVoiceAgentScore;
+  translations?: VSLTranslation[];
+}
+
+/**
+ * Alternative copy for one section, each written from a distinct angle
+ */
+export interface VSLVariantInput extends Omit<VSLSpecialistInput, 'requestType'> {
+  count: number; // Variants to write (1-5)
+  angles?: string[]; // Requested angles, e.g. "fear of missing out", "social proof"
+}
+
+export interface VSLVariantDraft {
+  angle: string;
+  content: string;
+  hooks: string[];
+  persuasionScore: number;
+  strengths: string[];
+  weaknesses: string[];
+  recommendations: string[];
+}
+
+/**
+ * Side-by-side comparison of stored variants of one section
+ */
+export interface VSLVariantComparisonInput {
+  projectId: string;
+  sectionId: string;
+  sectionName: string;
+  templateId: string;
+  template?: VSLTemplateContext;
+  variants: Array<{ label: string; angle: string; content: string; persuasionScore: number }>;
+}
+
+export interface VSLVariantComparison {
+  winner: string; // Variant label
+  summary: string;
+  differences: Array<{
+    label: string;
+    explanation: string; // Why it scores higher/lower than the winner
+  }>;
+}
+
+/**
+ * Translation of one section's copy (section content, clip voices and
+ * examples) when a project is cloned into another language
+ */
+export interface VSLTranslationInput {
+  projectId: string;
+  sectionId?: string;
+  sectionName: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  texts: Array<{ id: string; text: string }>;
+}
+
+export interface VSLTranslation {
+  id: string;
+  text: string;
+}
+
+/**
+ * Compliance review of sales copy (income/health claims, guarantees)
+ */
+export type ComplianceCategory =
+  | 'income'
+  | 'health'
+  | 'guarantee'
+  | 'urgency'
+  | 'testimonial'
+  | 'other';
+
+export type ComplianceSeverity = 'low' | 'medium' | 'high';
+
+export interface ComplianceReviewInput {
+  projectId: string;
+  sectionId: string;
+  language?: string;
+  texts: Array<{ id: string; label: string; text: string }>; // Section copy and clip voices
+  knownPhrases?: string[]; // Already flagged by rules - not repeated
+}
+
+export interface ComplianceReviewFinding {
+  textId: string;
+  phrase: string; // Exact risky phrase from the text
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  explanation: string;
+  suggestion: string; // Safer rewrite of the phrase
+}
+
+/**
+ * Whole-script analysis of a VSL project (all sections together)
+ */
+export interface VSLProjectAnalysisInput {
+  projectId: string;
+  templateId: string;
+  template?: VSLTemplateContext;
+  brandVoice?: BrandVoiceContext;
+  sections: Array<{ sectionName: string; content: string; persuasionScore: number }>; // In order
+  userContext?: VSLSpecialistInput['userContext'];
+}
+
+export type VSLConsistencyIssueType = 'price' | 'claim' | 'tone' | 'other';
+
+export interface VSLConsistencyIssue {
+  type: VSLConsistencyIssueType;
+  severity: 'low' | 'medium' | 'high';
+  sections: string[]; // Section names involved
+  description: string;
+  suggestion?: string;
+  source: 'rule' | 'agent'; // Deterministic check or VSL Specialist
+}
+
+export interface VSLProjectAnalysis {
+  score: number; // Holistic score of the script as a whole
+  strengths: string[];
+  weaknesses: string[];
+  recommendations: string[];
+  consistencyIssues: VSLConsistencyIssue[];
 }
 
 export interface LambdaConfigInput {
@@ -211,6 +509,11 @@ export interface ScriptDetailInput {
     targetAudience?: string;
     tone?: string;
   };
+  brandVoice?: BrandVoiceContext;
+  continuity?: ContinuityBibleContext;
+  narrativeFramework?: NarrativeFrameworkId; // Explicit choice; otherwise inferred
+  templateId?: string; // Project template, used to infer the framework
+  sectionName?: string; // Used to infer the framework (e.g. "Proof" → testimonial montage)
 }
 
 export interface SectionVideoDetail {
@@ -218,13 +521,105 @@ export interface SectionVideoDetail {
   startTime: string; // "0:00"
   endTime: string; // "0:10"
   duration: number; // seconds
-  partName: string; // "PART 1: The Ordinary World"
+  partName: string; // "PART 1: The Ordinary World" (beat of the narrative framework)
   step: string; // "Step 1: The Hero in Their World"
   objective: string;
   voice: string; // Narration script
   example: string; // Example script
   visual: string; // Visual description
   optimizedPrompt: string; // Combined voice + visual optimized for video generation
+  narrationDuration?: number; // Estimated seconds to narrate voice (utils/narrationTiming)
+  continuity?: ContinuityRefs; // With a continuity bible
+}
+
+// Neighbouring clip shown to the agent when rewriting one clip
+export interface ScriptClipContext {
+  partName: string;
+  voice: string;
+  visual: string;
+}
+
+export type ScriptClipContent = Pick<
+  SectionVideoDetail,
+  'partName' | 'step' | 'objective' | 'voice' | 'example' | 'visual'
+>;
+
+export interface ScriptClipRewriteInput {
+  projectId: string;
+  sectionId: string;
+  sectionContent: string;
+  language: ScriptDetailInput['language'];
+  duration: number; // Clip length in seconds (kept as is)
+  narrativeFramework?: NarrativeFrameworkId;
+  clip?: ScriptClipContent; // Current clip; absent when writing a new one
+  previous?: ScriptClipContext;
+  next?: ScriptClipContext;
+  instructions?: string; // What to change
+  productContext?: ScriptDetailInput['productContext'];
+  brandVoice?: BrandVoiceContext;
+  continuity?: ContinuityBibleContext;
+}
+
+export interface ScriptClipRewriteOutput extends AgentResponse {
+  clip?: ScriptClipContent & {
+    optimizedPrompt: string;
+    narrationDuration: number;
+    continuity?: ContinuityRefs;
+  };
+}
+
+export type StoryboardShotType =
+  | 'extreme-wide'
+  | 'wide'
+  | 'medium'
+  | 'close-up'
+  | 'extreme-close-up'
+  | 'over-the-shoulder'
+  | 'pov'
+  | 'insert';
+
+export type StoryboardCameraMove =
+  | 'static'
+  | 'pan'
+  | 'tilt'
+  | 'dolly-in'
+  | 'dolly-out'
+  | 'tracking'
+  | 'handheld'
+  | 'crane'
+  | 'zoom';
+
+export type StoryboardTransition = 'cut' | 'fade' | 'dissolve' | 'whip-pan' | 'match-cut' | 'none';
+
+// One shot of a clip's storyboard (SectionVideo.storyboard)
+export interface StoryboardShot {
+  shotNumber: number;
+  duration: number; // Seconds; the shots add up to the clip duration
+  shotType: StoryboardShotType;
+  cameraMove: StoryboardCameraMove;
+  subject: string;
+  setting: string;
+  lighting: string;
+  onScreenText: string | null;
+  transitionIn: StoryboardTransition;
+  transitionOut: StoryboardTransition;
+  imagePrompt: string; // Still frame prompt for the image model (English)
+}
+
+export interface StoryboardInput {
+  projectId: string;
+  sectionId: string;
+  duration: number; // Clip length in seconds
+  partName: string;
+  voice: string;
+  visual: string;
+  previousVisual?: string; // For continuity with the clip before
+  nextVisual?: string;
+  productContext?: ScriptDetailInput['productContext'];
+}
+
+export interface StoryboardOutput extends AgentResponse {
+  shots?: StoryboardShot[];
 }
 
 export interface ScriptDetailOutput extends AgentResponse {
@@ -232,6 +627,8 @@ export interface ScriptDetailOutput extends AgentResponse {
     language: string;
     totalDuration: number;
     videoCount: number;
+    narrativeFramework: NarrativeFrameworkId;
+    estimatedCost?: number; // USD to render all clips with the chosen model
     videos: SectionVideoDetail[];
     reasoning?: string; // Why this video count and structure
   };
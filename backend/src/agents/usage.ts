@@ -0,0 +1,197 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Every LLM call made by an agent is recorded in agent_usage with its
+ * token counts, latency and computed cost, linked to the project, novela,
+ * section and conversation it ran for. The costs of the calls made while
+ * processing one request are summed into AgentResponse.cost.
+ *
+ * Prices are USD per 1M tokens. LLM_PRICING (JSON, same shape as
+ * MODEL_PRICING) adds or overrides models without a code change.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { prisma } from '../config/database.js';
+import { logger } from '../utils/logger.js';
+import { AgentRole } from './types.js';
+import type { LLMProviderType, LLMUsage } from './providers/types.js';
+
+export interface ModelPricing {
+  input: number;
+  cachedInput: number;
+  output: number; // Also billed for reasoning tokens
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10.0 },
+  'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2.0 },
+  'gpt-5-nano': { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  'gpt-4.1': { input: 2.0, cachedInput: 0.5, output: 8.0 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10.0 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  // Script Detail default (SCRIPT_DETAIL_MODEL); no cached-input discount
+  'gpt-4-turbo': { input: 10.0, cachedInput: 10.0, output: 30.0 },
+  'gpt-4-turbo-preview': { input: 10.0, cachedInput: 10.0, output: 30.0 },
+  'gpt-4-0125-preview': { input: 10.0, cachedInput: 10.0, output: 30.0 },
+  'gpt-4-1106-preview': { input: 10.0, cachedInput: 10.0, output: 30.0 },
+  'gpt-4': { input: 30.0, cachedInput: 30.0, output: 60.0 },
+};
+
+/**
+ * Project, novela and section an LLM call is billed to
+ */
+export interface UsageContext {
+  projectId?: string;
+  novelaId?: string;
+  sectionId?: string;
+}
+
+export interface LLMCallRecord {
+  agentRole: AgentRole;
+  provider: LLMProviderType;
+  model: string;
+  usage?: LLMUsage;
+  latencyMs: number;
+  streamed: boolean;
+  conversationId?: string;
+  error?: string;
+}
+
+interface UsageScope {
+  context: UsageContext;
+  cost: number;
+}
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+let pricing: Record<string, ModelPricing> | null = null;
+const unpricedModels = new Set<string>();
+
+function getPricing(): Record<string, ModelPricing> {
+  if (!pricing) {
+    pricing = { ...MODEL_PRICING };
+
+    if (process.env.LLM_PRICING) {
+      try {
+        Object.assign(pricing, JSON.parse(process.env.LLM_PRICING));
+      } catch (error: any) {
+        logger.error('❌ Invalid LLM_PRICING, using built-in prices:', error.message);
+      }
+    }
+  }
+  return pricing;
+}
+
+/**
+ * Price for a model. Dated snapshots (gpt-5-2025-08-07,
+ * gpt-4-turbo-2024-04-09) and deployment names fall back to the longest
+ * matching model prefix.
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const prices = getPricing();
+
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * USD cost of a call (0 for unknown models and missing usage)
+ */
+export function computeLLMCost(model: string, usage?: LLMUsage): number {
+  const price = getModelPricing(model);
+
+  if (!price && !unpricedModels.has(model)) {
+    unpricedModels.add(model);
+    logger.warn(`⚠️ No pricing for model ${model}; its calls are recorded at $0 (set LLM_PRICING)`);
+  }
+
+  if (!price || !usage) {
+    return 0;
+  }
+
+  const uncachedPrompt = usage.promptTokens - usage.cachedPromptTokens;
+
+  return (
+    (uncachedPrompt * price.input +
+      usage.cachedPromptTokens * price.cachedInput +
+      usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Run fn with a usage scope: calls inside are linked to the context
+ * (merged with any enclosing scope) and their cost is returned
+ */
+export async function trackUsage<T>(
+  context: UsageContext,
+  fn: () => Promise<T>
+): Promise<{ result: T; cost: number }> {
+  const parent = usageScope.getStore();
+  const scope: UsageScope = {
+    context: { ...parent?.context, ...definedOnly(context) },
+    cost: 0,
+  };
+
+  const result = await usageScope.run(scope, fn);
+
+  if (parent) {
+    parent.cost += scope.cost;
+  }
+
+  return { result, cost: scope.cost };
+}
+
+/**
+ * Persist one LLM call. Never throws - accounting must not break agents.
+ */
+export async function recordLLMCall(call: LLMCallRecord): Promise<number> {
+  const scope = usageScope.getStore();
+  const cost = computeLLMCost(call.model, call.usage);
+
+  if (scope) {
+    scope.cost += cost;
+  }
+
+  try {
+    await prisma.agentUsage.create({
+      data: {
+        agentRole: call.agentRole,
+        provider: call.provider,
+        model: call.model,
+        promptTokens: call.usage?.promptTokens || 0,
+        cachedPromptTokens: call.usage?.cachedPromptTokens || 0,
+        completionTokens: call.usage?.completionTokens || 0,
+        reasoningTokens: call.usage?.reasoningTokens || 0,
+        totalTokens: call.usage?.totalTokens || 0,
+        cost,
+        latencyMs: call.latencyMs,
+        streamed: call.streamed,
+        success: !call.error,
+        error: call.error,
+        projectId: scope?.context.projectId,
+        novelaId: scope?.context.novelaId,
+        sectionId: scope?.context.sectionId,
+        conversationId: call.conversationId,
+      },
+    });
+  } catch (error: any) {
+    logger.error(`❌ Failed to record LLM usage:`, error.message);
+  }
+
+  return cost;
+}
+
+function definedOnly(context: UsageContext): UsageContext {
+  return Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined && value !== null)
+  );
+}
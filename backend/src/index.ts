@@ -4,11 +4,56 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { logger } from './utils/logger.js';
+import { HttpError } from './utils/httpError.js';
 import { testGPT5Connection } from './services/gpt5/testConnection.js';
-import { AgentManager } from './agents/index.js';
+import { getAgentManager, AgentRole } from './agents/index.js';
 import lambdaRoutes from './routes/lambda.routes.js';
 import scriptsRoutes from './routes/scripts.routes.js';
+import { createScriptClipRoutes } from './routes/scriptClips.routes.js';
+import storyboardsRoutes from './routes/storyboards.routes.js';
 import webhooksRoutes from './routes/webhooks.routes.js';
+import jobsRoutes from './routes/jobs.routes.js';
+import templatesRoutes from './routes/templates.routes.js';
+import { createVariantRoutes } from './routes/variants.routes.js';
+import { createComplianceRoutes } from './routes/compliance.routes.js';
+import { createBrandVoiceRoutes } from './routes/brandVoices.routes.js';
+import { createContinuityRoutes } from './routes/continuity.routes.js';
+import { createWorkflowRoutes } from './routes/workflows.routes.js';
+import {
+  saveSectionContent,
+  listSectionRevisions,
+  getSectionRevision,
+  diffSectionRevisions,
+  restoreSectionRevision,
+} from './services/vsl/sectionRevisions.js';
+import { findTemplate, getTemplateContext } from './services/vsl/templates.js';
+import { getBrandVoiceContext } from './services/brandVoice/brandVoiceProfiles.js';
+import { getContinuityContext } from './services/continuity/continuityBible.js';
+import { analyzeProject, ProjectAnalysisError } from './services/vsl/projectAnalysis.js';
+import {
+  listVSLProjects,
+  listNovelas,
+  listAgentMessages,
+} from './services/listing/lists.js';
+import { ListQueryError } from './services/listing/listQuery.js';
+import { cloneProject, ProjectCloneError } from './services/vsl/projectCloning.js';
+import {
+  estimateNarrationSeconds,
+  isNarrationLanguage,
+  NARRATION_LANGUAGES,
+  DEFAULT_NARRATION_LANGUAGE,
+} from './utils/narrationTiming.js';
+import {
+  getUsageReport,
+  UsageGroupBy,
+  USAGE_GROUP_BY,
+} from './services/usage/usageReport.js';
+import { getJobQueue, registerWorkers, Job } from './services/queue/index.js';
+import {
+  WorkflowEngine,
+  WorkflowRunView,
+  registerWorkflows,
+} from './services/workflows/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -27,8 +72,42 @@ const io = new Server(httpServer, {
   },
 });
 
-// Initialize Agent Manager
-const agentManager = new AgentManager(io);
+// Initialize the shared Agent Manager (injected into routers and workers)
+const agentManager = getAgentManager(io);
+
+// Initialize job queue (Redis when REDIS_URL is set, in-memory otherwise)
+const jobQueue = getJobQueue();
+registerWorkers(jobQueue, agentManager);
+
+// Forward job progress to the project room and to job-specific subscribers
+jobQueue.on('job:updated', (job: Job) => {
+  const event = {
+    jobId: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    message: job.progressMessage,
+    attempts: job.attempts,
+    error: job.error,
+    result: job.status === 'completed' ? job.result : undefined,
+    timestamp: job.updatedAt,
+  };
+
+  io.to(`job:${job.id}`).emit('job:progress', event);
+  if (job.projectId) {
+    io.to(`novela:${job.projectId}`).emit('job:progress', event);
+  }
+});
+
+// Initialize workflow engine (runs persisted in workflow_runs)
+const workflowEngine = new WorkflowEngine();
+registerWorkflows(workflowEngine, agentManager);
+
+workflowEngine.on('run:updated', (run: WorkflowRunView) => {
+  if (run.contextId) {
+    io.to(`novela:${run.contextId}`).emit('workflow:progress', run);
+  }
+});
 
 // Middleware
 app.use(cors({
@@ -67,18 +146,33 @@ app.get('/api/test-gpt5', async (req, res) => {
 });
 
 // Novela API routes
+
+/**
+ * GET /api/novelas
+ *
+ * Query:
+ * - limit, cursor, sort ('createdAt' | 'updatedAt' | 'title'), order, from, to, q
+ *   (see services/listing/listQuery.ts)
+ * - status, genre (optional)
+ */
 app.get('/api/novelas', async (req, res) => {
   try {
-    const { prisma } = await import('./config/database.js');
-    const novelas = await prisma.novela.findMany({
-      orderBy: { createdAt: 'desc' },
-    });
+    const page = await listNovelas(req.query);
+
     res.json({
       success: true,
       message: 'Novelas retrieved successfully',
-      data: novelas,
+      data: page.items,
+      pagination: page.pagination,
     });
   } catch (error: any) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     logger.error('Failed to get novelas:', error);
     res.status(500).json({
       success: false,
@@ -148,7 +242,7 @@ app.post('/api/agents/test-script', async (req, res) => {
 
 app.post('/api/agents/generate-script', async (req, res) => {
   try {
-    const { novelaId, sceneNumber, sceneContext, duration } = req.body;
+    const { novelaId, sceneNumber, sceneContext, duration, brandVoiceId, continuityProjectId } = req.body;
 
     if (!novelaId || !sceneNumber) {
       return res.status(400).json({
@@ -186,6 +280,8 @@ app.post('/api/agents/generate-script', async (req, res) => {
       characterDescriptions,
       tone: `${novela.genre || 'Drama'} with emotional depth`,
       duration: duration || novela.defaultDuration || 8,
+      brandVoice: await getBrandVoiceContext(brandVoiceId),
+      continuity: await getContinuityContext(continuityProjectId),
     });
 
     res.json(result);
@@ -211,24 +307,167 @@ app.get('/api/agents/stats', (req, res) => {
   }
 });
 
+/**
+ * GET /api/agents/messages
+ *
+ * Query:
+ * - limit, cursor, sort ('timestamp'), order, from, to, q (see services/listing/listQuery.ts)
+ * - novelaId, conversationId, fromAgent, toAgent, type, priority (optional)
+ */
 app.get('/api/agents/messages', async (req, res) => {
   try {
-    const { novelaId } = req.query;
+    const page = await listAgentMessages(req.query);
+
+    res.json({
+      success: true,
+      message: 'Agent messages retrieved successfully',
+      data: page.items,
+      pagination: page.pagination,
+    });
+  } catch (error: any) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error('Failed to get agent messages:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/agents/usage
+ *
+ * LLM token usage and cost, aggregated
+ *
+ * Query:
+ * - groupBy: comma-separated 'role' | 'day' | 'project' (optional, default: role)
+ * - from, to: ISO dates (optional, to is exclusive)
+ * - projectId: VSL project or novela id (optional)
+ * - agentRole: agent role (optional)
+ */
+app.get('/api/agents/usage', async (req, res) => {
+  try {
+    const { groupBy = 'role', from, to, projectId, agentRole } = req.query as Record<string, string | undefined>;
+
+    const groups = groupBy.split(',').map((key) => key.trim()).filter(Boolean);
+    const invalid = groups.filter((key) => !USAGE_GROUP_BY.includes(key as UsageGroupBy));
+
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid groupBy: ${invalid.join(', ')}. Expected: ${USAGE_GROUP_BY.join(', ')}`,
+      });
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        message: 'from/to must be valid dates',
+      });
+    }
+
+    const report = await getUsageReport({
+      groupBy: groups as UsageGroupBy[],
+      from: fromDate,
+      to: toDate,
+      projectId,
+      agentRole,
+    });
+
+    res.json({
+      success: true,
+      message: 'Usage retrieved successfully',
+      data: report,
+    });
+  } catch (error: any) {
+    logger.error('Failed to get agent usage:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Human-review queue (failures escalated by the retry orchestrator)
+app.get('/api/agents/reviews', async (req, res) => {
+  try {
+    const { status, contextId } = req.query;
     const { prisma } = await import('./config/database.js');
 
-    const messages = await prisma.agentMessage.findMany({
-      where: novelaId ? { novelaId: novelaId as string } : {},
-      orderBy: { timestamp: 'desc' },
+    const reviews = await prisma.humanReviewItem.findMany({
+      where: {
+        status: (status as string) || 'open',
+        ...(contextId && { contextId: contextId as string }),
+      },
+      orderBy: { createdAt: 'desc' },
       take: 50,
     });
 
     res.json({
       success: true,
-      message: 'Agent messages retrieved successfully',
-      data: messages,
+      message: 'Review items retrieved successfully',
+      data: reviews,
     });
   } catch (error: any) {
-    logger.error('Failed to get agent messages:', error);
+    logger.error('Failed to get review items:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Close a review item: { status: 'resolved' | 'dismissed', notes?, resolvedBy? }
+app.post('/api/agents/reviews/:id/resolve', async (req, res) => {
+  try {
+    const { status = 'resolved', notes, resolvedBy } = req.body;
+
+    if (status !== 'resolved' && status !== 'dismissed') {
+      return res.status(400).json({
+        success: false,
+        message: "status must be 'resolved' or 'dismissed'",
+      });
+    }
+
+    const { prisma } = await import('./config/database.js');
+
+    const existing = await prisma.humanReviewItem.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Review item not found',
+      });
+    }
+
+    const review = await prisma.humanReviewItem.update({
+      where: { id: req.params.id },
+      data: {
+        status,
+        resolutionNotes: notes,
+        resolvedBy,
+        resolvedAt: new Date(),
+      },
+    });
+
+    res.json({
+      success: true,
+      message: `Review item ${status}`,
+      data: review,
+    });
+  } catch (error: any) {
+    logger.error('Failed to resolve review item:', error);
     res.status(500).json({
       success: false,
       message: error.message,
@@ -240,28 +479,34 @@ app.get('/api/agents/messages', async (req, res) => {
 // VSL (VIDEO SALES LETTER) API ROUTES
 // ============================================================================
 
-// Get all VSL projects
+/**
+ * GET /api/vsl/projects
+ *
+ * Query:
+ * - limit, cursor, sort ('createdAt' | 'updatedAt' | 'projectName' | 'persuasionScore'),
+ *   order, from, to (see services/listing/listQuery.ts)
+ * - q: full-text search over project name, product and section content
+ *   (matching sections are returned as searchMatches)
+ * - userId, status, templateId, language, brandVoiceId (optional)
+ */
 app.get('/api/vsl/projects', async (req, res) => {
   try {
-    const { userId } = req.query;
-    const { prisma } = await import('./config/database.js');
-
-    const projects = await prisma.vSLProject.findMany({
-      where: userId ? { userId: userId as string } : {},
-      include: {
-        _count: {
-          select: { sections: true, videos: true },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    const page = await listVSLProjects(req.query);
 
     res.json({
       success: true,
       message: 'VSL projects retrieved successfully',
-      data: projects,
+      data: page.items,
+      pagination: page.pagination,
     });
   } catch (error: any) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     logger.error('Failed to get VSL projects:', error);
     res.status(500).json({
       success: false,
@@ -282,6 +527,8 @@ app.post('/api/vsl/projects', async (req, res) => {
       mainProblem,
       priceOffer,
       tone,
+      language,
+      brandVoiceId,
     } = req.body;
 
     if (!projectName || !templateId) {
@@ -291,26 +538,32 @@ app.post('/api/vsl/projects', async (req, res) => {
       });
     }
 
-    // Validate templateId
-    const validTemplates = ['pas', 'aida', 'story', 'authority'];
-    if (!validTemplates.includes(templateId)) {
+    if (language !== undefined && !isNarrationLanguage(language)) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid templateId. Must be one of: pas, aida, story, authority',
+        message: `Invalid language. Must be one of: ${NARRATION_LANGUAGES.join(', ')}`,
       });
     }
 
-    const { prisma } = await import('./config/database.js');
+    // Resolve built-in framework or custom template
+    const template = await findTemplate(templateId);
+    if (!template) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid templateId. Must be pas, aida, story, authority or a custom template id',
+      });
+    }
+
+    if (brandVoiceId && !(await getBrandVoiceContext(brandVoiceId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid brandVoiceId',
+      });
+    }
 
-    // Get sections for this template
-    const templateSections: Record<string, string[]> = {
-      pas: ['Problem', 'Agitate', 'Solution'],
-      aida: ['Attention', 'Interest', 'Desire', 'Action'],
-      story: ['Story', 'Journey', 'Transform', 'Offer'],
-      authority: ['Credentials', 'Cases', 'Proof', 'Offer'],
-    };
+    const { prisma } = await import('./config/database.js');
 
-    const sections = templateSections[templateId];
+    const sections = template.sections.map((section) => section.name);
 
     const project = await prisma.vSLProject.create({
       data: {
@@ -322,6 +575,8 @@ app.post('/api/vsl/projects', async (req, res) => {
         mainProblem,
         priceOffer,
         tone: tone || 'professional',
+        language: language || DEFAULT_NARRATION_LANGUAGE,
+        brandVoiceId: brandVoiceId || null,
         totalSections: sections.length,
         sections: {
           create: sections.map((name, index) => ({
@@ -402,11 +657,27 @@ app.put('/api/vsl/projects/:id', async (req, res) => {
       priceOffer,
       tone,
       status,
+      language,
+      brandVoiceId, // null detaches the profile
     } = req.body;
 
+    if (language !== undefined && !isNarrationLanguage(language)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid language. Must be one of: ${NARRATION_LANGUAGES.join(', ')}`,
+      });
+    }
+
+    if (brandVoiceId && !(await getBrandVoiceContext(brandVoiceId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid brandVoiceId',
+      });
+    }
+
     const { prisma } = await import('./config/database.js');
 
-    const project = await prisma.vSLProject.update({
+    let project = await prisma.vSLProject.update({
       where: { id: req.params.id },
       data: {
         ...(projectName && { projectName }),
@@ -416,6 +687,8 @@ app.put('/api/vsl/projects/:id', async (req, res) => {
         ...(priceOffer !== undefined && { priceOffer }),
         ...(tone && { tone }),
         ...(status && { status }),
+        ...(language && { language }),
+        ...(brandVoiceId !== undefined && { brandVoiceId: brandVoiceId || null }),
       },
       include: {
         sections: {
@@ -424,6 +697,19 @@ app.put('/api/vsl/projects/:id', async (req, res) => {
       },
     });
 
+    // Narration pace depends on the language - re-estimate section durations
+    if (language) {
+      const sections = await prisma.$transaction(
+        project.sections.map((section: { id: string; content: string }) =>
+          prisma.vSLSection.update({
+            where: { id: section.id },
+            data: { estimatedDuration: estimateNarrationSeconds(section.content, language) },
+          })
+        )
+      );
+      project = { ...project, sections };
+    }
+
     res.json({
       success: true,
       message: 'VSL project updated successfully',
@@ -507,10 +793,11 @@ app.get('/api/vsl/sections/:id', async (req, res) => {
   }
 });
 
-// Update VSL section
+// Update VSL section (every edit is kept as a revision)
+// Body: { content: string, authorId?: string }
 app.put('/api/vsl/sections/:id', async (req, res) => {
   try {
-    const { content } = req.body;
+    const { content, authorId } = req.body;
 
     if (content === undefined) {
       return res.status(400).json({
@@ -519,17 +806,12 @@ app.put('/api/vsl/sections/:id', async (req, res) => {
       });
     }
 
-    const { prisma } = await import('./config/database.js');
-
-    const section = await prisma.vSLSection.update({
-      where: { id: req.params.id },
-      data: {
-        content,
-        wordCount: content.trim().split(/\s+/).length,
-        characterCount: content.length,
-        estimatedDuration: Math.ceil(content.trim().split(/\s+/).length / 2), // ~2 words per second
-      },
-    });
+    const { section } = await saveSectionContent(
+      req.params.id,
+      { content },
+      { type: 'user', id: authorId },
+      'manual'
+    );
 
     res.json({
       success: true,
@@ -537,6 +819,13 @@ app.put('/api/vsl/sections/:id', async (req, res) => {
       data: section,
     });
   } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     logger.error('Failed to update VSL section:', error);
     res.status(500).json({
       success: false,
@@ -545,70 +834,145 @@ app.put('/api/vsl/sections/:id', async (req, res) => {
   }
 });
 
-// Generate VSL section content with AI
-app.post('/api/vsl/sections/:id/generate', async (req, res) => {
+// Generate all sections of a VSL project in order (runs in the job queue).
+// Body: { overwrite?: boolean } - regenerate sections that already have content
+app.post('/api/vsl/projects/:id/generate-all', async (req, res) => {
   try {
     const { prisma } = await import('./config/database.js');
 
-    const section = await prisma.vSLSection.findUnique({
+    const project = await prisma.vSLProject.findUnique({
       where: { id: req.params.id },
-      include: {
-        project: true,
-      },
+      select: { id: true, totalSections: true },
     });
 
-    if (!section) {
+    if (!project) {
       return res.status(404).json({
         success: false,
-        message: 'Section not found',
+        message: 'VSL project not found',
       });
     }
 
-    // Call VSL Specialist Agent to generate content
-    const result = await agentManager.generateVSLContent({
-      projectId: section.projectId,
-      templateId: section.project.templateId as any,
-      sectionName: section.sectionName,
-      userContext: {
-        productService: section.project.productService || undefined,
-        targetAudience: section.project.targetAudience || undefined,
-        mainProblem: section.project.mainProblem || undefined,
-        priceOffer: section.project.priceOffer || undefined,
-        tone: section.project.tone,
+    const job = await jobQueue.enqueue(
+      'vsl.project.generate-all',
+      { projectId: project.id, overwrite: req.body?.overwrite === true },
+      { projectId: project.id }
+    );
+
+    res.status(202).json({
+      success: true,
+      message: 'Project generation queued',
+      data: {
+        jobId: job.id,
+        status: job.status,
+        totalSections: project.totalSections,
       },
-      requestType: 'generate',
     });
+  } catch (error: any) {
+    logger.error('Failed to queue VSL project generation:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
 
-    if (!result.success || !result.data?.sectionContent) {
-      return res.status(500).json({
+// Analyze the whole VSL script: aggregated persuasion score plus
+// cross-section consistency (price vs. offer, claims, tone). The report is
+// also stored on the project (analysisScore, analysisReport).
+app.post('/api/vsl/projects/:id/analyze', async (req, res) => {
+  try {
+    const report = await analyzeProject(agentManager, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'VSL project analyzed successfully',
+      data: report,
+    });
+  } catch (error: any) {
+    if (error instanceof ProjectAnalysisError) {
+      return res.status(error.status).json({
         success: false,
-        message: result.message || 'Failed to generate content',
+        message: error.message,
       });
     }
 
-    // Update section with AI-generated content
-    const updatedSection = await prisma.vSLSection.update({
+    logger.error('Failed to analyze VSL project:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Clone a VSL project (sections, detailed scripts and clips, no media).
+// Body: language (optional - translates copy, voice and example lines;
+// visual prompts stay in English), projectName, userId (optional)
+app.post('/api/vsl/projects/:id/clone', async (req, res) => {
+  try {
+    const { language, projectName, userId } = req.body || {};
+
+    const result = await cloneProject(agentManager, req.params.id, {
+      language,
+      projectName,
+      userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: result.translated
+        ? `VSL project cloned and translated to ${result.project.language}`
+        : 'VSL project cloned successfully',
+      data: result,
+    });
+  } catch (error: any) {
+    if (error instanceof ProjectCloneError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error('Failed to clone VSL project:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Generate VSL section content with AI (runs in the job queue)
+app.post('/api/vsl/sections/:id/generate', async (req, res) => {
+  try {
+    const { prisma } = await import('./config/database.js');
+
+    const section = await prisma.vSLSection.findUnique({
       where: { id: req.params.id },
-      data: {
-        content: result.data.sectionContent.content,
-        persuasionScore: result.data.sectionContent.persuasionScore,
-        hooks: result.data.sectionContent.hooks,
-        strengths: result.data.persuasionAnalysis?.strengths || [],
-        weaknesses: result.data.persuasionAnalysis?.weaknesses || [],
-        improvements: result.data.sectionContent.improvements,
-        wordCount: result.data.sectionContent.content.trim().split(/\s+/).length,
-        characterCount: result.data.sectionContent.content.length,
-        estimatedDuration: Math.ceil(result.data.sectionContent.content.trim().split(/\s+/).length / 2),
-      },
+      select: { id: true, projectId: true },
     });
 
-    res.json({
+    if (!section) {
+      return res.status(404).json({
+        success: false,
+        message: 'Section not found',
+      });
+    }
+
+    const job = await jobQueue.enqueue(
+      'vsl.section.generate',
+      { sectionId: section.id },
+      { projectId: section.projectId }
+    );
+
+    res.status(202).json({
       success: true,
-      message: 'Content generated successfully',
-      data: updatedSection,
+      message: 'Content generation queued',
+      data: {
+        jobId: job.id,
+        status: job.status,
+      },
     });
   } catch (error: any) {
-    logger.error('Failed to generate VSL content:', error);
+    logger.error('Failed to queue VSL content generation:', error);
     res.status(500).json({
       success: false,
       message: error.message,
@@ -645,7 +1009,10 @@ app.post('/api/vsl/sections/:id/improve', async (req, res) => {
     // Call VSL Specialist Agent to improve content
     const result = await agentManager.generateVSLContent({
       projectId: section.projectId,
-      templateId: section.project.templateId as any,
+      sectionId: section.id,
+      templateId: section.project.templateId,
+      template: await getTemplateContext(section.project.templateId, section.sectionName),
+      brandVoice: await getBrandVoiceContext(section.project.brandVoiceId),
       sectionName: section.sectionName,
       userContext: {
         productService: section.project.productService || undefined,
@@ -656,6 +1023,7 @@ app.post('/api/vsl/sections/:id/improve', async (req, res) => {
       },
       currentContent: section.content,
       requestType: 'improve',
+      stream: true,
     });
 
     if (!result.success || !result.data?.sectionContent) {
@@ -665,19 +1033,18 @@ app.post('/api/vsl/sections/:id/improve', async (req, res) => {
       });
     }
 
-    // Update section with improved content
-    const updatedSection = await prisma.vSLSection.update({
-      where: { id: req.params.id },
-      data: {
+    // Update section with improved content (previous copy stays in the revisions)
+    const { section: updatedSection } = await saveSectionContent(
+      req.params.id,
+      {
         content: result.data.sectionContent.content,
         persuasionScore: result.data.sectionContent.persuasionScore,
         aiSuggestion: result.data.aiSuggestion,
         improvements: result.data.sectionContent.improvements,
-        wordCount: result.data.sectionContent.content.trim().split(/\s+/).length,
-        characterCount: result.data.sectionContent.content.length,
-        estimatedDuration: Math.ceil(result.data.sectionContent.content.trim().split(/\s+/).length / 2),
       },
-    });
+      { type: 'agent', id: AgentRole.VSL_SPECIALIST },
+      'improve'
+    );
 
     res.json({
       success: true,
@@ -722,7 +1089,10 @@ app.post('/api/vsl/sections/:id/score', async (req, res) => {
     // Call VSL Specialist Agent to score content
     const result = await agentManager.generateVSLContent({
       projectId: section.projectId,
-      templateId: section.project.templateId as any,
+      sectionId: section.id,
+      templateId: section.project.templateId,
+      template: await getTemplateContext(section.project.templateId, section.sectionName),
+      brandVoice: await getBrandVoiceContext(section.project.brandVoiceId),
       sectionName: section.sectionName,
       userContext: {
         productService: section.project.productService || undefined,
@@ -770,6 +1140,125 @@ app.post('/api/vsl/sections/:id/score', async (req, res) => {
   }
 });
 
+// List revisions of a VSL section (newest first)
+app.get('/api/vsl/sections/:id/revisions', async (req, res) => {
+  try {
+    const revisions = await listSectionRevisions(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Section revisions retrieved successfully',
+      data: revisions,
+    });
+  } catch (error: any) {
+    logger.error('Failed to get section revisions:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/vsl/sections/:id/revisions/diff
+ *
+ * Word-level diff between two revisions
+ *
+ * Query:
+ * - from: revision id (required)
+ * - to: revision id (optional, default: latest revision)
+ */
+app.get('/api/vsl/sections/:id/revisions/diff', async (req, res) => {
+  try {
+    const { from, to } = req.query as Record<string, string | undefined>;
+
+    if (!from) {
+      return res.status(400).json({
+        success: false,
+        message: 'from is required',
+      });
+    }
+
+    const diff = await diffSectionRevisions(req.params.id, from, to);
+
+    res.json({
+      success: true,
+      message: 'Revision diff computed successfully',
+      data: diff,
+    });
+  } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error('Failed to diff section revisions:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Get a single revision with its content
+app.get('/api/vsl/sections/:id/revisions/:revisionId', async (req, res) => {
+  try {
+    const revision = await getSectionRevision(req.params.id, req.params.revisionId);
+
+    res.json({
+      success: true,
+      message: 'Section revision retrieved successfully',
+      data: revision,
+    });
+  } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error('Failed to get section revision:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
+// Restore a revision (recorded as a new revision)
+// Body: { authorId?: string }
+app.post('/api/vsl/sections/:id/revisions/:revisionId/restore', async (req, res) => {
+  try {
+    const { section, revision } = await restoreSectionRevision(
+      req.params.id,
+      req.params.revisionId,
+      { type: 'user', id: req.body?.authorId }
+    );
+
+    res.json({
+      success: true,
+      message: `Revision restored as revision ${revision.revisionNumber}`,
+      data: { section, revision },
+    });
+  } catch (error: any) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error('Failed to restore section revision:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+});
+
 // ============================================================================
 // LAMBDA CONFIGURATION API ROUTES
 // ============================================================================
@@ -780,9 +1269,19 @@ app.use('/api/lambda', lambdaRoutes);
 // Use Section Detailed Scripts routes
 app.use('/api/scripts', scriptsRoutes);
 app.use('/api/section-videos', scriptsRoutes);
+// After scriptsRoutes, which applies the general rate limit
+app.use('/api/scripts', createScriptClipRoutes(agentManager));
+app.use('/api/scripts', storyboardsRoutes);
 
 // Use Webhooks routes (no auth required for external services)
 app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/jobs', jobsRoutes);
+app.use('/api/vsl/templates', templatesRoutes);
+app.use('/api/vsl/sections', createVariantRoutes(agentManager));
+app.use('/api/compliance', createComplianceRoutes(agentManager));
+app.use('/api/brand-voices', createBrandVoiceRoutes(agentManager));
+app.use('/api/vsl/projects', createContinuityRoutes(agentManager));
+app.use('/api/workflows', createWorkflowRoutes(workflowEngine));
 
 // Socket.IO connection handling
 io.on('connection', (socket) => {
@@ -792,6 +1291,26 @@ io.on('connection', (socket) => {
     logger.info(`❌ Client disconnected: ${socket.id}`);
   });
 
+  // Join/leave a novela or VSL project room (agent:message, agent:stream)
+  socket.on('novela:subscribe', (novelaId: string) => {
+    socket.join(`novela:${novelaId}`);
+    logger.info(`📡 ${socket.id} subscribed to novela:${novelaId}`);
+  });
+
+  socket.on('novela:unsubscribe', (novelaId: string) => {
+    socket.leave(`novela:${novelaId}`);
+    logger.info(`📡 ${socket.id} unsubscribed from novela:${novelaId}`);
+  });
+
+  // Follow a single background job (job:progress)
+  socket.on('job:subscribe', (jobId: string) => {
+    socket.join(`job:${jobId}`);
+  });
+
+  socket.on('job:unsubscribe', (jobId: string) => {
+    socket.leave(`job:${jobId}`);
+  });
+
   // Test event
   socket.on('ping', () => {
     socket.emit('pong', { timestamp: new Date().toISOString() });
@@ -812,11 +1331,28 @@ httpServer.listen(PORT, async () => {
   } catch (error: any) {
     logger.error('❌ Failed to initialize Agent Manager:', error.message);
   }
+
+  // Start job workers
+  try {
+    await jobQueue.start();
+  } catch (error: any) {
+    logger.error('❌ Failed to start job queue:', error.message);
+  }
+
+  // Resume workflow runs interrupted by the last shutdown
+  try {
+    await workflowEngine.resumeInterrupted();
+    workflowEngine.startPolling(parseInt(process.env.WORKFLOW_POLL_INTERVAL_MS || '15000', 10));
+  } catch (error: any) {
+    logger.error('❌ Failed to resume workflows:', error.message);
+  }
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  await jobQueue.stop(); // Let running jobs finish; queued jobs stay in Redis
+  workflowEngine.stopPolling();
   agentManager.shutdown();
   httpServer.close(() => {
     logger.info('Server closed');
@@ -0,0 +1,199 @@
+/**
+ * Brand Voice Routes
+ *
+ * Reusable brand voice profiles (vocabulary, reading level, formality,
+ * form of address, forbidden claims, sample copy). Attach one to a VSL
+ * project with brandVoiceId; the copy agents then write in that voice.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { AgentManager } from '../agents/index.js';
+import {
+  listBrandVoices,
+  getBrandVoice,
+  createBrandVoice,
+  updateBrandVoice,
+  deleteBrandVoice,
+} from '../services/brandVoice/brandVoiceProfiles.js';
+import {
+  scoreBrandVoiceText,
+  scoreSectionBrandVoice,
+} from '../services/brandVoice/brandVoiceScoring.js';
+
+export function createBrandVoiceRoutes(agentManager: AgentManager): Router {
+  const router = Router();
+
+  /**
+   * GET /api/brand-voices
+   *
+   * List brand voice profiles
+   *
+   * Query:
+   * - userId: string (optional)
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const profiles = await listBrandVoices(req.query.userId as string | undefined);
+
+      res.json({
+        success: true,
+        message: 'Brand voice profiles retrieved successfully',
+        data: profiles,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to list brand voice profiles');
+    }
+  });
+
+  /**
+   * GET /api/brand-voices/:id
+   */
+  router.get('/:id', async (req, res) => {
+    try {
+      const profile = await getBrandVoice(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Brand voice profile retrieved successfully',
+        data: profile,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to get brand voice profile');
+    }
+  });
+
+  /**
+   * POST /api/brand-voices
+   *
+   * Body:
+   * - name: string (required)
+   * - description: string (optional)
+   * - formality: 'casual' | 'neutral' | 'formal' (default 'neutral')
+   * - readingLevel: 'simple' | 'standard' | 'advanced' (default 'standard')
+   * - pronounStyle: string (optional, e.g. "second person singular (você)")
+   * - useVocabulary: string[] (optional)
+   * - avoidVocabulary: string[] (optional)
+   * - forbiddenClaims: string[] (optional)
+   * - sampleCopy: string[] (optional, up to 5 approved excerpts)
+   * - userId: string (optional)
+   */
+  router.post('/', async (req, res) => {
+    try {
+      const profile = await createBrandVoice(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Brand voice profile created successfully',
+        data: profile,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to create brand voice profile');
+    }
+  });
+
+  /**
+   * PUT /api/brand-voices/:id
+   *
+   * Update any profile field (same fields as POST, all optional)
+   */
+  router.put('/:id', async (req, res) => {
+    try {
+      const profile = await updateBrandVoice(req.params.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Brand voice profile updated successfully',
+        data: profile,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to update brand voice profile');
+    }
+  });
+
+  /**
+   * DELETE /api/brand-voices/:id
+   *
+   * Delete a profile; projects using it are detached
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const detachedProjects = await deleteBrandVoice(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Brand voice profile deleted successfully',
+        data: { detachedProjects },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to delete brand voice profile');
+    }
+  });
+
+  /**
+   * POST /api/brand-voices/:id/score
+   *
+   * Score any text against the profile
+   *
+   * Body:
+   * - text: string (required)
+   * - language: string (optional, for rewrite suggestions)
+   * - useAgent: boolean (optional, default true - false runs the rule checks only)
+   */
+  router.post('/:id/score', async (req, res) => {
+    try {
+      const { text, language, useAgent } = req.body || {};
+
+      if (typeof text !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'text is required',
+        });
+      }
+
+      const report = await scoreBrandVoiceText(
+        agentManager,
+        req.params.id,
+        text,
+        { language },
+        { useAgent: useAgent !== false }
+      );
+
+      res.json({
+        success: true,
+        message: `Brand voice match: ${report.score}/100`,
+        data: report,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to score brand voice');
+    }
+  });
+
+  /**
+   * POST /api/brand-voices/sections/:sectionId/score
+   *
+   * Score a VSL section's copy against its project's profile
+   *
+   * Body:
+   * - profileId: string (optional, score against another profile)
+   * - useAgent: boolean (optional, default true)
+   */
+  router.post('/sections/:sectionId/score', async (req, res) => {
+    try {
+      const report = await scoreSectionBrandVoice(agentManager, req.params.sectionId, {
+        profileId: req.body?.profileId,
+        useAgent: req.body?.useAgent !== false,
+      });
+
+      res.json({
+        success: true,
+        message: `Brand voice match: ${report.score}/100`,
+        data: report,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to score section brand voice');
+    }
+  });
+
+  return router;
+}
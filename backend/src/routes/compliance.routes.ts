@@ -0,0 +1,134 @@
+/**
+ * Compliance Routes
+ *
+ * Check VSL copy and clip voices for risky claims (income, health,
+ * guarantees) and track the findings until they are resolved or dismissed.
+ * Open high-severity findings block clip generation.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { AgentManager, ComplianceSeverity } from '../agents/index.js';
+import {
+  checkSectionCompliance,
+  listComplianceFindings,
+  resolveComplianceFinding,
+  FindingStatus,
+  FINDING_STATUSES,
+} from '../services/compliance/complianceChecker.js';
+
+const SEVERITIES: ComplianceSeverity[] = ['low', 'medium', 'high'];
+
+export function createComplianceRoutes(agentManager: AgentManager): Router {
+  const router = Router();
+
+  /**
+   * POST /api/compliance/sections/:sectionId/check
+   *
+   * Scan the section content and its clip voices. Replaces the section's
+   * open findings.
+   *
+   * Body:
+   * - useAgent: boolean (optional, default true - false runs the rules only)
+   */
+  router.post('/sections/:sectionId/check', async (req, res) => {
+    try {
+      const result = await checkSectionCompliance(agentManager, req.params.sectionId, {
+        useAgent: req.body?.useAgent !== false,
+      });
+
+      res.json({
+        success: true,
+        message: `${result.findings.length} compliance finding(s)`,
+        data: result,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to check compliance');
+    }
+  });
+
+  /**
+   * GET /api/compliance/findings
+   *
+   * List findings
+   *
+   * Query:
+   * - projectId: string (optional)
+   * - sectionId: string (optional)
+   * - status: 'open' | 'resolved' | 'dismissed' (optional)
+   * - severity: 'low' | 'medium' | 'high' (optional)
+   */
+  router.get('/findings', async (req, res) => {
+    try {
+      const { projectId, sectionId, status, severity } = req.query as Record<string, string | undefined>;
+
+      if (status && !FINDING_STATUSES.includes(status as FindingStatus)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status. Expected one of: ${FINDING_STATUSES.join(', ')}`,
+        });
+      }
+
+      if (severity && !SEVERITIES.includes(severity as ComplianceSeverity)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid severity. Expected one of: ${SEVERITIES.join(', ')}`,
+        });
+      }
+
+      const findings = await listComplianceFindings({
+        projectId,
+        sectionId,
+        status: status as FindingStatus | undefined,
+        severity: severity as ComplianceSeverity | undefined,
+      });
+
+      res.json({
+        success: true,
+        message: 'Compliance findings retrieved successfully',
+        data: findings,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to get compliance findings');
+    }
+  });
+
+  /**
+   * POST /api/compliance/findings/:findingId/resolve
+   *
+   * Close a finding
+   *
+   * Body:
+   * - status: 'resolved' | 'dismissed' (default 'resolved')
+   * - resolvedBy: string (optional)
+   * - note: string (optional, e.g. why the risk is accepted)
+   */
+  router.post('/findings/:findingId/resolve', async (req, res) => {
+    try {
+      const { status = 'resolved', resolvedBy, note } = req.body || {};
+
+      if (status !== 'resolved' && status !== 'dismissed') {
+        return res.status(400).json({
+          success: false,
+          message: "status must be 'resolved' or 'dismissed'",
+        });
+      }
+
+      const finding = await resolveComplianceFinding(req.params.findingId, {
+        status,
+        resolvedBy,
+        note,
+      });
+
+      res.json({
+        success: true,
+        message: `Finding ${status}`,
+        data: finding,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to resolve compliance finding');
+    }
+  });
+
+  return router;
+}
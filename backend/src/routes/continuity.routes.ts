@@ -0,0 +1,110 @@
+/**
+ * Continuity Bible Routes
+ *
+ * A project's continuity bible (characters with MediaLibrary reference
+ * images, locations, wardrobe, colour palette) and the lint that reports
+ * clips contradicting it.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { AgentManager } from '../agents/index.js';
+import {
+  getContinuityBible,
+  saveContinuityBible,
+  deleteContinuityBible,
+} from '../services/continuity/continuityBible.js';
+import { lintContinuity } from '../services/continuity/continuityLint.js';
+
+export function createContinuityRoutes(agentManager: AgentManager): Router {
+  const router = Router();
+
+  /**
+   * GET /api/vsl/projects/:projectId/continuity
+   *
+   * The project's continuity bible, with reference image URLs
+   */
+  router.get('/:projectId/continuity', async (req, res) => {
+    try {
+      const bible = await getContinuityBible(req.params.projectId);
+
+      res.json({
+        success: true,
+        data: bible,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to get continuity bible');
+    }
+  });
+
+  /**
+   * PUT /api/vsl/projects/:projectId/continuity
+   *
+   * Create or replace the project's continuity bible. Entry ids default to
+   * a slug of the name; clips reference entries by id.
+   *
+   * Body:
+   * - characters: [{ id?, name, appearance, referenceImageIds? }] - MediaLibrary image ids
+   * - locations: [{ id?, name, description, referenceImageIds? }]
+   * - wardrobe: [{ id?, name, description, characterId? }]
+   * - palette: [{ name, hex }]
+   * - notes: string (optional)
+   */
+  router.put('/:projectId/continuity', async (req, res) => {
+    try {
+      const bible = await saveContinuityBible(req.params.projectId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Continuity bible saved successfully',
+        data: bible,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to save continuity bible');
+    }
+  });
+
+  /**
+   * DELETE /api/vsl/projects/:projectId/continuity
+   */
+  router.delete('/:projectId/continuity', async (req, res) => {
+    try {
+      await deleteContinuityBible(req.params.projectId);
+
+      res.json({
+        success: true,
+        message: 'Continuity bible deleted successfully',
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to delete continuity bible');
+    }
+  });
+
+  /**
+   * POST /api/vsl/projects/:projectId/continuity/lint
+   *
+   * Report clips whose prompt contradicts the bible
+   *
+   * Body:
+   * - scriptId: string (optional) - Only this script (default: every script of the project)
+   * - useAgent: boolean (optional, default: true) - false = rule checks only
+   */
+  router.post('/:projectId/continuity/lint', async (req, res) => {
+    try {
+      const report = await lintContinuity(agentManager, req.params.projectId, req.body);
+
+      res.json({
+        success: true,
+        message:
+          report.issues.length === 0
+            ? 'No continuity issues found'
+            : `${report.issues.length} continuity issue(s) in ${report.clipsWithIssues} clip(s)`,
+        data: report,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to lint continuity');
+    }
+  });
+
+  return router;
+}
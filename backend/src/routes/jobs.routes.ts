@@ -0,0 +1,104 @@
+/**
+ * Job Routes
+ *
+ * Status endpoints for queued background work (section generation,
+ * detailed scripts, video generation). Live updates are also pushed as
+ * job:progress Socket.IO events.
+ */
+
+import { Router } from 'express';
+import { logger } from '../utils/logger.js';
+import { getJobQueue, JobStatus, JobType } from '../services/queue/index.js';
+
+const router = Router();
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'active', 'completed', 'failed'];
+const JOB_TYPES: JobType[] = [
+  'vsl.section.generate',
+  'vsl.project.generate-all',
+  'script.generate-detailed',
+  'section-video.generate',
+  'script.storyboard',
+];
+
+/**
+ * GET /api/jobs
+ *
+ * List recent jobs, newest first
+ *
+ * Query:
+ * - projectId: string (optional)
+ * - status: 'queued' | 'active' | 'completed' | 'failed' (optional)
+ * - type: job type (optional)
+ * - limit: number (optional, default 50, max 200)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { projectId, status, type, limit } = req.query as Record<string, string | undefined>;
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}`,
+      });
+    }
+
+    if (type && !JOB_TYPES.includes(type as JobType)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid type. Expected one of: ${JOB_TYPES.join(', ')}`,
+      });
+    }
+
+    const jobs = await getJobQueue().listJobs({
+      projectId,
+      status: status as JobStatus | undefined,
+      type: type as JobType | undefined,
+      limit: Math.min(parseInt(limit || '50', 10) || 50, 200),
+    });
+
+    res.json({
+      success: true,
+      message: 'Jobs retrieved successfully',
+      data: jobs,
+    });
+  } catch (error: any) {
+    logger.error('❌ Error listing jobs:', error.message);
+    res.status(500).json({
+      success: false,
+      message: `Failed to list jobs: ${error.message}`,
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:jobId
+ *
+ * Get job status, progress, and result (once completed)
+ */
+router.get('/:jobId', async (req, res) => {
+  try {
+    const job = await getJobQueue().getJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Job retrieved successfully',
+      data: job,
+    });
+  } catch (error: any) {
+    logger.error('❌ Error getting job:', error.message);
+    res.status(500).json({
+      success: false,
+      message: `Failed to get job: ${error.message}`,
+    });
+  }
+});
+
+export default router;
@@ -7,7 +7,7 @@
 
 import { Router } from 'express';
 import { logger } from '../utils/logger.js';
-import { AgentManager } from '../agents/index.js';
+import { getAgentManager } from '../agents/index.js';
 import {
   requireAuth,
   requireConfigOwnership,
@@ -96,9 +96,8 @@ router.post('/suggest', aiGenerationLimiter, validateBody(suggestLambdaConfigSch
     //   });
     // }
 
-    // Import AgentManager dynamically if needed
-    const agentManager = new AgentManager(null as any); // Socket.IO not needed for Lambda config
-    await agentManager.initialize();
+    // Shared AgentManager (initialized at startup)
+    const agentManager = getAgentManager();
 
     // Call LambdaConfigAgent for intelligent suggestions
     const result = await agentManager.suggestLambdaConfig({
@@ -183,8 +182,7 @@ router.post('/optimize', aiGenerationLimiter, validateBody(optimizeLambdaConfigS
     //   });
     // }
 
-    const agentManager = new AgentManager(null as any);
-    await agentManager.initialize();
+    const agentManager = getAgentManager();
 
     // Call LambdaConfigAgent for optimization
     const result = await agentManager.suggestLambdaConfig({
@@ -0,0 +1,138 @@
+/**
+ * Script Clip Routes
+ *
+ * Edit single clips of a detailed script (rewrite, insert, remove,
+ * reorder) without regenerating the section. Untouched clips keep their
+ * generated media; timestamps are recomputed after every edit.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { AgentManager } from '../agents/index.js';
+import { requireAuth } from '../middleware/auth.js';
+import { aiGenerationLimiter } from '../middleware/rateLimiter.js';
+import {
+  rewriteClip,
+  insertClip,
+  removeClip,
+  reorderClips,
+  ClipEditError,
+} from '../services/scripts/clipEditing.js';
+
+function parseVideoOrder(value: string): number {
+  const videoOrder = Number(value);
+  if (!Number.isInteger(videoOrder) || videoOrder < 1) {
+    throw new ClipEditError(400, 'videoOrder must be a positive integer');
+  }
+  return videoOrder;
+}
+
+export function createScriptClipRoutes(agentManager: AgentManager): Router {
+  const router = Router();
+
+  // Apply authentication to all routes (the general rate limit comes from
+  // scriptsRoutes, mounted first on /api/scripts)
+  router.use(requireAuth);
+
+  /**
+   * POST /api/scripts/:scriptId/videos/:videoOrder/rewrite
+   *
+   * Rewrite one clip's voice, visual and example with the neighbouring
+   * clips as context. The clip keeps its duration and goes back to pending.
+   *
+   * Body:
+   * - instructions: string (optional) - What to change
+   */
+  router.post('/:scriptId/videos/:videoOrder/rewrite', aiGenerationLimiter, async (req, res) => {
+    try {
+      const videoOrder = parseVideoOrder(req.params.videoOrder);
+      const { script, videoId, narrationFits } = await rewriteClip(
+        agentManager,
+        req.params.scriptId,
+        videoOrder,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        message: narrationFits
+          ? 'Clip rewritten successfully'
+          : 'Clip rewritten, but its narration is longer than the clip',
+        data: { videoId, narrationFits, script },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to rewrite clip');
+    }
+  });
+
+  /**
+   * POST /api/scripts/:scriptId/videos
+   *
+   * Insert a pending clip. Without clip content the agent writes it from
+   * the neighbouring clips.
+   *
+   * Body:
+   * - position: number (optional) - videoOrder of the new clip (default: last)
+   * - duration: number (optional) - One of the model's clip lengths
+   * - modelId: string (optional) - Only for a script without clips
+   * - instructions: string (optional) - Guidance for the agent
+   * - clip: { partName, step?, objective?, voice, example?, visual, continuity? } (optional)
+   */
+  router.post('/:scriptId/videos', aiGenerationLimiter, async (req, res) => {
+    try {
+      const { script, videoId } = await insertClip(agentManager, req.params.scriptId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Clip inserted successfully',
+        data: { videoId, script },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to insert clip');
+    }
+  });
+
+  /**
+   * PUT /api/scripts/:scriptId/videos/order
+   *
+   * Reorder the clips
+   *
+   * Body:
+   * - videoIds: string[] (required) - Every clip id, in the new order
+   */
+  router.put('/:scriptId/videos/order', async (req, res) => {
+    try {
+      const { script } = await reorderClips(req.params.scriptId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Clips reordered successfully',
+        data: { script },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to reorder clips');
+    }
+  });
+
+  /**
+   * DELETE /api/scripts/:scriptId/videos/:videoOrder
+   *
+   * Remove a clip; the following clips move up
+   */
+  router.delete('/:scriptId/videos/:videoOrder', async (req, res) => {
+    try {
+      const videoOrder = parseVideoOrder(req.params.videoOrder);
+      const { script } = await removeClip(req.params.scriptId, videoOrder);
+
+      res.json({
+        success: true,
+        message: 'Clip removed successfully',
+        data: { script },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to remove clip');
+    }
+  });
+
+  return router;
+}
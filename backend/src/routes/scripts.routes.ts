@@ -7,9 +7,16 @@
 
 import { Router } from 'express';
 import { logger } from '../utils/logger.js';
+import { sendError } from '../utils/httpError.js';
 import { prisma } from '../config/database.js';
-import { AgentManager } from '../agents/index.js';
-import { v4 as uuidv4 } from 'uuid';
+import { getJobQueue } from '../services/queue/index.js';
+import { compileScriptVideos } from '../services/videos/scriptCompilation.js';
+import { assertGenerationAllowed, GenerationBlockedError } from '../services/videos/sectionVideoGeneration.js';
+import {
+  NARRATIVE_FRAMEWORKS,
+  NARRATIVE_FRAMEWORK_IDS,
+  isNarrativeFrameworkId,
+} from '../agents/narrativeFrameworks.js';
 import {
   requireAuth,
   requireSectionOwnership,
@@ -41,7 +48,11 @@ router.use(generalLimiter);
 /**
  * POST /api/scripts/generate-detailed
  *
- * Generate detailed multi-video script for a VSL section using GPT-5
+ * Queue detailed multi-video script generation for a VSL section (GPT-5).
+ * Returns 202 with a jobId - poll GET /api/jobs/:jobId or listen for
+ * job:progress events.
+ * Replaces the section's existing script and all its clips; to change
+ * single clips use the clip endpoints (routes/scriptClips.routes.ts).
  *
  * Body:
  * - projectId: string (required)
@@ -49,10 +60,19 @@ router.use(generalLimiter);
  * - totalDuration: number (required) - Total duration in seconds
  * - language: 'pt-br' | 'en' | 'es' | 'it' | 'fr' | 'de' (required)
  * - modelId: string (required) - To calculate video count
+ * - narrativeFramework: string (optional) - See GET /api/scripts/narrative-frameworks;
+ *   inferred from the section name and project template when omitted
  */
 router.post('/generate-detailed', aiGenerationLimiter, validateBody(generateDetailedScriptSchema), async (req, res) => {
   try {
-    const { projectId, sectionId, totalDuration, language, modelId } = req.body;
+    const { projectId, sectionId, totalDuration, language, modelId, narrativeFramework } = req.body;
+
+    if (narrativeFramework !== undefined && !isNarrativeFrameworkId(narrativeFramework)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid narrativeFramework. Must be one of: ${NARRATIVE_FRAMEWORK_IDS.join(', ')}`,
+      });
+    }
 
     // Check if section exists
     const section = await prisma.vSLSection.findUnique({
@@ -85,124 +105,19 @@ router.post('/generate-detailed', aiGenerationLimiter, validateBody(generateDeta
     //   });
     // }
 
-    // Initialize AgentManager
-    const agentManager = new AgentManager(null as any);
-    await agentManager.initialize();
-
-    // Call ScriptDetailAgent for detailed script generation
-    const result = await agentManager.generateDetailedScript({
-      projectId,
-      sectionId,
-      sectionContent: section.content,
-      totalDuration,
-      language,
-      modelId,
-      productContext: {
-        productName: section.project.projectName,
-        productService: section.project.productService || undefined,
-        targetAudience: section.project.targetAudience || undefined,
-        tone: section.project.tone,
-      },
-    });
-
-    if (!result.success || !result.detailedScript) {
-      return res.status(500).json({
-        success: false,
-        message: result.message || 'Failed to generate detailed script',
-      });
-    }
-
-    const detailedScript = result.detailedScript;
-
-    // Check if script already exists for this section
-    const existingScript = await prisma.sectionDetailedScript.findUnique({
-      where: { sectionId },
-      include: { videos: true },
-    });
-
-    // Delete existing script and videos if present
-    if (existingScript) {
-      logger.info(`🗑️ Deleting existing script ${existingScript.id} with ${existingScript.videos.length} videos`);
-
-      // Delete videos first (foreign key constraint)
-      await prisma.sectionVideo.deleteMany({
-        where: { scriptId: existingScript.id },
-      });
-
-      // Delete script
-      await prisma.sectionDetailedScript.delete({
-        where: { id: existingScript.id },
-      });
-    }
-
-    // Create new SectionDetailedScript record
-    const scriptRecord = await prisma.sectionDetailedScript.create({
-      data: {
-        projectId,
-        sectionId,
-        language: detailedScript.language,
-        totalDuration: detailedScript.totalDuration,
-        videoCount: detailedScript.videoCount,
-        aiGenerated: true,
-        generatedBy: 'script_detail_agent',
-      },
-    });
-
-    // Generate base seed for visual continuity
-    const baseSeed = Math.floor(Math.random() * 1000000);
-
-    // Create SectionVideo records with incremental seeds
-    const videoRecords = await Promise.all(
-      detailedScript.videos.map((video, index) =>
-        prisma.sectionVideo.create({
-          data: {
-            scriptId: scriptRecord.id,
-            videoOrder: video.videoOrder,
-            startTime: video.startTime,
-            endTime: video.endTime,
-            duration: video.duration,
-            partName: video.partName,
-            step: video.step,
-            objective: video.objective,
-            voice: video.voice,
-            example: video.example,
-            visual: video.visual,
-            modelId,
-            seed: baseSeed + index, // Incremental seed for continuity
-            generationParams: {
-              optimizedPrompt: video.optimizedPrompt,
-            },
-            status: 'pending',
-          },
-        })
-      )
+    // Generation runs in the job queue worker
+    const job = await getJobQueue().enqueue(
+      'script.generate-detailed',
+      { projectId, sectionId, totalDuration, language, modelId, narrativeFramework },
+      { projectId }
     );
 
-    logger.info(`✅ Detailed script generated: ${scriptRecord.id} with ${videoRecords.length} videos`);
-
-    res.json({
+    res.status(202).json({
       success: true,
-      message: 'Detailed script generated successfully',
+      message: 'Detailed script generation queued',
       data: {
-        scriptId: scriptRecord.id,
-        language: scriptRecord.language,
-        totalDuration: scriptRecord.totalDuration,
-        videoCount: scriptRecord.videoCount,
-        videos: videoRecords.map((v) => ({
-          id: v.id,
-          videoOrder: v.videoOrder,
-          startTime: v.startTime,
-          endTime: v.endTime,
-          duration: v.duration,
-          partName: v.partName,
-          step: v.step,
-          objective: v.objective,
-          voice: v.voice,
-          example: v.example,
-          visual: v.visual,
-          status: v.status,
-        })),
-        reasoning: detailedScript.reasoning,
+        jobId: job.id,
+        status: job.status,
       },
     });
   } catch (error: any) {
@@ -214,6 +129,19 @@ router.post('/generate-detailed', aiGenerationLimiter, validateBody(generateDeta
   }
 });
 
+/**
+ * GET /api/scripts/narrative-frameworks
+ *
+ * List the narrative frameworks detailed scripts can follow, with their beats
+ */
+router.get('/narrative-frameworks', (_req, res) => {
+  res.json({
+    success: true,
+    message: 'Narrative frameworks retrieved successfully',
+    data: Object.values(NARRATIVE_FRAMEWORKS),
+  });
+});
+
 /**
  * GET /api/scripts/:scriptId
  *
@@ -309,7 +237,10 @@ router.put('/:scriptId', async (req, res) => {
 /**
  * POST /api/section-videos/:videoId/generate
  *
- * Generate a single video from SectionVideo record
+ * Queue generation of a single video from SectionVideo record.
+ * Returns 202 with a jobId (see GET /api/jobs/:jobId), or 409 while the
+ * section has unresolved high-severity compliance findings or the clip's
+ * storyboard is awaiting approval.
  *
  * Body:
  * - lambdaConfigId: string (optional) - Lambda config to use
@@ -348,212 +279,34 @@ router.post('/:videoId/generate', videoGenerationLimiter, /* requireVideoOwnersh
       });
     }
 
-    // Get Lambda config (use provided or default for video)
-    let lambdaConfig;
-    if (lambdaConfigId) {
-      lambdaConfig = await prisma.lambdaConfig.findUnique({
-        where: { id: lambdaConfigId },
-      });
-    } else {
-      lambdaConfig = await prisma.lambdaConfig.findFirst({
-        where: {
-          mediaType: 'video',
-          modelId: video.modelId,
-          isActive: true,
-          isDefault: true,
-        },
-      });
-    }
-
-    if (!lambdaConfig) {
-      return res.status(404).json({
-        success: false,
-        message: 'No suitable Lambda config found',
-      });
-    }
-
-    // Get model configuration to know supported parameters
-    const { getModelConfig } = await import('../utils/models.js');
-    const modelConfig = getModelConfig(video.modelId, 'video');
-
-    if (!modelConfig) {
-      return res.status(404).json({
+    // Unresolved high-severity compliance findings and unapproved storyboards block generation
+    try {
+      await assertGenerationAllowed(video);
+    } catch (error) {
+      if (!(error instanceof GenerationBlockedError)) throw error;
+      return res.status(409).json({
         success: false,
-        message: `Model configuration not found for ${video.modelId}`,
+        message: error.message,
+        data: error.data,
       });
     }
 
-    // Prepare generation parameters - only use supported params
-    const allParams = {
-      ...lambdaConfig.defaultParams,
-      ...(video.generationParams as any),
-    };
-
-    // Filter to only include supported parameters
-    const generationParams: any = {};
-    const supportedParams = modelConfig.supportedParams || [];
-
-    for (const param of supportedParams) {
-      if (allParams[param] !== undefined) {
-        generationParams[param] = allParams[param];
-      }
-    }
-
-    // Always set prompt from optimizedPrompt
-    generationParams.prompt = (video.generationParams as any)?.optimizedPrompt || video.visual;
-
-    // Add seed if specified and supported
-    if (video.seed !== null && supportedParams.includes('seed')) {
-      generationParams.seed = video.seed;
-    }
-
-    // Add reference image from previous video for visual continuity (only if supported)
-    if (supportedParams.includes('reference_images')) {
-      if (video.referenceImageUrl) {
-        generationParams.reference_images = [video.referenceImageUrl];
-      } else if (video.videoOrder > 1) {
-        // Get previous video's thumbnail for continuity
-        const previousVideo = await prisma.sectionVideo.findFirst({
-          where: {
-            scriptId: video.scriptId,
-            videoOrder: video.videoOrder - 1,
-            status: { in: ['completed', 'approved'] },
-          },
-        });
-
-        if (previousVideo?.thumbnailUrl) {
-          generationParams.reference_images = [previousVideo.thumbnailUrl];
-
-          // Update current video with reference URL
-          await prisma.sectionVideo.update({
-            where: { id: videoId },
-            data: { referenceImageUrl: previousVideo.thumbnailUrl },
-          });
-
-          logger.info(`📸 Using reference image from video ${previousVideo.videoOrder} for continuity`);
-        }
-      }
-    }
-
-    // Log final generation parameters
-    logger.info(`🎬 Generation parameters for video ${videoId}: ${JSON.stringify(generationParams, null, 2)}`);
-
-    // Create Lambda job
-    const jobId = uuidv4();
-    const lambdaJob = await prisma.lambdaJob.create({
-      data: {
-        configId: lambdaConfig.id,
-        userId: video.script.project.userId,
-        projectId: video.script.projectId,
-        jobId,
-        lambdaName: 'generate-media',
-        mediaType: 'video',
-        modelId: video.modelId,
-        prompt: generationParams.prompt,
-        parameters: generationParams,
-        status: 'pending',
-      },
-    });
+    // Lambda submission runs in the job queue worker
+    const job = await getJobQueue().enqueue(
+      'section-video.generate',
+      { videoId, lambdaConfigId },
+      { projectId: video.script.projectId }
+    );
 
-    // Update video with lambdaJobId
-    await prisma.sectionVideo.update({
-      where: { id: videoId },
+    res.status(202).json({
+      success: true,
+      message: 'Video generation queued',
       data: {
-        lambdaJobId: lambdaJob.id,
-        status: 'pending',
-      },
-    });
-
-    // Call Lambda API
-    const lambdaUrl = `${process.env.LAMBDA_API_BASE_URL}/generate-media`;
-
-    logger.info(`🚀 Calling Lambda for video ${videoId}: ${lambdaUrl}`);
-
-    // Construct webhook URL for Replicate callbacks
-    // IMPORTANT: Point to Lambda processWebhook, NOT backend directly!
-    // Lambda will download from Replicate, upload to S3, then notify backend
-    const webhookUrl = `${process.env.LAMBDA_API_BASE_URL}/webhook/replicate`;
-
-    const lambdaResponse = await fetch(lambdaUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+        videoId,
+        jobId: job.id,
+        status: job.status,
       },
-      body: JSON.stringify({
-        userId: video.script.project.userId || 'anonymous',
-        mediaType: 'video',
-        modelId: video.modelId,
-        parameters: generationParams,
-        webhook_url: webhookUrl, // Replicate will POST to this URL when done
-      }),
     });
-
-    logger.info(`📡 Webhook configured for video ${videoId}: ${webhookUrl}`);
-
-    const lambdaResult = await lambdaResponse.json();
-
-    logger.info(`📥 Lambda response status: ${lambdaResponse.status} ${lambdaResponse.ok ? 'OK' : 'ERROR'}`);
-    logger.info(`📥 Lambda response body: ${JSON.stringify(lambdaResult, null, 2)}`);
-
-    // Check if Lambda call was successful
-    // Lambda returns: { jobId, status, replicateId, message, estimatedTime, estimatedCost }
-    if (lambdaResponse.ok && lambdaResult.replicateId) {
-      // Update job and video with Replicate job ID
-      await prisma.lambdaJob.update({
-        where: { id: lambdaJob.id },
-        data: {
-          replicateId: lambdaResult.replicateId,
-          status: 'processing',
-        },
-      });
-
-      await prisma.sectionVideo.update({
-        where: { id: videoId },
-        data: {
-          replicateJobId: lambdaResult.replicateId,
-          status: 'generating',
-        },
-      });
-
-      logger.info(`✅ Lambda called successfully for video ${videoId}`);
-
-      res.json({
-        success: true,
-        message: 'Video generation started',
-        data: {
-          videoId,
-          lambdaJobId: lambdaJob.id,
-          replicateJobId: lambdaResult.replicateId,
-          status: 'generating',
-          estimatedTime: lambdaResult.estimatedTime,
-          estimatedCost: lambdaResult.estimatedCost,
-        },
-      });
-    } else {
-      // Lambda call failed
-      logger.error('❌ Lambda call failed', lambdaResult);
-
-      await prisma.lambdaJob.update({
-        where: { id: lambdaJob.id },
-        data: {
-          status: 'failed',
-          error: lambdaResult.message || 'Lambda call failed',
-        },
-      });
-
-      await prisma.sectionVideo.update({
-        where: { id: videoId },
-        data: {
-          status: 'failed',
-          errorMessage: lambdaResult.message || 'Lambda call failed',
-        },
-      });
-
-      res.status(500).json({
-        success: false,
-        message: `Lambda call failed: ${lambdaResult.message || 'Unknown error'}`,
-      });
-    }
   } catch (error: any) {
     logger.error('❌ Error generating video:', error.message);
     res.status(500).json({
@@ -759,103 +512,18 @@ router.post('/:scriptId/compile', /* requireScriptOwnership, */ validateBody(com
     const { scriptId } = req.params;
     const { outputFormat = 'mp4', quality = 'high' } = req.body;
 
-    // Get all approved videos
-    const videos = await prisma.sectionVideo.findMany({
-      where: {
-        scriptId,
-        status: 'approved',
-        resultUrl: { not: null },
-      },
-      orderBy: { videoOrder: 'asc' },
+    const { message, ...compiled } = await compileScriptVideos(scriptId, {
+      outputFormat,
+      quality,
     });
 
-    if (videos.length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'No approved videos found for compilation',
-      });
-    }
-
-    // Extract video URLs
-    const videoUrls = videos.map(v => v.resultUrl!);
-
-    logger.info(`🎬 Compiling ${videos.length} videos for script ${scriptId}`);
-
-    // Calculate total duration safely
-    const totalDuration = videos.reduce((sum, v) => sum + (v.duration || 0), 0);
-
-    logger.info(`📊 Total duration: ${totalDuration}s, Video count: ${videos.length}`);
-
-    // Get userId and sectionId from first video
-    const userId = videos[0]?.userId || 'unknown';
-    const sectionId = videos[0]?.sectionId || 'unknown';
-
-    // Call Lambda compile-videos endpoint
-    const lambdaUrl = process.env.LAMBDA_API_BASE_URL || 'https://jp4xy0391j.execute-api.us-east-1.amazonaws.com/homolog';
-    const compileEndpoint = `${lambdaUrl}/compile-videos`;
-
-    logger.info(`📤 Calling Lambda compilation endpoint: ${compileEndpoint}`);
-
-    try {
-      const lambdaResponse = await fetch(compileEndpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          scriptId,
-          videoUrls,
-          userId,
-          sectionId,
-          outputFormat,
-          quality
-        }),
-      });
-
-      const lambdaResult = await lambdaResponse.json();
-
-      logger.info(`✅ Lambda response received:`, {
-        status: lambdaResponse.status,
-        success: lambdaResult.success,
-        message: lambdaResult.message
-      });
-
-      if (lambdaResult.success) {
-        // Return success with compilation details
-        res.json({
-          success: true,
-          message: lambdaResult.message || 'Video compilation completed',
-          data: {
-            scriptId,
-            videoCount: videos.length,
-            totalDuration,
-            compiledVideoUrl: lambdaResult.data?.compiledVideoUrl,
-            fileSize: lambdaResult.data?.fileSize,
-            jobId: lambdaResult.data?.jobId,
-            duration: lambdaResult.data?.duration
-          },
-        });
-      } else {
-        // Lambda returned error
-        logger.error(`❌ Lambda compilation failed:`, lambdaResult.message);
-        res.status(500).json({
-          success: false,
-          message: `Compilation failed: ${lambdaResult.message}`,
-        });
-      }
-    } catch (lambdaError: any) {
-      logger.error('❌ Error calling Lambda:', lambdaError.message);
-      res.status(500).json({
-        success: false,
-        message: `Failed to call compilation service: ${lambdaError.message}`,
-      });
-    }
-  } catch (error: any) {
-    logger.error('❌ Error compiling videos:', error.message);
-    res.status(500).json({
-      success: false,
-      message: `Failed to compile videos: ${error.message}`,
+    res.json({
+      success: true,
+      message,
+      data: compiled,
     });
+  } catch (error: any) {
+    sendError(res, error, 'to compile videos');
   }
 });
 
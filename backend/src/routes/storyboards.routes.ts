@@ -0,0 +1,130 @@
+/**
+ * Storyboard Routes
+ *
+ * Shot lists with still frames for the clips of a detailed script, and
+ * their review. A clip whose storyboard isn't approved can't be generated
+ * (POST /api/section-videos/:videoId/generate).
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { prisma } from '../config/database.js';
+import { getJobQueue } from '../services/queue/index.js';
+import { requireAuth } from '../middleware/auth.js';
+import { aiGenerationLimiter } from '../middleware/rateLimiter.js';
+import {
+  getScriptStoryboard,
+  parseStoryboardRequest,
+  reviewStoryboard,
+  StoryboardError,
+} from '../services/storyboards/storyboards.js';
+
+const router = Router();
+
+// Apply authentication to all routes (the general rate limit comes from
+// scriptsRoutes, mounted first on /api/scripts)
+router.use(requireAuth);
+
+/**
+ * GET /api/scripts/:scriptId/storyboard
+ *
+ * Storyboard of every clip: shots, frames and review status
+ */
+router.get('/:scriptId/storyboard', async (req, res) => {
+  try {
+    const storyboard = await getScriptStoryboard(req.params.scriptId);
+
+    res.json({
+      success: true,
+      data: storyboard,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to get storyboard');
+  }
+});
+
+/**
+ * POST /api/scripts/:scriptId/storyboard
+ *
+ * Queue storyboard generation. Returns 202 with a jobId (see
+ * GET /api/jobs/:jobId). Regenerated storyboards go back to draft.
+ *
+ * Body:
+ * - videoOrders: number[] (optional) - Clips to storyboard (default: every clip not yet approved)
+ * - imageModelId: 'flux-schnell' | 'sdxl' (optional, default: flux-schnell)
+ * - frames: boolean (optional, default: true) - Generate a still frame per shot
+ */
+router.post('/:scriptId/storyboard', aiGenerationLimiter, async (req, res) => {
+  try {
+    const { scriptId } = req.params;
+    const request = parseStoryboardRequest(req.body);
+
+    const script = await prisma.sectionDetailedScript.findUnique({
+      where: { id: scriptId },
+      include: { videos: { select: { videoOrder: true } } },
+    });
+
+    if (!script) {
+      throw new StoryboardError(404, 'Script not found');
+    }
+
+    const missing = (request.videoOrders ?? []).filter(
+      (videoOrder) => !script.videos.some((video: { videoOrder: number }) => video.videoOrder === videoOrder)
+    );
+    if (missing.length > 0) {
+      throw new StoryboardError(404, `Clip(s) not found: ${missing.join(', ')}`);
+    }
+
+    const job = await getJobQueue().enqueue(
+      'script.storyboard',
+      { scriptId, ...request },
+      { projectId: script.projectId }
+    );
+
+    res.status(202).json({
+      success: true,
+      message: 'Storyboard generation queued',
+      data: {
+        scriptId,
+        jobId: job.id,
+        status: job.status,
+      },
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to queue storyboard generation');
+  }
+});
+
+/**
+ * POST /api/scripts/:scriptId/videos/:videoOrder/storyboard/review
+ *
+ * Approve a clip's storyboard or request changes
+ *
+ * Body:
+ * - decision: 'approved' | 'changes_requested' (required)
+ * - reviewedBy: string (optional)
+ * - note: string (optional)
+ */
+router.post('/:scriptId/videos/:videoOrder/storyboard/review', async (req, res) => {
+  try {
+    const videoOrder = Number(req.params.videoOrder);
+    if (!Number.isInteger(videoOrder) || videoOrder < 1) {
+      throw new StoryboardError(400, 'videoOrder must be a positive integer');
+    }
+
+    const review = await reviewStoryboard(req.params.scriptId, videoOrder, req.body);
+
+    res.json({
+      success: true,
+      message:
+        review.storyboardStatus === 'approved'
+          ? 'Storyboard approved'
+          : 'Storyboard changes requested',
+      data: review,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to review storyboard');
+  }
+});
+
+export default router;
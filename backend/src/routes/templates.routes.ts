@@ -0,0 +1,154 @@
+/**
+ * VSL Template Routes
+ *
+ * Manage VSL templates: the built-in frameworks (pas, aida, story,
+ * authority) are read-only, custom templates define their own ordered
+ * sections, per-section guidance and target durations, and the framework
+ * description the VSL Specialist follows.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import {
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  cloneTemplate,
+} from '../services/vsl/templates.js';
+
+const router = Router();
+
+/**
+ * GET /api/vsl/templates
+ *
+ * List built-in and custom templates
+ *
+ * Query:
+ * - userId: string (optional, only this user's custom templates)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const templates = await listTemplates(req.query.userId as string | undefined);
+
+    res.json({
+      success: true,
+      message: 'VSL templates retrieved successfully',
+      data: templates,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to get VSL templates');
+  }
+});
+
+/**
+ * GET /api/vsl/templates/:id
+ *
+ * Get a template by built-in key or custom template id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const template = await getTemplate(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'VSL template retrieved successfully',
+      data: template,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to get VSL template');
+  }
+});
+
+/**
+ * POST /api/vsl/templates
+ *
+ * Create a custom template
+ *
+ * Body:
+ * - userId: string (optional)
+ * - name: string
+ * - description: string (optional)
+ * - framework: string (framework description for the VSL Specialist)
+ * - sections: Array<{ name: string; guidance?: string; targetDuration?: number }>
+ */
+router.post('/', async (req, res) => {
+  try {
+    const template = await createTemplate(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'VSL template created successfully',
+      data: template,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to create VSL template');
+  }
+});
+
+/**
+ * PUT /api/vsl/templates/:id
+ *
+ * Update a custom template. Existing projects keep their sections; the
+ * new guidance and framework apply to later generations.
+ *
+ * Body: any of name, description, framework, sections
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const template = await updateTemplate(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      message: 'VSL template updated successfully',
+      data: template,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to update VSL template');
+  }
+});
+
+/**
+ * DELETE /api/vsl/templates/:id
+ *
+ * Delete a custom template (409 while projects use it)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    await deleteTemplate(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'VSL template deleted successfully',
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to delete VSL template');
+  }
+});
+
+/**
+ * POST /api/vsl/templates/:id/clone
+ *
+ * Copy a built-in or custom template into a new editable template
+ *
+ * Body:
+ * - name: string (optional, defaults to "<name> (copy)")
+ * - userId: string (optional)
+ */
+router.post('/:id/clone', async (req, res) => {
+  try {
+    const { name, userId } = req.body || {};
+    const template = await cloneTemplate(req.params.id, { name, userId });
+
+    res.status(201).json({
+      success: true,
+      message: 'VSL template cloned successfully',
+      data: template,
+    });
+  } catch (error: any) {
+    sendError(res, error, 'to clone VSL template');
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+/**
+ * VSL Section Variant Routes
+ *
+ * A/B copy variants of a VSL section: generate alternatives with distinct
+ * angles, compare them, and activate the one that becomes the section copy
+ * (and therefore the input of detailed script generation).
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { AgentManager } from '../agents/index.js';
+import {
+  listSectionVariants,
+  generateSectionVariants,
+  activateSectionVariant,
+  deleteSectionVariant,
+  compareSectionVariants,
+} from '../services/vsl/sectionVariants.js';
+
+export function createVariantRoutes(agentManager: AgentManager): Router {
+  const router = Router();
+
+  /**
+   * GET /api/vsl/sections/:id/variants
+   *
+   * List a section's variants (oldest first)
+   */
+  router.get('/:id/variants', async (req, res) => {
+    try {
+      const variants = await listSectionVariants(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Variants retrieved successfully',
+        data: variants,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to get variants');
+    }
+  });
+
+  /**
+   * POST /api/vsl/sections/:id/variants
+   *
+   * Generate alternative versions of the section with distinct angles.
+   * The first call also stores the current copy as variant A.
+   *
+   * Body:
+   * - count: number (optional, 1-5, default 2)
+   * - angles: string[] (optional, e.g. ["fear of missing out", "social proof"])
+   */
+  router.post('/:id/variants', async (req, res) => {
+    try {
+      const { count, angles } = req.body || {};
+
+      if (angles !== undefined && (!Array.isArray(angles) || angles.some((a) => typeof a !== 'string'))) {
+        return res.status(400).json({
+          success: false,
+          message: 'angles must be an array of strings',
+        });
+      }
+
+      const variants = await generateSectionVariants(agentManager, req.params.id, {
+        count: count !== undefined ? Number(count) : undefined,
+        angles,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `${variants.length} variants stored`,
+        data: variants,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to generate variants');
+    }
+  });
+
+  /**
+   * POST /api/vsl/sections/:id/variants/compare
+   *
+   * Compare variants side by side and explain their score differences
+   *
+   * Body:
+   * - variantIds: string[] (optional, defaults to all variants)
+   */
+  router.post('/:id/variants/compare', async (req, res) => {
+    try {
+      const comparison = await compareSectionVariants(
+        agentManager,
+        req.params.id,
+        req.body?.variantIds
+      );
+
+      res.json({
+        success: true,
+        message: 'Variants compared successfully',
+        data: comparison,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to compare variants');
+    }
+  });
+
+  /**
+   * POST /api/vsl/sections/:id/variants/:variantId/activate
+   *
+   * Make the variant the section copy (recorded as a new revision)
+   *
+   * Body:
+   * - authorId: string (optional)
+   */
+  router.post('/:id/variants/:variantId/activate', async (req, res) => {
+    try {
+      const result = await activateSectionVariant(req.params.id, req.params.variantId, {
+        type: 'user',
+        id: req.body?.authorId,
+      });
+
+      res.json({
+        success: true,
+        message: `Variant ${result.variant.label} activated`,
+        data: result,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to activate variant');
+    }
+  });
+
+  /**
+   * DELETE /api/vsl/sections/:id/variants/:variantId
+   *
+   * Delete an inactive variant
+   */
+  router.delete('/:id/variants/:variantId', async (req, res) => {
+    try {
+      await deleteSectionVariant(req.params.id, req.params.variantId);
+
+      res.json({
+        success: true,
+        message: 'Variant deleted successfully',
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to delete variant');
+    }
+  });
+
+  return router;
+}
@@ -2,12 +2,14 @@
  * Webhook Routes
  *
  * Endpoints for receiving callbacks from external services.
- * Currently supports Replicate video generation webhooks.
+ * Currently supports Replicate video generation webhooks, including the
+ * still frames of storyboards.
  */
 
 import { Router } from 'express';
 import { logger } from '../utils/logger.js';
 import { prisma } from '../config/database.js';
+import { applyStoryboardFrameResult } from '../services/storyboards/storyboards.js';
 import crypto from 'crypto';
 
 const router = Router();
@@ -143,8 +145,13 @@ router.post('/replicate', async (req, res) => {
 
       if (outputUrls.length > 0 && outputUrls[0]) {
         updateData.resultUrl = outputUrls[0]; // First output URL
-        // Store output and metrics in metadata field instead
-        updateData.metadata = { output, metrics };
+        // Store output and metrics in metadata field instead, keeping what
+        // the job was created with (e.g. its storyboard shot)
+        updateData.metadata = {
+          ...((lambdaJob.metadata as Record<string, unknown> | null) ?? {}),
+          output,
+          metrics,
+        };
       }
     }
 
@@ -208,6 +215,13 @@ router.post('/replicate', async (req, res) => {
         thumbnailUrl: updatedVideo.thumbnailUrl,
         status: updatedVideo.status,
       }, null, 2));
+    } else {
+      // Still frame of a storyboard shot
+      await applyStoryboardFrameResult(lambdaJob, {
+        status,
+        imageUrl: status === 'succeeded' ? outputUrls[0] : undefined,
+        error: error ? (typeof error === 'string' ? error : JSON.stringify(error)) : undefined,
+      });
     }
 
     // TODO: Emit WebSocket event to notify frontend
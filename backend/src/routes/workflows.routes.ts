@@ -0,0 +1,137 @@
+/**
+ * Workflow Routes
+ *
+ * Start declarative workflows (e.g. VSL section → script → clips →
+ * approval → compile) and follow their progress. Live updates are also
+ * pushed as workflow:progress Socket.IO events to the novela/project room.
+ */
+
+import { Router } from 'express';
+import { sendError } from '../utils/httpError.js';
+import { WorkflowEngine } from '../services/workflows/index.js';
+
+export function createWorkflowRoutes(engine: WorkflowEngine): Router {
+  const router = Router();
+
+  /**
+   * GET /api/workflows
+   *
+   * List registered workflows and their steps
+   */
+  router.get('/', (req, res) => {
+    res.json({
+      success: true,
+      message: 'Workflows retrieved successfully',
+      data: engine.getDefinitions().map((definition) => ({
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        steps: definition.steps.map((step) => ({
+          id: String(step.id),
+          name: step.name,
+          dependsOn: (step.dependsOn || []).map(String),
+        })),
+      })),
+    });
+  });
+
+  /**
+   * POST /api/workflows/:workflowId/runs
+   *
+   * Start a workflow run. Returns 202 with the run - poll
+   * GET /api/workflows/:runId or listen for workflow:progress events.
+   *
+   * Body: workflow input (validated against the workflow's schema)
+   */
+  router.post('/:workflowId/runs', async (req, res) => {
+    try {
+      const run = await engine.start(req.params.workflowId, req.body);
+
+      res.status(202).json({
+        success: true,
+        message: 'Workflow started',
+        data: { runId: run.id, ...run },
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to start workflow');
+    }
+  });
+
+  /**
+   * GET /api/workflows/:runId
+   *
+   * Get run status, overall progress and per-step state
+   */
+  router.get('/:runId', async (req, res) => {
+    try {
+      const run = await engine.getRun(req.params.runId);
+
+      if (!run) {
+        return res.status(404).json({
+          success: false,
+          message: 'Workflow run not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Workflow run retrieved successfully',
+        data: run,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to get workflow run');
+    }
+  });
+
+  /**
+   * POST /api/workflows/:runId/steps/:stepId/approve
+   *
+   * Approve a step waiting for approval and continue the run
+   *
+   * Body:
+   * - approvedBy: string (optional)
+   * - notes: string (optional)
+   */
+  router.post('/:runId/steps/:stepId/approve', async (req, res) => {
+    try {
+      const { approvedBy, notes } = req.body || {};
+
+      const run = await engine.approve(req.params.runId, req.params.stepId, {
+        approvedBy,
+        notes,
+      });
+
+      res.json({
+        success: true,
+        message: 'Step approved',
+        data: run,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to approve step');
+    }
+  });
+
+  /**
+   * POST /api/workflows/:runId/retry
+   *
+   * Retry failed steps
+   *
+   * Body:
+   * - fromStep: string (optional) - Re-run this step and everything after it
+   */
+  router.post('/:runId/retry', async (req, res) => {
+    try {
+      const run = await engine.retry(req.params.runId, req.body?.fromStep);
+
+      res.json({
+        success: true,
+        message: 'Workflow run retried',
+        data: run,
+      });
+    } catch (error: any) {
+      sendError(res, error, 'to retry workflow run');
+    }
+  });
+
+  return router;
+}
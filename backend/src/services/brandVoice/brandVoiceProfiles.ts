@@ -0,0 +1,134 @@
+/**
+ * Brand Voice Profiles
+ *
+ * A reusable description of how a brand writes: vocabulary to use and to
+ * avoid, reading level, formality, form of address, claims it never makes
+ * and approved sample copy. VSLProject.brandVoiceId attaches a profile to a
+ * project; the VSL Specialist, Script Detail and Script Writer agents get it
+ * as a BRAND VOICE block in their prompts.
+ *
+ * VSLProject.tone stays as a one-word hint for projects without a profile.
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError, parseInput } from '../../utils/httpError.js';
+import type { BrandVoiceContext } from '../../agents/index.js';
+
+const termList = z
+  .array(z.string().trim().min(1).max(200))
+  .max(100)
+  .default([]);
+
+const profileInputSchema = z.object({
+  userId: z.string().optional(),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  formality: z.enum(['casual', 'neutral', 'formal']).default('neutral'),
+  readingLevel: z.enum(['simple', 'standard', 'advanced']).default('standard'),
+  pronounStyle: z.string().trim().max(500).optional(),
+  useVocabulary: termList,
+  avoidVocabulary: termList,
+  forbiddenClaims: z.array(z.string().trim().min(1).max(500)).max(50).default([]),
+  sampleCopy: z.array(z.string().trim().min(1).max(3000)).max(5).default([]),
+});
+
+const profileUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  formality: z.enum(['casual', 'neutral', 'formal']).optional(),
+  readingLevel: z.enum(['simple', 'standard', 'advanced']).optional(),
+  pronounStyle: z.string().trim().max(500).nullable().optional(),
+  useVocabulary: termList.optional(),
+  avoidVocabulary: termList.optional(),
+  forbiddenClaims: z.array(z.string().trim().min(1).max(500)).max(50).optional(),
+  sampleCopy: z.array(z.string().trim().min(1).max(3000)).max(5).optional(),
+});
+
+export type BrandVoiceProfileInput = z.infer<typeof profileInputSchema>;
+export type BrandVoiceProfileUpdate = z.infer<typeof profileUpdateSchema>;
+
+/**
+ * Raised for invalid brand voice operations.
+ */
+export class BrandVoiceError extends HttpError {}
+
+export async function listBrandVoices(userId?: string) {
+  return prisma.brandVoiceProfile.findMany({
+    where: userId ? { userId } : {},
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+export async function getBrandVoice(profileId: string) {
+  const profile = await prisma.brandVoiceProfile.findUnique({ where: { id: profileId } });
+
+  if (!profile) {
+    throw new BrandVoiceError(404, `Brand voice profile not found: ${profileId}`);
+  }
+
+  return profile;
+}
+
+export async function createBrandVoice(rawInput: unknown) {
+  const input: BrandVoiceProfileInput = parseInput(profileInputSchema, rawInput);
+
+  const profile = await prisma.brandVoiceProfile.create({ data: input });
+
+  logger.info(`🗣️ Brand voice profile created: ${profile.id} (${profile.name})`);
+
+  return profile;
+}
+
+export async function updateBrandVoice(profileId: string, rawUpdate: unknown) {
+  await getBrandVoice(profileId);
+
+  const update: BrandVoiceProfileUpdate = parseInput(profileUpdateSchema, rawUpdate);
+
+  return prisma.brandVoiceProfile.update({
+    where: { id: profileId },
+    data: update,
+  });
+}
+
+/**
+ * Delete a profile. Projects using it fall back to their tone.
+ */
+export async function deleteBrandVoice(profileId: string): Promise<number> {
+  await getBrandVoice(profileId);
+
+  const projects = await prisma.vSLProject.count({ where: { brandVoiceId: profileId } });
+  await prisma.brandVoiceProfile.delete({ where: { id: profileId } });
+
+  logger.info(`🗑️ Brand voice profile deleted: ${profileId} (detached from ${projects} project(s))`);
+
+  return projects;
+}
+
+export function toBrandVoiceContext(profile: any): BrandVoiceContext {
+  return {
+    id: profile.id,
+    name: profile.name,
+    formality: profile.formality,
+    readingLevel: profile.readingLevel,
+    pronounStyle: profile.pronounStyle || undefined,
+    useVocabulary: profile.useVocabulary || [],
+    avoidVocabulary: profile.avoidVocabulary || [],
+    forbiddenClaims: profile.forbiddenClaims || [],
+    sampleCopy: profile.sampleCopy || [],
+  };
+}
+
+/**
+ * Prompt context for a project's (or request's) brand voice.
+ * Undefined without a profile, or if it was deleted.
+ */
+export async function getBrandVoiceContext(
+  profileId: string | null | undefined
+): Promise<BrandVoiceContext | undefined> {
+  if (!profileId) return undefined;
+
+  const profile = await prisma.brandVoiceProfile.findUnique({ where: { id: profileId } });
+  return profile ? toBrandVoiceContext(profile) : undefined;
+}
@@ -0,0 +1,209 @@
+/**
+ * Brand Voice Scoring
+ *
+ * Reports how well copy matches a brand voice profile. Rule checks are
+ * exact and free (banned words, forbidden claims, brand vocabulary
+ * coverage, sentence length for the reading level); the VSL Specialist
+ * then judges formality, form of address and closeness to the sample copy.
+ *
+ * score = 0.6 · agent score + 0.4 · rule score (rules only if the agent is
+ * skipped or fails). A forbidden claim caps the score at 40.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import {
+  AgentManager,
+  BrandVoiceAgentScore,
+  BrandVoiceContext,
+  BrandVoiceReadingLevel,
+} from '../../agents/index.js';
+import { BrandVoiceError, getBrandVoice, toBrandVoiceContext } from './brandVoiceProfiles.js';
+
+// Target average words per sentence
+const READING_LEVEL_SENTENCE_WORDS: Record<BrandVoiceReadingLevel, number> = {
+  simple: 12,
+  standard: 18,
+  advanced: 25,
+};
+
+const AVOIDED_TERM_PENALTY = 8;
+const FORBIDDEN_CLAIM_PENALTY = 25;
+const MAX_SENTENCE_LENGTH_PENALTY = 15;
+const MAX_VOCABULARY_PENALTY = 10;
+const FORBIDDEN_CLAIM_SCORE_CAP = 40;
+
+export interface BrandVoiceTermMatch {
+  term: string;
+  count: number;
+}
+
+export interface BrandVoiceRuleReport {
+  score: number;
+  avoidedTermsUsed: BrandVoiceTermMatch[];
+  forbiddenClaimsFound: BrandVoiceTermMatch[];
+  brandTermsUsed: string[];
+  brandTermsMissing: string[];
+  averageSentenceWords: number;
+  targetSentenceWords: number;
+}
+
+export interface BrandVoiceScoreReport {
+  profileId: string;
+  profileName: string;
+  score: number;
+  rules: BrandVoiceRuleReport;
+  agent?: BrandVoiceAgentScore;
+  agentError?: string;
+}
+
+export interface BrandVoiceScoreOptions {
+  useAgent?: boolean; // Default true; false = rule checks only
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countTerm(text: string, term: string): number {
+  const pattern = new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(term)}(?![\\p{L}\\d])`, 'giu');
+  return text.match(pattern)?.length || 0;
+}
+
+function averageSentenceWords(text: string): number {
+  const sentences = text
+    .split(/[.!?…]+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence !== '');
+  if (sentences.length === 0) return 0;
+
+  const words = sentences.reduce((sum, sentence) => sum + sentence.split(/\s+/).length, 0);
+  return Math.round((words / sentences.length) * 10) / 10;
+}
+
+/**
+ * Rule checks of a text against a profile (no LLM)
+ */
+export function checkBrandVoiceRules(text: string, brandVoice: BrandVoiceContext): BrandVoiceRuleReport {
+  const matches = (terms: string[]) =>
+    terms
+      .map((term) => ({ term, count: countTerm(text, term) }))
+      .filter((match) => match.count > 0);
+
+  const avoidedTermsUsed = matches(brandVoice.avoidVocabulary);
+  const forbiddenClaimsFound = matches(brandVoice.forbiddenClaims);
+  const brandTermsUsed = brandVoice.useVocabulary.filter((term) => countTerm(text, term) > 0);
+  const brandTermsMissing = brandVoice.useVocabulary.filter((term) => !brandTermsUsed.includes(term));
+
+  const average = averageSentenceWords(text);
+  const target = READING_LEVEL_SENTENCE_WORDS[brandVoice.readingLevel];
+
+  let score = 100;
+  score -= avoidedTermsUsed.length * AVOIDED_TERM_PENALTY;
+  score -= forbiddenClaimsFound.length * FORBIDDEN_CLAIM_PENALTY;
+  // Only longer-than-target sentences hurt; 20% tolerance
+  if (average > target * 1.2) {
+    score -= Math.min(MAX_SENTENCE_LENGTH_PENALTY, Math.round((average - target * 1.2) * 2));
+  }
+  if (brandVoice.useVocabulary.length > 0) {
+    score -= Math.round(
+      MAX_VOCABULARY_PENALTY * (brandTermsMissing.length / brandVoice.useVocabulary.length)
+    );
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    avoidedTermsUsed,
+    forbiddenClaimsFound,
+    brandTermsUsed,
+    brandTermsMissing,
+    averageSentenceWords: average,
+    targetSentenceWords: target,
+  };
+}
+
+/**
+ * Score a text against a brand voice profile
+ */
+export async function scoreBrandVoiceText(
+  agentManager: AgentManager,
+  profileId: string,
+  text: string,
+  context: { projectId?: string; sectionId?: string; language?: string } = {},
+  options: BrandVoiceScoreOptions = {}
+): Promise<BrandVoiceScoreReport> {
+  if (text.trim() === '') {
+    throw new BrandVoiceError(400, 'No copy to score');
+  }
+
+  const brandVoice = toBrandVoiceContext(await getBrandVoice(profileId));
+  const rules = checkBrandVoiceRules(text, brandVoice);
+
+  let agent: BrandVoiceAgentScore | undefined;
+  let agentError: string | undefined;
+
+  if (options.useAgent ?? true) {
+    const result = await agentManager.scoreBrandVoice({
+      ...context,
+      brandVoice,
+      text,
+    });
+
+    if (result.success && result.data?.brandVoiceScore) {
+      agent = result.data.brandVoiceScore;
+    } else {
+      agentError = result.message || 'Brand voice scoring failed';
+      logger.warn(`⚠️ Brand voice scoring by agent failed for profile ${profileId}: ${agentError}`);
+    }
+  }
+
+  let score = agent ? Math.round(0.6 * agent.score + 0.4 * rules.score) : rules.score;
+  if (rules.forbiddenClaimsFound.length > 0) {
+    score = Math.min(score, FORBIDDEN_CLAIM_SCORE_CAP);
+  }
+
+  return {
+    profileId: brandVoice.id,
+    profileName: brandVoice.name,
+    score,
+    rules,
+    agent,
+    agentError,
+  };
+}
+
+/**
+ * Score a section's copy against its project's brand voice
+ * (or another profile, to compare)
+ */
+export async function scoreSectionBrandVoice(
+  agentManager: AgentManager,
+  sectionId: string,
+  options: BrandVoiceScoreOptions & { profileId?: string } = {}
+) {
+  const section = await prisma.vSLSection.findUnique({
+    where: { id: sectionId },
+    include: { project: true },
+  });
+
+  if (!section) {
+    throw new BrandVoiceError(404, 'Section not found');
+  }
+
+  const profileId = options.profileId || section.project.brandVoiceId;
+  if (!profileId) {
+    throw new BrandVoiceError(400, 'Project has no brand voice profile. Pass profileId to score against one.');
+  }
+
+  const report = await scoreBrandVoiceText(
+    agentManager,
+    profileId,
+    section.content,
+    { projectId: section.projectId, sectionId, language: section.project.language },
+    options
+  );
+
+  logger.info(`🗣️ Brand voice score for section ${sectionId}: ${report.score}/100 (${report.profileName})`);
+
+  return { sectionId, sectionName: section.sectionName, ...report };
+}
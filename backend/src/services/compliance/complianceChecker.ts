@@ -0,0 +1,282 @@
+/**
+ * Compliance Checker
+ *
+ * Scans a VSL section's copy and the voice lines of its clips for claims
+ * that get ad accounts banned (guaranteed results, medical cures,
+ * unrealistic earnings). Rules run first; the VSL Specialist then looks for
+ * paraphrases the rules can't see. Findings are stored per section with a
+ * severity and a safer rewrite.
+ *
+ * Re-checking replaces the section's open findings. Dismissed findings stay
+ * dismissed while the phrase is unchanged; resolved ones are kept as
+ * history and re-opened (as new findings) if the phrase is still there.
+ *
+ * Open high-severity findings block clip generation
+ * (POST /api/section-videos/:videoId/generate) unless COMPLIANCE_BLOCKING=false.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+import {
+  AgentManager,
+  ComplianceCategory,
+  ComplianceSeverity,
+} from '../../agents/index.js';
+import { matchComplianceRules } from './rules.js';
+
+export type FindingStatus = 'open' | 'resolved' | 'dismissed';
+
+export const FINDING_STATUSES: FindingStatus[] = ['open', 'resolved', 'dismissed'];
+
+export const COMPLIANCE_BLOCKING = process.env.COMPLIANCE_BLOCKING !== 'false';
+
+interface CheckedText {
+  id: string; // "section" or "clip-<videoOrder>"
+  label: string;
+  text: string;
+  videoId: string | null;
+}
+
+interface FindingDraft {
+  videoId: string | null;
+  source: 'rule' | 'agent';
+  ruleId?: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  phrase: string;
+  excerpt?: string;
+  explanation: string;
+  suggestion: string;
+}
+
+export interface ComplianceCheckOptions {
+  useAgent?: boolean; // Default true; false = rules only (free, instant)
+}
+
+export interface FindingFilter {
+  projectId?: string;
+  sectionId?: string;
+  status?: FindingStatus;
+  severity?: ComplianceSeverity;
+}
+
+/**
+ * Raised for invalid compliance operations.
+ */
+export class ComplianceError extends HttpError {}
+
+function findingKey(videoId: string | null, phrase: string): string {
+  return `${videoId || 'section'}:${phrase.trim().toLowerCase()}`;
+}
+
+function excerptOf(text: string, phrase: string): string | undefined {
+  const index = text.toLowerCase().indexOf(phrase.toLowerCase());
+  if (index === -1) return undefined;
+
+  const start = Math.max(0, index - 60);
+  const end = Math.min(text.length, index + phrase.length + 60);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Check a section's copy and clip voices, replacing its open findings
+ */
+export async function checkSectionCompliance(
+  agentManager: AgentManager,
+  sectionId: string,
+  options: ComplianceCheckOptions = {}
+) {
+  const useAgent = options.useAgent ?? true;
+
+  const section = await prisma.vSLSection.findUnique({
+    where: { id: sectionId },
+    include: {
+      project: true,
+      detailedScript: {
+        include: { videos: { orderBy: { videoOrder: 'asc' } } },
+      },
+    },
+  });
+
+  if (!section) {
+    throw new ComplianceError(404, 'Section not found');
+  }
+
+  const videos: Array<{ id: string; videoOrder: number; voice: string }> =
+    section.detailedScript?.videos || [];
+
+  const texts: CheckedText[] = [
+    { id: 'section', label: `Section "${section.sectionName}"`, text: section.content, videoId: null },
+    ...videos.map((video) => ({
+      id: `clip-${video.videoOrder}`,
+      label: `Clip ${video.videoOrder} voice`,
+      text: video.voice,
+      videoId: video.id,
+    })),
+  ].filter((text) => text.text.trim() !== '');
+
+  if (texts.length === 0) {
+    throw new ComplianceError(400, 'Section has no copy to check');
+  }
+
+  // 1. Rules
+  const drafts: FindingDraft[] = texts.flatMap((text) =>
+    matchComplianceRules(text.text).map((match) => ({
+      videoId: text.videoId,
+      source: 'rule' as const,
+      ruleId: match.rule.id,
+      category: match.rule.category,
+      severity: match.rule.severity,
+      phrase: match.phrase,
+      excerpt: match.excerpt,
+      explanation: match.rule.explanation,
+      suggestion: match.rule.suggestion,
+    }))
+  );
+
+  // 2. VSL Specialist (paraphrases, context); rule findings still count if it fails
+  let agentError: string | undefined;
+
+  if (useAgent) {
+    const result = await agentManager.reviewCompliance({
+      projectId: section.projectId,
+      sectionId,
+      language: section.project.language,
+      texts: texts.map(({ id, label, text }) => ({ id, label, text })),
+      knownPhrases: drafts.map((draft) => draft.phrase),
+    });
+
+    if (result.success && result.data?.complianceFindings) {
+      const textsById = new Map(texts.map((text) => [text.id, text]));
+
+      for (const finding of result.data.complianceFindings) {
+        const text = textsById.get(finding.textId)!;
+        const overlapsRule = drafts.some(
+          (draft) =>
+            draft.videoId === text.videoId &&
+            (draft.phrase.toLowerCase().includes(finding.phrase.toLowerCase()) ||
+              finding.phrase.toLowerCase().includes(draft.phrase.toLowerCase()))
+        );
+        if (overlapsRule) continue;
+
+        drafts.push({
+          videoId: text.videoId,
+          source: 'agent',
+          category: finding.category,
+          severity: finding.severity,
+          phrase: finding.phrase,
+          excerpt: excerptOf(text.text, finding.phrase),
+          explanation: finding.explanation,
+          suggestion: finding.suggestion,
+        });
+      }
+    } else {
+      agentError = result.message || 'Compliance review failed';
+      logger.warn(`⚠️ Compliance review by agent failed for section ${sectionId}: ${agentError}`);
+    }
+  }
+
+  const findings = await prisma.$transaction(async (tx) => {
+    const dismissed: Array<{ videoId: string | null; phrase: string }> =
+      await tx.complianceFinding.findMany({
+        where: { sectionId, status: 'dismissed' },
+        select: { videoId: true, phrase: true },
+      });
+    const dismissedKeys = new Set(dismissed.map((finding) => findingKey(finding.videoId, finding.phrase)));
+
+    await tx.complianceFinding.deleteMany({ where: { sectionId, status: 'open' } });
+
+    const created = [];
+    for (const draft of drafts) {
+      if (dismissedKeys.has(findingKey(draft.videoId, draft.phrase))) continue;
+
+      created.push(
+        await tx.complianceFinding.create({
+          data: {
+            projectId: section.projectId,
+            sectionId,
+            ...draft,
+          },
+        })
+      );
+    }
+
+    return created;
+  });
+
+  const blocking = findings.filter((finding: { severity: string }) => finding.severity === 'high').length;
+
+  logger.info(
+    `🛡️ Compliance check for section ${sectionId}: ${findings.length} open finding(s), ${blocking} high`
+  );
+
+  return {
+    sectionId,
+    checkedTexts: texts.length,
+    agentReviewed: useAgent && !agentError,
+    agentError,
+    blocking,
+    findings,
+  };
+}
+
+export async function listComplianceFindings(filter: FindingFilter) {
+  return prisma.complianceFinding.findMany({
+    where: {
+      ...(filter.projectId && { projectId: filter.projectId }),
+      ...(filter.sectionId && { sectionId: filter.sectionId }),
+      ...(filter.status && { status: filter.status }),
+      ...(filter.severity && { severity: filter.severity }),
+    },
+    orderBy: [{ sectionId: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Mark a finding resolved (copy fixed) or dismissed (accepted risk)
+ */
+export async function resolveComplianceFinding(
+  findingId: string,
+  resolution: { status: Exclude<FindingStatus, 'open'>; resolvedBy?: string; note?: string }
+) {
+  const finding = await prisma.complianceFinding.findUnique({ where: { id: findingId } });
+
+  if (!finding) {
+    throw new ComplianceError(404, 'Finding not found');
+  }
+
+  return prisma.complianceFinding.update({
+    where: { id: findingId },
+    data: {
+      status: resolution.status,
+      resolvedBy: resolution.resolvedBy,
+      resolutionNote: resolution.note,
+      resolvedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Open high-severity findings that block generating a clip: those in the
+ * section copy and those in the clip's own voice line
+ */
+export async function getBlockingFindings(videoId: string) {
+  if (!COMPLIANCE_BLOCKING) return [];
+
+  const video = await prisma.sectionVideo.findUnique({
+    where: { id: videoId },
+    select: { script: { select: { sectionId: true } } },
+  });
+
+  if (!video) return [];
+
+  return prisma.complianceFinding.findMany({
+    where: {
+      sectionId: video.script.sectionId,
+      status: 'open',
+      severity: 'high',
+      OR: [{ videoId: null }, { videoId }],
+    },
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Compliance Rules
+ *
+ * Phrase patterns that get sales copy rejected by ad platforms (Meta, Google,
+ * YouTube) and consumer-protection regulators: guaranteed results, medical
+ * cures, unrealistic earnings, fake urgency. Patterns cover the narration
+ * languages we ship most (pt-br, en, es); the LLM pass catches paraphrases.
+ */
+
+import type { ComplianceCategory, ComplianceSeverity } from '../../agents/index.js';
+
+export interface ComplianceRule {
+  id: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  pattern: RegExp;
+  explanation: string;
+  suggestion: string; // Safer rewrite direction
+}
+
+export const COMPLIANCE_RULES: ComplianceRule[] = [
+  // Guaranteed results
+  {
+    id: 'guaranteed-results',
+    category: 'guarantee',
+    severity: 'high',
+    pattern: /(?<![\p{L}\d])(guaranteed (results?|income|success|to work)|100% guaranteed|resultados? garantidos?|garantimos (que|o resultado)|[ée]xito garantizado|resultados garantizados)(?![\p{L}\d])/giu,
+    explanation: 'Promises a guaranteed outcome, which ad platforms treat as a misleading claim',
+    suggestion: 'Describe what the product helps with and what results depend on (e.g. "designed to help you...")',
+  },
+  {
+    id: 'risk-free-certainty',
+    category: 'guarantee',
+    severity: 'medium',
+    pattern: /(?<![\p{L}\d])(can'?t fail|never fail|impossible to fail|n[ãa]o tem como (dar errado|falhar)|imposs[íi]vel (dar errado|falhar)|no puede fallar)(?![\p{L}\d])/giu,
+    explanation: 'Implies certainty of success',
+    suggestion: 'Replace certainty with realistic framing ("many customers saw...", "built to make it easier to...")',
+  },
+
+  // Earnings claims
+  {
+    id: 'specific-earnings',
+    category: 'income',
+    severity: 'high',
+    pattern: /((make|earn|ganhar|ganhe|faturar|fature|gane|ganar)\s+(up to\s+|at[ée]\s+|hasta\s+)?(R\$|US\$|\$|€)\s?\d[\d.,]*\s*(k|mil)?\s*(per|a|por|\/)\s*(day|week|month|dia|semana|m[êe]s))/giu,
+    explanation: 'States a specific earnings figure per period, a typical "get rich quick" claim',
+    suggestion: 'Remove the figure or add that results vary and are not typical, with no promised amount',
+  },
+  {
+    id: 'get-rich',
+    category: 'income',
+    severity: 'high',
+    pattern: /(?<![\p{L}\d])(get rich (quick|fast)|quit your (day )?job (in|within)|financial freedom in \d+|fique rico|enrique[çc]a (r[áa]pido|em \d+)|dinheiro f[áa]cil|easy money|hazte rico|dinero f[áa]cil)(?![\p{L}\d])/giu,
+    explanation: 'Promises fast or effortless wealth',
+    suggestion: 'Focus on the skill or tool being taught and the effort it takes, without wealth promises',
+  },
+  {
+    id: 'passive-income',
+    category: 'income',
+    severity: 'medium',
+    pattern: /(?<![\p{L}\d])(passive income while you sleep|make money while you sleep|ganhe dinheiro dormindo|renda passiva (garantida|autom[áa]tica)|gana dinero mientras duermes)(?![\p{L}\d])/giu,
+    explanation: 'Implies income without effort',
+    suggestion: 'Explain what the work involves and avoid "while you sleep" framing',
+  },
+
+  // Health claims
+  {
+    id: 'medical-cure',
+    category: 'health',
+    severity: 'high',
+    pattern: /(?<![\p{L}\d])(cures?|cura|curar|elimina(te)?s?)\s+(\w+\s+){0,2}(diabetes|cancer|c[âa]ncer|arthritis|artrite|artritis|depression|depress[ãa]o|depresi[óo]n|anxiety|ansiedade|ansiedad|hypertension|hipertens[ãa]o|hipertensi[óo]n|alzheimer|disease|doen[çc]as?|enfermedad(es)?)(?![\p{L}\d])/giu,
+    explanation: 'Claims to cure or eliminate a medical condition',
+    suggestion: 'Remove the cure claim; describe general wellbeing benefits and recommend consulting a doctor',
+  },
+  {
+    id: 'replace-medication',
+    category: 'health',
+    severity: 'high',
+    pattern: /(?<![\p{L}\d])(stop taking (your )?(medication|meds|pills)|no more (medication|pills|insulin)|pare de tomar (rem[ée]dios?|medicamentos?)|sem (rem[ée]dios?|medicamentos?)|deja (de tomar )?(los )?medicamentos)(?![\p{L}\d])/giu,
+    explanation: 'Suggests abandoning medical treatment',
+    suggestion: 'Never suggest replacing treatment; state that the product does not replace medical advice',
+  },
+  {
+    id: 'rapid-weight-loss',
+    category: 'health',
+    severity: 'high',
+    pattern: /(?<![\p{L}\d])(lose|perca|perder|pierde|perder)\s+\d+\s*(kg|kilos?|quilos?|lbs?|pounds?)\s+(in|em|en)\s+\d+\s*(days?|dias?|d[íi]as|weeks?|semanas?)(?![\p{L}\d])/giu,
+    explanation: 'Promises a specific weight loss in a short time',
+    suggestion: 'Avoid specific amounts and timeframes; talk about sustainable habits',
+  },
+  {
+    id: 'miracle',
+    category: 'health',
+    severity: 'medium',
+    pattern: /(?<![\p{L}\d])(miracle|milagros?[oa]?|milagre|milagroso|secret (cure|remedy)|rem[ée]dio secreto|doctors (hate|don'?t want you to know)|m[ée]dicos odeiam)(?![\p{L}\d])/giu,
+    explanation: 'Sensational "miracle" or "secret doctors hate" framing',
+    suggestion: 'Use concrete, verifiable benefits instead of miracle language',
+  },
+
+  // Urgency and testimonials
+  {
+    id: 'fake-scarcity',
+    category: 'urgency',
+    severity: 'low',
+    pattern: /(?<![\p{L}\d])(only \d+ (spots|copies|units) left|last chance ever|[úu]ltimas? \d+ vagas|s[óo] hoje|only today|solo hoy|nunca mais (ser[áa]|vai ser) oferecido)(?![\p{L}\d])/giu,
+    explanation: 'Scarcity or deadline that must be true; fake urgency is a deceptive practice',
+    suggestion: 'Keep only if the limit is real and enforced; otherwise remove',
+  },
+  {
+    id: 'typical-results',
+    category: 'testimonial',
+    severity: 'medium',
+    pattern: /(?<![\p{L}\d])(everyone (gets|sees|achieves)|anyone can (make|earn|lose)|todo mundo (consegue|tem)|qualquer (um|pessoa) (consegue|pode ganhar)|cualquiera puede (ganar|lograr))(?![\p{L}\d])/giu,
+    explanation: 'Presents individual results as typical for everyone',
+    suggestion: 'Add that results vary and depend on individual effort and circumstances',
+  },
+];
+
+export interface RuleMatch {
+  rule: ComplianceRule;
+  phrase: string;
+  excerpt: string; // Phrase with surrounding context
+}
+
+const EXCERPT_CONTEXT = 60;
+
+/**
+ * Run every rule against a text. One match per rule and phrase.
+ */
+export function matchComplianceRules(text: string): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of COMPLIANCE_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const phrase = match[0].trim();
+      const key = `${rule.id}:${phrase.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const start = Math.max(0, (match.index ?? 0) - EXCERPT_CONTEXT);
+      const end = Math.min(text.length, (match.index ?? 0) + match[0].length + EXCERPT_CONTEXT);
+
+      matches.push({
+        rule,
+        phrase,
+        excerpt: `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`,
+      });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,361 @@
+/**
+ * Continuity Bible
+ *
+ * What a project's recurring characters, locations and wardrobe look like,
+ * plus its colour palette. Characters and locations carry reference images
+ * from MediaLibrary. Every entry has a stable id (a slug of its name unless
+ * given), and the agents tag each clip with the ids it shows
+ * (SectionVideo.continuity).
+ *
+ * At generation the tagged entries are added to the clip's prompt and
+ * their first reference image to reference_images, always in the same
+ * order, so a character looks the same in every clip.
+ *
+ * PUT replaces the whole bible. Clips keep their tags when entries are
+ * removed; the lint (continuityLint.ts) reports those.
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError, parseInput } from '../../utils/httpError.js';
+import type { ContinuityBibleContext, ContinuityPaletteColor, ContinuityRefs } from '../../agents/index.js';
+
+export interface ContinuityCharacter {
+  id: string;
+  name: string;
+  appearance: string;
+  referenceImageIds: string[]; // MediaLibrary ids, first one is sent to the video model
+}
+
+export interface ContinuityLocation {
+  id: string;
+  name: string;
+  description: string;
+  referenceImageIds: string[];
+}
+
+export interface ContinuityWardrobeItem {
+  id: string;
+  name: string;
+  description: string;
+  characterId?: string;
+}
+
+export interface ContinuityBibleRecord {
+  id: string;
+  projectId: string;
+  characters: ContinuityCharacter[];
+  locations: ContinuityLocation[];
+  wardrobe: ContinuityWardrobeItem[];
+  palette: ContinuityPaletteColor[];
+  notes: string | null;
+}
+
+// Added to a clip's generation parameters
+export interface ContinuityInjection {
+  prompt: string; // Appended to the clip's prompt
+  referenceImageUrls: string[];
+}
+
+const entryId = z
+  .string()
+  .trim()
+  .max(60)
+  .regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes');
+
+const referenceImageIds = z.array(z.string().trim().min(1)).max(5).default([]);
+
+const bibleInputSchema = z.object({
+  characters: z
+    .array(
+      z.object({
+        id: entryId.optional(),
+        name: z.string().trim().min(1).max(100),
+        appearance: z.string().trim().min(1).max(1000),
+        referenceImageIds,
+      })
+    )
+    .max(20)
+    .default([]),
+  locations: z
+    .array(
+      z.object({
+        id: entryId.optional(),
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().min(1).max(1000),
+        referenceImageIds,
+      })
+    )
+    .max(20)
+    .default([]),
+  wardrobe: z
+    .array(
+      z.object({
+        id: entryId.optional(),
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().min(1).max(500),
+        characterId: entryId.optional(),
+      })
+    )
+    .max(40)
+    .default([]),
+  palette: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(50),
+        hex: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex colour like #1f2a44'),
+      })
+    )
+    .max(12)
+    .default([]),
+  notes: z.string().trim().max(2000).nullable().optional(),
+});
+
+export type ContinuityBibleInput = z.infer<typeof bibleInputSchema>;
+
+/**
+ * Raised for invalid continuity bible operations.
+ */
+export class ContinuityError extends HttpError {}
+
+function slugify(name: string): string {
+  return (
+    name
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'entry'
+  );
+}
+
+/**
+ * Keep given ids (must be unique), derive the others from the names
+ */
+function assignIds<T extends { id?: string; name: string }>(entries: T[], kind: string): Array<T & { id: string }> {
+  const taken = new Set<string>();
+
+  for (const entry of entries) {
+    if (!entry.id) continue;
+    if (taken.has(entry.id)) {
+      throw new ContinuityError(400, `Duplicate ${kind} id: ${entry.id}`);
+    }
+    taken.add(entry.id);
+  }
+
+  return entries.map((entry) => {
+    if (entry.id) return entry as T & { id: string };
+
+    const base = slugify(entry.name);
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    taken.add(id);
+    return { ...entry, id };
+  });
+}
+
+function toRecord(bible: any): ContinuityBibleRecord {
+  return {
+    id: bible.id,
+    projectId: bible.projectId,
+    characters: (bible.characters as ContinuityCharacter[]) || [],
+    locations: (bible.locations as ContinuityLocation[]) || [],
+    wardrobe: (bible.wardrobe as ContinuityWardrobeItem[]) || [],
+    palette: (bible.palette as ContinuityPaletteColor[]) || [],
+    notes: bible.notes,
+  };
+}
+
+async function findBible(projectId: string): Promise<ContinuityBibleRecord | null> {
+  const bible = await prisma.continuityBible.findUnique({ where: { projectId } });
+  return bible ? toRecord(bible) : null;
+}
+
+/**
+ * A project's bible, with the URLs of its reference images
+ */
+export async function getContinuityBible(projectId: string) {
+  const bible = await findBible(projectId);
+
+  if (!bible) {
+    throw new ContinuityError(404, 'Project has no continuity bible');
+  }
+
+  const mediaIds = [...bible.characters, ...bible.locations].flatMap((entry) => entry.referenceImageIds);
+  const media = await prisma.mediaLibrary.findMany({ where: { id: { in: mediaIds } } });
+  const referenceImages = (ids: string[]) =>
+    ids.flatMap((id) => {
+      const item = media.find((candidate: { id: string }) => candidate.id === id);
+      return item ? [{ id, url: item.s3Url, filename: item.filename }] : [];
+    });
+
+  return {
+    ...bible,
+    characters: bible.characters.map((character) => ({
+      ...character,
+      referenceImages: referenceImages(character.referenceImageIds),
+    })),
+    locations: bible.locations.map((location) => ({
+      ...location,
+      referenceImages: referenceImages(location.referenceImageIds),
+    })),
+  };
+}
+
+/**
+ * Create or replace a project's bible
+ */
+export async function saveContinuityBible(projectId: string, rawInput: unknown) {
+  const input: ContinuityBibleInput = parseInput(bibleInputSchema, rawInput);
+
+  const project = await prisma.vSLProject.findUnique({ where: { id: projectId } });
+  if (!project) {
+    throw new ContinuityError(404, 'Project not found');
+  }
+
+  const characters = assignIds(input.characters, 'character');
+  const locations = assignIds(input.locations, 'location');
+  const wardrobe = assignIds(input.wardrobe, 'wardrobe');
+
+  const unknownWearers = wardrobe.filter(
+    (item) => item.characterId && !characters.some((character) => character.id === item.characterId)
+  );
+  if (unknownWearers.length > 0) {
+    throw new ContinuityError(
+      400,
+      `Wardrobe worn by unknown character(s): ${unknownWearers.map((item) => `${item.id} → ${item.characterId}`).join(', ')}`
+    );
+  }
+
+  // Reference images must be images in the media library
+  const mediaIds = [...new Set([...characters, ...locations].flatMap((entry) => entry.referenceImageIds))];
+  const media = await prisma.mediaLibrary.findMany({ where: { id: { in: mediaIds } } });
+  const invalid = mediaIds.filter(
+    (id) =>
+      !media.some(
+        (item: { id: string; contentType: string }) => item.id === id && item.contentType.startsWith('image/')
+      )
+  );
+  if (invalid.length > 0) {
+    throw new ContinuityError(400, `Reference images not found in the media library: ${invalid.join(', ')}`);
+  }
+
+  const data = {
+    characters: characters as any,
+    locations: locations as any,
+    wardrobe: wardrobe as any,
+    palette: input.palette as any,
+    notes: input.notes ?? null,
+  };
+  const bible = await prisma.continuityBible.upsert({
+    where: { projectId },
+    create: { projectId, ...data },
+    update: data,
+  });
+
+  logger.info(
+    `📖 Continuity bible saved for project ${projectId}: ${characters.length} character(s), ${locations.length} location(s), ${wardrobe.length} wardrobe item(s)`
+  );
+
+  return toRecord(bible);
+}
+
+export async function deleteContinuityBible(projectId: string): Promise<void> {
+  const bible = await findBible(projectId);
+
+  if (!bible) {
+    throw new ContinuityError(404, 'Project has no continuity bible');
+  }
+
+  await prisma.continuityBible.delete({ where: { id: bible.id } });
+
+  logger.info(`🗑️ Continuity bible deleted for project ${projectId}`);
+}
+
+export function toContinuityContext(bible: ContinuityBibleRecord): ContinuityBibleContext {
+  return {
+    id: bible.id,
+    characters: bible.characters.map(({ id, name, appearance }) => ({ id, name, appearance })),
+    locations: bible.locations.map(({ id, name, description }) => ({ id, name, description })),
+    wardrobe: bible.wardrobe,
+    palette: bible.palette,
+    notes: bible.notes || undefined,
+  };
+}
+
+/**
+ * Prompt context for a project's bible. Undefined without one.
+ */
+export async function getContinuityContext(
+  projectId: string | null | undefined
+): Promise<ContinuityBibleContext | undefined> {
+  if (!projectId) return undefined;
+
+  const bible = await findBible(projectId);
+  return bible ? toContinuityContext(bible) : undefined;
+}
+
+/**
+ * Tags stored on a clip (SectionVideo.continuity), empty when missing
+ */
+export function toContinuityRefs(value: unknown): ContinuityRefs {
+  const refs = (value ?? {}) as Partial<ContinuityRefs>;
+  return {
+    characterIds: Array.isArray(refs.characterIds) ? refs.characterIds : [],
+    locationId: typeof refs.locationId === 'string' ? refs.locationId : null,
+    wardrobeIds: Array.isArray(refs.wardrobeIds) ? refs.wardrobeIds : [],
+  };
+}
+
+/**
+ * Bible text and reference images for a clip, or undefined when the
+ * project has no bible. Unknown ids are skipped.
+ */
+export async function getContinuityInjection(
+  projectId: string,
+  clipContinuity: unknown
+): Promise<ContinuityInjection | undefined> {
+  const bible = await findBible(projectId);
+  if (!bible) return undefined;
+
+  const refs = toContinuityRefs(clipContinuity);
+  const characters = refs.characterIds.flatMap((id) => bible.characters.filter((c) => c.id === id));
+  const wardrobe = refs.wardrobeIds.flatMap((id) => bible.wardrobe.filter((w) => w.id === id));
+  const location = bible.locations.find((l) => l.id === refs.locationId);
+
+  const parts: string[] = characters.map((character) => {
+    const worn = wardrobe.filter((item) => item.characterId === character.id);
+    return `${character.name}: ${character.appearance}${worn.length ? `, wearing ${worn.map((item) => item.description).join(' and ')}` : ''}`;
+  });
+  const unworn = wardrobe.filter((item) => !characters.some((c) => c.id === item.characterId));
+  if (unworn.length) {
+    parts.push(`Wardrobe: ${unworn.map((item) => item.description).join('; ')}`);
+  }
+  if (location) {
+    parts.push(`Location ${location.name}: ${location.description}`);
+  }
+  if (bible.palette.length) {
+    parts.push(`Colour palette: ${bible.palette.map((color) => `${color.name} (${color.hex})`).join(', ')}`);
+  }
+
+  // One image per entry - characters first, then the location
+  const imageIds = [...characters, ...(location ? [location] : [])]
+    .map((entry) => entry.referenceImageIds[0])
+    .filter((id): id is string => !!id);
+  const media = imageIds.length
+    ? await prisma.mediaLibrary.findMany({ where: { id: { in: imageIds } } })
+    : [];
+  const referenceImageUrls = imageIds.flatMap((id) => {
+    const item = media.find((candidate: { id: string }) => candidate.id === id);
+    return item ? [item.s3Url as string] : [];
+  });
+
+  return {
+    prompt: parts.length ? `Continuity - ${parts.join('. ')}.` : '',
+    referenceImageUrls,
+  };
+}
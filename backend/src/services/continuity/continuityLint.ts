@@ -0,0 +1,232 @@
+/**
+ * Continuity Lint
+ *
+ * Reports clips of a project whose prompt doesn't follow its continuity
+ * bible. Rule checks are exact and free:
+ * - unknown_reference: the clip is tagged with an entry the bible no longer has
+ * - unreferenced_character: a bible character is named in the clip but not tagged
+ *   (the bible text and reference image won't be sent with it)
+ * - wardrobe_mismatch: the clip's wardrobe belongs to a character it doesn't show
+ * - untagged: the clip has no continuity tags (written before the bible)
+ * Script Detail then compares each clip's visual with the entries it shows
+ * and reports contradictions (hair, clothes, place, colours).
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { parseInput } from '../../utils/httpError.js';
+import { AgentManager } from '../../agents/index.js';
+import type { ContinuityBibleContext, ContinuityRefs } from '../../agents/index.js';
+import { ContinuityError, getContinuityContext, toContinuityRefs } from './continuityBible.js';
+
+export type ContinuityLintIssueType =
+  | 'unknown_reference'
+  | 'unreferenced_character'
+  | 'wardrobe_mismatch'
+  | 'untagged'
+  | 'contradiction';
+
+export interface ContinuityLintIssue {
+  scriptId: string;
+  sectionName: string;
+  videoId: string;
+  videoOrder: number;
+  type: ContinuityLintIssueType;
+  severity: 'low' | 'medium' | 'high';
+  entityId?: string;
+  phrase?: string;
+  message: string;
+  suggestion?: string;
+  source: 'rule' | 'agent';
+}
+
+export interface ContinuityLintReport {
+  projectId: string;
+  bibleId: string;
+  clipsChecked: number;
+  clipsWithIssues: number;
+  issues: ContinuityLintIssue[];
+  agentErrors?: string[];
+}
+
+type ClipIssue = Omit<ContinuityLintIssue, 'scriptId' | 'sectionName' | 'videoId' | 'videoOrder' | 'source'>;
+
+const lintSchema = z.object({
+  scriptId: z.string().trim().min(1).optional(), // Default: every script of the project
+  useAgent: z.boolean().default(true), // false = rule checks only
+});
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(text: string, name: string): boolean {
+  return new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(name)}(?![\\p{L}\\d])`, 'iu').test(text);
+}
+
+/**
+ * Rule checks of one clip against the bible (no LLM)
+ */
+export function checkContinuityRules(
+  text: string,
+  refs: ContinuityRefs,
+  tagged: boolean,
+  continuity: ContinuityBibleContext
+): ClipIssue[] {
+  const issues: ClipIssue[] = [];
+
+  if (!tagged) {
+    issues.push({
+      type: 'untagged',
+      severity: 'low',
+      message: 'Clip has no continuity tags; rewrite it or regenerate the script to tag it',
+    });
+  }
+
+  const unknown = [
+    ...refs.characterIds.filter((id) => !continuity.characters.some((c) => c.id === id)),
+    ...(refs.locationId && !continuity.locations.some((l) => l.id === refs.locationId) ? [refs.locationId] : []),
+    ...refs.wardrobeIds.filter((id) => !continuity.wardrobe.some((w) => w.id === id)),
+  ];
+  for (const id of unknown) {
+    issues.push({
+      type: 'unknown_reference',
+      severity: 'medium',
+      entityId: id,
+      message: `Clip references "${id}", which is not in the continuity bible`,
+    });
+  }
+
+  for (const character of continuity.characters) {
+    if (!refs.characterIds.includes(character.id) && mentions(text, character.name)) {
+      issues.push({
+        type: 'unreferenced_character',
+        severity: 'medium',
+        entityId: character.id,
+        phrase: character.name,
+        message: `${character.name} appears in the clip but is not tagged, so the bible description and reference image are not used`,
+      });
+    }
+  }
+
+  for (const id of refs.wardrobeIds) {
+    const item = continuity.wardrobe.find((w) => w.id === id);
+    if (item?.characterId && !refs.characterIds.includes(item.characterId)) {
+      issues.push({
+        type: 'wardrobe_mismatch',
+        severity: 'medium',
+        entityId: id,
+        message: `${item.name} belongs to ${item.characterId}, who is not in the clip`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Lint the clips of a project (or of one of its scripts) against its bible
+ */
+export async function lintContinuity(
+  agentManager: AgentManager,
+  projectId: string,
+  rawInput: unknown
+): Promise<ContinuityLintReport> {
+  const { scriptId, useAgent } = parseInput(lintSchema, rawInput);
+
+  const continuity = await getContinuityContext(projectId);
+  if (!continuity) {
+    throw new ContinuityError(404, 'Project has no continuity bible');
+  }
+
+  const scripts = await prisma.sectionDetailedScript.findMany({
+    where: { projectId, ...(scriptId && { id: scriptId }) },
+    include: {
+      section: true,
+      videos: { orderBy: { videoOrder: 'asc' } },
+    },
+  });
+
+  if (scriptId && scripts.length === 0) {
+    throw new ContinuityError(404, 'Script not found in this project');
+  }
+
+  const issues: ContinuityLintIssue[] = [];
+  const agentErrors: string[] = [];
+  let clipsChecked = 0;
+
+  for (const script of scripts) {
+    const clips = script.videos.map((video: any) => ({
+      video,
+      refs: toContinuityRefs(video.continuity),
+      prompt: (video.generationParams as any)?.optimizedPrompt || video.visual,
+    }));
+    clipsChecked += clips.length;
+
+    const issueOf = (video: any, source: ContinuityLintIssue['source']) => (issue: ClipIssue) => ({
+      scriptId: script.id,
+      sectionName: script.section.sectionName,
+      videoId: video.id,
+      videoOrder: video.videoOrder,
+      ...issue,
+      source,
+    });
+
+    for (const { video, refs, prompt } of clips) {
+      issues.push(
+        ...checkContinuityRules(`${video.visual}\n${prompt}`, refs, !!video.continuity, continuity).map(
+          issueOf(video, 'rule')
+        )
+      );
+    }
+
+    if (!useAgent || clips.length === 0) continue;
+
+    const result = await agentManager.lintContinuity({
+      projectId,
+      sectionId: script.sectionId,
+      continuity,
+      clips: clips.map(({ video, refs, prompt }: { video: any; refs: ContinuityRefs; prompt: string }) => ({
+        videoOrder: video.videoOrder,
+        visual: video.visual,
+        prompt,
+        continuity: refs,
+      })),
+    });
+
+    if (!result.success || !result.contradictions) {
+      agentErrors.push(`${script.section.sectionName}: ${result.message}`);
+      continue;
+    }
+
+    for (const contradiction of result.contradictions) {
+      const clip = clips.find(({ video }: { video: any }) => video.videoOrder === contradiction.videoOrder);
+      issues.push(
+        issueOf(clip.video, 'agent')({
+          type: 'contradiction',
+          severity: 'high',
+          entityId: contradiction.entityId,
+          phrase: contradiction.phrase,
+          message: contradiction.issue,
+          suggestion: contradiction.suggestion || undefined,
+        })
+      );
+    }
+  }
+
+  const report: ContinuityLintReport = {
+    projectId,
+    bibleId: continuity.id,
+    clipsChecked,
+    clipsWithIssues: new Set(issues.map((issue) => issue.videoId)).size,
+    issues,
+    ...(agentErrors.length > 0 && { agentErrors }),
+  };
+
+  logger.info(
+    `📖 Continuity lint for project ${projectId}: ${report.issues.length} issue(s) in ${report.clipsWithIssues}/${clipsChecked} clip(s)`
+  );
+
+  return report;
+}
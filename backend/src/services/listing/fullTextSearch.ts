@@ -0,0 +1,177 @@
+/**
+ * Full-Text Search
+ *
+ * Postgres full-text search for list endpoints. Copy is written in several
+ * languages (pt-br, en, es, ...), so documents use the 'simple' text search
+ * configuration (no stemming or stop words) and queries use
+ * websearch_to_tsquery ("quoted phrases", OR, -excluded).
+ *
+ * A searched list page is selected in one query - match, filters and
+ * keyset pagination together - so only the page's ids reach the list.
+ *
+ * The tsvector expressions below must stay identical to the GIN expression
+ * indexes in migration 20251024090000_add_full_text_search, or Postgres
+ * falls back to a sequential scan.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import type { ListQuery, ListQuerySpec } from './listQuery.js';
+
+const PROJECT_DOCUMENT = Prisma.sql`to_tsvector('simple', p.project_name || ' ' || coalesce(p.product_service, ''))`;
+const SECTION_DOCUMENT = Prisma.sql`to_tsvector('simple', s.content)`;
+const NOVELA_DOCUMENT = Prisma.sql`to_tsvector('simple', n.title || ' ' || coalesce(n.description, ''))`;
+const MESSAGE_DOCUMENT = Prisma.sql`to_tsvector('simple', m.content)`;
+
+function tsQuery(q: string): Prisma.Sql {
+  return Prisma.sql`websearch_to_tsquery('simple', ${q})`;
+}
+
+export type SearchList = 'projects' | 'novelas' | 'agentMessages';
+
+interface SearchTable {
+  from: Prisma.Sql; // Table with the alias the match uses
+  match: (query: Prisma.Sql) => Prisma.Sql;
+  columns: Record<string, string>; // Filter, date and sort fields -> columns
+}
+
+const SEARCH_TABLES: Record<SearchList, SearchTable> = {
+  // Name or product, or any section content
+  projects: {
+    from: Prisma.sql`"vsl_frontend"."vsl_projects" p`,
+    match: (query) => Prisma.sql`(
+      ${PROJECT_DOCUMENT} @@ ${query}
+      OR EXISTS (
+        SELECT 1 FROM "vsl_frontend"."vsl_sections" s
+        WHERE s.project_id = p.id AND ${SECTION_DOCUMENT} @@ ${query}
+      )
+    )`,
+    columns: {
+      id: 'p.id',
+      userId: 'p.user_id',
+      status: 'p.status',
+      templateId: 'p.template_id',
+      language: 'p.language',
+      brandVoiceId: 'p.brand_voice_id',
+      projectName: 'p.project_name',
+      persuasionScore: 'p.persuasion_score',
+      createdAt: 'p.created_at',
+      updatedAt: 'p.updated_at',
+    },
+  },
+  // Title or description
+  novelas: {
+    from: Prisma.sql`"vsl_frontend"."novelas" n`,
+    match: (query) => Prisma.sql`${NOVELA_DOCUMENT} @@ ${query}`,
+    columns: {
+      id: 'n.id',
+      status: 'n.status',
+      genre: 'n.genre',
+      title: 'n.title',
+      createdAt: 'n.created_at',
+      updatedAt: 'n.updated_at',
+    },
+  },
+  // Content
+  agentMessages: {
+    from: Prisma.sql`"vsl_frontend"."agent_messages" m`,
+    match: (query) => Prisma.sql`${MESSAGE_DOCUMENT} @@ ${query}`,
+    columns: {
+      id: 'm.id',
+      novelaId: 'm.novela_id',
+      conversationId: 'm.conversation_id',
+      fromAgent: 'm.from_agent',
+      toAgent: 'm.to_agent',
+      type: 'm.type',
+      priority: 'm.priority',
+      timestamp: 'm.timestamp',
+    },
+  },
+};
+
+function column(table: SearchTable, field: string): Prisma.Sql {
+  const name = table.columns[field];
+  if (!name) {
+    throw new Error(`No search column for ${field}`);
+  }
+  return Prisma.raw(name);
+}
+
+export interface SectionSearchMatch {
+  projectId: string;
+  sectionId: string;
+  sectionName: string;
+  snippet: string; // Matched words wrapped in <b></b>
+}
+
+/**
+ * Ids of the matching rows on the requested page (at most limit + 1, in
+ * list order). filters are equality filters; dateField takes from/to.
+ */
+export async function searchPageIds<F extends string>(
+  list: SearchList,
+  listQuery: ListQuery<F> & { q: string },
+  spec: ListQuerySpec<F>,
+  filters: Record<string, string>,
+  dateField: string
+): Promise<string[]> {
+  const table = SEARCH_TABLES[list];
+  const conditions: Prisma.Sql[] = [table.match(tsQuery(listQuery.q))];
+
+  for (const [field, value] of Object.entries(filters)) {
+    conditions.push(Prisma.sql`${column(table, field)} = ${value}`);
+  }
+  if (listQuery.from) {
+    conditions.push(Prisma.sql`${column(table, dateField)} >= ${listQuery.from}`);
+  }
+  if (listQuery.to) {
+    conditions.push(Prisma.sql`${column(table, dateField)} < ${listQuery.to}`);
+  }
+
+  const sort = column(table, listQuery.sort);
+  const id = column(table, 'id');
+  const direction = Prisma.raw(listQuery.order === 'desc' ? 'DESC' : 'ASC');
+
+  // Same keyset as keysetWhere: after the cursor in (sort field, id) order
+  if (listQuery.cursor) {
+    const after = Prisma.raw(listQuery.order === 'desc' ? '<' : '>');
+    const value =
+      spec.sortFields[listQuery.sort] === 'date'
+        ? new Date(listQuery.cursor.value as string)
+        : listQuery.cursor.value;
+    conditions.push(
+      Prisma.sql`(${sort} ${after} ${value} OR (${sort} = ${value} AND ${id} ${after} ${listQuery.cursor.id}))`
+    );
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT ${id} AS id
+    FROM ${table.from}
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY ${sort} ${direction}, ${id} ${direction}
+    LIMIT ${listQuery.limit + 1}
+  `;
+  return rows.map((row: { id: string }) => row.id);
+}
+
+/**
+ * Matching sections of the given projects, with a highlighted snippet
+ */
+export async function searchSectionMatches(
+  projectIds: string[],
+  q: string
+): Promise<SectionSearchMatch[]> {
+  if (projectIds.length === 0) return [];
+
+  return prisma.$queryRaw<SectionSearchMatch[]>`
+    SELECT
+      s.project_id AS "projectId",
+      s.id AS "sectionId",
+      s.section_name AS "sectionName",
+      ts_headline('simple', s.content, ${tsQuery(q)}, 'MaxFragments=2, MaxWords=20, MinWords=5') AS snippet
+    FROM "vsl_frontend"."vsl_sections" s
+    WHERE s.project_id IN (${Prisma.join(projectIds)})
+      AND ${SECTION_DOCUMENT} @@ ${tsQuery(q)}
+    ORDER BY s.project_id, s.section_order
+  `;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseListQuery,
+  keysetWhere,
+  keysetOrderBy,
+  dateRangeWhere,
+  toPage,
+  ListQueryError,
+  ListQuerySpec,
+  DEFAULT_LIST_LIMIT,
+} from './listQuery.js';
+
+type ProjectSort = 'createdAt' | 'projectName' | 'wordCount';
+
+const spec: ListQuerySpec<ProjectSort> = {
+  sortFields: { createdAt: 'date', projectName: 'string', wordCount: 'number' },
+  defaultSort: 'createdAt',
+};
+
+const rows = [
+  { id: 'a', createdAt: new Date('2026-01-03T00:00:00.000Z') },
+  { id: 'b', createdAt: new Date('2026-01-02T00:00:00.000Z') },
+  { id: 'c', createdAt: new Date('2026-01-01T00:00:00.000Z') },
+];
+
+describe('parseListQuery', () => {
+  it('applies the defaults', () => {
+    expect(parseListQuery({}, spec)).toEqual({
+      limit: DEFAULT_LIST_LIMIT,
+      sort: 'createdAt',
+      order: 'desc',
+      q: undefined,
+      from: undefined,
+      to: undefined,
+      cursor: undefined,
+    });
+  });
+
+  it('parses limit, sort, order, q and dates', () => {
+    const listQuery = parseListQuery(
+      { limit: '5', sort: 'projectName', order: 'asc', q: '  weight loss ', from: '2026-01-01', to: '2026-02-01' },
+      spec
+    );
+
+    expect(listQuery.limit).toBe(5);
+    expect(listQuery.sort).toBe('projectName');
+    expect(listQuery.order).toBe('asc');
+    expect(listQuery.q).toBe('weight loss');
+    expect(listQuery.from).toEqual(new Date('2026-01-01'));
+    expect(listQuery.to).toEqual(new Date('2026-02-01'));
+  });
+
+  it.each([
+    [{ limit: '0' }, 'limit must be an integer between 1 and 100'],
+    [{ limit: '101' }, 'limit must be an integer between 1 and 100'],
+    [{ limit: '2.5' }, 'limit must be an integer between 1 and 100'],
+    [{ sort: 'password' }, 'Invalid sort. Expected one of: createdAt, projectName, wordCount'],
+    [{ sort: 'toString' }, 'Invalid sort'],
+    [{ order: 'up' }, "order must be 'asc' or 'desc'"],
+    [{ q: 'x'.repeat(201) }, 'q must be at most 200 characters'],
+    [{ from: 'yesterday' }, 'from must be a valid date'],
+    [{ cursor: 'not-a-cursor' }, 'Invalid cursor'],
+  ])('rejects %j', (query, message) => {
+    expect(() => parseListQuery(query, spec)).toThrow(ListQueryError);
+    expect(() => parseListQuery(query, spec)).toThrow(message);
+  });
+
+  it('reports a 400', () => {
+    expect.assertions(1);
+    try {
+      parseListQuery({ limit: '0' }, spec);
+    } catch (error: any) {
+      expect(error.status).toBe(400);
+    }
+  });
+});
+
+describe('cursors', () => {
+  it('round-trips the last row of a page', () => {
+    const firstQuery = parseListQuery({ limit: '2' }, spec);
+    const page = toPage(rows, firstQuery);
+
+    expect(page.items.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(page.pagination.hasMore).toBe(true);
+
+    const nextQuery = parseListQuery({ limit: '2', cursor: page.pagination.nextCursor }, spec);
+    expect(nextQuery.cursor).toEqual({ value: '2026-01-02T00:00:00.000Z', id: 'b' });
+    expect(keysetWhere(nextQuery, spec)).toEqual({
+      OR: [
+        { createdAt: { lt: new Date('2026-01-02T00:00:00.000Z') } },
+        { createdAt: new Date('2026-01-02T00:00:00.000Z'), id: { lt: 'b' } },
+      ],
+    });
+  });
+
+  it('has no next cursor on the last page', () => {
+    const page = toPage(rows, parseListQuery({ limit: '3' }, spec));
+
+    expect(page.items).toHaveLength(3);
+    expect(page.pagination).toMatchObject({ hasMore: false, nextCursor: null });
+  });
+
+  it('rejects a cursor issued for another sort or order', () => {
+    const cursor = toPage(rows, parseListQuery({ limit: '1' }, spec)).pagination.nextCursor;
+
+    expect(() => parseListQuery({ cursor, order: 'asc' }, spec)).toThrow('Cursor was issued for a different sort/order');
+    expect(() => parseListQuery({ cursor, sort: 'projectName' }, spec)).toThrow(
+      'Cursor was issued for a different sort/order'
+    );
+  });
+
+  it('rejects a cursor whose value does not match the sort type', () => {
+    const cursor = Buffer.from(JSON.stringify(['wordCount', 'desc', 'many', 'a'])).toString('base64url');
+
+    expect(() => parseListQuery({ sort: 'wordCount', cursor }, spec)).toThrow('Invalid cursor');
+  });
+});
+
+describe('keyset helpers', () => {
+  it('has no keyset filter on the first page', () => {
+    expect(keysetWhere(parseListQuery({}, spec), spec)).toBeUndefined();
+  });
+
+  it('orders by the sort field with id as the tie-breaker', () => {
+    expect(keysetOrderBy(parseListQuery({ sort: 'projectName', order: 'asc' }, spec))).toEqual([
+      { projectName: 'asc' },
+      { id: 'asc' },
+    ]);
+  });
+
+  it('filters from (inclusive) to (exclusive)', () => {
+    const listQuery = parseListQuery({ from: '2026-01-01', to: '2026-02-01' }, spec);
+
+    expect(dateRangeWhere(listQuery, 'createdAt')).toEqual({
+      createdAt: { gte: new Date('2026-01-01'), lt: new Date('2026-02-01') },
+    });
+    expect(dateRangeWhere(parseListQuery({}, spec), 'createdAt')).toBeUndefined();
+  });
+});
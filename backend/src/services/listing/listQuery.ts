@@ -0,0 +1,236 @@
+/**
+ * List Queries
+ *
+ * Shared query parsing and cursor pagination for list endpoints
+ * (GET /api/vsl/projects, /api/novelas, /api/agents/messages):
+ * - limit (1-100, default 20), sort (per-endpoint whitelist), order
+ * - from/to date filters on the endpoint's date column (to is exclusive)
+ * - q: Postgres full-text search (see fullTextSearch.ts)
+ * - cursor: opaque keyset cursor from the previous page's nextCursor
+ *
+ * Keyset pagination orders by (sort field, id), so pages stay stable
+ * while rows are inserted. A cursor is only valid for the sort and order
+ * it was issued with.
+ *
+ * Every list endpoint responds with the same envelope:
+ * { success, message, data: items[], pagination: { limit, sort, order, hasMore, nextCursor } }
+ */
+
+import { HttpError } from '../../utils/httpError.js';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type SortFieldType = 'date' | 'string' | 'number';
+
+export interface ListQuerySpec<F extends string> {
+  sortFields: Record<F, SortFieldType>; // Non-nullable columns only
+  defaultSort: F;
+}
+
+export interface ListQuery<F extends string> {
+  limit: number;
+  sort: F;
+  order: SortOrder;
+  q?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: { value: unknown; id: string };
+}
+
+export interface Pagination {
+  limit: number;
+  sort: string;
+  order: SortOrder;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface ListPage<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export const DEFAULT_LIST_LIMIT = 20;
+export const MAX_LIST_LIMIT = 100;
+
+/**
+ * Raised for invalid list parameters (always a 400)
+ */
+export class ListQueryError extends HttpError {
+  constructor(message: string) {
+    super(400, message);
+  }
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ListQueryError(`${name} must be a valid date`);
+  }
+  return date;
+}
+
+function encodeCursor(sort: string, order: SortOrder, value: unknown, id: string): string {
+  return Buffer.from(JSON.stringify([sort, order, value, id])).toString('base64url');
+}
+
+function isSortValue(value: unknown, type: SortFieldType): boolean {
+  switch (type) {
+    case 'date':
+      return typeof value === 'string' && !isNaN(new Date(value).getTime());
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+  }
+}
+
+function decodeCursor(
+  cursor: string,
+  sort: string,
+  order: SortOrder,
+  type: SortFieldType
+): { value: unknown; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ListQueryError('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4 || typeof decoded[3] !== 'string') {
+    throw new ListQueryError('Invalid cursor');
+  }
+
+  const [cursorSort, cursorOrder, value, id] = decoded;
+  if (cursorSort !== sort || cursorOrder !== order) {
+    throw new ListQueryError('Cursor was issued for a different sort/order');
+  }
+
+  if (!isSortValue(value, type)) {
+    throw new ListQueryError('Invalid cursor');
+  }
+
+  return { value, id };
+}
+
+/**
+ * Parse limit, sort, order, q, from, to and cursor from a request query
+ */
+export function parseListQuery<F extends string>(
+  query: Record<string, unknown>,
+  spec: ListQuerySpec<F>
+): ListQuery<F> {
+  const limit = query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ListQueryError(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+  }
+
+  const sort = (query.sort ?? spec.defaultSort) as F;
+  if (typeof sort !== 'string' || !Object.hasOwn(spec.sortFields, sort)) {
+    throw new ListQueryError(
+      `Invalid sort. Expected one of: ${Object.keys(spec.sortFields).join(', ')}`
+    );
+  }
+
+  const order = (query.order ?? 'desc') as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ListQueryError("order must be 'asc' or 'desc'");
+  }
+
+  const q = typeof query.q === 'string' && query.q.trim() !== '' ? query.q.trim() : undefined;
+  if (q && q.length > 200) {
+    throw new ListQueryError('q must be at most 200 characters');
+  }
+
+  return {
+    limit,
+    sort,
+    order,
+    q,
+    from: parseDate(query.from, 'from'),
+    to: parseDate(query.to, 'to'),
+    cursor: query.cursor ? decodeCursor(String(query.cursor), sort, order, spec.sortFields[sort]) : undefined,
+  };
+}
+
+/**
+ * Prisma where for rows after the cursor (undefined on the first page)
+ */
+export function keysetWhere<F extends string>(
+  listQuery: ListQuery<F>,
+  spec: ListQuerySpec<F>
+): Record<string, unknown> | undefined {
+  if (!listQuery.cursor) return undefined;
+
+  const { sort, order } = listQuery;
+  const value =
+    spec.sortFields[sort] === 'date'
+      ? new Date(listQuery.cursor.value as string)
+      : listQuery.cursor.value;
+  const after = order === 'desc' ? 'lt' : 'gt';
+
+  return {
+    OR: [
+      { [sort]: { [after]: value } },
+      { [sort]: value, id: { [after]: listQuery.cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Prisma orderBy: sort field with id as the tie-breaker
+ */
+export function keysetOrderBy<F extends string>(listQuery: ListQuery<F>): Array<Record<string, SortOrder>> {
+  return [{ [listQuery.sort]: listQuery.order }, { id: listQuery.order }];
+}
+
+/**
+ * Prisma where for the from/to filter on a date column
+ */
+export function dateRangeWhere<F extends string>(
+  listQuery: ListQuery<F>,
+  field: string
+): Record<string, unknown> | undefined {
+  if (!listQuery.from && !listQuery.to) return undefined;
+
+  return {
+    [field]: {
+      ...(listQuery.from && { gte: listQuery.from }),
+      ...(listQuery.to && { lt: listQuery.to }),
+    },
+  };
+}
+
+/**
+ * Build a page from limit + 1 fetched rows
+ */
+export function toPage<T extends { id: string }, F extends string>(
+  rows: T[],
+  listQuery: ListQuery<F>
+): ListPage<T> {
+  const hasMore = rows.length > listQuery.limit;
+  const items = hasMore ? rows.slice(0, listQuery.limit) : rows;
+  const last = items[items.length - 1] as Record<string, any> | undefined;
+
+  return {
+    items,
+    pagination: {
+      limit: listQuery.limit,
+      sort: listQuery.sort,
+      order: listQuery.order,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor(
+              listQuery.sort,
+              listQuery.order,
+              last[listQuery.sort] instanceof Date ? last[listQuery.sort].toISOString() : last[listQuery.sort],
+              last.id
+            )
+          : null,
+    },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Resource Lists
+ *
+ * Paginated, filterable, searchable lists behind GET /api/vsl/projects,
+ * /api/novelas and /api/agents/messages. Query parsing and the page
+ * envelope live in listQuery.ts. With q, fullTextSearch.ts selects the
+ * page's ids in SQL (search, filters and keyset together).
+ */
+
+import { prisma } from '../../config/database.js';
+import {
+  ListPage,
+  ListQuery,
+  ListQuerySpec,
+  ListQueryError,
+  dateRangeWhere,
+  keysetOrderBy,
+  keysetWhere,
+  parseListQuery,
+  toPage,
+} from './listQuery.js';
+import {
+  SearchList,
+  SectionSearchMatch,
+  searchPageIds,
+  searchSectionMatches,
+} from './fullTextSearch.js';
+
+type ProjectSort = 'createdAt' | 'updatedAt' | 'projectName' | 'persuasionScore';
+type NovelaSort = 'createdAt' | 'updatedAt' | 'title';
+type MessageSort = 'timestamp';
+
+const PROJECT_LIST: ListQuerySpec<ProjectSort> = {
+  sortFields: {
+    createdAt: 'date',
+    updatedAt: 'date',
+    projectName: 'string',
+    persuasionScore: 'number',
+  },
+  defaultSort: 'createdAt',
+};
+
+const NOVELA_LIST: ListQuerySpec<NovelaSort> = {
+  sortFields: { createdAt: 'date', updatedAt: 'date', title: 'string' },
+  defaultSort: 'createdAt',
+};
+
+const MESSAGE_LIST: ListQuerySpec<MessageSort> = {
+  sortFields: { timestamp: 'date' },
+  defaultSort: 'timestamp',
+};
+
+const PROJECT_STATUSES = ['draft', 'in_progress', 'completed'];
+const NOVELA_STATUSES = ['planning', 'active', 'paused', 'completed'];
+
+type Query = Record<string, unknown>;
+
+function stringParam(query: Query, name: string): string | undefined {
+  const value = query[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function enumParam(query: Query, name: string, allowed: string[]): string | undefined {
+  const value = stringParam(query, name);
+  if (value !== undefined && !allowed.includes(value)) {
+    throw new ListQueryError(`Invalid ${name}. Expected one of: ${allowed.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Combine where clauses, skipping empty ones
+ */
+function whereAll(...clauses: Array<Record<string, unknown> | undefined>) {
+  const present = clauses.filter((clause): clause is Record<string, unknown> => !!clause);
+  return present.length > 0 ? { AND: present } : {};
+}
+
+/**
+ * Where for a page of a list: equality filters, from/to on dateField and
+ * the keyset. With q, the page comes from searchPageIds.
+ */
+async function pageWhere<F extends string>(
+  list: SearchList,
+  listQuery: ListQuery<F>,
+  spec: ListQuerySpec<F>,
+  filters: Record<string, string>,
+  dateField: string
+) {
+  if (listQuery.q) {
+    const ids = await searchPageIds(list, { ...listQuery, q: listQuery.q }, spec, filters, dateField);
+    return { id: { in: ids } };
+  }
+
+  return whereAll(filters, dateRangeWhere(listQuery, dateField), keysetWhere(listQuery, spec));
+}
+
+/**
+ * VSL projects
+ *
+ * Filters: userId, status, templateId, language, brandVoiceId, from/to (createdAt).
+ * With q, each project carries searchMatches: the sections whose content matched.
+ */
+export async function listVSLProjects(query: Query) {
+  const listQuery = parseListQuery(query, PROJECT_LIST);
+
+  const userId = stringParam(query, 'userId');
+  const status = enumParam(query, 'status', PROJECT_STATUSES);
+  const templateId = stringParam(query, 'templateId');
+  const language = stringParam(query, 'language');
+  const brandVoiceId = stringParam(query, 'brandVoiceId');
+
+  const rows = await prisma.vSLProject.findMany({
+    where: await pageWhere(
+      'projects',
+      listQuery,
+      PROJECT_LIST,
+      {
+        ...(userId && { userId }),
+        ...(status && { status }),
+        ...(templateId && { templateId }),
+        ...(language && { language }),
+        ...(brandVoiceId && { brandVoiceId }),
+      },
+      'createdAt'
+    ),
+    include: {
+      _count: {
+        select: { sections: true, videos: true },
+      },
+    },
+    orderBy: keysetOrderBy(listQuery),
+    take: listQuery.limit + 1,
+  });
+
+  const page: ListPage<any> = toPage(rows, listQuery);
+
+  if (listQuery.q) {
+    const matches = await searchSectionMatches(
+      page.items.map((project) => project.id),
+      listQuery.q
+    );
+    page.items = page.items.map((project) => ({
+      ...project,
+      searchMatches: matches.filter((match: SectionSearchMatch) => match.projectId === project.id),
+    }));
+  }
+
+  return page;
+}
+
+/**
+ * Novelas
+ *
+ * Filters: status, genre, from/to (createdAt). q searches title and description.
+ */
+export async function listNovelas(query: Query) {
+  const listQuery = parseListQuery(query, NOVELA_LIST);
+
+  const status = enumParam(query, 'status', NOVELA_STATUSES);
+  const genre = stringParam(query, 'genre');
+
+  const rows = await prisma.novela.findMany({
+    where: await pageWhere(
+      'novelas',
+      listQuery,
+      NOVELA_LIST,
+      {
+        ...(status && { status }),
+        ...(genre && { genre }),
+      },
+      'createdAt'
+    ),
+    orderBy: keysetOrderBy(listQuery),
+    take: listQuery.limit + 1,
+  });
+
+  return toPage(rows, listQuery);
+}
+
+/**
+ * Agent messages
+ *
+ * Filters: novelaId, conversationId, fromAgent, toAgent, type, priority,
+ * from/to (timestamp). q searches content.
+ */
+export async function listAgentMessages(query: Query) {
+  const listQuery = parseListQuery(query, MESSAGE_LIST);
+
+  const filters: Record<string, string> = {};
+  for (const name of ['novelaId', 'conversationId', 'fromAgent', 'toAgent', 'type', 'priority']) {
+    const value = stringParam(query, name);
+    if (value) filters[name] = value;
+  }
+
+  const rows = await prisma.agentMessage.findMany({
+    where: await pageWhere('agentMessages', listQuery, MESSAGE_LIST, filters, 'timestamp'),
+    orderBy: keysetOrderBy(listQuery),
+    take: listQuery.limit + 1,
+  });
+
+  return toPage(rows, listQuery);
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { InMemoryJobQueue } from './InMemoryJobQueue.js';
+import { PermanentJobError } from './errors.js';
+import type { Job, JobQueueOptions } from './types.js';
+
+const options: JobQueueOptions = { concurrency: 1, pollIntervalMs: 10, retryBackoffMs: 40 };
+
+let queue: InMemoryJobQueue;
+
+afterEach(async () => {
+  await queue?.stop();
+});
+
+// Resolves with the first update of the job that matches
+function waitFor(jobId: string, until: (job: Job) => boolean): Promise<Job> {
+  return new Promise((resolve) => {
+    const listener = (job: Job) => {
+      if (job.id === jobId && until(job)) {
+        queue.off('job:updated', listener);
+        resolve(job);
+      }
+    };
+    queue.on('job:updated', listener);
+  });
+}
+
+const finished = (job: Job) => job.status === 'completed' || job.status === 'failed';
+
+describe('InMemoryJobQueue', () => {
+  it('runs a job and stores its result and progress', async () => {
+    queue = new InMemoryJobQueue(options);
+    queue.process('script.storyboard', async (_job, context) => {
+      await context.reportProgress(40, 'Halfway');
+      return { frames: 3 };
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('script.storyboard', { scriptId: 'script-1' }, { projectId: 'project-1' });
+    await waitFor(job.id, finished);
+
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      progress: 100,
+      progressMessage: 'Halfway',
+      result: { frames: 3 },
+      projectId: 'project-1',
+    });
+  });
+
+  it('retries a failing job until it succeeds', async () => {
+    queue = new InMemoryJobQueue(options);
+    const attempts: number[] = [];
+    queue.process('vsl.section.generate', async (_job, context) => {
+      attempts.push(context.attempt);
+      if (context.attempt < 3) {
+        throw new Error('Vendor timeout');
+      }
+      return 'ok';
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('vsl.section.generate', { sectionId: 'section-1' });
+    const done = await waitFor(job.id, finished);
+
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(done.status).toBe('completed');
+    expect(done.result).toBe('ok');
+  });
+
+  it('fails after maxAttempts with the last error', async () => {
+    queue = new InMemoryJobQueue(options);
+    let calls = 0;
+    queue.process('vsl.section.generate', async () => {
+      calls += 1;
+      throw new Error(`Vendor timeout ${calls}`);
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('vsl.section.generate', { sectionId: 'section-1' }, { maxAttempts: 2 });
+    const done = await waitFor(job.id, finished);
+
+    expect(calls).toBe(2);
+    expect(done).toMatchObject({ status: 'failed', attempts: 2, error: 'Vendor timeout 2' });
+    expect(done.finishedAt).toBeDefined();
+  });
+
+  it('does not retry a PermanentJobError', async () => {
+    queue = new InMemoryJobQueue(options);
+    let calls = 0;
+    queue.process('section-video.generate', async () => {
+      calls += 1;
+      throw new PermanentJobError('Section video not found');
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('section-video.generate', { videoId: 'missing' });
+    const done = await waitFor(job.id, finished);
+
+    expect(calls).toBe(1);
+    expect(done).toMatchObject({ status: 'failed', attempts: 1, error: 'Section video not found' });
+  });
+
+  it('fails a job with no registered handler', async () => {
+    queue = new InMemoryJobQueue(options);
+    await queue.start();
+
+    const job = await queue.enqueue('script.generate-detailed', {});
+    const done = await waitFor(job.id, finished);
+
+    expect(done.status).toBe('failed');
+    expect(done.error).toBe('No handler registered for job type script.generate-detailed');
+  });
+
+  it('delays retries with a doubling backoff', async () => {
+    queue = new InMemoryJobQueue(options);
+    const startedAt: number[] = [];
+    queue.process('vsl.section.generate', async () => {
+      startedAt.push(Date.now());
+      if (startedAt.length < 3) {
+        throw new Error('Vendor timeout');
+      }
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('vsl.section.generate', { sectionId: 'section-1' });
+
+    // Between attempts the job waits in the queue with its next run time
+    const waiting = await waitFor(job.id, (update) => update.status === 'queued' && !!update.runAt);
+    expect(waiting).toMatchObject({ attempts: 1, error: 'Vendor timeout' });
+    expect(Date.parse(waiting.runAt!) - startedAt[0]).toBeGreaterThanOrEqual(40);
+
+    const done = await waitFor(job.id, finished);
+
+    expect(done.status).toBe('completed');
+    expect(done.runAt).toBeUndefined();
+    // Timers may fire a millisecond early against Date.now()
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(38);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(78);
+  });
+
+  it('re-queues jobs left active by a previous worker on start', async () => {
+    // A worker claimed the job and the process died before it finished
+    class InterruptedQueue extends InMemoryJobQueue {
+      claimWithoutRunning() {
+        return this.popJob(0);
+      }
+    }
+    const interrupted = new InterruptedQueue(options);
+    queue = interrupted;
+
+    const job = await queue.enqueue('script.storyboard', { scriptId: 'script-1' });
+    expect(await interrupted.claimWithoutRunning()).toBe(job.id);
+
+    let calls = 0;
+    queue.process('script.storyboard', async () => {
+      calls += 1;
+    });
+    const done = waitFor(job.id, finished);
+    await queue.start();
+
+    expect((await done).status).toBe('completed');
+    expect(calls).toBe(1);
+  });
+
+  it('lists jobs by project and status', async () => {
+    queue = new InMemoryJobQueue(options);
+
+    await queue.enqueue('script.storyboard', { scriptId: 'script-1' }, { projectId: 'project-1' });
+    await queue.enqueue('script.storyboard', { scriptId: 'script-2' }, { projectId: 'project-2' });
+
+    const jobs = await queue.listJobs({ projectId: 'project-1', status: 'queued' });
+
+    expect(jobs.map((job) => job.payload.scriptId)).toEqual(['script-1']);
+  });
+});
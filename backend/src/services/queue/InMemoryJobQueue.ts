@@ -0,0 +1,97 @@
+/**
+ * InMemoryJobQueue - Process-local job storage
+ *
+ * Stand-in for RedisJobQueue when REDIS_URL is not configured (local
+ * development, tests). Jobs do not survive a restart.
+ */
+
+import { JobQueue } from './JobQueue.js';
+import { Job, JobFilter, JobQueueOptions } from './types.js';
+
+export class InMemoryJobQueue extends JobQueue {
+  readonly driver = 'memory' as const;
+
+  private jobs: Map<string, Job> = new Map();
+  private waiting: string[] = [];
+  private active: Set<string> = new Set();
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private waiters: Array<() => void> = [];
+
+  constructor(options: JobQueueOptions = {}) {
+    super(options);
+  }
+
+  protected async saveJob(job: Job): Promise<void> {
+    // Store a copy so callers cannot mutate queued state by reference
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  protected async loadJob(jobId: string): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    return job ? structuredClone(job) : null;
+  }
+
+  protected async pushJob(jobId: string): Promise<void> {
+    this.waiting.push(jobId);
+    this.waiters.shift()?.();
+  }
+
+  protected async popJob(timeoutMs: number): Promise<string | null> {
+    if (this.waiting.length === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+          resolve();
+        }, timeoutMs);
+        const wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        this.waiters.push(wake);
+      });
+    }
+
+    const jobId = this.waiting.shift();
+    if (!jobId) {
+      return null;
+    }
+
+    this.active.add(jobId);
+    return jobId;
+  }
+
+  protected async ackJob(jobId: string): Promise<void> {
+    this.active.delete(jobId);
+  }
+
+  protected async scheduleRetry(jobId: string, runAt: number): Promise<void> {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.pushJob(jobId);
+    }, Math.max(0, runAt - Date.now()));
+    this.timers.add(timer);
+  }
+
+  protected async recoverActiveJobs(): Promise<number> {
+    const recovered = this.active.size;
+    this.waiting.unshift(...this.active);
+    this.active.clear();
+    return recovered;
+  }
+
+  protected async findJobs(filter: JobFilter): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => !filter.projectId || job.projectId === filter.projectId)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .filter((job) => !filter.type || job.type === filter.type)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit || 50)
+      .map((job) => structuredClone(job));
+  }
+
+  protected async disconnect(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.waiters.splice(0).forEach((wake) => wake());
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * JobQueue - Base class for durable job queues
+ *
+ * Owns the worker loop, retries and progress events. Storage is delegated
+ * to subclasses (RedisJobQueue in production, InMemoryJobQueue for local
+ * development and tests).
+ *
+ * Events:
+ * - job:updated (job) - emitted on every status or progress change
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger.js';
+import { PermanentJobError } from './errors.js';
+import {
+  Job,
+  JobType,
+  JobFilter,
+  JobHandler,
+  JobQueueOptions,
+  EnqueueOptions,
+} from './types.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export abstract class JobQueue extends EventEmitter {
+  abstract readonly driver: 'redis' | 'memory';
+
+  protected handlers: Map<JobType, JobHandler> = new Map();
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private retryBackoffMs: number;
+  private running = false;
+  private workers: Promise<void>[] = [];
+
+  constructor(options: JobQueueOptions = {}) {
+    super();
+    this.concurrency =
+      options.concurrency ||
+      parseInt(process.env.JOB_QUEUE_CONCURRENCY || '2', 10);
+    this.pollIntervalMs = options.pollIntervalMs || 1000;
+    this.retryBackoffMs = options.retryBackoffMs || 5000;
+  }
+
+  // ==========================================================================
+  // STORAGE (implemented by drivers)
+  // ==========================================================================
+
+  protected abstract saveJob(job: Job): Promise<void>;
+  protected abstract loadJob(jobId: string): Promise<Job | null>;
+  protected abstract pushJob(jobId: string): Promise<void>;
+  /** Wait up to timeoutMs for the next job id and mark it active */
+  protected abstract popJob(timeoutMs: number): Promise<string | null>;
+  /** Remove a finished job from the active set */
+  protected abstract ackJob(jobId: string): Promise<void>;
+  protected abstract scheduleRetry(jobId: string, runAt: number): Promise<void>;
+  /** Put jobs left active by a previous process back in the queue */
+  protected abstract recoverActiveJobs(): Promise<number>;
+  protected abstract findJobs(filter: JobFilter): Promise<Job[]>;
+  protected abstract disconnect(): Promise<void>;
+
+  // ==========================================================================
+  // PUBLIC API
+  // ==========================================================================
+
+  /**
+   * Register the handler for a job type
+   */
+  process<TPayload, TResult>(
+    type: JobType,
+    handler: JobHandler<TPayload, TResult>
+  ): void {
+    this.handlers.set(type, handler);
+    logger.info(`📋 Job handler registered: ${type}`);
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue<TPayload>(
+    type: JobType,
+    payload: TPayload,
+    options: EnqueueOptions = {}
+  ): Promise<Job<TPayload>> {
+    const now = new Date().toISOString();
+    const job: Job<TPayload> = {
+      id: uuidv4(),
+      type,
+      status: 'queued',
+      payload,
+      projectId: options.projectId,
+      progress: 0,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveJob(job);
+    await this.pushJob(job.id);
+    this.emit('job:updated', job);
+
+    logger.info(`📥 Job queued: ${type} (${job.id})`);
+
+    return job;
+  }
+
+  /**
+   * Get a job by id
+   */
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.loadJob(jobId);
+  }
+
+  /**
+   * List recent jobs, newest first
+   */
+  async listJobs(filter: JobFilter = {}): Promise<Job[]> {
+    return this.findJobs({ ...filter, limit: filter.limit || 50 });
+  }
+
+  /**
+   * Start the worker loops
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    const recovered = await this.recoverActiveJobs();
+    if (recovered > 0) {
+      logger.warn(`⚠️ Re-queued ${recovered} job(s) interrupted by a restart`);
+    }
+
+    this.running = true;
+    for (let i = 0; i < this.concurrency; i++) {
+      this.workers.push(this.workerLoop(i + 1));
+    }
+
+    logger.info(
+      `✅ Job queue started (driver: ${this.driver}, workers: ${this.concurrency})`
+    );
+  }
+
+  /**
+   * Stop the workers after their current job and close connections
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.workers);
+    this.workers = [];
+    await this.disconnect();
+    logger.info('🛑 Job queue stopped');
+  }
+
+  // ==========================================================================
+  // WORKERS
+  // ==========================================================================
+
+  private async workerLoop(workerId: number): Promise<void> {
+    while (this.running) {
+      try {
+        const jobId = await this.popJob(this.pollIntervalMs);
+        if (jobId) {
+          await this.runJob(jobId, workerId);
+        }
+      } catch (error: any) {
+        logger.error(`❌ Job worker ${workerId} error:`, error.message);
+        await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+      }
+    }
+  }
+
+  private async runJob(jobId: string, workerId: number): Promise<void> {
+    const job = await this.loadJob(jobId);
+
+    if (!job) {
+      logger.warn(`⚠️ Job ${jobId} not found (expired?), skipping`);
+      await this.ackJob(jobId);
+      return;
+    }
+
+    const handler = this.handlers.get(job.type);
+
+    if (!handler) {
+      await this.finish(job, 'failed', {
+        error: `No handler registered for job type ${job.type}`,
+      });
+      return;
+    }
+
+    job.status = 'active';
+    job.attempts += 1;
+    job.startedAt = new Date().toISOString();
+    job.runAt = undefined;
+    await this.update(job);
+
+    logger.info(
+      `⚙️ Worker ${workerId} running ${job.type} (${job.id}), attempt ${job.attempts}/${job.maxAttempts}`
+    );
+
+    try {
+      const result = await handler(job, {
+        attempt: job.attempts,
+        reportProgress: async (progress, message) => {
+          job.progress = Math.max(0, Math.min(100, Math.round(progress)));
+          job.progressMessage = message;
+          await this.update(job);
+        },
+      });
+
+      await this.finish(job, 'completed', { result });
+      logger.info(`✅ Job completed: ${job.type} (${job.id})`);
+    } catch (error: any) {
+      const permanent = error instanceof PermanentJobError;
+
+      if (permanent || job.attempts >= job.maxAttempts) {
+        await this.finish(job, 'failed', { error: error.message });
+        logger.error(`❌ Job failed: ${job.type} (${job.id}):`, error.message);
+        return;
+      }
+
+      const delay = this.retryBackoffMs * Math.pow(2, job.attempts - 1);
+      const runAt = Date.now() + delay;
+
+      job.status = 'queued';
+      job.error = error.message;
+      job.runAt = new Date(runAt).toISOString();
+      await this.update(job);
+      await this.ackJob(job.id);
+      await this.scheduleRetry(job.id, runAt);
+
+      logger.warn(
+        `🔄 Job ${job.id} failed (${error.message}), retrying in ${delay}ms`
+      );
+    }
+  }
+
+  private async finish(
+    job: Job,
+    status: 'completed' | 'failed',
+    outcome: { result?: any; error?: string }
+  ): Promise<void> {
+    job.status = status;
+    job.result = outcome.result;
+    job.error = outcome.error;
+    job.progress = status === 'completed' ? 100 : job.progress;
+    job.finishedAt = new Date().toISOString();
+    await this.update(job);
+    await this.ackJob(job.id);
+  }
+
+  private async update(job: Job): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await this.saveJob(job);
+    this.emit('job:updated', job);
+  }
+}
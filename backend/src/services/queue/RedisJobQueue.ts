@@ -0,0 +1,163 @@
+/**
+ * RedisJobQueue - Redis-backed job storage (ioredis)
+ *
+ * Keys (prefix vsl:jobs):
+ * - job:<id>  JSON job record, expires JOB_RETENTION_SECONDS after it finishes
+ * - waiting   list of job ids ready to run
+ * - active    list of job ids being processed (re-queued on startup)
+ * - delayed   sorted set of job ids waiting for a retry, scored by run time
+ * - index     sorted set of all job ids, scored by creation time
+ *
+ * Assumes a single worker process per Redis database: on startup every
+ * job left in "active" is treated as interrupted and re-queued.
+ */
+
+import { Redis } from 'ioredis';
+import { logger } from '../../utils/logger.js';
+import { JobQueue } from './JobQueue.js';
+import { Job, JobFilter, JobQueueOptions } from './types.js';
+
+const KEY_PREFIX = 'vsl:jobs';
+const JOB_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+const MAX_INDEXED_JOBS = 5000;
+
+export class RedisJobQueue extends JobQueue {
+  readonly driver = 'redis' as const;
+
+  private redis: Redis;
+  private blocking: Redis; // BLMOVE holds its connection while waiting
+
+  constructor(redisUrl: string, options: JobQueueOptions = {}) {
+    super(options);
+    this.redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
+    this.blocking = this.redis.duplicate();
+
+    this.redis.on('error', (error) => {
+      logger.error('❌ Redis job queue error:', error.message);
+    });
+    this.blocking.on('error', (error) => {
+      logger.error('❌ Redis job queue (blocking) error:', error.message);
+    });
+  }
+
+  private key(name: string): string {
+    return `${KEY_PREFIX}:${name}`;
+  }
+
+  protected async saveJob(job: Job): Promise<void> {
+    const jobKey = this.key(`job:${job.id}`);
+    const pipeline = this.redis.multi();
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      pipeline.set(jobKey, JSON.stringify(job), 'EX', JOB_RETENTION_SECONDS);
+    } else {
+      pipeline.set(jobKey, JSON.stringify(job));
+    }
+
+    if (job.attempts === 0 && job.status === 'queued') {
+      pipeline.zadd(this.key('index'), Date.parse(job.createdAt), job.id);
+      pipeline.zremrangebyrank(this.key('index'), 0, -(MAX_INDEXED_JOBS + 1));
+    }
+
+    await pipeline.exec();
+  }
+
+  protected async loadJob(jobId: string): Promise<Job | null> {
+    const data = await this.redis.get(this.key(`job:${jobId}`));
+    return data ? (JSON.parse(data) as Job) : null;
+  }
+
+  protected async pushJob(jobId: string): Promise<void> {
+    await this.redis.lpush(this.key('waiting'), jobId);
+  }
+
+  protected async popJob(timeoutMs: number): Promise<string | null> {
+    await this.promoteDelayedJobs();
+
+    return this.blocking.blmove(
+      this.key('waiting'),
+      this.key('active'),
+      'RIGHT',
+      'LEFT',
+      timeoutMs / 1000
+    );
+  }
+
+  protected async ackJob(jobId: string): Promise<void> {
+    await this.redis.lrem(this.key('active'), 0, jobId);
+  }
+
+  protected async scheduleRetry(jobId: string, runAt: number): Promise<void> {
+    await this.redis.zadd(this.key('delayed'), runAt, jobId);
+  }
+
+  protected async recoverActiveJobs(): Promise<number> {
+    let recovered = 0;
+
+    while (
+      await this.redis.lmove(this.key('active'), this.key('waiting'), 'RIGHT', 'RIGHT')
+    ) {
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  protected async findJobs(filter: JobFilter): Promise<Job[]> {
+    const limit = filter.limit || 50;
+    const jobs: Job[] = [];
+    const batchSize = 200;
+
+    // Walk the index newest-first until enough matching jobs are found
+    for (let offset = 0; jobs.length < limit; offset += batchSize) {
+      const ids = await this.redis.zrevrange(
+        this.key('index'),
+        offset,
+        offset + batchSize - 1
+      );
+      if (ids.length === 0) {
+        break;
+      }
+
+      const records = await this.redis.mget(
+        ids.map((id) => this.key(`job:${id}`))
+      );
+
+      for (const record of records) {
+        if (!record) continue;
+        const job = JSON.parse(record) as Job;
+
+        if (filter.projectId && job.projectId !== filter.projectId) continue;
+        if (filter.status && job.status !== filter.status) continue;
+        if (filter.type && job.type !== filter.type) continue;
+
+        jobs.push(job);
+        if (jobs.length >= limit) break;
+      }
+    }
+
+    return jobs;
+  }
+
+  protected async disconnect(): Promise<void> {
+    await Promise.all([this.redis.quit(), this.blocking.quit()]);
+  }
+
+  /**
+   * Move retries whose delay has elapsed back to the waiting list
+   */
+  private async promoteDelayedJobs(): Promise<void> {
+    const due = await this.redis.zrangebyscore(
+      this.key('delayed'),
+      0,
+      Date.now()
+    );
+
+    for (const jobId of due) {
+      // Only the caller that removes the entry re-queues it
+      if ((await this.redis.zrem(this.key('delayed'), jobId)) > 0) {
+        await this.pushJob(jobId);
+      }
+    }
+  }
+}
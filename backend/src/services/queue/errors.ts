@@ -0,0 +1,14 @@
+/**
+ * Job Queue - Error Types
+ */
+
+/**
+ * Thrown by a job handler when retrying cannot succeed (missing records,
+ * invalid state). The job fails immediately instead of being retried.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Job Queue - Public API
+ *
+ * getJobQueue() returns the process-wide queue: Redis when REDIS_URL is
+ * set, in-memory otherwise.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { JobQueue } from './JobQueue.js';
+import { RedisJobQueue } from './RedisJobQueue.js';
+import { InMemoryJobQueue } from './InMemoryJobQueue.js';
+import { JobQueueOptions } from './types.js';
+
+export * from './types.js';
+export * from './errors.js';
+export { JobQueue, RedisJobQueue, InMemoryJobQueue };
+export { registerWorkers } from './workers.js';
+
+let jobQueue: JobQueue | null = null;
+
+/**
+ * Create a queue for the configured driver
+ */
+export function createJobQueue(options: JobQueueOptions = {}): JobQueue {
+  if (process.env.REDIS_URL) {
+    return new RedisJobQueue(process.env.REDIS_URL, options);
+  }
+
+  logger.warn('⚠️ REDIS_URL not set - using in-memory job queue (jobs are lost on restart)');
+  return new InMemoryJobQueue(options);
+}
+
+/**
+ * Get the shared job queue, creating it on first use
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueue) {
+    jobQueue = createJobQueue();
+  }
+  return jobQueue;
+}
@@ -0,0 +1,101 @@
+/**
+ * Job Queue - Type Definitions
+ *
+ * Long-running agent and generation work is enqueued by the HTTP routes
+ * and executed by background workers, so a client timeout or a server
+ * restart no longer loses it.
+ */
+
+import type { ScriptDetailInput } from '../../agents/types.js';
+
+export type JobType =
+  | 'vsl.section.generate'
+  | 'vsl.project.generate-all'
+  | 'script.generate-detailed'
+  | 'section-video.generate'
+  | 'script.storyboard';
+
+export type JobStatus = 'queued' | 'active' | 'completed' | 'failed';
+
+export interface Job<TPayload = any, TResult = any> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: TPayload;
+  projectId?: string; // Progress events go to the novela:<projectId> room
+  progress: number; // 0-100
+  progressMessage?: string;
+  attempts: number;
+  maxAttempts: number;
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  runAt?: string; // Next attempt time while waiting for a retry
+}
+
+export interface EnqueueOptions {
+  projectId?: string;
+  maxAttempts?: number; // Default 3
+}
+
+export interface JobFilter {
+  projectId?: string;
+  status?: JobStatus;
+  type?: JobType;
+  limit?: number; // Default 50
+}
+
+export interface JobContext {
+  attempt: number;
+  reportProgress: ProgressReporter;
+}
+
+export type ProgressReporter = (progress: number, message?: string) => Promise<void>;
+
+export type JobHandler<TPayload = any, TResult = any> = (
+  job: Job<TPayload>,
+  context: JobContext
+) => Promise<TResult>;
+
+export interface JobQueueOptions {
+  concurrency?: number; // Parallel workers (default JOB_QUEUE_CONCURRENCY or 2)
+  pollIntervalMs?: number; // How long a worker waits for new jobs (default 1000)
+  retryBackoffMs?: number; // Base delay, doubled on every attempt (default 5000)
+}
+
+// ============================================================================
+// JOB PAYLOADS
+// ============================================================================
+
+export interface VSLSectionGeneratePayload {
+  sectionId: string;
+}
+
+export interface VSLProjectGeneratePayload {
+  projectId: string;
+  overwrite?: boolean; // Regenerate sections that already have content
+}
+
+export interface DetailedScriptGeneratePayload {
+  projectId: string;
+  sectionId: string;
+  totalDuration: number;
+  language: ScriptDetailInput['language'];
+  modelId: string;
+  narrativeFramework?: ScriptDetailInput['narrativeFramework']; // Inferred when omitted
+}
+
+export interface SectionVideoGeneratePayload {
+  videoId: string;
+  lambdaConfigId?: string;
+}
+
+export interface StoryboardGeneratePayload {
+  scriptId: string;
+  videoOrders?: number[]; // Default: every clip not yet approved
+  imageModelId: 'flux-schnell' | 'sdxl';
+  frames: boolean;
+}
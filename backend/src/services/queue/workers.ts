@@ -0,0 +1,51 @@
+/**
+ * Job Queue - Worker Registration
+ *
+ * Maps every job type to the service that executes it.
+ */
+
+import { AgentManager } from '../../agents/index.js';
+import { generateSectionContent } from '../vsl/sectionGeneration.js';
+import { generateProjectContent } from '../vsl/projectGeneration.js';
+import { generateDetailedScript } from '../scripts/detailedScriptGeneration.js';
+import { generateSectionVideo } from '../videos/sectionVideoGeneration.js';
+import { generateScriptStoryboard } from '../storyboards/storyboards.js';
+import { JobQueue } from './JobQueue.js';
+import {
+  VSLSectionGeneratePayload,
+  VSLProjectGeneratePayload,
+  DetailedScriptGeneratePayload,
+  SectionVideoGeneratePayload,
+  StoryboardGeneratePayload,
+} from './types.js';
+
+export function registerWorkers(queue: JobQueue, agentManager: AgentManager): void {
+  queue.process<VSLSectionGeneratePayload, unknown>(
+    'vsl.section.generate',
+    (job, { reportProgress }) =>
+      generateSectionContent(agentManager, job.payload.sectionId, reportProgress)
+  );
+
+  queue.process<VSLProjectGeneratePayload, unknown>(
+    'vsl.project.generate-all',
+    (job, { reportProgress }) =>
+      generateProjectContent(agentManager, job.payload, reportProgress, new Date(job.createdAt))
+  );
+
+  queue.process<DetailedScriptGeneratePayload, unknown>(
+    'script.generate-detailed',
+    (job, { reportProgress }) =>
+      generateDetailedScript(agentManager, job.payload, reportProgress)
+  );
+
+  queue.process<SectionVideoGeneratePayload, unknown>(
+    'section-video.generate',
+    (job, { reportProgress }) => generateSectionVideo(job.payload, reportProgress)
+  );
+
+  queue.process<StoryboardGeneratePayload, unknown>(
+    'script.storyboard',
+    (job, { reportProgress }) =>
+      generateScriptStoryboard(agentManager, job.payload, reportProgress, job.id)
+  );
+}
@@ -0,0 +1,428 @@
+/**
+ * Script Clip Editing
+ *
+ * Edits single clips of a detailed script instead of regenerating the
+ * whole section (POST /api/scripts/generate-detailed replaces every clip,
+ * approved ones included):
+ * - rewrite: ScriptDetailAgent rewrites one clip's copy, with the clips
+ *   before and after it as context. The clip keeps its duration; its old
+ *   media is dropped and it goes back to pending.
+ * - insert: a new pending clip, written by the agent or given in the body
+ * - remove / reorder
+ *
+ * Every operation renumbers the clips and recomputes startTime/endTime
+ * and the script's videoCount/totalDuration. Untouched clips keep their
+ * generated media and status. A pending clip whose previous clip changed
+ * loses its continuity reference image, so generation picks up the new
+ * previous clip's thumbnail.
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError, parseInput } from '../../utils/httpError.js';
+import { AgentManager, isNarrativeFrameworkId } from '../../agents/index.js';
+import type { ScriptClipContent, ScriptClipContext } from '../../agents/index.js';
+import { getBrandVoiceContext } from '../brandVoice/brandVoiceProfiles.js';
+import { getContinuityContext } from '../continuity/continuityBible.js';
+import { estimateNarration, formatClipTime } from '../../utils/narrationTiming.js';
+import { getVideoModelLimits } from '../../utils/videoModelLimits.js';
+import { buildClipPrompt } from '../../utils/clipPrompt.js';
+
+const clipRewriteSchema = z.object({
+  instructions: z.string().trim().max(2000).optional(),
+});
+
+const clipContentSchema = z.object({
+  partName: z.string().trim().min(1).max(500),
+  step: z.string().trim().max(500).default(''),
+  objective: z.string().trim().max(2000).default(''),
+  voice: z.string().trim().min(1).max(5000),
+  example: z.string().trim().max(2000).default(''),
+  visual: z.string().trim().min(1).max(2000),
+  // Continuity bible entries the clip shows
+  continuity: z
+    .object({
+      characterIds: z.array(z.string().trim().min(1)).max(20).default([]),
+      locationId: z.string().trim().min(1).nullable().default(null),
+      wardrobeIds: z.array(z.string().trim().min(1)).max(20).default([]),
+    })
+    .optional(),
+});
+
+const clipInsertSchema = z.object({
+  position: z.number().int().positive().optional(), // videoOrder of the new clip (default: last)
+  duration: z.number().int().positive().optional(),
+  modelId: z.string().min(1).optional(), // Only needed when the script has no clips
+  instructions: z.string().trim().max(2000).optional(),
+  clip: clipContentSchema.optional(), // Written by the agent when omitted
+});
+
+const clipReorderSchema = z.object({
+  videoIds: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Raised for invalid clip edits.
+ */
+export class ClipEditError extends HttpError {}
+
+async function loadScript(scriptId: string) {
+  const script = await prisma.sectionDetailedScript.findUnique({
+    where: { id: scriptId },
+    include: {
+      videos: { orderBy: { videoOrder: 'asc' } },
+      section: true,
+      project: true,
+    },
+  });
+
+  if (!script) {
+    throw new ClipEditError(404, 'Script not found');
+  }
+
+  return script;
+}
+
+function findClip(videos: any[], videoOrder: number) {
+  const clip = videos.find((video) => video.videoOrder === videoOrder);
+  if (!clip) {
+    throw new ClipEditError(404, `Clip ${videoOrder} not found`);
+  }
+  if (clip.status === 'submitting' || clip.status === 'generating') {
+    throw new ClipEditError(409, `Clip ${videoOrder} is generating. Wait for it to finish.`);
+  }
+  return clip;
+}
+
+function toContext(video: any): ScriptClipContext | undefined {
+  return video ? { partName: video.partName, voice: video.voice, visual: video.visual } : undefined;
+}
+
+/**
+ * Write clips in their new order: videoOrder 1..n, timestamps from the
+ * cumulative durations, script totals. previousIds holds each clip's
+ * previous clip before the edit.
+ */
+async function renumberClips(
+  tx: any,
+  scriptId: string,
+  clips: Array<{ id: string; duration: number; status: string }>,
+  previousIds: Map<string, string | null>
+) {
+  // Move out of the way first: (scriptId, videoOrder) is unique
+  for (const [index, clip] of clips.entries()) {
+    await tx.sectionVideo.update({ where: { id: clip.id }, data: { videoOrder: -(index + 1) } });
+  }
+
+  let currentTime = 0;
+  for (const [index, clip] of clips.entries()) {
+    const startTime = formatClipTime(currentTime);
+    currentTime += clip.duration;
+
+    const previousId = index > 0 ? clips[index - 1].id : null;
+    const continuityChanged =
+      previousIds.has(clip.id) && previousIds.get(clip.id) !== previousId;
+
+    await tx.sectionVideo.update({
+      where: { id: clip.id },
+      data: {
+        videoOrder: index + 1,
+        startTime,
+        endTime: formatClipTime(currentTime),
+        ...(continuityChanged &&
+          (clip.status === 'pending' || clip.status === 'failed') && { referenceImageUrl: null }),
+      },
+    });
+  }
+
+  await tx.sectionDetailedScript.update({
+    where: { id: scriptId },
+    data: { videoCount: clips.length, totalDuration: currentTime },
+  });
+}
+
+function previousIdsOf(videos: Array<{ id: string }>): Map<string, string | null> {
+  return new Map(videos.map((video, index) => [video.id, index > 0 ? videos[index - 1].id : null]));
+}
+
+/**
+ * Open compliance findings on an edited clip no longer match its copy
+ */
+async function resolveClipFindings(tx: any, videoId: string, note: string) {
+  await tx.complianceFinding.updateMany({
+    where: { videoId, status: 'open' },
+    data: { status: 'resolved', resolutionNote: note, resolvedAt: new Date() },
+  });
+}
+
+async function writeClip(
+  agentManager: AgentManager,
+  script: Awaited<ReturnType<typeof loadScript>>,
+  options: {
+    duration: number;
+    clip?: ScriptClipContent;
+    previous?: any;
+    next?: any;
+    instructions?: string;
+  }
+) {
+  const result = await agentManager.rewriteScriptClip({
+    projectId: script.projectId,
+    sectionId: script.sectionId,
+    sectionContent: script.section.content,
+    language: script.language,
+    duration: options.duration,
+    narrativeFramework: isNarrativeFrameworkId(script.narrativeFramework)
+      ? script.narrativeFramework
+      : undefined,
+    clip: options.clip,
+    previous: toContext(options.previous),
+    next: toContext(options.next),
+    instructions: options.instructions,
+    productContext: {
+      productName: script.project.projectName,
+      productService: script.project.productService || undefined,
+      targetAudience: script.project.targetAudience || undefined,
+      tone: script.project.tone,
+    },
+    brandVoice: await getBrandVoiceContext(script.project.brandVoiceId),
+    continuity: await getContinuityContext(script.projectId),
+  });
+
+  if (!result.success || !result.clip) {
+    throw new Error(result.message || 'Failed to write clip');
+  }
+
+  return result.clip;
+}
+
+/**
+ * Rewrite one clip's copy with its neighbours as context
+ */
+export async function rewriteClip(
+  agentManager: AgentManager,
+  scriptId: string,
+  videoOrder: number,
+  rawInput: unknown
+) {
+  const input = parseInput(clipRewriteSchema, rawInput);
+  const script = await loadScript(scriptId);
+  const clip = findClip(script.videos, videoOrder);
+  const index = script.videos.indexOf(clip);
+
+  const rewritten = await writeClip(agentManager, script, {
+    duration: clip.duration,
+    clip,
+    previous: script.videos[index - 1],
+    next: script.videos[index + 1],
+    instructions: input.instructions,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    // Generation may have started while the agent was writing
+    const { count } = await tx.sectionVideo.updateMany({
+      where: { id: clip.id, status: { notIn: ['submitting', 'generating'] } },
+      data: {
+        partName: rewritten.partName,
+        step: rewritten.step,
+        objective: rewritten.objective,
+        voice: rewritten.voice,
+        example: rewritten.example,
+        visual: rewritten.visual,
+        continuity: rewritten.continuity as any,
+        generationParams: {
+          ...(clip.generationParams as Record<string, unknown>),
+          optimizedPrompt: rewritten.optimizedPrompt,
+          narrationDuration: rewritten.narrationDuration,
+        },
+        // The old media shows the old copy
+        status: 'pending',
+        lambdaJobId: null,
+        replicateJobId: null,
+        resultUrl: null,
+        thumbnailUrl: null,
+        actualCost: null,
+        processingTime: null,
+        errorMessage: null,
+        // The storyboard shows the old visual
+        ...(clip.storyboardStatus !== 'none' && {
+          storyboardStatus: 'changes_requested',
+          storyboardReviewedBy: null,
+          storyboardReviewedAt: null,
+          storyboardNote: 'Clip rewritten; regenerate the storyboard',
+        }),
+      },
+    });
+    if (count === 0) {
+      throw new ClipEditError(409, `Clip ${videoOrder} is generating. Wait for it to finish.`);
+    }
+    await resolveClipFindings(tx, clip.id, 'Clip rewritten');
+  });
+
+  logger.info(`✏️ Clip ${videoOrder} of script ${scriptId} rewritten`);
+
+  return {
+    script: await loadScript(scriptId),
+    videoId: clip.id,
+    narrationFits: rewritten.narrationDuration <= clip.duration,
+  };
+}
+
+/**
+ * Insert a new pending clip at position (default: after the last clip)
+ */
+export async function insertClip(
+  agentManager: AgentManager,
+  scriptId: string,
+  rawInput: unknown
+) {
+  const input = parseInput(clipInsertSchema, rawInput);
+  const script = await loadScript(scriptId);
+  const videos: any[] = script.videos;
+
+  const position = input.position ?? videos.length + 1;
+  if (position > videos.length + 1) {
+    throw new ClipEditError(400, `position must be between 1 and ${videos.length + 1}`);
+  }
+
+  const previous = videos[position - 2];
+  const next = videos[position - 1];
+  const modelId: string | undefined = (previous || next)?.modelId ?? input.modelId;
+  if (!modelId) {
+    throw new ClipEditError(400, 'modelId is required for a script without clips');
+  }
+
+  const limits = getVideoModelLimits(modelId);
+  let duration: number;
+
+  if (input.duration !== undefined) {
+    if (!limits.durations.includes(input.duration)) {
+      throw new ClipEditError(
+        400,
+        `${modelId} clips can be ${limits.durations.join(', ')} seconds long`
+      );
+    }
+    duration = input.duration;
+  } else if (input.clip) {
+    // Shortest clip that holds the given narration
+    const narration = estimateNarration(input.clip.voice, script.language).exactSeconds;
+    duration =
+      limits.durations.find((allowed) => allowed >= narration) ??
+      limits.durations[limits.durations.length - 1];
+  } else {
+    const neighbourDuration = (next || previous)?.duration;
+    duration = limits.durations.includes(neighbourDuration)
+      ? neighbourDuration
+      : limits.durations[limits.durations.length - 1];
+  }
+
+  const content = input.clip
+    ? {
+        ...input.clip,
+        optimizedPrompt: buildClipPrompt(input.clip),
+        narrationDuration: estimateNarration(input.clip.voice, script.language).exactSeconds,
+      }
+    : await writeClip(agentManager, script, {
+        duration,
+        previous,
+        next,
+        instructions: input.instructions,
+      });
+
+  const { videoId, videoOrder } = await prisma.$transaction(async (tx) => {
+    // Clips may have changed while the agent was writing; keep the new clip after the same previous clip
+    const current: any[] = await tx.sectionVideo.findMany({
+      where: { scriptId },
+      orderBy: { videoOrder: 'asc' },
+    });
+    const previousIndex = previous ? current.findIndex((video) => video.id === previous.id) : -1;
+    const insertAt = previousIndex >= 0 ? previousIndex + 1 : Math.min(position - 1, current.length);
+
+    const created = await tx.sectionVideo.create({
+      data: {
+        scriptId,
+        videoOrder: -(current.length + 1), // Renumbered below
+        startTime: formatClipTime(0),
+        endTime: formatClipTime(duration),
+        duration,
+        partName: content.partName,
+        step: content.step,
+        objective: content.objective,
+        voice: content.voice,
+        example: content.example,
+        visual: content.visual,
+        continuity: content.continuity as any,
+        modelId,
+        seed: previous?.seed != null ? previous.seed + 1 : null,
+        generationParams: {
+          optimizedPrompt: content.optimizedPrompt,
+          narrationDuration: content.narrationDuration,
+          duration,
+        },
+        status: 'pending',
+      },
+    });
+
+    const clips = [...current];
+    clips.splice(insertAt, 0, created);
+    await renumberClips(tx, scriptId, clips, previousIdsOf(current));
+
+    return { videoId: created.id as string, videoOrder: insertAt + 1 };
+  });
+
+  logger.info(`➕ Clip inserted at ${videoOrder} in script ${scriptId}`);
+
+  return { script: await loadScript(scriptId), videoId };
+}
+
+/**
+ * Remove a clip and close the gap
+ */
+export async function removeClip(scriptId: string, videoOrder: number) {
+  const script = await loadScript(scriptId);
+  const clip = findClip(script.videos, videoOrder);
+  const remaining = script.videos.filter((video: { id: string }) => video.id !== clip.id);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.sectionVideo.delete({ where: { id: clip.id } });
+    await resolveClipFindings(tx, clip.id, 'Clip removed');
+    await renumberClips(tx, scriptId, remaining, previousIdsOf(script.videos));
+  });
+
+  logger.info(`➖ Clip ${videoOrder} removed from script ${scriptId}`);
+
+  return { script: await loadScript(scriptId) };
+}
+
+/**
+ * Put the clips in the given order (every clip id exactly once)
+ */
+export async function reorderClips(scriptId: string, rawInput: unknown) {
+  const input = parseInput(clipReorderSchema, rawInput);
+  const script = await loadScript(scriptId);
+  const videos: any[] = script.videos;
+
+  const byId = new Map(videos.map((video) => [video.id as string, video]));
+  const unique = new Set(input.videoIds);
+  if (
+    unique.size !== input.videoIds.length ||
+    input.videoIds.length !== videos.length ||
+    input.videoIds.some((id) => !byId.has(id))
+  ) {
+    throw new ClipEditError(400, 'videoIds must list every clip of the script exactly once');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await renumberClips(
+      tx,
+      scriptId,
+      input.videoIds.map((id) => byId.get(id)),
+      previousIdsOf(videos)
+    );
+  });
+
+  logger.info(`🔀 Clips of script ${scriptId} reordered`);
+
+  return { script: await loadScript(scriptId) };
+}
@@ -0,0 +1,167 @@
+/**
+ * Detailed Script Generation Service
+ *
+ * Generates a multi-video script for a VSL section with ScriptDetailAgent
+ * and replaces any existing script for that section. Runs inside the job
+ * queue worker (script.generate-detailed).
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { AgentManager } from '../../agents/index.js';
+import { PermanentJobError } from '../queue/errors.js';
+import { getBrandVoiceContext } from '../brandVoice/brandVoiceProfiles.js';
+import { getContinuityContext } from '../continuity/continuityBible.js';
+import { findTemplate } from '../vsl/templates.js';
+import type {
+  DetailedScriptGeneratePayload,
+  ProgressReporter,
+} from '../queue/types.js';
+
+export async function generateDetailedScript(
+  agentManager: AgentManager,
+  input: DetailedScriptGeneratePayload,
+  reportProgress: ProgressReporter = async () => {}
+) {
+  const { projectId, sectionId, totalDuration, language, modelId, narrativeFramework } = input;
+
+  const section = await prisma.vSLSection.findUnique({
+    where: { id: sectionId },
+    include: {
+      project: true,
+    },
+  });
+
+  if (!section) {
+    throw new PermanentJobError(`Section not found: ${sectionId}`);
+  }
+
+  // Custom templates infer the framework of the built-in they were cloned from
+  const template = await findTemplate(section.project.templateId);
+  const templateId = template?.clonedFrom || section.project.templateId;
+
+  await reportProgress(10, 'Generating detailed script');
+
+  // Call ScriptDetailAgent for detailed script generation
+  const result = await agentManager.generateDetailedScript({
+    projectId,
+    sectionId,
+    sectionContent: section.content,
+    totalDuration,
+    language,
+    modelId,
+    productContext: {
+      productName: section.project.projectName,
+      productService: section.project.productService || undefined,
+      targetAudience: section.project.targetAudience || undefined,
+      tone: section.project.tone,
+    },
+    brandVoice: await getBrandVoiceContext(section.project.brandVoiceId),
+    continuity: await getContinuityContext(projectId),
+    narrativeFramework,
+    templateId,
+    sectionName: section.sectionName,
+  });
+
+  if (!result.success || !result.detailedScript) {
+    throw new Error(result.message || 'Failed to generate detailed script');
+  }
+
+  await reportProgress(80, 'Saving script videos');
+
+  const detailedScript = result.detailedScript;
+
+  // Check if script already exists for this section
+  const existingScript = await prisma.sectionDetailedScript.findUnique({
+    where: { sectionId },
+    include: { videos: true },
+  });
+
+  // Delete existing script and videos if present
+  if (existingScript) {
+    logger.info(`🗑️ Deleting existing script ${existingScript.id} with ${existingScript.videos.length} videos`);
+
+    // Delete videos first (foreign key constraint)
+    await prisma.sectionVideo.deleteMany({
+      where: { scriptId: existingScript.id },
+    });
+
+    // Delete script
+    await prisma.sectionDetailedScript.delete({
+      where: { id: existingScript.id },
+    });
+  }
+
+  // Create new SectionDetailedScript record
+  const scriptRecord = await prisma.sectionDetailedScript.create({
+    data: {
+      projectId,
+      sectionId,
+      language: detailedScript.language,
+      totalDuration: detailedScript.totalDuration,
+      videoCount: detailedScript.videoCount,
+      narrativeFramework: detailedScript.narrativeFramework,
+      aiGenerated: true,
+      generatedBy: 'script_detail_agent',
+    },
+  });
+
+  // Generate base seed for visual continuity
+  const baseSeed = Math.floor(Math.random() * 1000000);
+
+  // Create SectionVideo records with incremental seeds
+  const videoRecords = await Promise.all(
+    detailedScript.videos.map((video, index) =>
+      prisma.sectionVideo.create({
+        data: {
+          scriptId: scriptRecord.id,
+          videoOrder: video.videoOrder,
+          startTime: video.startTime,
+          endTime: video.endTime,
+          duration: video.duration,
+          partName: video.partName,
+          step: video.step,
+          objective: video.objective,
+          voice: video.voice,
+          example: video.example,
+          visual: video.visual,
+          continuity: video.continuity as any, // Bible entries shown, with a continuity bible
+          modelId,
+          seed: baseSeed + index, // Incremental seed for continuity
+          generationParams: {
+            optimizedPrompt: video.optimizedPrompt,
+            narrationDuration: video.narrationDuration,
+            duration: video.duration, // Planned clip length, one the model accepts
+          },
+          status: 'pending',
+        },
+      })
+    )
+  );
+
+  logger.info(`✅ Detailed script generated: ${scriptRecord.id} with ${videoRecords.length} videos`);
+
+  return {
+    scriptId: scriptRecord.id,
+    language: scriptRecord.language,
+    totalDuration: scriptRecord.totalDuration,
+    videoCount: scriptRecord.videoCount,
+    narrativeFramework: scriptRecord.narrativeFramework,
+    estimatedCost: detailedScript.estimatedCost,
+    videos: videoRecords.map((v) => ({
+      id: v.id,
+      videoOrder: v.videoOrder,
+      startTime: v.startTime,
+      endTime: v.endTime,
+      duration: v.duration,
+      partName: v.partName,
+      step: v.step,
+      objective: v.objective,
+      voice: v.voice,
+      example: v.example,
+      visual: v.visual,
+      status: v.status,
+    })),
+    reasoning: detailedScript.reasoning,
+  };
+}
@@ -0,0 +1,468 @@
+/**
+ * Storyboards
+ *
+ * Expands each clip (SectionVideo) of a detailed script into a shot list -
+ * shot type, camera move, subject, setting, lighting, on-screen text and
+ * transitions - stored as typed JSON in SectionVideo.storyboard. Every shot
+ * gets a still frame from an image model (flux-schnell or sdxl) through
+ * the same Lambda generate-media path as the clips; the frame arrives with
+ * the Replicate webhook like any other Lambda job.
+ *
+ * Reviewers approve a clip's storyboard (or request changes) before the
+ * expensive video generation: a clip with a storyboard that isn't approved
+ * can't be generated. Clips without a storyboard are not affected.
+ *
+ * Frame results are matched through LambdaJob.metadata.storyboard and
+ * written under a row lock, so webhooks for different shots of the same
+ * clip don't overwrite each other. A frame of a replaced storyboard is
+ * ignored.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError, parseInput } from '../../utils/httpError.js';
+import { getModelConfig } from '../../utils/modelsConfig.js';
+import { AgentManager } from '../../agents/index.js';
+import type { StoryboardShot } from '../../agents/index.js';
+import { PermanentJobError } from '../queue/errors.js';
+import type { ProgressReporter, StoryboardGeneratePayload } from '../queue/types.js';
+
+export const STORYBOARD_IMAGE_MODELS = ['flux-schnell', 'sdxl'] as const;
+
+export type StoryboardImageModel = (typeof STORYBOARD_IMAGE_MODELS)[number];
+
+export type StoryboardStatus = 'none' | 'draft' | 'approved' | 'changes_requested';
+
+export type StoryboardFrameStatus = 'pending' | 'generating' | 'completed' | 'failed';
+
+export interface StoryboardFrame {
+  status: StoryboardFrameStatus;
+  imageModelId: StoryboardImageModel;
+  lambdaJobId?: string;
+  replicateJobId?: string;
+  imageUrl?: string;
+  error?: string;
+}
+
+// SectionVideo.storyboard entries
+export interface StoryboardShotRecord extends StoryboardShot {
+  frame: StoryboardFrame | null; // null when frames were not requested
+}
+
+// LambdaJob.metadata.storyboard of a frame job
+interface StoryboardFrameTarget {
+  videoId: string;
+  shotNumber: number;
+}
+
+// Clips with these statuses can't be generated until the storyboard is approved
+export const UNAPPROVED_STORYBOARD_STATUSES = ['draft', 'changes_requested'] as const satisfies readonly StoryboardStatus[];
+
+export type UnapprovedStoryboardStatus = (typeof UNAPPROVED_STORYBOARD_STATUSES)[number];
+
+export function isUnapprovedStoryboardStatus(status: unknown): status is UnapprovedStoryboardStatus {
+  return (UNAPPROVED_STORYBOARD_STATUSES as readonly unknown[]).includes(status);
+}
+
+const generateSchema = z.object({
+  videoOrders: z.array(z.number().int().positive()).min(1).optional(), // Default: every clip not yet approved
+  imageModelId: z.enum(STORYBOARD_IMAGE_MODELS).default('flux-schnell'),
+  frames: z.boolean().default(true),
+});
+
+const reviewSchema = z.object({
+  decision: z.enum(['approved', 'changes_requested']),
+  reviewedBy: z.string().trim().min(1).max(200).optional(),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export type StoryboardRequest = z.infer<typeof generateSchema>;
+
+/**
+ * Raised for invalid storyboard operations.
+ */
+export class StoryboardError extends HttpError {}
+
+/**
+ * Validate a storyboard request before it is queued
+ */
+export function parseStoryboardRequest(rawInput: unknown): StoryboardRequest {
+  return parseInput(generateSchema, rawInput);
+}
+
+function shotsOf(video: { storyboard: unknown }): StoryboardShotRecord[] {
+  return Array.isArray(video.storyboard) ? (video.storyboard as StoryboardShotRecord[]) : [];
+}
+
+/**
+ * Storyboard of every clip of a script, with review progress
+ */
+export async function getScriptStoryboard(scriptId: string) {
+  const script = await prisma.sectionDetailedScript.findUnique({
+    where: { id: scriptId },
+    include: { videos: { orderBy: { videoOrder: 'asc' } } },
+  });
+
+  if (!script) {
+    throw new StoryboardError(404, 'Script not found');
+  }
+
+  const videos = script.videos.map((video: any) => ({
+    videoId: video.id,
+    videoOrder: video.videoOrder,
+    startTime: video.startTime,
+    endTime: video.endTime,
+    duration: video.duration,
+    partName: video.partName,
+    voice: video.voice,
+    visual: video.visual,
+    videoStatus: video.status,
+    storyboardStatus: video.storyboardStatus as StoryboardStatus,
+    reviewedBy: video.storyboardReviewedBy,
+    reviewedAt: video.storyboardReviewedAt,
+    note: video.storyboardNote,
+    shots: shotsOf(video),
+  }));
+
+  const count = (status: StoryboardStatus) =>
+    videos.filter((video: { storyboardStatus: StoryboardStatus }) => video.storyboardStatus === status).length;
+  const frames: StoryboardFrame[] = videos.flatMap((video: { shots: StoryboardShotRecord[] }) =>
+    video.shots.map((shot) => shot.frame).filter((frame): frame is StoryboardFrame => !!frame)
+  );
+
+  return {
+    scriptId,
+    summary: {
+      clips: videos.length,
+      withoutStoryboard: count('none'),
+      draft: count('draft'),
+      approved: count('approved'),
+      changesRequested: count('changes_requested'),
+      framesPending: frames.filter((frame) => frame.status === 'pending' || frame.status === 'generating').length,
+      framesFailed: frames.filter((frame) => frame.status === 'failed').length,
+    },
+    videos,
+  };
+}
+
+/**
+ * Apply a change to one shot's frame under a row lock. update returns
+ * null to leave the frame as it is.
+ */
+async function updateShotFrame(
+  videoId: string,
+  shotNumber: number,
+  update: (frame: StoryboardFrame | null) => StoryboardFrame | null
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "vsl_frontend"."section_videos" WHERE id = ${videoId} FOR UPDATE`;
+
+    const video = await tx.sectionVideo.findUnique({ where: { id: videoId } });
+    if (!video) return;
+
+    const shots = shotsOf(video);
+    const shot = shots.find((candidate) => candidate.shotNumber === shotNumber);
+    if (!shot) return;
+
+    const frame = update(shot.frame);
+    if (!frame) return;
+
+    shot.frame = frame;
+    await tx.sectionVideo.update({
+      where: { id: videoId },
+      data: { storyboard: shots as any },
+    });
+  });
+}
+
+/**
+ * Create the LambdaJob for a shot's still frame and submit it to Lambda.
+ * Returns the frame to store with the shot; throws when Lambda rejects it.
+ */
+async function submitShotFrame(
+  video: any,
+  shot: StoryboardShotRecord,
+  imageModelId: StoryboardImageModel
+): Promise<StoryboardFrame> {
+  const modelConfig = getModelConfig(imageModelId, 'image');
+
+  if (!modelConfig) {
+    throw new PermanentJobError(`Model configuration not found for ${imageModelId}`);
+  }
+
+  const lambdaConfig = await prisma.lambdaConfig.findFirst({
+    where: { mediaType: 'image', modelId: imageModelId, isActive: true, isDefault: true },
+  });
+
+  // 16:9 frames like the clips, only with the parameters the model supports
+  const allParams: Record<string, unknown> = {
+    ...modelConfig.defaults,
+    ...(lambdaConfig?.defaultParams as Record<string, unknown> | undefined),
+    width: 1024,
+    height: 576,
+    num_outputs: 1,
+    seed: video.seed ?? undefined,
+  };
+  const supportedParams: string[] = modelConfig.supportedParams || [];
+  const parameters: Record<string, unknown> = { prompt: shot.imagePrompt };
+  for (const param of supportedParams) {
+    if (param !== 'prompt' && allParams[param] !== undefined) {
+      parameters[param] = allParams[param];
+    }
+  }
+
+  const target: StoryboardFrameTarget = { videoId: video.id, shotNumber: shot.shotNumber };
+  const lambdaJob = await prisma.lambdaJob.create({
+    data: {
+      configId: lambdaConfig?.id ?? null,
+      userId: video.script.project.userId,
+      projectId: video.script.projectId,
+      jobId: uuidv4(),
+      lambdaName: 'generate-media',
+      mediaType: 'image',
+      modelId: imageModelId,
+      prompt: shot.imagePrompt,
+      parameters: parameters as any,
+      status: 'pending',
+      metadata: { storyboard: target } as any,
+    },
+  });
+
+  let lambdaResult: any;
+  let ok = false;
+  try {
+    const lambdaResponse = await fetch(`${process.env.LAMBDA_API_BASE_URL}/generate-media`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: video.script.project.userId || 'anonymous',
+        mediaType: 'image',
+        modelId: imageModelId,
+        parameters,
+        webhook_url: `${process.env.LAMBDA_API_BASE_URL}/webhook/replicate`,
+      }),
+    });
+    lambdaResult = await lambdaResponse.json();
+    ok = lambdaResponse.ok && !!lambdaResult.replicateId;
+  } catch (error: any) {
+    lambdaResult = { message: error.message };
+  }
+
+  if (!ok) {
+    const message = lambdaResult?.message || 'Lambda call failed';
+    logger.error(`❌ Storyboard frame ${shot.shotNumber} of video ${video.id} failed: ${message}`);
+
+    await prisma.lambdaJob.update({
+      where: { id: lambdaJob.id },
+      data: { status: 'failed', error: message },
+    });
+    throw new Error(`Storyboard frame ${shot.shotNumber} of clip ${video.videoOrder} failed: ${message}`);
+  }
+
+  await prisma.lambdaJob.update({
+    where: { id: lambdaJob.id },
+    data: { replicateId: lambdaResult.replicateId, status: 'processing' },
+  });
+
+  return {
+    status: 'generating',
+    imageModelId,
+    lambdaJobId: lambdaJob.id,
+    replicateJobId: lambdaResult.replicateId,
+  };
+}
+
+/**
+ * Apply the frames whose webhook arrived before their storyboard was saved
+ */
+async function applyFinishedFrames(shots: StoryboardShotRecord[]): Promise<void> {
+  const lambdaJobIds = shots.flatMap((shot) => (shot.frame?.lambdaJobId ? [shot.frame.lambdaJobId] : []));
+  if (lambdaJobIds.length === 0) return;
+
+  const finished = await prisma.lambdaJob.findMany({
+    where: { id: { in: lambdaJobIds }, status: { in: ['completed', 'failed', 'canceled'] } },
+  });
+
+  for (const lambdaJob of finished) {
+    await applyStoryboardFrameResult(lambdaJob, {
+      status: lambdaJob.status === 'completed' ? 'succeeded' : lambdaJob.status,
+      imageUrl: lambdaJob.resultUrl ?? undefined,
+      error: lambdaJob.error ?? undefined,
+    });
+  }
+}
+
+/**
+ * Generate storyboards (and their frames) for a script's clips.
+ * Runs inside the job queue worker (script.storyboard).
+ *
+ * A clip's storyboard is saved once all of its frames are submitted. Each
+ * saved clip records the job (storyboardJobId), so a retry of the job
+ * only storyboards the clips it didn't finish.
+ */
+export async function generateScriptStoryboard(
+  agentManager: AgentManager,
+  input: StoryboardGeneratePayload,
+  reportProgress: ProgressReporter = async () => {},
+  jobId?: string
+) {
+  const { scriptId, videoOrders, imageModelId, frames } = input;
+
+  const script = await prisma.sectionDetailedScript.findUnique({
+    where: { id: scriptId },
+    include: {
+      videos: { orderBy: { videoOrder: 'asc' } },
+      project: true,
+    },
+  });
+
+  if (!script) {
+    throw new PermanentJobError(`Script not found: ${scriptId}`);
+  }
+
+  const videos: any[] = script.videos;
+  const storyboarded: Array<{ videoId: string; videoOrder: number; shots: number }> = [];
+
+  // Clips this job already storyboarded (before a retry) are kept
+  const done = jobId ? videos.filter((video) => video.storyboardJobId === jobId) : [];
+  for (const video of done) {
+    storyboarded.push({ videoId: video.id, videoOrder: video.videoOrder, shots: shotsOf(video).length });
+  }
+
+  const targets = (
+    videoOrders
+      ? videos.filter((video) => videoOrders.includes(video.videoOrder))
+      : videos.filter((video) => video.storyboardStatus !== 'approved')
+  ).filter((video) => !done.includes(video));
+
+  for (const [index, video] of targets.entries()) {
+    await reportProgress(
+      Math.round((index / Math.max(targets.length, 1)) * 90),
+      `Storyboarding clip ${video.videoOrder}`
+    );
+
+    const position = videos.indexOf(video);
+    const result = await agentManager.generateStoryboard({
+      projectId: script.projectId,
+      sectionId: script.sectionId,
+      duration: video.duration,
+      partName: video.partName,
+      voice: video.voice,
+      visual: video.visual,
+      previousVisual: videos[position - 1]?.visual,
+      nextVisual: videos[position + 1]?.visual,
+      productContext: {
+        productName: script.project.projectName,
+        productService: script.project.productService || undefined,
+        targetAudience: script.project.targetAudience || undefined,
+        tone: script.project.tone,
+      },
+    });
+
+    if (!result.success || !result.shots) {
+      throw new Error(result.message || `Failed to storyboard clip ${video.videoOrder}`);
+    }
+
+    const shots: StoryboardShotRecord[] = [];
+    for (const shot of result.shots) {
+      const record: StoryboardShotRecord = { ...shot, frame: null };
+      if (frames) {
+        record.frame = await submitShotFrame({ ...video, script }, record, imageModelId);
+      }
+      shots.push(record);
+    }
+
+    await prisma.sectionVideo.update({
+      where: { id: video.id },
+      data: {
+        storyboard: shots as any,
+        storyboardStatus: 'draft',
+        storyboardJobId: jobId ?? null,
+        storyboardReviewedBy: null,
+        storyboardReviewedAt: null,
+        storyboardNote: null,
+      },
+    });
+
+    await applyFinishedFrames(shots);
+
+    storyboarded.push({ videoId: video.id, videoOrder: video.videoOrder, shots: shots.length });
+  }
+
+  logger.info(`🎞️ Storyboarded ${storyboarded.length} clip(s) of script ${scriptId}`);
+
+  return { scriptId, imageModelId, frames, videos: storyboarded };
+}
+
+/**
+ * Replicate webhook result for a storyboard frame job
+ */
+export async function applyStoryboardFrameResult(
+  lambdaJob: { id: string; metadata: unknown },
+  result: { status: string; imageUrl?: string; error?: string }
+): Promise<boolean> {
+  const target = (lambdaJob.metadata as { storyboard?: StoryboardFrameTarget } | null)?.storyboard;
+  if (!target) return false;
+
+  await updateShotFrame(target.videoId, target.shotNumber, (frame) => {
+    // A replaced storyboard's frame
+    if (!frame || frame.lambdaJobId !== lambdaJob.id) return null;
+
+    return result.status === 'succeeded' && result.imageUrl
+      ? { ...frame, status: 'completed', imageUrl: result.imageUrl, error: undefined }
+      : { ...frame, status: 'failed', error: result.error || `Frame generation ${result.status}` };
+  });
+
+  logger.info(`🖼️ Storyboard frame ${target.shotNumber} of video ${target.videoId}: ${result.status}`);
+  return true;
+}
+
+/**
+ * Approve a clip's storyboard or request changes
+ */
+export async function reviewStoryboard(scriptId: string, videoOrder: number, rawInput: unknown) {
+  const input = parseInput(reviewSchema, rawInput);
+
+  const video = await prisma.sectionVideo.findFirst({
+    where: { scriptId, videoOrder },
+  });
+
+  if (!video) {
+    throw new StoryboardError(404, `Clip ${videoOrder} not found`);
+  }
+
+  const shots = shotsOf(video);
+  if (video.storyboardStatus === 'none' || shots.length === 0) {
+    throw new StoryboardError(409, `Clip ${videoOrder} has no storyboard to review`);
+  }
+
+  if (
+    input.decision === 'approved' &&
+    shots.some((shot) => shot.frame?.status === 'pending' || shot.frame?.status === 'generating')
+  ) {
+    throw new StoryboardError(409, 'Storyboard frames are still generating');
+  }
+
+  const updated = await prisma.sectionVideo.update({
+    where: { id: video.id },
+    data: {
+      storyboardStatus: input.decision,
+      storyboardReviewedBy: input.reviewedBy ?? null,
+      storyboardReviewedAt: new Date(),
+      storyboardNote: input.note ?? null,
+    },
+  });
+
+  logger.info(`✅ Storyboard of clip ${videoOrder} (script ${scriptId}): ${input.decision}`);
+
+  return {
+    videoId: updated.id,
+    videoOrder: updated.videoOrder,
+    storyboardStatus: updated.storyboardStatus as StoryboardStatus,
+    reviewedBy: updated.storyboardReviewedBy,
+    reviewedAt: updated.storyboardReviewedAt,
+    note: updated.storyboardNote,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * LLM Usage Report
+ *
+ * Aggregates agent_usage rows (one per LLM call) by agent role, day
+ * and/or project for GET /api/agents/usage - used to reconcile the OpenAI
+ * bill against VSL projects.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+
+export type UsageGroupBy = 'role' | 'day' | 'project';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['role', 'day', 'project'];
+
+// Whitelisted SQL expressions per grouping (never interpolate user input)
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  role: 'agent_role',
+  day: `to_char(date_trunc('day', created_at), 'YYYY-MM-DD')`,
+  project: `coalesce(project_id, novela_id)`,
+};
+
+export interface UsageReportFilter {
+  groupBy: UsageGroupBy[];
+  from?: Date;
+  to?: Date;
+  projectId?: string; // Matches project_id or novela_id
+  agentRole?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number; // USD
+  avgLatencyMs: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  role?: string;
+  day?: string;
+  project?: string | null;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy[];
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+const AGGREGATES = Prisma.sql`
+  count(*)::int AS calls,
+  count(*) FILTER (WHERE NOT success)::int AS "failedCalls",
+  coalesce(sum(prompt_tokens), 0)::bigint AS "promptTokens",
+  coalesce(sum(cached_prompt_tokens), 0)::bigint AS "cachedPromptTokens",
+  coalesce(sum(completion_tokens), 0)::bigint AS "completionTokens",
+  coalesce(sum(reasoning_tokens), 0)::bigint AS "reasoningTokens",
+  coalesce(sum(total_tokens), 0)::bigint AS "totalTokens",
+  coalesce(sum(cost), 0)::float8 AS cost,
+  coalesce(avg(latency_ms), 0)::float8 AS "avgLatencyMs"
+`;
+
+export async function getUsageReport(filter: UsageReportFilter): Promise<UsageReport> {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.from) conditions.push(Prisma.sql`created_at >= ${filter.from}`);
+  if (filter.to) conditions.push(Prisma.sql`created_at < ${filter.to}`);
+  if (filter.agentRole) conditions.push(Prisma.sql`agent_role = ${filter.agentRole}`);
+  if (filter.projectId) {
+    conditions.push(
+      Prisma.sql`(project_id = ${filter.projectId} OR novela_id = ${filter.projectId})`
+    );
+  }
+
+  const where = conditions.length
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+
+  const [totals] = await prisma.$queryRaw<any[]>`
+    SELECT ${AGGREGATES} FROM "vsl_frontend"."agent_usage" ${where}
+  `;
+
+  let groups: UsageGroup[] = [];
+
+  if (filter.groupBy.length > 0) {
+    const keys = Prisma.raw(
+      filter.groupBy.map((key) => `${GROUP_COLUMNS[key]} AS "${key}"`).join(', ')
+    );
+    const positions = Prisma.raw(filter.groupBy.map((_, index) => index + 1).join(', '));
+
+    const rows = await prisma.$queryRaw<any[]>`
+      SELECT ${keys}, ${AGGREGATES}
+      FROM "vsl_frontend"."agent_usage"
+      ${where}
+      GROUP BY ${positions}
+      ORDER BY ${positions}
+    `;
+
+    groups = rows.map((row: any) => {
+      const group: UsageGroup = toTotals(row);
+      for (const key of filter.groupBy) {
+        group[key] = row[key];
+      }
+      return group;
+    });
+  }
+
+  return {
+    groupBy: filter.groupBy,
+    totals: toTotals(totals),
+    groups,
+  };
+}
+
+/**
+ * Convert raw aggregates (bigint sums) to numbers
+ */
+function toTotals(row: any): UsageTotals {
+  return {
+    calls: Number(row?.calls || 0),
+    failedCalls: Number(row?.failedCalls || 0),
+    promptTokens: Number(row?.promptTokens || 0),
+    cachedPromptTokens: Number(row?.cachedPromptTokens || 0),
+    completionTokens: Number(row?.completionTokens || 0),
+    reasoningTokens: Number(row?.reasoningTokens || 0),
+    totalTokens: Number(row?.totalTokens || 0),
+    cost: Math.round(Number(row?.cost || 0) * 1_000_000) / 1_000_000,
+    avgLatencyMs: Math.round(Number(row?.avgLatencyMs || 0)),
+  };
+}
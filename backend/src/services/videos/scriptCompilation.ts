@@ -0,0 +1,122 @@
+/**
+ * Script Compilation Service
+ *
+ * Sends the approved videos of a detailed script to the Lambda
+ * compile-videos endpoint and returns the compiled video details. Used by
+ * POST /api/scripts/:scriptId/compile and the vsl-section-video workflow.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+
+export interface CompileScriptOptions {
+  outputFormat?: 'mp4' | 'webm';
+  quality?: 'high' | 'medium' | 'low';
+}
+
+export interface CompiledScriptVideo {
+  scriptId: string;
+  videoCount: number;
+  totalDuration: number;
+  compiledVideoUrl?: string;
+  fileSize?: number;
+  jobId?: string;
+  duration?: number;
+  message: string; // Lambda message
+}
+
+/**
+ * Raised when there is nothing to compile (a 400)
+ */
+export class NoApprovedVideosError extends HttpError {
+  constructor() {
+    super(400, 'No approved videos found for compilation');
+  }
+}
+
+export async function compileScriptVideos(
+  scriptId: string,
+  options: CompileScriptOptions = {}
+): Promise<CompiledScriptVideo> {
+  const { outputFormat = 'mp4', quality = 'high' } = options;
+
+  // Get all approved videos
+  const videos = await prisma.sectionVideo.findMany({
+    where: {
+      scriptId,
+      status: 'approved',
+      resultUrl: { not: null },
+    },
+    orderBy: { videoOrder: 'asc' },
+  });
+
+  if (videos.length === 0) {
+    throw new NoApprovedVideosError();
+  }
+
+  // Extract video URLs
+  const videoUrls = videos.map(v => v.resultUrl!);
+
+  logger.info(`🎬 Compiling ${videos.length} videos for script ${scriptId}`);
+
+  // Calculate total duration safely
+  const totalDuration = videos.reduce((sum, v) => sum + (v.duration || 0), 0);
+
+  logger.info(`📊 Total duration: ${totalDuration}s, Video count: ${videos.length}`);
+
+  // Get userId and sectionId from first video
+  const userId = videos[0]?.userId || 'unknown';
+  const sectionId = videos[0]?.sectionId || 'unknown';
+
+  // Call Lambda compile-videos endpoint
+  const lambdaUrl = process.env.LAMBDA_API_BASE_URL || 'https://jp4xy0391j.execute-api.us-east-1.amazonaws.com/homolog';
+  const compileEndpoint = `${lambdaUrl}/compile-videos`;
+
+  logger.info(`📤 Calling Lambda compilation endpoint: ${compileEndpoint}`);
+
+  let lambdaResult: any;
+  try {
+    const lambdaResponse = await fetch(compileEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        scriptId,
+        videoUrls,
+        userId,
+        sectionId,
+        outputFormat,
+        quality
+      }),
+    });
+
+    lambdaResult = await lambdaResponse.json();
+
+    logger.info(`✅ Lambda response received:`, {
+      status: lambdaResponse.status,
+      success: lambdaResult.success,
+      message: lambdaResult.message
+    });
+  } catch (lambdaError: any) {
+    logger.error('❌ Error calling Lambda:', lambdaError.message);
+    throw new Error(`Failed to call compilation service: ${lambdaError.message}`);
+  }
+
+  if (!lambdaResult.success) {
+    logger.error(`❌ Lambda compilation failed:`, lambdaResult.message);
+    throw new Error(`Compilation failed: ${lambdaResult.message}`);
+  }
+
+  return {
+    scriptId,
+    videoCount: videos.length,
+    totalDuration,
+    compiledVideoUrl: lambdaResult.data?.compiledVideoUrl,
+    fileSize: lambdaResult.data?.fileSize,
+    jobId: lambdaResult.data?.jobId,
+    duration: lambdaResult.data?.duration,
+    message: lambdaResult.message || 'Video compilation completed',
+  };
+}
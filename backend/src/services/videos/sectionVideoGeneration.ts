@@ -0,0 +1,434 @@
+/**
+ * Section Video Generation Service
+ *
+ * Builds generation parameters for a SectionVideo, creates the LambdaJob
+ * and submits it to the Lambda generate-media endpoint. The finished
+ * media arrives later through the Lambda webhook. With a continuity
+ * bible, the entries the clip shows are added to its prompt and their
+ * reference images to reference_images. Clips with unresolved
+ * high-severity compliance findings or an unapproved storyboard are
+ * refused. The clip is claimed (status submitting) before anything is
+ * submitted, so it is never sent to Lambda twice. A claim left behind by
+ * a worker that stopped before Lambda answered is taken over once it is
+ * stale. Runs inside the job queue worker (section-video.generate) and
+ * the vsl-section-video workflow.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { getModelConfig } from '../../utils/modelsConfig.js';
+import { PermanentJobError } from '../queue/errors.js';
+import { getContinuityInjection } from '../continuity/continuityBible.js';
+import { getBlockingFindings } from '../compliance/complianceChecker.js';
+import { isUnapprovedStoryboardStatus } from '../storyboards/storyboards.js';
+import type {
+  SectionVideoGeneratePayload,
+  ProgressReporter,
+} from '../queue/types.js';
+
+// A submission claim this old was left by a worker that stopped mid-submission
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * A clip that can't be generated yet. Permanent for the queue; the
+ * generate route answers 409 with data.
+ */
+export class GenerationBlockedError extends PermanentJobError {
+  readonly data: Record<string, unknown>;
+
+  constructor(message: string, data: Record<string, unknown>) {
+    super(message);
+    this.name = 'GenerationBlockedError';
+    this.data = data;
+  }
+}
+
+/**
+ * Throw GenerationBlockedError while unresolved high-severity compliance
+ * findings or a storyboard that isn't approved block the clip
+ */
+export async function assertGenerationAllowed(video: { id: string; storyboardStatus: string }): Promise<void> {
+  const blockingFindings = await getBlockingFindings(video.id);
+  if (blockingFindings.length > 0) {
+    throw new GenerationBlockedError(
+      `${blockingFindings.length} unresolved high-severity compliance finding(s). Resolve or dismiss them before generating.`,
+      { findings: blockingFindings }
+    );
+  }
+
+  // A storyboard has to be approved before the clip is generated
+  if (isUnapprovedStoryboardStatus(video.storyboardStatus)) {
+    throw new GenerationBlockedError(
+      `Storyboard is ${video.storyboardStatus === 'draft' ? 'awaiting review' : 'waiting for changes'}. Approve it before generating.`,
+      { storyboardStatus: video.storyboardStatus }
+    );
+  }
+}
+
+export async function generateSectionVideo(
+  input: SectionVideoGeneratePayload,
+  reportProgress: ProgressReporter = async () => {}
+) {
+  const { videoId, lambdaConfigId } = input;
+
+  // Get video record
+  const video = await prisma.sectionVideo.findUnique({
+    where: { id: videoId },
+    include: {
+      script: {
+        include: {
+          project: true,
+        },
+      },
+    },
+  });
+
+  if (!video) {
+    throw new PermanentJobError(`Video not found: ${videoId}`);
+  }
+
+  const staleClaim = video.status === 'submitting' && isStaleClaim(video.submittingAt);
+
+  // Check if video is pending or failed (can regenerate)
+  if (video.status !== 'pending' && video.status !== 'failed' && !staleClaim) {
+    throw new PermanentJobError(
+      `Video status is ${video.status}. Can only generate pending or failed videos.`
+    );
+  }
+
+  if (staleClaim) {
+    const accepted = await recoverStaleClaim(video);
+    if (accepted) return accepted;
+  }
+
+  // Also checked when queueing, but the workflow submits clips directly
+  await assertGenerationAllowed(video);
+
+  if (video.lambdaJobId) {
+    const activeJob = await prisma.lambdaJob.findFirst({
+      where: { id: video.lambdaJobId, status: { in: ['pending', 'processing'] } },
+    });
+    if (activeJob) {
+      throw new PermanentJobError(`Video ${videoId} already has an active Lambda job (${activeJob.id})`);
+    }
+  }
+
+  // Claim the clip, so a second request or a retry after a partial
+  // failure can't submit another paid job for it
+  const claimed = await prisma.sectionVideo.updateMany({
+    where: {
+      id: videoId,
+      OR: [
+        { status: { in: ['pending', 'failed'] } },
+        // Only the stale claim inspected above, so one worker takes it over
+        ...(staleClaim ? [{ status: 'submitting', submittingAt: video.submittingAt }] : []),
+      ],
+    },
+    data: { status: 'submitting', submittingAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new PermanentJobError(`Video ${videoId} is already being submitted`);
+  }
+
+  const submission: Submission = { accepted: false };
+  try {
+    return await submitSectionVideo(video, lambdaConfigId, reportProgress, submission);
+  } catch (error: any) {
+    if (submission.accepted) {
+      // Lambda has the job; submitting again would pay for it twice
+      throw new PermanentJobError(`Video ${videoId} was submitted but not recorded: ${error.message}`);
+    }
+
+    // Release the claim so the clip can be generated again
+    if (submission.lambdaJobId) {
+      await prisma.lambdaJob.updateMany({
+        where: { id: submission.lambdaJobId, status: 'pending' },
+        data: { status: 'failed', error: error.message },
+      });
+    }
+    await prisma.sectionVideo.updateMany({
+      where: { id: videoId, status: 'submitting' },
+      data: { status: 'failed', errorMessage: error.message },
+    });
+    throw error;
+  }
+}
+
+function isStaleClaim(submittingAt: Date | null): boolean {
+  // Claims without a timestamp predate it and can't be in flight any more
+  return !submittingAt || Date.now() - submittingAt.getTime() > STALE_CLAIM_MS;
+}
+
+/**
+ * Settle the Lambda job of an abandoned claim. A job Lambda acknowledged
+ * (it has a Replicate id) is recorded as generating and returned; anything
+ * else is marked failed so the clip can be claimed again.
+ */
+async function recoverStaleClaim(video: any) {
+  const lambdaJob = video.lambdaJobId
+    ? await prisma.lambdaJob.findUnique({ where: { id: video.lambdaJobId } })
+    : null;
+
+  if (lambdaJob?.replicateId) {
+    await prisma.lambdaJob.updateMany({
+      where: { id: lambdaJob.id, status: 'pending' },
+      data: { status: 'processing' },
+    });
+    await prisma.sectionVideo.updateMany({
+      where: { id: video.id, status: 'submitting' },
+      data: { replicateJobId: lambdaJob.replicateId, status: 'generating' },
+    });
+
+    logger.warn(`⚠️ Video ${video.id} was left submitting after Lambda accepted it; now generating`);
+
+    return {
+      videoId: video.id,
+      lambdaJobId: lambdaJob.id,
+      replicateJobId: lambdaJob.replicateId,
+      status: 'generating',
+    };
+  }
+
+  if (lambdaJob?.status === 'pending') {
+    await prisma.lambdaJob.updateMany({
+      where: { id: lambdaJob.id, status: 'pending' },
+      data: { status: 'failed', error: 'Submission interrupted' },
+    });
+  }
+
+  logger.warn(`⚠️ Taking over the stale submission claim of video ${video.id}`);
+  return null;
+}
+
+// Progress of a claimed clip's submission, for releasing the claim on failure
+interface Submission {
+  lambdaJobId?: string;
+  accepted: boolean; // Lambda accepted the job
+}
+
+async function submitSectionVideo(
+  video: any,
+  lambdaConfigId: string | undefined,
+  reportProgress: ProgressReporter,
+  submission: Submission
+) {
+  const videoId = video.id;
+
+  // Get Lambda config (use provided or default for video)
+  let lambdaConfig;
+  if (lambdaConfigId) {
+    lambdaConfig = await prisma.lambdaConfig.findUnique({
+      where: { id: lambdaConfigId },
+    });
+  } else {
+    lambdaConfig = await prisma.lambdaConfig.findFirst({
+      where: {
+        mediaType: 'video',
+        modelId: video.modelId,
+        isActive: true,
+        isDefault: true,
+      },
+    });
+  }
+
+  if (!lambdaConfig) {
+    throw new PermanentJobError('No suitable Lambda config found');
+  }
+
+  // Get model configuration to know supported parameters
+  const modelConfig = getModelConfig(video.modelId, 'video');
+
+  if (!modelConfig) {
+    throw new PermanentJobError(`Model configuration not found for ${video.modelId}`);
+  }
+
+  await reportProgress(20, 'Preparing generation parameters');
+
+  // Prepare generation parameters - only use supported params
+  const allParams = {
+    ...lambdaConfig.defaultParams,
+    ...(video.generationParams as any),
+  };
+
+  // Filter to only include supported parameters
+  const generationParams: any = {};
+  const supportedParams = modelConfig.supportedParams || [];
+
+  for (const param of supportedParams) {
+    if (allParams[param] !== undefined) {
+      generationParams[param] = allParams[param];
+    }
+  }
+
+  // Always set prompt from optimizedPrompt
+  generationParams.prompt = (video.generationParams as any)?.optimizedPrompt || video.visual;
+
+  // Continuity bible: same description and reference images in every clip
+  const continuity = await getContinuityInjection(video.script.projectId, video.continuity);
+  if (continuity?.prompt) {
+    generationParams.prompt = `${generationParams.prompt}. ${continuity.prompt}`;
+  }
+
+  // Add seed if specified and supported
+  if (video.seed !== null && supportedParams.includes('seed')) {
+    generationParams.seed = video.seed;
+  }
+
+  // Add reference image from previous video for visual continuity (only if supported)
+  if (supportedParams.includes('reference_images')) {
+    const bibleImages = continuity?.referenceImageUrls || [];
+    if (bibleImages.length > 0) {
+      generationParams.reference_images = [...bibleImages];
+    }
+
+    if (video.referenceImageUrl) {
+      generationParams.reference_images = [...bibleImages, video.referenceImageUrl];
+    } else if (video.videoOrder > 1) {
+      // Get previous video's thumbnail for continuity
+      const previousVideo = await prisma.sectionVideo.findFirst({
+        where: {
+          scriptId: video.scriptId,
+          videoOrder: video.videoOrder - 1,
+          status: { in: ['completed', 'approved'] },
+        },
+      });
+
+      if (previousVideo?.thumbnailUrl) {
+        generationParams.reference_images = [...bibleImages, previousVideo.thumbnailUrl];
+
+        // Update current video with reference URL
+        await prisma.sectionVideo.update({
+          where: { id: videoId },
+          data: { referenceImageUrl: previousVideo.thumbnailUrl },
+        });
+
+        logger.info(`📸 Using reference image from video ${previousVideo.videoOrder} for continuity`);
+      }
+    }
+  }
+
+  // Bible images come first; stay within the model's reference image limit
+  const maxReferenceImages = modelConfig.capabilities?.referenceImagesConstraints?.maxImages;
+  if (generationParams.reference_images && maxReferenceImages) {
+    generationParams.reference_images = generationParams.reference_images.slice(0, maxReferenceImages);
+  }
+
+  // Log final generation parameters
+  logger.info(`🎬 Generation parameters for video ${videoId}: ${JSON.stringify(generationParams, null, 2)}`);
+
+  // Create Lambda job
+  const jobId = uuidv4();
+  const lambdaJob = await prisma.lambdaJob.create({
+    data: {
+      configId: lambdaConfig.id,
+      userId: video.script.project.userId,
+      projectId: video.script.projectId,
+      jobId,
+      lambdaName: 'generate-media',
+      mediaType: 'video',
+      modelId: video.modelId,
+      prompt: generationParams.prompt,
+      parameters: generationParams,
+      status: 'pending',
+    },
+  });
+
+  submission.lambdaJobId = lambdaJob.id;
+
+  // Update video with lambdaJobId
+  await prisma.sectionVideo.update({
+    where: { id: videoId },
+    data: {
+      lambdaJobId: lambdaJob.id,
+    },
+  });
+
+  await reportProgress(50, 'Submitting to Lambda');
+
+  // Call Lambda API
+  const lambdaUrl = `${process.env.LAMBDA_API_BASE_URL}/generate-media`;
+
+  logger.info(`🚀 Calling Lambda for video ${videoId}: ${lambdaUrl}`);
+
+  // Construct webhook URL for Replicate callbacks
+  // IMPORTANT: Point to Lambda processWebhook, NOT backend directly!
+  // Lambda will download from Replicate, upload to S3, then notify backend
+  const webhookUrl = `${process.env.LAMBDA_API_BASE_URL}/webhook/replicate`;
+
+  const lambdaResponse = await fetch(lambdaUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      userId: video.script.project.userId || 'anonymous',
+      mediaType: 'video',
+      modelId: video.modelId,
+      parameters: generationParams,
+      webhook_url: webhookUrl, // Replicate will POST to this URL when done
+    }),
+  });
+
+  logger.info(`📡 Webhook configured for video ${videoId}: ${webhookUrl}`);
+
+  const lambdaResult: any = await lambdaResponse.json();
+
+  logger.info(`📥 Lambda response status: ${lambdaResponse.status} ${lambdaResponse.ok ? 'OK' : 'ERROR'}`);
+  logger.info(`📥 Lambda response body: ${JSON.stringify(lambdaResult, null, 2)}`);
+
+  // Check if Lambda call was successful
+  // Lambda returns: { jobId, status, replicateId, message, estimatedTime, estimatedCost }
+  if (!lambdaResponse.ok || !lambdaResult.replicateId) {
+    // Lambda call failed - the video stays retryable ('failed')
+    logger.error('❌ Lambda call failed', lambdaResult);
+
+    await prisma.lambdaJob.update({
+      where: { id: lambdaJob.id },
+      data: {
+        status: 'failed',
+        error: lambdaResult.message || 'Lambda call failed',
+      },
+    });
+
+    await prisma.sectionVideo.update({
+      where: { id: videoId },
+      data: {
+        status: 'failed',
+        errorMessage: lambdaResult.message || 'Lambda call failed',
+      },
+    });
+
+    throw new Error(`Lambda call failed: ${lambdaResult.message || 'Unknown error'}`);
+  }
+
+  submission.accepted = true;
+
+  // Update job and video with Replicate job ID
+  await prisma.lambdaJob.update({
+    where: { id: lambdaJob.id },
+    data: {
+      replicateId: lambdaResult.replicateId,
+      status: 'processing',
+    },
+  });
+
+  await prisma.sectionVideo.update({
+    where: { id: videoId },
+    data: {
+      replicateJobId: lambdaResult.replicateId,
+      status: 'generating',
+    },
+  });
+
+  logger.info(`✅ Lambda called successfully for video ${videoId}`);
+
+  return {
+    videoId,
+    lambdaJobId: lambdaJob.id,
+    replicateJobId: lambdaResult.replicateId,
+    status: 'generating',
+    estimatedTime: lambdaResult.estimatedTime,
+    estimatedCost: lambdaResult.estimatedCost,
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * VSL Project Analysis Service
+ *
+ * Scores a VSL project as a whole script and checks consistency across
+ * sections. Two passes are combined:
+ * - Rules: every price mentioned in a section is compared against the
+ *   project's priceOffer (cheap, deterministic, never misses a number)
+ * - VSL Specialist: holistic score plus contradictions in price, claims
+ *   and tone that rules can't see
+ *
+ * Aggregated score = 60% holistic score + 40% average section score,
+ * minus a penalty per consistency issue (high 10, medium 5, low 2). The
+ * score is written to VSLProject.analysisScore (persuasionScore stays the
+ * section average kept by generation) and the full report to
+ * VSLProject.analysisReport, which GET /api/vsl/projects/:id returns.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+import {
+  AgentManager,
+  VSLConsistencyIssue,
+  VSLProjectAnalysis,
+} from '../../agents/index.js';
+import { getTemplateContext } from './templates.js';
+import { getBrandVoiceContext } from '../brandVoice/brandVoiceProfiles.js';
+
+const HOLISTIC_WEIGHT = 0.6;
+
+const ISSUE_PENALTY: Record<VSLConsistencyIssue['severity'], number> = {
+  high: 10,
+  medium: 5,
+  low: 2,
+};
+
+export interface VSLProjectAnalysisReport extends VSLProjectAnalysis {
+  aggregatedScore: number;
+  sectionAverage: number;
+  penalty: number;
+  sectionScores: Array<{ sectionId: string; sectionName: string; persuasionScore: number }>;
+  analyzedSections: number;
+  totalSections: number;
+  analyzedAt: string;
+}
+
+/**
+ * Raised when a project can't be analyzed.
+ */
+export class ProjectAnalysisError extends HttpError {}
+
+// ============================================================================
+// PRICE RULES
+// ============================================================================
+
+const PRICE_PATTERN =
+  /(?:R\$|US\$|\$|€|£)\s?\d[\d.,]*|\b\d[\d.,]*\s?(?:USD|EUR|BRL|GBP|reais|dollars|d[oó]lares|euros)\b/gi;
+
+/**
+ * Parse "1.997,00", "1,997.00", "$97" or "97 reais" into a number
+ */
+function parseAmount(text: string): number | null {
+  const digits = text.replace(/[^\d.,]/g, '').replace(/[.,]$/, '');
+  if (!digits) return null;
+
+  const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const hasDecimals = lastSeparator !== -1 && digits.length - lastSeparator - 1 === 2;
+
+  const normalized = hasDecimals
+    ? `${digits.slice(0, lastSeparator).replace(/[.,]/g, '')}.${digits.slice(lastSeparator + 1)}`
+    : digits.replace(/[.,]/g, '');
+
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function extractPrices(text: string): Array<{ text: string; amount: number }> {
+  return (text.match(PRICE_PATTERN) || [])
+    .map((match) => ({ text: match.trim(), amount: parseAmount(match) }))
+    .filter((price): price is { text: string; amount: number } => price.amount !== null);
+}
+
+/**
+ * Flag prices in sections that don't appear in the price offer. Anchor
+ * prices ("was $997") are flagged too, at medium severity, so the editor
+ * can confirm they're intentional.
+ */
+export function findPriceMismatches(
+  priceOffer: string | null | undefined,
+  sections: Array<{ sectionName: string; content: string }>
+): VSLConsistencyIssue[] {
+  if (!priceOffer) return [];
+
+  const offered = extractPrices(priceOffer);
+  if (offered.length === 0) return [];
+
+  const offeredAmounts = new Set(offered.map((price) => price.amount));
+  const issues: VSLConsistencyIssue[] = [];
+
+  for (const section of sections) {
+    const unknown = extractPrices(section.content).filter(
+      (price) => !offeredAmounts.has(price.amount)
+    );
+
+    if (unknown.length > 0) {
+      issues.push({
+        type: 'price',
+        severity: 'medium',
+        sections: [section.sectionName],
+        description: `Mentions ${unknown.map((price) => price.text).join(', ')} but the offer is "${priceOffer}"`,
+        suggestion: 'Align the price with the offer, or confirm it is an intentional anchor/comparison price',
+        source: 'rule',
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export async function analyzeProject(
+  agentManager: AgentManager,
+  projectId: string
+): Promise<VSLProjectAnalysisReport> {
+  const project = await prisma.vSLProject.findUnique({
+    where: { id: projectId },
+    include: {
+      sections: {
+        orderBy: { sectionOrder: 'asc' },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new ProjectAnalysisError(404, 'VSL project not found');
+  }
+
+  const written: Array<{ id: string; sectionName: string; content: string; persuasionScore: number }> =
+    project.sections.filter((section: { content: string }) => section.content.trim() !== '');
+
+  if (written.length === 0) {
+    throw new ProjectAnalysisError(400, 'Project has no section content to analyze');
+  }
+
+  const userContext = {
+    productService: project.productService || undefined,
+    targetAudience: project.targetAudience || undefined,
+    mainProblem: project.mainProblem || undefined,
+    priceOffer: project.priceOffer || undefined,
+    tone: project.tone,
+  };
+
+  const result = await agentManager.analyzeVSLProject({
+    projectId,
+    templateId: project.templateId,
+    template: await getTemplateContext(project.templateId, ''),
+    brandVoice: await getBrandVoiceContext(project.brandVoiceId),
+    sections: written.map((section) => ({
+      sectionName: section.sectionName,
+      content: section.content,
+      persuasionScore: section.persuasionScore,
+    })),
+    userContext,
+  });
+
+  if (!result.success || !result.data?.projectAnalysis) {
+    throw new Error(result.message || 'Failed to analyze project');
+  }
+
+  const analysis: VSLProjectAnalysis = result.data.projectAnalysis;
+  const consistencyIssues = [
+    ...findPriceMismatches(project.priceOffer, written),
+    ...analysis.consistencyIssues,
+  ];
+
+  const sectionAverage = Math.round(
+    written.reduce((sum, section) => sum + section.persuasionScore, 0) / written.length
+  );
+  const penalty = consistencyIssues.reduce((sum, issue) => sum + ISSUE_PENALTY[issue.severity], 0);
+  const aggregatedScore = Math.max(
+    0,
+    Math.min(
+      100,
+      Math.round(HOLISTIC_WEIGHT * analysis.score + (1 - HOLISTIC_WEIGHT) * sectionAverage) - penalty
+    )
+  );
+
+  const report: VSLProjectAnalysisReport = {
+    ...analysis,
+    consistencyIssues,
+    aggregatedScore,
+    sectionAverage,
+    penalty,
+    sectionScores: written.map((section) => ({
+      sectionId: section.id,
+      sectionName: section.sectionName,
+      persuasionScore: section.persuasionScore,
+    })),
+    analyzedSections: written.length,
+    totalSections: project.sections.length,
+    analyzedAt: new Date().toISOString(),
+  };
+
+  await prisma.vSLProject.update({
+    where: { id: projectId },
+    data: {
+      analysisScore: aggregatedScore,
+      analysisReport: report as any,
+      analyzedAt: new Date(report.analyzedAt),
+    },
+  });
+
+  logger.info(
+    `📊 VSL project ${projectId} analyzed: ${aggregatedScore}/100 (${consistencyIssues.length} consistency issues)`
+  );
+
+  return report;
+}
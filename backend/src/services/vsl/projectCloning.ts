@@ -0,0 +1,286 @@
+/**
+ * VSL Project Cloning
+ *
+ * Deep-copies a project with its sections, detailed scripts, section
+ * videos and continuity bible so a winning VSL can be reused in another
+ * market. Generated media
+ * is not copied: clips start as pending, without results, thumbnails,
+ * Lambda jobs or reference images.
+ *
+ * With a target language, the VSL Specialist translates each section's
+ * content and its clips' voice and example lines (one call per section).
+ * Visual prompts stay in English for the video models. Section narration
+ * estimates are redone for the new language and clip durations re-fitted
+ * to the translated voice lines within the same section duration.
+ *
+ * Translation runs before anything is written: if a section fails, no
+ * clone is created.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+import { AgentManager } from '../../agents/index.js';
+import {
+  estimateNarration,
+  estimateNarrationSeconds,
+  formatClipTime,
+  isNarrationLanguage,
+  NARRATION_LANGUAGES,
+} from '../../utils/narrationTiming.js';
+import { fitClipDurations } from '../../utils/clipPlanning.js';
+import { getVideoModelLimits } from '../../utils/videoModelLimits.js';
+import { buildClipPrompt } from '../../utils/clipPrompt.js';
+import { countWords } from './sectionRevisions.js';
+
+export interface ProjectCloneOptions {
+  language?: string; // Target narration language (translates when it differs)
+  projectName?: string;
+  userId?: string;
+}
+
+// Row data of one copied section and its detailed script
+interface SectionCopy {
+  section: Record<string, unknown>;
+  script: (Record<string, unknown> & { videos: Array<Record<string, unknown>> }) | null;
+}
+
+/**
+ * Raised for invalid clone requests.
+ */
+export class ProjectCloneError extends HttpError {}
+
+/**
+ * Translate a section's texts; returns id → translated text
+ */
+async function translateSection(
+  agentManager: AgentManager,
+  project: { id: string; language: string },
+  section: { id: string; sectionName: string },
+  targetLanguage: string,
+  texts: Array<{ id: string; text: string }>
+): Promise<Map<string, string>> {
+  if (texts.length === 0) return new Map();
+
+  const result = await agentManager.translateVSLCopy({
+    projectId: project.id,
+    sectionId: section.id,
+    sectionName: section.sectionName,
+    sourceLanguage: project.language,
+    targetLanguage,
+    texts,
+  });
+
+  if (!result.success || !result.data?.translations) {
+    throw new Error(`Translation of "${section.sectionName}" failed: ${result.message}`);
+  }
+
+  return new Map(
+    result.data.translations.map((translation: { id: string; text: string }) => [translation.id, translation.text])
+  );
+}
+
+export async function cloneProject(
+  agentManager: AgentManager,
+  projectId: string,
+  options: ProjectCloneOptions = {}
+) {
+  if (options.language !== undefined && !isNarrationLanguage(options.language)) {
+    throw new ProjectCloneError(
+      400,
+      `Invalid language. Must be one of: ${NARRATION_LANGUAGES.join(', ')}`
+    );
+  }
+
+  const project = await prisma.vSLProject.findUnique({
+    where: { id: projectId },
+    include: {
+      sections: {
+        orderBy: { sectionOrder: 'asc' },
+        include: {
+          detailedScript: {
+            include: { videos: { orderBy: { videoOrder: 'asc' } } },
+          },
+        },
+      },
+      continuityBible: true,
+    },
+  });
+
+  if (!project) {
+    throw new ProjectCloneError(404, 'Project not found');
+  }
+
+  const language: string = options.language || project.language;
+  const translate = language !== project.language;
+
+  // 1. Build the copied sections (translating first, nothing written yet)
+  const sections: SectionCopy[] = [];
+
+  for (const section of project.sections) {
+    const videos: any[] = section.detailedScript?.videos || [];
+
+    let translations = new Map<string, string>();
+    if (translate) {
+      const texts = [
+        { id: 'content', text: section.content },
+        ...videos.flatMap((video) => [
+          { id: `voice-${video.videoOrder}`, text: video.voice },
+          { id: `example-${video.videoOrder}`, text: video.example },
+        ]),
+      ].filter((text) => text.text.trim() !== '');
+
+      translations = await translateSection(agentManager, project, section, language, texts);
+      logger.info(`🌐 Translated "${section.sectionName}" to ${language} (${texts.length} texts)`);
+    }
+
+    const content = translations.get('content') ?? section.content;
+
+    let clips = videos.map((video) => ({
+      video,
+      voice: translations.get(`voice-${video.videoOrder}`) ?? video.voice,
+      example: translations.get(`example-${video.videoOrder}`) ?? video.example,
+      duration: video.duration as number,
+    }));
+
+    // Re-fit clip durations to the translated narration, same section length
+    // and clip lengths the model accepts
+    const narrationSeconds = clips.map((clip) => estimateNarration(clip.voice, language).exactSeconds);
+    if (translate && section.detailedScript && clips.length > 0) {
+      const durations = fitClipDurations(
+        narrationSeconds,
+        section.detailedScript.totalDuration,
+        getVideoModelLimits(videos[0].modelId)
+      );
+      clips = clips.map((clip, index) => ({ ...clip, duration: durations[index] }));
+    }
+
+    let currentTime = 0;
+    const videoData = clips.map(({ video, voice, example, duration }, index) => {
+      const startTime = formatClipTime(currentTime);
+      currentTime += duration;
+
+      return {
+        videoOrder: video.videoOrder,
+        startTime,
+        endTime: formatClipTime(currentTime),
+        duration,
+        partName: video.partName,
+        step: video.step,
+        objective: video.objective,
+        voice,
+        example,
+        visual: video.visual,
+        continuity: video.continuity ?? undefined, // Same entry ids in the cloned bible
+        modelId: video.modelId,
+        seed: video.seed,
+        generationParams: {
+          ...(video.generationParams as Record<string, unknown>),
+          optimizedPrompt: buildClipPrompt({ visual: video.visual, voice }),
+          narrationDuration: narrationSeconds[index],
+          duration,
+        },
+        status: 'pending',
+      };
+    });
+
+    sections.push({
+      section: {
+        sectionName: section.sectionName,
+        sectionOrder: section.sectionOrder,
+        content,
+        // Suggestions and hooks are copy in the source language
+        aiSuggestion: translate ? null : section.aiSuggestion,
+        hooks: translate ? [] : section.hooks,
+        persuasionScore: section.persuasionScore,
+        strengths: section.strengths,
+        weaknesses: section.weaknesses,
+        improvements: section.improvements,
+        wordCount: countWords(content),
+        characterCount: content.length,
+        estimatedDuration: estimateNarrationSeconds(content, language),
+      },
+      script: section.detailedScript
+        ? {
+            language,
+            totalDuration: section.detailedScript.totalDuration,
+            videoCount: videoData.length,
+            narrativeFramework: section.detailedScript.narrativeFramework,
+            aiGenerated: section.detailedScript.aiGenerated,
+            generatedBy: section.detailedScript.generatedBy,
+            videos: videoData,
+          }
+        : null,
+    });
+  }
+
+  // 2. Write the clone
+  const cloneId = await prisma.$transaction(async (tx) => {
+    const clone = await tx.vSLProject.create({
+      data: {
+        userId: options.userId ?? project.userId,
+        projectName:
+          options.projectName || `${project.projectName} (${translate ? language : 'copy'})`,
+        templateId: project.templateId,
+        productService: project.productService,
+        targetAudience: project.targetAudience,
+        mainProblem: project.mainProblem,
+        priceOffer: project.priceOffer,
+        tone: project.tone,
+        language,
+        brandVoiceId: project.brandVoiceId,
+        status: project.status,
+        persuasionScore: project.persuasionScore,
+        totalSections: project.totalSections,
+        completedSections: project.completedSections,
+      },
+    });
+
+    if (project.continuityBible) {
+      const { characters, locations, wardrobe, palette, notes } = project.continuityBible;
+      await tx.continuityBible.create({
+        data: { projectId: clone.id, characters, locations, wardrobe, palette, notes },
+      });
+    }
+
+    for (const { section, script } of sections) {
+      const createdSection = await tx.vSLSection.create({
+        data: { ...section, projectId: clone.id },
+      });
+
+      if (script) {
+        const { videos, ...scriptData } = script;
+        await tx.sectionDetailedScript.create({
+          data: {
+            ...scriptData,
+            projectId: clone.id,
+            sectionId: createdSection.id,
+            videos: { create: videos },
+          },
+        });
+      }
+    }
+
+    return clone.id;
+  });
+
+  logger.info(
+    `📑 Project ${projectId} cloned as ${cloneId}${translate ? ` (translated to ${language})` : ''}`
+  );
+
+  const clone = await prisma.vSLProject.findUnique({
+    where: { id: cloneId },
+    include: {
+      sections: {
+        orderBy: { sectionOrder: 'asc' },
+        include: {
+          detailedScript: {
+            include: { videos: { orderBy: { videoOrder: 'asc' } } },
+          },
+        },
+      },
+    },
+  });
+
+  return { sourceProjectId: projectId, translated: translate, project: clone };
+}
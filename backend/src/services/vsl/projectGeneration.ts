@@ -0,0 +1,151 @@
+/**
+ * VSL Project Generation Service
+ *
+ * Generates every section of a VSL project in order (vsl.project.generate-all
+ * job). Each section sees the sections written before it, and the project's
+ * completedSections / persuasionScore are refreshed after every section so
+ * the editor can follow along through job:progress events.
+ *
+ * Sections that already have content are kept unless overwrite is set. A
+ * retried job skips sections it already regenerated, so a failure halfway
+ * does not redo (and re-bill) the whole project.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { AgentManager } from '../../agents/index.js';
+import { PermanentJobError } from '../queue/errors.js';
+import type { ProgressReporter, VSLProjectGeneratePayload } from '../queue/types.js';
+import { generateSectionContent } from './sectionGeneration.js';
+
+export interface GeneratedSectionSummary {
+  sectionId: string;
+  sectionName: string;
+  status: 'generated' | 'skipped';
+  persuasionScore: number;
+}
+
+export interface ProjectGenerationResult {
+  projectId: string;
+  sections: GeneratedSectionSummary[];
+  completedSections: number;
+  totalSections: number;
+  persuasionScore: number;
+}
+
+/**
+ * Recompute completedSections, persuasionScore (average of written
+ * sections) and status from the project's sections
+ */
+export async function updateProjectProgress(projectId: string) {
+  const sections: Array<{ content: string; persuasionScore: number }> =
+    await prisma.vSLSection.findMany({
+      where: { projectId },
+      select: { content: true, persuasionScore: true },
+    });
+
+  const written = sections.filter((section) => section.content.trim() !== '');
+  const persuasionScore = written.length
+    ? Math.round(written.reduce((sum, section) => sum + section.persuasionScore, 0) / written.length)
+    : 0;
+
+  return prisma.vSLProject.update({
+    where: { id: projectId },
+    data: {
+      completedSections: written.length,
+      totalSections: sections.length,
+      persuasionScore,
+      status: written.length === 0
+        ? 'draft'
+        : written.length === sections.length ? 'completed' : 'in_progress',
+    },
+  });
+}
+
+export async function generateProjectContent(
+  agentManager: AgentManager,
+  payload: VSLProjectGeneratePayload,
+  reportProgress: ProgressReporter = async () => {},
+  startedAt?: Date // Sections updated after this were done by an earlier attempt
+): Promise<ProjectGenerationResult> {
+  const project = await prisma.vSLProject.findUnique({
+    where: { id: payload.projectId },
+    include: {
+      sections: {
+        orderBy: { sectionOrder: 'asc' },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new PermanentJobError(`Project not found: ${payload.projectId}`);
+  }
+
+  if (project.sections.length === 0) {
+    throw new PermanentJobError(`Project has no sections: ${payload.projectId}`);
+  }
+
+  const total = project.sections.length;
+  const summaries: GeneratedSectionSummary[] = [];
+
+  // Sections done so far -> job progress (100 is reported by the queue)
+  const percent = (sectionsDone: number) => Math.min(99, Math.round((sectionsDone / total) * 100));
+
+  logger.info(`📚 Generating ${total} sections for VSL project ${project.id}`);
+
+  for (const [index, section] of project.sections.entries()) {
+    const hasContent = section.content.trim() !== '';
+    const doneThisJob = startedAt !== undefined && section.updatedAt >= startedAt;
+
+    if (hasContent && (!payload.overwrite || doneThisJob)) {
+      summaries.push({
+        sectionId: section.id,
+        sectionName: section.sectionName,
+        status: 'skipped',
+        persuasionScore: section.persuasionScore,
+      });
+      await reportProgress(
+        percent(index + 1),
+        `Section ${index + 1}/${total} (${section.sectionName}) kept`
+      );
+      continue;
+    }
+
+    // Map the section's own 0-100 progress into its slice of the job
+    const sectionProgress: ProgressReporter = (progress, message) =>
+      reportProgress(
+        percent(index + progress / 100),
+        `Section ${index + 1}/${total} (${section.sectionName}): ${message || 'generating'}`
+      );
+
+    const updated = await generateSectionContent(agentManager, section.id, sectionProgress);
+    const projectState = await updateProjectProgress(project.id);
+
+    summaries.push({
+      sectionId: section.id,
+      sectionName: section.sectionName,
+      status: 'generated',
+      persuasionScore: updated.persuasionScore,
+    });
+
+    await reportProgress(
+      percent(index + 1),
+      `Section ${index + 1}/${total} (${section.sectionName}) generated - ` +
+        `${projectState.completedSections}/${total} complete, score ${projectState.persuasionScore}`
+    );
+  }
+
+  const finalState = await updateProjectProgress(project.id);
+
+  logger.info(
+    `✅ VSL project ${project.id} generated: ${finalState.completedSections}/${total} sections, score ${finalState.persuasionScore}`
+  );
+
+  return {
+    projectId: project.id,
+    sections: summaries,
+    completedSections: finalState.completedSections,
+    totalSections: finalState.totalSections,
+    persuasionScore: finalState.persuasionScore,
+  };
+}
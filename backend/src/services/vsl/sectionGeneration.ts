@@ -0,0 +1,92 @@
+/**
+ * VSL Section Generation Service
+ *
+ * Generates a section's content with the VSL Specialist and stores the
+ * result as a new section revision. Earlier sections of the project that
+ * already have content are passed along for narrative continuity. Runs
+ * inside the job queue workers (vsl.section.generate,
+ * vsl.project.generate-all).
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { AgentManager, AgentRole } from '../../agents/index.js';
+import { PermanentJobError } from '../queue/errors.js';
+import type { ProgressReporter } from '../queue/types.js';
+import { saveSectionContent } from './sectionRevisions.js';
+import { getTemplateContext } from './templates.js';
+import { getBrandVoiceContext } from '../brandVoice/brandVoiceProfiles.js';
+
+export async function generateSectionContent(
+  agentManager: AgentManager,
+  sectionId: string,
+  reportProgress: ProgressReporter = async () => {}
+) {
+  const section = await prisma.vSLSection.findUnique({
+    where: { id: sectionId },
+    include: {
+      project: true,
+    },
+  });
+
+  if (!section) {
+    throw new PermanentJobError(`Section not found: ${sectionId}`);
+  }
+
+  const previousSections = await prisma.vSLSection.findMany({
+    where: {
+      projectId: section.projectId,
+      sectionOrder: { lt: section.sectionOrder },
+      NOT: { content: '' },
+    },
+    orderBy: { sectionOrder: 'asc' },
+    select: { sectionName: true, content: true },
+  });
+
+  await reportProgress(10, `Generating ${section.sectionName}`);
+
+  // Call VSL Specialist Agent to generate content
+  const result = await agentManager.generateVSLContent({
+    projectId: section.projectId,
+    sectionId: section.id,
+    templateId: section.project.templateId,
+    template: await getTemplateContext(section.project.templateId, section.sectionName),
+    brandVoice: await getBrandVoiceContext(section.project.brandVoiceId),
+    sectionName: section.sectionName,
+    userContext: {
+      productService: section.project.productService || undefined,
+      targetAudience: section.project.targetAudience || undefined,
+      mainProblem: section.project.mainProblem || undefined,
+      priceOffer: section.project.priceOffer || undefined,
+      tone: section.project.tone,
+    },
+    previousSections,
+    requestType: 'generate',
+    stream: true, // Partial tokens go to the novela:<projectId> room
+  });
+
+  if (!result.success || !result.data?.sectionContent) {
+    throw new Error(result.message || 'Failed to generate content');
+  }
+
+  await reportProgress(90, 'Saving section content');
+
+  // Update section with AI-generated content (kept as a new revision)
+  const { section: updatedSection } = await saveSectionContent(
+    sectionId,
+    {
+      content: result.data.sectionContent.content,
+      persuasionScore: result.data.sectionContent.persuasionScore,
+      hooks: result.data.sectionContent.hooks,
+      strengths: result.data.persuasionAnalysis?.strengths || [],
+      weaknesses: result.data.persuasionAnalysis?.weaknesses || [],
+      improvements: result.data.sectionContent.improvements,
+    },
+    { type: 'agent', id: AgentRole.VSL_SPECIALIST },
+    'generate'
+  );
+
+  logger.info(`✅ Section content generated: ${sectionId}`);
+
+  return updatedSection;
+}
@@ -0,0 +1,248 @@
+/**
+ * VSL Section Revisions
+ *
+ * Every content change of a section (manual edit, agent generation or
+ * improvement, restore) goes through saveSectionContent, which updates the
+ * section and appends an immutable revision in one transaction. Sections
+ * edited before revisions existed get their current copy snapshotted
+ * first, so the first AI rewrite never destroys it.
+ *
+ * Any change that isn't a variant activation deactivates the section's
+ * active A/B variant, since the section no longer holds its copy.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+import { diffWords, WordDiffResult } from '../../utils/wordDiff.js';
+import { estimateNarrationSeconds } from '../../utils/narrationTiming.js';
+
+export type RevisionAuthorType = 'user' | 'agent' | 'system';
+
+export type RevisionSource =
+  | 'snapshot'
+  | 'manual'
+  | 'generate'
+  | 'improve'
+  | 'restore'
+  | 'variant';
+
+export interface RevisionAuthor {
+  type: RevisionAuthorType;
+  id?: string; // User id or agent role
+}
+
+/**
+ * Fields written to the section. Analysis fields that are omitted keep
+ * their current value.
+ */
+export interface SectionContentUpdate {
+  content: string;
+  persuasionScore?: number;
+  aiSuggestion?: string | null;
+  strengths?: string[];
+  weaknesses?: string[];
+  improvements?: string[];
+  hooks?: string[];
+}
+
+/**
+ * Raised for unknown sections/revisions (a 404)
+ */
+export class RevisionNotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, message);
+  }
+}
+
+export function countWords(content: string): number {
+  const trimmed = content.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Update a section's content and record the change as a new revision
+ */
+export async function saveSectionContent(
+  sectionId: string,
+  update: SectionContentUpdate,
+  author: RevisionAuthor,
+  source: RevisionSource,
+  restoredFromId?: string
+) {
+  return prisma.$transaction(async (tx) => {
+    const section = await tx.vSLSection.findUnique({
+      where: { id: sectionId },
+      include: { project: { select: { language: true } } },
+    });
+
+    if (!section) {
+      throw new RevisionNotFoundError(`Section not found: ${sectionId}`);
+    }
+
+    const latest = await tx.vSLSectionRevision.findFirst({
+      where: { sectionId },
+      orderBy: { revisionNumber: 'desc' },
+      select: { revisionNumber: true },
+    });
+
+    let revisionNumber = latest?.revisionNumber || 0;
+
+    // Preserve copy written before revision history existed
+    if (!latest && section.content.trim()) {
+      revisionNumber += 1;
+      await tx.vSLSectionRevision.create({
+        data: {
+          sectionId,
+          revisionNumber,
+          content: section.content,
+          aiSuggestion: section.aiSuggestion,
+          persuasionScore: section.persuasionScore,
+          strengths: section.strengths,
+          weaknesses: section.weaknesses,
+          improvements: section.improvements,
+          hooks: section.hooks,
+          wordCount: section.wordCount,
+          authorType: 'system',
+          source: 'snapshot',
+        },
+      });
+    }
+
+    if (source !== 'variant') {
+      await tx.vSLSectionVariant.updateMany({
+        where: { sectionId, isActive: true },
+        data: { isActive: false },
+      });
+    }
+
+    const wordCount = countWords(update.content);
+
+    const updatedSection = await tx.vSLSection.update({
+      where: { id: sectionId },
+      data: {
+        ...update,
+        wordCount,
+        characterCount: update.content.length,
+        estimatedDuration: estimateNarrationSeconds(update.content, section.project.language),
+      },
+    });
+
+    const revision = await tx.vSLSectionRevision.create({
+      data: {
+        sectionId,
+        revisionNumber: revisionNumber + 1,
+        content: updatedSection.content,
+        aiSuggestion: updatedSection.aiSuggestion,
+        persuasionScore: updatedSection.persuasionScore,
+        strengths: updatedSection.strengths,
+        weaknesses: updatedSection.weaknesses,
+        improvements: updatedSection.improvements,
+        hooks: updatedSection.hooks,
+        wordCount,
+        authorType: author.type,
+        authorId: author.id,
+        source,
+        restoredFromId,
+      },
+    });
+
+    logger.info(
+      `📝 Section ${sectionId} revision ${revision.revisionNumber} (${source} by ${author.id || author.type})`
+    );
+
+    return { section: updatedSection, revision };
+  });
+}
+
+/**
+ * Revisions of a section, newest first (content omitted)
+ */
+export async function listSectionRevisions(sectionId: string) {
+  return prisma.vSLSectionRevision.findMany({
+    where: { sectionId },
+    orderBy: { revisionNumber: 'desc' },
+    select: {
+      id: true,
+      revisionNumber: true,
+      persuasionScore: true,
+      wordCount: true,
+      authorType: true,
+      authorId: true,
+      source: true,
+      restoredFromId: true,
+      createdAt: true,
+    },
+  });
+}
+
+export async function getSectionRevision(sectionId: string, revisionId: string) {
+  const revision = await prisma.vSLSectionRevision.findFirst({
+    where: { id: revisionId, sectionId },
+  });
+
+  if (!revision) {
+    throw new RevisionNotFoundError(`Revision not found: ${revisionId}`);
+  }
+
+  return revision;
+}
+
+/**
+ * Word-level diff between two revisions. Without toId the latest
+ * revision is used.
+ */
+export async function diffSectionRevisions(
+  sectionId: string,
+  fromId: string,
+  toId?: string
+): Promise<{
+  from: { id: string; revisionNumber: number };
+  to: { id: string; revisionNumber: number };
+} & WordDiffResult> {
+  const from = await getSectionRevision(sectionId, fromId);
+  const to = toId
+    ? await getSectionRevision(sectionId, toId)
+    : await prisma.vSLSectionRevision.findFirst({
+        where: { sectionId },
+        orderBy: { revisionNumber: 'desc' },
+      });
+
+  if (!to) {
+    throw new RevisionNotFoundError(`Section has no revisions: ${sectionId}`);
+  }
+
+  return {
+    from: { id: from.id, revisionNumber: from.revisionNumber },
+    to: { id: to.id, revisionNumber: to.revisionNumber },
+    ...diffWords(from.content, to.content),
+  };
+}
+
+/**
+ * Make an earlier revision current again. The restore is itself a new
+ * revision, so history is never rewritten.
+ */
+export async function restoreSectionRevision(
+  sectionId: string,
+  revisionId: string,
+  author: RevisionAuthor
+) {
+  const revision = await getSectionRevision(sectionId, revisionId);
+
+  return saveSectionContent(
+    sectionId,
+    {
+      content: revision.content,
+      persuasionScore: revision.persuasionScore,
+      aiSuggestion: revision.aiSuggestion,
+      strengths: revision.strengths,
+      weaknesses: revision.weaknesses,
+      improvements: revision.improvements,
+      hooks: revision.hooks,
+    },
+    author,
+    'restore',
+    revision.id
+  );
+}
@@ -0,0 +1,322 @@
+/**
+ * VSL Section Variants (A/B copy)
+ *
+ * The VSL Specialist writes alternative versions of a section, each from a
+ * distinct angle and scored on its own. Variants are stored side by side
+ * (labelled A, B, C...); the first generation also keeps the current copy
+ * as variant A so it can be compared against the challengers.
+ *
+ * Activating a variant copies it into the section content (as a 'variant'
+ * revision), so it is what ScriptDetailAgent and every later step read.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError } from '../../utils/httpError.js';
+import { AgentManager, VSLVariantComparison } from '../../agents/index.js';
+import { saveSectionContent, countWords, RevisionAuthor } from './sectionRevisions.js';
+import { getTemplateContext } from './templates.js';
+import { getBrandVoiceContext } from '../brandVoice/brandVoiceProfiles.js';
+
+export const MAX_VARIANTS_PER_REQUEST = 5;
+export const MAX_VARIANTS_PER_SECTION = 10;
+
+export interface GenerateVariantsOptions {
+  count?: number; // Default 2
+  angles?: string[];
+}
+
+export interface VariantComparisonReport extends VSLVariantComparison {
+  variants: Array<{
+    id: string;
+    label: string;
+    angle: string;
+    persuasionScore: number;
+    scoreDelta: number; // Versus the highest-scoring variant
+    wordCount: number;
+    isActive: boolean;
+  }>;
+}
+
+/**
+ * Raised for invalid variant operations.
+ */
+export class VariantError extends HttpError {}
+
+/**
+ * A, B, ... Z, AA, AB ...
+ */
+function labelFor(index: number): string {
+  let label = '';
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+}
+
+/**
+ * Inverse of labelFor; -1 for labels it doesn't produce
+ */
+function labelIndex(label: string): number {
+  if (!/^[A-Z]+$/.test(label)) return -1;
+  return [...label].reduce((index, char) => (index + 1) * 26 + char.charCodeAt(0) - 65, -1);
+}
+
+async function getSectionWithProject(sectionId: string) {
+  const section = await prisma.vSLSection.findUnique({
+    where: { id: sectionId },
+    include: { project: true },
+  });
+
+  if (!section) {
+    throw new VariantError(404, 'Section not found');
+  }
+
+  return section;
+}
+
+export async function listSectionVariants(sectionId: string) {
+  return prisma.vSLSectionVariant.findMany({
+    where: { sectionId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Generate new variants for a section and store them next to the existing ones
+ */
+export async function generateSectionVariants(
+  agentManager: AgentManager,
+  sectionId: string,
+  options: GenerateVariantsOptions = {}
+) {
+  const count = options.count ?? 2;
+
+  if (!Number.isInteger(count) || count < 1 || count > MAX_VARIANTS_PER_REQUEST) {
+    throw new VariantError(400, `count must be between 1 and ${MAX_VARIANTS_PER_REQUEST}`);
+  }
+
+  const section = await getSectionWithProject(sectionId);
+  const existing = await prisma.vSLSectionVariant.count({ where: { sectionId } });
+  const keepCurrent = existing === 0 && section.content.trim() !== '';
+
+  if (existing + count + (keepCurrent ? 1 : 0) > MAX_VARIANTS_PER_SECTION) {
+    throw new VariantError(
+      409,
+      `A section can have at most ${MAX_VARIANTS_PER_SECTION} variants (${existing} stored)`
+    );
+  }
+
+  const result = await agentManager.generateVSLVariants({
+    projectId: section.projectId,
+    sectionId: section.id,
+    templateId: section.project.templateId,
+    template: await getTemplateContext(section.project.templateId, section.sectionName),
+    brandVoice: await getBrandVoiceContext(section.project.brandVoiceId),
+    sectionName: section.sectionName,
+    userContext: {
+      productService: section.project.productService || undefined,
+      targetAudience: section.project.targetAudience || undefined,
+      mainProblem: section.project.mainProblem || undefined,
+      priceOffer: section.project.priceOffer || undefined,
+      tone: section.project.tone,
+    },
+    currentContent: section.content || undefined,
+    count,
+    angles: options.angles,
+  });
+
+  if (!result.success || !result.data?.variants?.length) {
+    throw new Error(result.message || 'Failed to generate variants');
+  }
+
+  const drafts = result.data.variants;
+
+  const created = await prisma.$transaction(async (tx) => {
+    // Serialize generations for the section; labels continue after the
+    // highest one stored, as deleted variants leave gaps
+    await tx.$queryRaw`SELECT id FROM "vsl_frontend"."vsl_sections" WHERE id = ${sectionId} FOR UPDATE`;
+    const stored = await tx.vSLSectionVariant.findMany({
+      where: { sectionId },
+      select: { label: true },
+    });
+    let index = Math.max(-1, ...stored.map((variant: { label: string }) => labelIndex(variant.label))) + 1;
+    const rows = [];
+
+    // Keep the current copy as the control (variant A, active)
+    if (keepCurrent && stored.length === 0) {
+      rows.push(
+        await tx.vSLSectionVariant.create({
+          data: {
+            sectionId,
+            label: labelFor(index++),
+            angle: 'Original',
+            content: section.content,
+            hooks: section.hooks,
+            persuasionScore: section.persuasionScore,
+            strengths: section.strengths,
+            weaknesses: section.weaknesses,
+            recommendations: section.improvements,
+            wordCount: countWords(section.content),
+            isActive: true,
+          },
+        })
+      );
+    }
+
+    for (const draft of drafts) {
+      rows.push(
+        await tx.vSLSectionVariant.create({
+          data: {
+            sectionId,
+            label: labelFor(index++),
+            angle: draft.angle,
+            content: draft.content,
+            hooks: draft.hooks,
+            persuasionScore: draft.persuasionScore,
+            strengths: draft.strengths,
+            weaknesses: draft.weaknesses,
+            recommendations: draft.recommendations,
+            wordCount: countWords(draft.content),
+          },
+        })
+      );
+    }
+
+    return rows;
+  });
+
+  logger.info(`🅰️ ${drafts.length} variants generated for section ${sectionId}`);
+
+  return created;
+}
+
+/**
+ * Make a variant the section's copy
+ */
+export async function activateSectionVariant(
+  sectionId: string,
+  variantId: string,
+  author: RevisionAuthor
+) {
+  const variant = await prisma.vSLSectionVariant.findFirst({
+    where: { id: variantId, sectionId },
+  });
+
+  if (!variant) {
+    throw new VariantError(404, 'Variant not found');
+  }
+
+  const { section, revision } = await saveSectionContent(
+    sectionId,
+    {
+      content: variant.content,
+      persuasionScore: variant.persuasionScore,
+      hooks: variant.hooks,
+      strengths: variant.strengths,
+      weaknesses: variant.weaknesses,
+      improvements: variant.recommendations,
+    },
+    author,
+    'variant'
+  );
+
+  await prisma.$transaction([
+    prisma.vSLSectionVariant.updateMany({
+      where: { sectionId, isActive: true, NOT: { id: variantId } },
+      data: { isActive: false },
+    }),
+    prisma.vSLSectionVariant.update({
+      where: { id: variantId },
+      data: { isActive: true },
+    }),
+  ]);
+
+  logger.info(`🅰️ Variant ${variant.label} is now active for section ${sectionId}`);
+
+  return { section, revision, variant: { ...variant, isActive: true } };
+}
+
+export async function deleteSectionVariant(sectionId: string, variantId: string): Promise<void> {
+  const variant = await prisma.vSLSectionVariant.findFirst({
+    where: { id: variantId, sectionId },
+  });
+
+  if (!variant) {
+    throw new VariantError(404, 'Variant not found');
+  }
+
+  if (variant.isActive) {
+    throw new VariantError(409, 'The active variant cannot be deleted. Activate another one first.');
+  }
+
+  await prisma.vSLSectionVariant.delete({ where: { id: variantId } });
+}
+
+/**
+ * Compare variants (all, or the given ids) and explain score differences
+ */
+export async function compareSectionVariants(
+  agentManager: AgentManager,
+  sectionId: string,
+  variantIds?: string[]
+): Promise<VariantComparisonReport> {
+  const section = await getSectionWithProject(sectionId);
+
+  const variants: Array<{
+    id: string;
+    label: string;
+    angle: string;
+    content: string;
+    persuasionScore: number;
+    wordCount: number;
+    isActive: boolean;
+  }> = await prisma.vSLSectionVariant.findMany({
+    where: {
+      sectionId,
+      ...(variantIds?.length && { id: { in: variantIds } }),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (variants.length < 2) {
+    throw new VariantError(400, 'At least two variants are needed for a comparison');
+  }
+
+  const result = await agentManager.compareVSLVariants({
+    projectId: section.projectId,
+    sectionId,
+    sectionName: section.sectionName,
+    templateId: section.project.templateId,
+    template: await getTemplateContext(section.project.templateId, section.sectionName),
+    variants: variants.map((variant) => ({
+      label: variant.label,
+      angle: variant.angle,
+      content: variant.content,
+      persuasionScore: variant.persuasionScore,
+    })),
+  });
+
+  if (!result.success || !result.data?.variantComparison) {
+    throw new Error(result.message || 'Failed to compare variants');
+  }
+
+  const bestScore = Math.max(...variants.map((variant) => variant.persuasionScore));
+
+  return {
+    ...result.data.variantComparison,
+    variants: variants
+      .map((variant) => ({
+        id: variant.id,
+        label: variant.label,
+        angle: variant.angle,
+        persuasionScore: variant.persuasionScore,
+        scoreDelta: variant.persuasionScore - bestScore,
+        wordCount: variant.wordCount,
+        isActive: variant.isActive,
+      }))
+      .sort((a, b) => b.persuasionScore - a.persuasionScore),
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * VSL Templates
+ *
+ * A template defines the ordered sections of a VSL, per-section guidance
+ * and target durations, and the framework description the VSL Specialist
+ * writes against. The four built-in frameworks (pas, aida, story,
+ * authority) are read-only; custom templates live in vsl_templates and
+ * can start as a clone of a built-in one.
+ *
+ * VSLProject.templateId holds either a built-in key or a custom template id.
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { HttpError, parseInput } from '../../utils/httpError.js';
+import type { VSLTemplateContext } from '../../agents/index.js';
+
+export interface VSLTemplateSection {
+  name: string;
+  guidance?: string; // What this section must achieve
+  targetDuration?: number; // Seconds
+}
+
+export interface VSLTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  framework: string; // Framework description for the VSL Specialist system prompt
+  sections: VSLTemplateSection[];
+  builtIn: boolean;
+  userId: string | null;
+  clonedFrom: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const BUILT_IN_TEMPLATES: VSLTemplate[] = [
+  {
+    id: 'pas',
+    name: 'PAS (Problem-Agitate-Solution)',
+    description: 'Name the pain, make it hurt, present the product as the answer',
+    framework: 'PAS (Problem-Agitate-Solution): identify a specific, relatable problem, amplify the pain and the consequences of inaction, then present the product as the perfect answer.',
+    sections: [
+      { name: 'Problem', guidance: 'Identify a specific, relatable problem' },
+      { name: 'Agitate', guidance: 'Amplify the pain, show the consequences of inaction' },
+      { name: 'Solution', guidance: 'Present the product as the perfect answer' },
+    ],
+    builtIn: true,
+    userId: null,
+    clonedFrom: null,
+  },
+  {
+    id: 'aida',
+    name: 'AIDA (Attention-Interest-Desire-Action)',
+    description: 'Classic funnel from hook to call-to-action',
+    framework: 'AIDA (Attention-Interest-Desire-Action): hook with a bold claim or question, show what is possible and build curiosity, create emotional want through proof and benefits, close with a clear CTA with urgency.',
+    sections: [
+      { name: 'Attention', guidance: 'Hook with a bold claim or question' },
+      { name: 'Interest', guidance: "Show what's possible, build curiosity" },
+      { name: 'Desire', guidance: 'Create emotional want through proof/benefits' },
+      { name: 'Action', guidance: 'Clear CTA with urgency' },
+    ],
+    builtIn: true,
+    userId: null,
+    clonedFrom: null,
+  },
+  {
+    id: 'story',
+    name: 'Story (Personal Journey)',
+    description: 'Founder or customer journey that ends in the offer',
+    framework: 'STORY (Personal Journey): an authentic personal struggle, the path of discovery and its obstacles, a dramatic before/after transformation, then sharing the solution that created it.',
+    sections: [
+      { name: 'Story', guidance: 'Authentic personal struggle' },
+      { name: 'Journey', guidance: 'Path of discovery and obstacles' },
+      { name: 'Transform', guidance: 'Dramatic before/after results' },
+      { name: 'Offer', guidance: 'Share the solution that created the transformation' },
+    ],
+    builtIn: true,
+    userId: null,
+    clonedFrom: null,
+  },
+  {
+    id: 'authority',
+    name: 'Authority (Expert-Driven Proof)',
+    description: 'Lead with credentials and evidence',
+    framework: 'AUTHORITY (Expert-Driven Proof): establish expertise and authority, concrete success stories and metrics, social proof, testimonials and data, then exclusive access to the proven system.',
+    sections: [
+      { name: 'Credentials', guidance: 'Establish expertise and authority' },
+      { name: 'Cases', guidance: 'Concrete success stories and metrics' },
+      { name: 'Proof', guidance: 'Social proof, testimonials, data' },
+      { name: 'Offer', guidance: 'Exclusive access to the proven system' },
+    ],
+    builtIn: true,
+    userId: null,
+    clonedFrom: null,
+  },
+];
+
+const sectionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  guidance: z.string().max(2000).optional(),
+  targetDuration: z.number().int().positive().max(3600).optional(),
+});
+
+const templateInputSchema = z.object({
+  userId: z.string().optional(),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  framework: z.string().trim().min(1).max(10000),
+  sections: z
+    .array(sectionSchema)
+    .min(1)
+    .max(20)
+    .refine(
+      (sections) => new Set(sections.map((s) => s.name.toLowerCase())).size === sections.length,
+      'Section names must be unique'
+    ),
+});
+
+const templateUpdateSchema = templateInputSchema.omit({ userId: true }).partial();
+
+export type VSLTemplateInput = z.infer<typeof templateInputSchema>;
+export type VSLTemplateUpdate = z.infer<typeof templateUpdateSchema>;
+
+/**
+ * Raised for invalid template operations (unknown id, editing a built-in,
+ * deleting a template in use)
+ */
+export class TemplateError extends HttpError {}
+
+function isBuiltIn(templateId: string): boolean {
+  return BUILT_IN_TEMPLATES.some((template) => template.id === templateId);
+}
+
+function toTemplate(row: any): VSLTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    framework: row.framework,
+    sections: row.sections as VSLTemplateSection[],
+    builtIn: false,
+    userId: row.userId,
+    clonedFrom: row.clonedFrom,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Built-in templates plus custom ones (all, or one user's)
+ */
+export async function listTemplates(userId?: string): Promise<VSLTemplate[]> {
+  const rows = await prisma.vSLTemplate.findMany({
+    where: userId ? { userId } : {},
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return [...BUILT_IN_TEMPLATES, ...rows.map(toTemplate)];
+}
+
+/**
+ * Resolve a built-in key or custom template id (null if unknown)
+ */
+export async function findTemplate(templateId: string): Promise<VSLTemplate | null> {
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === templateId);
+  if (builtIn) {
+    return builtIn;
+  }
+
+  const row = await prisma.vSLTemplate.findUnique({ where: { id: templateId } });
+  return row ? toTemplate(row) : null;
+}
+
+export async function getTemplate(templateId: string): Promise<VSLTemplate> {
+  const template = await findTemplate(templateId);
+
+  if (!template) {
+    throw new TemplateError(404, `Template not found: ${templateId}`);
+  }
+
+  return template;
+}
+
+export async function createTemplate(rawInput: unknown): Promise<VSLTemplate> {
+  const input: VSLTemplateInput = parseInput(templateInputSchema, rawInput);
+
+  const row = await prisma.vSLTemplate.create({
+    data: {
+      userId: input.userId,
+      name: input.name,
+      description: input.description,
+      framework: input.framework,
+      sections: input.sections as any,
+    },
+  });
+
+  logger.info(`🧱 VSL template created: ${row.id} (${row.name})`);
+
+  return toTemplate(row);
+}
+
+export async function updateTemplate(
+  templateId: string,
+  rawUpdate: unknown
+): Promise<VSLTemplate> {
+  if (isBuiltIn(templateId)) {
+    throw new TemplateError(403, 'Built-in templates are read-only. Clone it to customize.');
+  }
+
+  await getTemplate(templateId);
+
+  const update: VSLTemplateUpdate = parseInput(templateUpdateSchema, rawUpdate);
+
+  const row = await prisma.vSLTemplate.update({
+    where: { id: templateId },
+    data: {
+      ...update,
+      ...(update.sections && { sections: update.sections as any }),
+    },
+  });
+
+  return toTemplate(row);
+}
+
+/**
+ * Delete a custom template that no project uses
+ */
+export async function deleteTemplate(templateId: string): Promise<void> {
+  if (isBuiltIn(templateId)) {
+    throw new TemplateError(403, 'Built-in templates cannot be deleted');
+  }
+
+  await getTemplate(templateId);
+
+  const projects = await prisma.vSLProject.count({ where: { templateId } });
+  if (projects > 0) {
+    throw new TemplateError(409, `Template is used by ${projects} project(s)`);
+  }
+
+  await prisma.vSLTemplate.delete({ where: { id: templateId } });
+}
+
+/**
+ * Copy a built-in or custom template into a new custom template
+ */
+export async function cloneTemplate(
+  templateId: string,
+  overrides: { name?: string; userId?: string } = {}
+): Promise<VSLTemplate> {
+  const source = await getTemplate(templateId);
+
+  const row = await prisma.vSLTemplate.create({
+    data: {
+      userId: overrides.userId ?? source.userId,
+      name: overrides.name || `${source.name} (copy)`,
+      description: source.description,
+      framework: source.framework,
+      sections: source.sections as any,
+      clonedFrom: source.id,
+    },
+  });
+
+  logger.info(`🧱 VSL template ${source.id} cloned to ${row.id}`);
+
+  return toTemplate(row);
+}
+
+/**
+ * Template details passed to the VSL Specialist for one section.
+ * Unknown templates (e.g. deleted) fall back to the template id alone.
+ */
+export async function getTemplateContext(
+  templateId: string,
+  sectionName: string
+): Promise<VSLTemplateContext> {
+  const template = await findTemplate(templateId);
+
+  if (!template) {
+    return { id: templateId, name: templateId.toUpperCase(), builtIn: false };
+  }
+
+  const section = template.sections.find(
+    (candidate) => candidate.name.toLowerCase() === sectionName.toLowerCase()
+  );
+
+  return {
+    id: template.id,
+    name: template.builtIn ? template.id.toUpperCase() : template.name,
+    builtIn: template.builtIn,
+    framework: template.builtIn ? undefined : template.framework, // Built-ins are in the system prompt
+    sectionNames: template.sections.map((candidate) => candidate.name),
+    section,
+  };
+}
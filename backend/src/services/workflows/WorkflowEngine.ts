@@ -0,0 +1,504 @@
+/**
+ * WorkflowEngine - Executes declarative step graphs
+ *
+ * Steps run once all of their dependencies have completed. State is
+ * written to workflow_runs after every transition, so runs interrupted by
+ * a restart are picked up again by resumeInterrupted().
+ *
+ * Events:
+ * - run:updated (WorkflowRunView) - emitted on every step transition
+ */
+
+import { EventEmitter } from 'events';
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { zodIssues } from '../../utils/httpError.js';
+import { WorkflowError } from './errors.js';
+import {
+  WorkflowDefinition,
+  WorkflowRunStatus,
+  WorkflowRunView,
+  WorkflowStepOf,
+  WorkflowStepState,
+  WorkflowWait,
+} from './types.js';
+
+const DEFAULT_STEP_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 2000;
+
+interface LoadedRun {
+  id: string;
+  workflowId: string;
+  contextId: string | null;
+  status: WorkflowRunStatus;
+  input: any;
+  steps: Record<string, WorkflowStepState>;
+}
+
+export class WorkflowEngine extends EventEmitter {
+  private definitions: Map<string, WorkflowDefinition> = new Map();
+  private executing: Set<string> = new Set(); // Run ids executing in this process
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Register a workflow definition
+   */
+  register(definition: WorkflowDefinition): void {
+    const ids = new Set(definition.steps.map((step) => String(step.id)));
+
+    for (const step of definition.steps) {
+      for (const dependency of step.dependsOn || []) {
+        if (!ids.has(String(dependency))) {
+          throw new Error(
+            `Workflow ${definition.id}: step ${String(step.id)} depends on unknown step ${String(dependency)}`
+          );
+        }
+      }
+    }
+
+    this.definitions.set(definition.id, definition);
+    logger.info(`🧩 Workflow registered: ${definition.id} (${definition.steps.length} steps)`);
+  }
+
+  getDefinitions(): WorkflowDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Validate input, persist a new run and start executing it
+   */
+  async start(workflowId: string, rawInput: unknown): Promise<WorkflowRunView> {
+    const definition = this.getDefinition(workflowId);
+    const parsed = definition.inputSchema.safeParse(rawInput);
+
+    if (!parsed.success) {
+      throw new WorkflowError('invalid_input', zodIssues(parsed.error).join('; '));
+    }
+
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const step of definition.steps) {
+      steps[String(step.id)] = { status: 'pending', attempts: 0, failures: 0 };
+    }
+
+    const run = await prisma.workflowRun.create({
+      data: {
+        workflowId,
+        contextId: definition.contextId(parsed.data) || null,
+        status: 'running',
+        input: parsed.data as any,
+        steps: steps as any,
+      },
+    });
+
+    logger.info(`🧩 Workflow run started: ${workflowId} (${run.id})`);
+
+    this.execute(run.id);
+
+    return this.toView(run);
+  }
+
+  /**
+   * Get a run with per-step progress
+   */
+  async getRun(runId: string): Promise<WorkflowRunView | null> {
+    const run = await prisma.workflowRun.findUnique({ where: { id: runId } });
+    return run ? this.toView(run) : null;
+  }
+
+  /**
+   * Approve a step waiting for approval and continue the run
+   */
+  async approve(
+    runId: string,
+    stepId: string,
+    approval: { approvedBy?: string; notes?: string } = {}
+  ): Promise<WorkflowRunView> {
+    const run = await this.loadRun(runId);
+    const state = run.steps[stepId];
+
+    if (!state) {
+      throw new WorkflowError('not_found', `Step not found: ${stepId}`);
+    }
+    if (state.status !== 'waiting' || state.waitingFor !== 'approval') {
+      throw new WorkflowError('invalid_state', `Step ${stepId} is not waiting for approval`);
+    }
+
+    state.status = 'pending';
+    state.approval = { ...approval, approvedAt: new Date().toISOString() };
+    run.status = 'running';
+    await this.saveRun(run);
+
+    logger.info(`👍 Workflow step approved: ${run.workflowId}/${stepId} (${runId})`);
+
+    this.execute(runId);
+
+    return (await this.getRun(runId))!;
+  }
+
+  /**
+   * Re-run failed steps, or a given step and everything downstream of it
+   */
+  async retry(runId: string, fromStep?: string): Promise<WorkflowRunView> {
+    const run = await this.loadRun(runId);
+    const definition = this.getDefinition(run.workflowId);
+
+    if (this.executing.has(runId)) {
+      throw new WorkflowError('invalid_state', 'Run is still executing');
+    }
+    if (fromStep && !run.steps[fromStep]) {
+      throw new WorkflowError('not_found', `Step not found: ${fromStep}`);
+    }
+
+    const reset = fromStep
+      ? this.downstreamOf(definition, fromStep)
+      : Object.keys(run.steps).filter((id) => run.steps[id].status === 'failed');
+
+    if (reset.length === 0) {
+      throw new WorkflowError('invalid_state', 'Run has no failed steps to retry');
+    }
+
+    for (const id of reset) {
+      run.steps[id] = { status: 'pending', attempts: 0, failures: 0 };
+    }
+    run.status = 'running';
+    await this.saveRun(run, { error: null, completedAt: null });
+
+    logger.info(`🔄 Workflow run retried: ${runId} (${reset.join(', ')})`);
+
+    this.execute(runId);
+
+    return (await this.getRun(runId))!;
+  }
+
+  /**
+   * Continue runs left running by a previous process
+   */
+  async resumeInterrupted(): Promise<number> {
+    const runs = await prisma.workflowRun.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    });
+
+    for (const run of runs) {
+      this.execute(run.id);
+    }
+
+    if (runs.length > 0) {
+      logger.info(`🧩 Resuming ${runs.length} interrupted workflow run(s)`);
+    }
+
+    return runs.length;
+  }
+
+  /**
+   * Periodically re-run steps waiting on a poll
+   */
+  startPolling(intervalMs: number): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      this.pollWaitingRuns().catch((error: any) => {
+        logger.error('❌ Workflow poll failed:', error.message);
+      });
+    }, intervalMs);
+  }
+
+  stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // ==========================================================================
+  // EXECUTION
+  // ==========================================================================
+
+  private async pollWaitingRuns(): Promise<void> {
+    const runs = await prisma.workflowRun.findMany({
+      where: { status: 'waiting' },
+      select: { id: true },
+    });
+
+    for (const { id } of runs) {
+      if (this.executing.has(id)) continue;
+
+      const run = await this.loadRun(id);
+      const polling = Object.values(run.steps).filter(
+        (state) => state.status === 'waiting' && state.waitingFor === 'poll'
+      );
+      if (polling.length === 0) continue;
+
+      polling.forEach((state) => (state.status = 'pending'));
+      run.status = 'running';
+      await this.saveRun(run);
+
+      this.execute(id);
+    }
+  }
+
+  /**
+   * Run ready steps until the run completes, fails or waits.
+   * Errors are recorded on the run, never thrown to the caller.
+   */
+  private execute(runId: string): void {
+    if (this.executing.has(runId)) {
+      return;
+    }
+    this.executing.add(runId);
+
+    this.executeRun(runId)
+      .catch(async (error: any) => {
+        logger.error(`❌ Workflow run ${runId} crashed:`, error.message);
+        await prisma.workflowRun
+          .update({ where: { id: runId }, data: { status: 'failed', error: error.message } })
+          .catch(() => undefined);
+      })
+      .finally(() => this.executing.delete(runId));
+  }
+
+  private async executeRun(runId: string): Promise<void> {
+    const run = await this.loadRun(runId);
+    const definition = this.getDefinition(run.workflowId);
+
+    // Steps marked running were interrupted by a crash
+    for (const state of Object.values(run.steps)) {
+      if (state.status === 'running') {
+        state.status = 'pending';
+      }
+    }
+
+    for (;;) {
+      const ready = definition.steps.filter((step) => {
+        const state = run.steps[String(step.id)];
+        return (
+          state.status === 'pending' &&
+          (step.dependsOn || []).every(
+            (dependency) => run.steps[String(dependency)].status === 'completed'
+          )
+        );
+      });
+
+      if (ready.length === 0) {
+        break;
+      }
+
+      for (const step of ready) {
+        await this.runStep(run, step);
+
+        if (run.steps[String(step.id)].status === 'failed') {
+          await this.finishRun(run, 'failed', run.steps[String(step.id)].error);
+          return;
+        }
+      }
+    }
+
+    const states = Object.values(run.steps);
+
+    if (states.every((state) => state.status === 'completed')) {
+      await this.finishRun(run, 'completed');
+    } else if (states.some((state) => state.status === 'waiting')) {
+      run.status = 'waiting';
+      await this.saveRun(run);
+    } else {
+      await this.finishRun(run, 'failed', 'Workflow stalled: no runnable steps left');
+    }
+  }
+
+  private async runStep(
+    run: LoadedRun,
+    step: WorkflowStepOf<any, any>
+  ): Promise<void> {
+    const stepId = String(step.id);
+    const state = run.steps[stepId];
+    const retries = step.retries ?? DEFAULT_STEP_RETRIES;
+
+    for (;;) {
+      state.status = 'running';
+      state.attempts += 1;
+      state.startedAt = new Date().toISOString();
+      state.error = undefined;
+      await this.saveRun(run);
+
+      try {
+        const result = await step.run({
+          runId: run.id,
+          input: run.input,
+          outputs: this.collectOutputs(run),
+          attempt: state.attempts,
+          approval: state.approval,
+        });
+
+        if (result instanceof WorkflowWait) {
+          state.status = 'waiting';
+          state.waitingFor = result.kind;
+          state.waitReason = result.reason;
+          await this.saveRun(run);
+          logger.info(`⏸️ Workflow step waiting (${result.kind}): ${run.workflowId}/${stepId} - ${result.reason}`);
+          return;
+        }
+
+        state.status = 'completed';
+        state.output = result;
+        state.waitingFor = undefined;
+        state.waitReason = undefined;
+        state.finishedAt = new Date().toISOString();
+        await this.saveRun(run);
+        logger.info(`✅ Workflow step completed: ${run.workflowId}/${stepId}`);
+        return;
+      } catch (error: any) {
+        state.failures += 1;
+        state.error = error.message;
+
+        if (state.failures > retries) {
+          state.status = 'failed';
+          state.finishedAt = new Date().toISOString();
+          await this.saveRun(run);
+          logger.error(`❌ Workflow step failed: ${run.workflowId}/${stepId}:`, error.message);
+          return;
+        }
+
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, state.failures - 1);
+        state.status = 'pending';
+        await this.saveRun(run);
+
+        logger.warn(
+          `🔄 Workflow step ${run.workflowId}/${stepId} failed (${error.message}), retry ${state.failures}/${retries} in ${delay}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async finishRun(
+    run: LoadedRun,
+    status: 'completed' | 'failed',
+    error?: string
+  ): Promise<void> {
+    run.status = status;
+    await this.saveRun(run, { error: error || null, completedAt: new Date() });
+    logger.info(
+      `${status === 'completed' ? '🏁' : '❌'} Workflow run ${status}: ${run.workflowId} (${run.id})`
+    );
+  }
+
+  // ==========================================================================
+  // STATE
+  // ==========================================================================
+
+  private getDefinition(workflowId: string): WorkflowDefinition {
+    const definition = this.definitions.get(workflowId);
+    if (!definition) {
+      throw new WorkflowError('not_found', `Workflow not found: ${workflowId}`);
+    }
+    return definition;
+  }
+
+  private async loadRun(runId: string): Promise<LoadedRun> {
+    const run = await prisma.workflowRun.findUnique({ where: { id: runId } });
+
+    if (!run) {
+      throw new WorkflowError('not_found', `Workflow run not found: ${runId}`);
+    }
+
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      contextId: run.contextId,
+      status: run.status as WorkflowRunStatus,
+      input: run.input,
+      steps: run.steps as unknown as Record<string, WorkflowStepState>,
+    };
+  }
+
+  private async saveRun(
+    run: LoadedRun,
+    extra: { error?: string | null; completedAt?: Date | null } = {}
+  ): Promise<void> {
+    const saved = await prisma.workflowRun.update({
+      where: { id: run.id },
+      data: {
+        status: run.status,
+        steps: run.steps as any,
+        ...extra,
+      },
+    });
+
+    this.emit('run:updated', this.toView(saved));
+  }
+
+  private collectOutputs(run: LoadedRun): Record<string, unknown> {
+    const outputs: Record<string, unknown> = {};
+    for (const [id, state] of Object.entries(run.steps)) {
+      if (state.status === 'completed') {
+        outputs[id] = state.output;
+      }
+    }
+    return outputs;
+  }
+
+  /**
+   * A step plus every step that (transitively) depends on it
+   */
+  private downstreamOf(definition: WorkflowDefinition, stepId: string): string[] {
+    const result = new Set<string>([stepId]);
+    let added = true;
+
+    while (added) {
+      added = false;
+      for (const step of definition.steps) {
+        const id = String(step.id);
+        if (
+          !result.has(id) &&
+          (step.dependsOn || []).some((dependency) => result.has(String(dependency)))
+        ) {
+          result.add(id);
+          added = true;
+        }
+      }
+    }
+
+    return Array.from(result);
+  }
+
+  private toView(run: {
+    id: string;
+    workflowId: string;
+    contextId: string | null;
+    status: string;
+    input: unknown;
+    steps: unknown;
+    error: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    completedAt: Date | null;
+  }): WorkflowRunView {
+    const definition = this.definitions.get(run.workflowId);
+    const states = run.steps as Record<string, WorkflowStepState>;
+    const stepIds = definition
+      ? definition.steps.map((step) => String(step.id))
+      : Object.keys(states);
+    const completed = stepIds.filter((id) => states[id]?.status === 'completed').length;
+
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      contextId: run.contextId,
+      status: run.status as WorkflowRunStatus,
+      progress: stepIds.length > 0 ? Math.round((completed / stepIds.length) * 100) : 0,
+      input: run.input,
+      steps: stepIds.map((id) => {
+        const step = definition?.steps.find((candidate) => String(candidate.id) === id);
+        return {
+          id,
+          name: step?.name || id,
+          dependsOn: (step?.dependsOn || []).map(String),
+          ...states[id],
+        };
+      }),
+      error: run.error,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+      completedAt: run.completedAt,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Workflow: Novela Scene → Video
+ *
+ * script → estimation → generation
+ *
+ * Replaces AgentManager.generateSceneVideo. The agent steps run through
+ * the RetryOrchestrator, which already applies FallbackHandler
+ * resolutions, so they have no engine-level retries.
+ */
+
+import { z } from 'zod';
+import {
+  AgentManager,
+  AgentRole,
+  ScriptWriterOutput,
+  SystemIntegratorOutput,
+} from '../../../agents/index.js';
+import { getBrandVoiceContext } from '../../brandVoice/brandVoiceProfiles.js';
+import { getContinuityContext } from '../../continuity/continuityBible.js';
+import { defineWorkflow } from '../types.js';
+
+const inputSchema = z.object({
+  novelaId: z.string().min(1),
+  sceneNumber: z.number().int().positive(),
+  previousScenes: z.array(z.string()).optional(),
+  characterDescriptions: z.record(z.string(), z.string()).optional(),
+  plotPoints: z.array(z.string()).optional(),
+  tone: z.string().optional(),
+  duration: z.number().positive().optional(),
+  modelId: z.string().optional(),
+  brandVoiceId: z.string().optional(),
+  continuityProjectId: z.string().optional(), // VSL project whose continuity bible the scene follows
+});
+
+export type NovelaSceneVideoInput = z.infer<typeof inputSchema>;
+
+export interface NovelaSceneVideoOutputs {
+  script: ScriptWriterOutput;
+  estimation: SystemIntegratorOutput;
+  generation: SystemIntegratorOutput;
+}
+
+/**
+ * Keep the most recent share of a context list
+ */
+function shortenList<T>(items: T[] | undefined, scale: number): T[] | undefined {
+  if (!items || scale >= 1) {
+    return items;
+  }
+  return items.slice(-Math.max(1, Math.floor(items.length * scale)));
+}
+
+export function createNovelaSceneVideoWorkflow(agentManager: AgentManager) {
+  return defineWorkflow<NovelaSceneVideoInput, NovelaSceneVideoOutputs>({
+    id: 'novela-scene-video',
+    name: 'Novela Scene Video',
+    description: 'Scene script → cost estimation → video generation',
+    inputSchema,
+    contextId: (input) => input.novelaId,
+    steps: [
+      {
+        id: 'script',
+        name: 'Write scene script',
+        retries: 0,
+        // Context overflow → fewer previous scenes
+        run: ({ input }) =>
+          agentManager.runWithRecovery({
+            novelaId: input.novelaId,
+            failedAgent: AgentRole.SCRIPT_WRITER,
+            attemptedAction: `Generate script for scene ${input.sceneNumber}`,
+            metadata: { sceneNumber: input.sceneNumber },
+            run: async ({ contextScale }) => {
+              if (contextScale < 1) {
+                agentManager
+                  .getAgent(AgentRole.SCRIPT_WRITER)
+                  .clearConversationHistory(input.novelaId);
+              }
+
+              const result = await agentManager.generateScript({
+                novelaId: input.novelaId,
+                sceneNumber: input.sceneNumber,
+                previousScenes: shortenList(input.previousScenes, contextScale),
+                characterDescriptions: input.characterDescriptions,
+                plotPoints: shortenList(input.plotPoints, contextScale),
+                tone: input.tone,
+                duration: input.duration,
+                brandVoice: await getBrandVoiceContext(input.brandVoiceId),
+                continuity: await getContinuityContext(input.continuityProjectId),
+              });
+
+              if (!result.success) {
+                throw new Error(`Script generation failed: ${result.message}`);
+              }
+              return result;
+            },
+          }),
+      },
+      {
+        id: 'estimation',
+        name: 'Estimate video cost',
+        dependsOn: ['script'],
+        retries: 0,
+        // Model unavailable → cheaper models
+        run: ({ input, outputs }) =>
+          agentManager.runWithRecovery({
+            novelaId: input.novelaId,
+            failedAgent: AgentRole.SYSTEM_INTEGRATOR,
+            attemptedAction: `Estimate video for scene ${input.sceneNumber}`,
+            metadata: { sceneNumber: input.sceneNumber },
+            modelId: input.modelId,
+            substituteModels: agentManager
+              .getVideoModels()
+              .sort((a, b) => a.costPerSecond - b.costPerSecond)
+              .map((model) => model.id),
+            run: async ({ modelId }) => {
+              const result = await agentManager.getVideoEstimation({
+                novelaId: input.novelaId,
+                videoRequest: {
+                  prompt: outputs.script!.data!.script.visualPrompt,
+                  modelId,
+                  duration: outputs.script!.data!.script.estimatedDuration,
+                },
+              });
+
+              if (!result.success) {
+                throw new Error(`Video estimation failed: ${result.message}`);
+              }
+              return result;
+            },
+          }),
+      },
+      {
+        id: 'generation',
+        name: 'Start video generation',
+        dependsOn: ['estimation'],
+        run: async ({ input, outputs }) => {
+          const script = outputs.script!.data!.script;
+          const result = await agentManager.startVideoGeneration(input.novelaId, {
+            prompt: script.visualPrompt,
+            modelId: outputs.estimation!.data!.estimation.modelId,
+            duration: script.estimatedDuration,
+          });
+
+          if (!result.success) {
+            throw new Error(`Video generation failed: ${result.message}`);
+          }
+          return result;
+        },
+      },
+    ],
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Workflow: VSL Section → Video
+ *
+ * content → script → clips → clipsReady → approval → compile
+ *
+ * 1. content:    Generate the section copy (VSL Specialist), unless it exists
+ * 2. script:     Split the section into a detailed multi-video script, unless
+ *                it exists and the copy wasn't regenerated
+ * 3. clips:      Submit every pending/failed clip to Lambda
+ * 4. clipsReady: Poll until the Replicate webhooks have delivered all clips
+ * 5. approval:   Wait for a human to approve the clips
+ * 6. compile:    Compile the approved clips into one video
+ */
+
+import { z } from 'zod';
+import { prisma } from '../../../config/database.js';
+import { logger } from '../../../utils/logger.js';
+import { AgentManager, NARRATIVE_FRAMEWORK_IDS } from '../../../agents/index.js';
+import { generateSectionContent } from '../../vsl/sectionGeneration.js';
+import { generateDetailedScript } from '../../scripts/detailedScriptGeneration.js';
+import { generateSectionVideo } from '../../videos/sectionVideoGeneration.js';
+import {
+  compileScriptVideos,
+  CompiledScriptVideo,
+} from '../../videos/scriptCompilation.js';
+import { defineWorkflow, waitFor } from '../types.js';
+
+const inputSchema = z.object({
+  projectId: z.string().min(1),
+  sectionId: z.string().min(1),
+  totalDuration: z.number().positive(),
+  language: z.enum(['pt-br', 'en', 'es', 'it', 'fr', 'de']),
+  modelId: z.string().min(1),
+  narrativeFramework: z.enum(NARRATIVE_FRAMEWORK_IDS).optional(),
+  regenerateContent: z.boolean().optional(),
+  lambdaConfigId: z.string().optional(),
+  outputFormat: z.enum(['mp4', 'webm']).optional(),
+  quality: z.enum(['high', 'medium', 'low']).optional(),
+});
+
+export type VSLSectionVideoInput = z.infer<typeof inputSchema>;
+
+export interface VSLSectionVideoOutputs {
+  content: { sectionId: string; generated: boolean };
+  script: { scriptId: string; videoCount: number };
+  clips: { submitted: string[] };
+  clipsReady: { videoCount: number };
+  approval: { approvedBy?: string; approvedCount: number };
+  compile: Omit<CompiledScriptVideo, 'message'>;
+}
+
+export function createVSLSectionVideoWorkflow(agentManager: AgentManager) {
+  return defineWorkflow<VSLSectionVideoInput, VSLSectionVideoOutputs>({
+    id: 'vsl-section-video',
+    name: 'VSL Section Video',
+    description:
+      'Section content → detailed script → clip generation → approval → compilation',
+    inputSchema,
+    contextId: (input) => input.projectId,
+    steps: [
+      {
+        id: 'content',
+        name: 'Generate section content',
+        run: async ({ input }) => {
+          const section = await prisma.vSLSection.findUnique({
+            where: { id: input.sectionId },
+          });
+
+          if (!section) {
+            throw new Error(`Section not found: ${input.sectionId}`);
+          }
+
+          if (section.content && !input.regenerateContent) {
+            return { sectionId: section.id, generated: false };
+          }
+
+          await generateSectionContent(agentManager, input.sectionId);
+          return { sectionId: section.id, generated: true };
+        },
+      },
+      {
+        id: 'script',
+        name: 'Generate detailed script',
+        dependsOn: ['content'],
+        run: async ({ input, outputs }) => {
+          // Regenerating replaces every clip, approved ones included, so an
+          // existing script is kept unless the copy was just regenerated
+          if (!outputs.content!.generated) {
+            const existing = await prisma.sectionDetailedScript.findUnique({
+              where: { sectionId: input.sectionId },
+            });
+
+            if (existing) {
+              logger.info(`♻️ Reusing detailed script ${existing.id} for section ${input.sectionId}`);
+              return { scriptId: existing.id, videoCount: existing.videoCount };
+            }
+          }
+
+          const script = await generateDetailedScript(agentManager, {
+            projectId: input.projectId,
+            sectionId: input.sectionId,
+            totalDuration: input.totalDuration,
+            language: input.language,
+            modelId: input.modelId,
+            narrativeFramework: input.narrativeFramework,
+          });
+
+          return { scriptId: script.scriptId, videoCount: script.videoCount };
+        },
+      },
+      {
+        id: 'clips',
+        name: 'Submit clips for generation',
+        dependsOn: ['script'],
+        run: async ({ outputs, input }) => {
+          // Only pending/failed clips, so a retry never resubmits generated ones
+          const videos = await prisma.sectionVideo.findMany({
+            where: {
+              scriptId: outputs.script!.scriptId,
+              status: { in: ['pending', 'failed'] },
+            },
+            orderBy: { videoOrder: 'asc' },
+          });
+
+          const submitted: string[] = [];
+          for (const video of videos) {
+            await generateSectionVideo({
+              videoId: video.id,
+              lambdaConfigId: input.lambdaConfigId,
+            });
+            submitted.push(video.id);
+          }
+
+          return { submitted };
+        },
+      },
+      {
+        id: 'clipsReady',
+        name: 'Wait for generated clips',
+        dependsOn: ['clips'],
+        retries: 0, // A failed clip needs a retry from "clips"
+        run: async ({ outputs }) => {
+          const videos = await prisma.sectionVideo.findMany({
+            where: { scriptId: outputs.script!.scriptId },
+            select: { videoOrder: true, status: true, errorMessage: true },
+          });
+
+          const failed = videos.filter((v) => v.status === 'failed');
+          if (failed.length > 0) {
+            throw new Error(
+              `Clip(s) ${failed.map((v) => v.videoOrder).join(', ')} failed: ${failed[0].errorMessage || 'unknown error'}`
+            );
+          }
+
+          const ready = videos.filter(
+            (v) => v.status === 'completed' || v.status === 'approved'
+          ).length;
+
+          if (ready < videos.length) {
+            return waitFor('poll', `${ready}/${videos.length} clips ready`);
+          }
+
+          return { videoCount: videos.length };
+        },
+      },
+      {
+        id: 'approval',
+        name: 'Approve clips',
+        dependsOn: ['clipsReady'],
+        run: async ({ outputs, approval }) => {
+          if (!approval) {
+            return waitFor('approval', 'Review the generated clips before compilation');
+          }
+
+          const approved = await prisma.sectionVideo.updateMany({
+            where: { scriptId: outputs.script!.scriptId, status: 'completed' },
+            data: { status: 'approved' },
+          });
+
+          logger.info(
+            `✅ ${approved.count} clips approved for script ${outputs.script!.scriptId}`
+          );
+
+          return { approvedBy: approval.approvedBy, approvedCount: approved.count };
+        },
+      },
+      {
+        id: 'compile',
+        name: 'Compile video',
+        dependsOn: ['approval'],
+        run: async ({ outputs, input }) => {
+          const { message, ...compiled } = await compileScriptVideos(
+            outputs.script!.scriptId,
+            { outputFormat: input.outputFormat, quality: input.quality }
+          );
+          return compiled;
+        },
+      },
+    ],
+  });
+}
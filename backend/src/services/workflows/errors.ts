@@ -0,0 +1,26 @@
+/**
+ * Workflow Engine - Error Types
+ */
+
+import { HttpError } from '../../utils/httpError.js';
+
+export type WorkflowErrorCode = 'not_found' | 'invalid_input' | 'invalid_state';
+
+const ERROR_STATUS: Record<WorkflowErrorCode, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  invalid_state: 409,
+};
+
+/**
+ * Raised for requests the engine rejects (unknown workflow or run, bad
+ * input, approving a step that is not waiting)
+ */
+export class WorkflowError extends HttpError {
+  readonly code: WorkflowErrorCode;
+
+  constructor(code: WorkflowErrorCode, message: string) {
+    super(ERROR_STATUS[code], message);
+    this.code = code;
+  }
+}
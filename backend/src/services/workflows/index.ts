@@ -0,0 +1,28 @@
+/**
+ * Workflow Engine - Public API
+ */
+
+import { AgentManager } from '../../agents/index.js';
+import { WorkflowEngine } from './WorkflowEngine.js';
+import { createVSLSectionVideoWorkflow } from './definitions/vslSectionVideo.js';
+import { createNovelaSceneVideoWorkflow } from './definitions/novelaSceneVideo.js';
+
+export * from './types.js';
+export * from './errors.js';
+export { WorkflowEngine };
+export type {
+  VSLSectionVideoInput,
+  VSLSectionVideoOutputs,
+} from './definitions/vslSectionVideo.js';
+export type {
+  NovelaSceneVideoInput,
+  NovelaSceneVideoOutputs,
+} from './definitions/novelaSceneVideo.js';
+
+/**
+ * Register the built-in workflows
+ */
+export function registerWorkflows(engine: WorkflowEngine, agentManager: AgentManager): void {
+  engine.register(createVSLSectionVideoWorkflow(agentManager));
+  engine.register(createNovelaSceneVideoWorkflow(agentManager));
+}
@@ -0,0 +1,115 @@
+/**
+ * Workflow Engine - Type Definitions
+ *
+ * A workflow is a typed graph of steps. Each step declares the steps it
+ * depends on, receives the run input plus the outputs of completed steps,
+ * and produces its own output. Run state is persisted after every step so
+ * a run resumes where it stopped after a crash.
+ */
+
+import { z } from 'zod';
+
+export type WorkflowRunStatus = 'running' | 'waiting' | 'completed' | 'failed';
+
+export type WorkflowStepStatus =
+  | 'pending'
+  | 'running'
+  | 'waiting'
+  | 'completed'
+  | 'failed';
+
+/**
+ * approval: resumes when POST /api/workflows/:runId/steps/:stepId/approve
+ * poll: re-run by the engine on every poll interval (e.g. waiting for clips)
+ */
+export type WorkflowWaitKind = 'approval' | 'poll';
+
+export interface WorkflowApproval {
+  approvedBy?: string;
+  notes?: string;
+  approvedAt: string;
+}
+
+export interface WorkflowStepState {
+  status: WorkflowStepStatus;
+  attempts: number; // Executions, including polls
+  failures: number; // Compared against the step's retries
+  output?: unknown;
+  error?: string;
+  waitingFor?: WorkflowWaitKind;
+  waitReason?: string;
+  approval?: WorkflowApproval;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * Returned by a step that cannot finish yet
+ */
+export class WorkflowWait {
+  constructor(
+    readonly kind: WorkflowWaitKind,
+    readonly reason: string
+  ) {}
+}
+
+export function waitFor(kind: WorkflowWaitKind, reason: string): WorkflowWait {
+  return new WorkflowWait(kind, reason);
+}
+
+export interface WorkflowStepContext<TInput, TOutputs> {
+  runId: string;
+  input: TInput;
+  outputs: Partial<TOutputs>; // Outputs of completed steps
+  attempt: number;
+  approval?: WorkflowApproval;
+}
+
+export interface WorkflowStep<TInput, TOutputs, K extends keyof TOutputs> {
+  id: K;
+  name: string;
+  dependsOn?: Array<keyof TOutputs>;
+  retries?: number; // Retries after the first failure (default 2)
+  run(
+    context: WorkflowStepContext<TInput, TOutputs>
+  ): Promise<TOutputs[K] | WorkflowWait>;
+}
+
+export type WorkflowStepOf<TInput, TOutputs> = {
+  [K in keyof TOutputs]: WorkflowStep<TInput, TOutputs, K>;
+}[keyof TOutputs];
+
+export interface WorkflowDefinition<TInput = any, TOutputs = any> {
+  id: string;
+  name: string;
+  description: string;
+  inputSchema: z.ZodType<TInput>;
+  contextId(input: TInput): string | undefined; // Room for workflow:progress events
+  steps: Array<WorkflowStepOf<TInput, TOutputs>>;
+}
+
+/**
+ * Identity helper that infers input/output types for a definition
+ */
+export function defineWorkflow<TInput, TOutputs>(
+  definition: WorkflowDefinition<TInput, TOutputs>
+): WorkflowDefinition<TInput, TOutputs> {
+  return definition;
+}
+
+/**
+ * Run as returned by the API
+ */
+export interface WorkflowRunView {
+  id: string;
+  workflowId: string;
+  contextId: string | null;
+  status: WorkflowRunStatus;
+  progress: number; // 0-100, share of completed steps
+  input: unknown;
+  steps: Array<WorkflowStepState & { id: string; name: string; dependsOn: string[] }>;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
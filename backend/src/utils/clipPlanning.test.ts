@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { planClipDurations, fitClipDurations, clipPlanCost, sentenceBoundaries, ClipLimits } from './clipPlanning.js';
+
+const veo: ClipLimits = { durations: [4, 6, 8], pricing: { type: 'per_second', price: 0.1 } };
+const wanPerSecond: ClipLimits = { durations: [5, 10], pricing: { type: 'per_second', price: 0.1 } };
+const wanPerClip: ClipLimits = { durations: [5, 10], pricing: { type: 'per_clip', price: 0.5 } };
+const stabilityVideo: ClipLimits = { durations: [1], pricing: { type: 'per_clip', price: 0.05 } };
+
+const sum = (durations: number[]) => durations.reduce((total, duration) => total + duration, 0);
+
+describe('planClipDurations', () => {
+  it('covers the section exactly with the fewest, most even 4/6/8s clips', () => {
+    const plan = planClipDurations(20, veo);
+
+    expect([...plan.durations].sort()).toEqual([6, 6, 8]);
+    expect(plan.totalDuration).toBe(20);
+    expect(plan.estimatedCost).toBe(2);
+  });
+
+  it('rounds a 5/10s plan up to the shortest reachable total', () => {
+    const plan = planClipDurations(12, wanPerSecond);
+
+    expect(sum(plan.durations)).toBe(15);
+    expect(plan.totalDuration).toBe(15);
+    expect(plan.estimatedCost).toBe(1.5);
+  });
+
+  it('prefers fewer, longer clips when pricing is per clip', () => {
+    const plan = planClipDurations(20, wanPerClip);
+
+    expect(plan.durations).toEqual([10, 10]);
+    expect(plan.estimatedCost).toBe(1);
+  });
+
+  it('places clip cuts at sentence ends when the cost is the same', () => {
+    expect(planClipDurations(12, veo, [4]).durations).toEqual([4, 8]);
+    expect(planClipDurations(12, veo, [8]).durations).toEqual([8, 4]);
+  });
+
+  it('uses the shortest clip when the section is shorter than every length', () => {
+    const plan = planClipDurations(3, veo);
+
+    expect(plan.durations).toEqual([4]);
+    expect(plan.totalDuration).toBe(4);
+  });
+
+  it('plans one-second clips for models with a single fixed length', () => {
+    const plan = planClipDurations(5.2, stabilityVideo);
+
+    expect(plan.durations).toEqual([1, 1, 1, 1, 1, 1]);
+    expect(plan.estimatedCost).toBe(0.3);
+  });
+
+  it('rejects an empty set of lengths', () => {
+    expect(() => planClipDurations(10, { ...veo, durations: [] })).toThrow('No clip durations allowed');
+  });
+});
+
+describe('fitClipDurations', () => {
+  it('gives every voice line a clip long enough for its narration', () => {
+    expect(fitClipDurations([7.5, 3, 5], 18, veo)).toEqual([8, 4, 6]);
+  });
+
+  it('keeps the planned total when a line overruns the longest clip', () => {
+    expect(fitClipDurations([9, 2], 12, veo)).toEqual([8, 4]);
+  });
+
+  it('moves 5/10s clips to the lines that need them', () => {
+    expect(fitClipDurations([3, 9, 4], 20, wanPerSecond)).toEqual([5, 10, 5]);
+  });
+
+  it('falls back to the closest reachable total', () => {
+    expect(fitClipDurations([3, 3], 7, veo)).toEqual([4, 4]);
+    expect(sum(fitClipDurations([3, 3], 9, veo))).toBe(10);
+  });
+
+  it('fits one-second clips to a single allowed length', () => {
+    expect(fitClipDurations([2, 1], 2, stabilityVideo)).toEqual([1, 1]);
+  });
+
+  it('returns no clips for no voice lines', () => {
+    expect(fitClipDurations([], 10, veo)).toEqual([]);
+  });
+});
+
+describe('clipPlanCost', () => {
+  it('prices per second and per clip', () => {
+    expect(clipPlanCost([8, 4], veo.pricing)).toBe(1.2);
+    expect(clipPlanCost([10, 5, 5], wanPerClip.pricing)).toBe(1.5);
+  });
+});
+
+describe('sentenceBoundaries', () => {
+  it('scales sentence ends to the section duration', () => {
+    const boundaries = sentenceBoundaries('One two three. One two three.', 10, 'en');
+
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0]).toBeCloseTo(5);
+  });
+
+  it('has no boundaries for a single sentence', () => {
+    expect(sentenceBoundaries('Just one sentence.', 10, 'en')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Clip Planning
+ *
+ * Splits a section's duration into clips a video model can actually
+ * render. Models accept a fixed set of clip lengths (veo-3.1: 4, 6 or 8s;
+ * wan-2.5: 5 or 10s - see utils/videoModelLimits.ts), so durations are
+ * picked from that set instead of dividing the section evenly:
+ *
+ * 1. planClipDurations, before the script is written: the cheapest set of
+ *    clips covering the section, with clip cuts placed as close as possible
+ *    to sentence ends in the section copy, then the fewest and most even
+ *    clips.
+ * 2. fitClipDurations, once the voice lines exist: re-assign the allowed
+ *    lengths so each clip holds its own narration, keeping the planned
+ *    total (and so the cost).
+ *
+ * Both are small dynamic programs over whole seconds.
+ */
+
+import { estimateNarration } from './narrationTiming.js';
+
+export interface ClipPricing {
+  type: 'per_second' | 'per_clip';
+  price: number; // USD per second of video, or per generated clip
+}
+
+export interface ClipLimits {
+  durations: number[]; // Accepted clip lengths in seconds, ascending
+  pricing: ClipPricing;
+}
+
+export interface ClipPlan {
+  durations: number[];
+  totalDuration: number; // Sum of the clips (>= the requested duration)
+  estimatedCost: number; // USD
+}
+
+interface PlanScore {
+  cost: number;
+  misfit: number; // Seconds between clip cuts and the nearest sentence end
+  clips: number;
+  spread: number; // Sum of squared clip lengths: lowest when clips are even
+}
+
+const EPSILON = 1e-9;
+
+function clipCost(duration: number, pricing: ClipPricing): number {
+  return pricing.type === 'per_second' ? duration * pricing.price : pricing.price;
+}
+
+function isBetter(a: PlanScore, b: PlanScore | undefined): boolean {
+  if (!b) return true;
+  if (Math.abs(a.cost - b.cost) > EPSILON) return a.cost < b.cost;
+  if (Math.abs(a.misfit - b.misfit) > EPSILON) return a.misfit < b.misfit;
+  if (a.clips !== b.clips) return a.clips < b.clips;
+  return a.spread < b.spread;
+}
+
+/**
+ * Split text into sentences (terminal punctuation followed by whitespace)
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Where each sentence of the copy ends, in seconds, scaled to totalDuration
+ */
+export function sentenceBoundaries(text: string, totalDuration: number, language?: string): number[] {
+  const seconds = splitSentences(text).map((sentence) => estimateNarration(sentence, language).exactSeconds);
+  const narration = seconds.reduce((sum, value) => sum + value, 0);
+  if (seconds.length < 2 || narration <= 0) return [];
+
+  const boundaries: number[] = [];
+  let elapsed = 0;
+  for (const value of seconds.slice(0, -1)) {
+    elapsed += value;
+    boundaries.push((elapsed / narration) * totalDuration);
+  }
+  return boundaries;
+}
+
+/**
+ * Cheapest clip lengths covering totalDuration, cuts near sentence ends
+ */
+export function planClipDurations(
+  totalDuration: number,
+  limits: ClipLimits,
+  boundaries: number[] = []
+): ClipPlan {
+  const allowed = [...new Set(limits.durations)].filter((d) => d > 0).sort((a, b) => a - b);
+  if (allowed.length === 0) {
+    throw new Error('No clip durations allowed');
+  }
+
+  const target = Math.max(1, Math.ceil(totalDuration));
+  const limit = target + allowed[allowed.length - 1];
+
+  const misfitAt = (time: number) =>
+    boundaries.length === 0 ? 0 : Math.min(...boundaries.map((boundary) => Math.abs(boundary - time)));
+
+  // best[s]: best way to fill exactly s seconds. A cut is scored when the
+  // next clip starts at it, so the section end never counts as misfit.
+  const best: Array<{ score: PlanScore; previous: number; duration: number } | undefined> = [];
+  best[0] = { score: { cost: 0, misfit: 0, clips: 0, spread: 0 }, previous: -1, duration: 0 };
+
+  for (let time = 0; time < target; time++) {
+    const current = best[time];
+    if (!current) continue;
+
+    const cutMisfit = time === 0 ? 0 : misfitAt(time);
+    for (const duration of allowed) {
+      const next = time + duration;
+      if (next > limit) break;
+
+      const score: PlanScore = {
+        cost: current.score.cost + clipCost(duration, limits.pricing),
+        misfit: current.score.misfit + cutMisfit,
+        clips: current.score.clips + 1,
+        spread: current.score.spread + duration * duration,
+      };
+      if (isBetter(score, best[next]?.score)) {
+        best[next] = { score, previous: time, duration };
+      }
+    }
+  }
+
+  // Shortest reachable total that covers the section
+  let end = target;
+  while (!best[end]) end++;
+
+  const durations: number[] = [];
+  for (let time = end; time > 0; time = best[time]!.previous) {
+    durations.unshift(best[time]!.duration);
+  }
+
+  return {
+    durations,
+    totalDuration: end,
+    estimatedCost: Math.round(best[end]!.score.cost * 100) / 100,
+  };
+}
+
+/**
+ * Allowed clip lengths for each voice line, summing to totalDuration
+ *
+ * Minimises narration that overruns its clip, then spreads the spare
+ * seconds evenly. Falls back to the closest reachable total when
+ * totalDuration can't be built from this many clips.
+ */
+export function fitClipDurations(
+  narrationSeconds: number[],
+  totalDuration: number,
+  limits: ClipLimits
+): number[] {
+  const allowed = [...new Set(limits.durations)].filter((d) => d > 0).sort((a, b) => a - b);
+  const count = narrationSeconds.length;
+  if (count === 0) return [];
+  if (allowed.length === 0) {
+    throw new Error('No clip durations allowed');
+  }
+
+  const maxTotal = count * allowed[allowed.length - 1];
+
+  // penalty[i][s]: best penalty for clips 0..i-1 filling s seconds
+  const penalty: number[][] = [new Array<number>(maxTotal + 1).fill(Infinity)];
+  const choice: number[][] = [];
+  penalty[0][0] = 0;
+
+  for (let index = 0; index < count; index++) {
+    const row = new Array<number>(maxTotal + 1).fill(Infinity);
+    const picks = new Array<number>(maxTotal + 1).fill(0);
+    const narration = narrationSeconds[index];
+
+    for (let time = 0; time <= maxTotal; time++) {
+      if (penalty[index][time] === Infinity) continue;
+
+      for (const duration of allowed) {
+        const next = time + duration;
+        if (next > maxTotal) break;
+
+        const overrun = Math.max(0, narration - duration);
+        const spare = Math.max(0, duration - narration);
+        const value = penalty[index][time] + overrun * 1000 + spare * spare;
+        if (value < row[next]) {
+          row[next] = value;
+          picks[next] = duration;
+        }
+      }
+    }
+
+    penalty.push(row);
+    choice.push(picks);
+  }
+
+  const reachable = penalty[count]
+    .map((value, time) => ({ value, time }))
+    .filter(({ value }) => value !== Infinity);
+  const end = reachable.reduce((closest, candidate) =>
+    Math.abs(candidate.time - totalDuration) < Math.abs(closest.time - totalDuration) ||
+    (Math.abs(candidate.time - totalDuration) === Math.abs(closest.time - totalDuration) &&
+      candidate.time > closest.time)
+      ? candidate
+      : closest
+  ).time;
+
+  const durations = new Array<number>(count);
+  let time = end;
+  for (let index = count - 1; index >= 0; index--) {
+    durations[index] = choice[index][time];
+    time -= durations[index];
+  }
+  return durations;
+}
+
+export function clipPlanCost(durations: number[], pricing: ClipPricing): number {
+  const cost = durations.reduce((sum, duration) => sum + clipCost(duration, pricing), 0);
+  return Math.round(cost * 100) / 100;
+}
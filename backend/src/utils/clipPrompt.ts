@@ -0,0 +1,11 @@
+/**
+ * Clip Prompt
+ *
+ * The video prompt of a detailed script clip: its visual followed by the
+ * narration it plays under. Script Detail writes it for every clip, and
+ * clip edits and project clones rebuild it when the visual or voice change.
+ */
+
+export function buildClipPrompt(clip: { visual: string; voice: string }): string {
+  return `${clip.visual}. Narration: "${clip.voice}"`;
+}
@@ -0,0 +1,63 @@
+/**
+ * HTTP Errors
+ *
+ * Errors the services raise for requests they reject, carrying the HTTP
+ * status the routes answer with, the zod input parsing they share and the
+ * routes' error response.
+ */
+
+import type { Response } from 'express';
+import { z } from 'zod';
+import { logger } from './logger.js';
+
+/**
+ * An error a route returns to the client as-is. status is the HTTP status.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+}
+
+/**
+ * "path: message" for every issue of a failed parse
+ */
+export function zodIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Parse a request body (missing = {}), raising a 400 that lists every issue
+ */
+export function parseInput<T extends z.ZodType>(schema: T, rawInput: unknown): z.infer<T> {
+  const parsed = schema.safeParse(rawInput ?? {});
+
+  if (!parsed.success) {
+    throw new HttpError(400, zodIssues(parsed.error).join('; '));
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Answer a failed route: an HttpError with its status and message, anything
+ * else as a logged 500
+ */
+export function sendError(res: Response, error: any, action: string) {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({
+      success: false,
+      message: error.message,
+    });
+  }
+
+  logger.error(`❌ Error ${action}:`, error.message);
+  return res.status(500).json({
+    success: false,
+    message: `Failed ${action}: ${error.message}`,
+  });
+}
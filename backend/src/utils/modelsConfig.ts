@@ -0,0 +1,45 @@
+/**
+ * Models Config
+ *
+ * The video, image and audio models of config/models.json (supported
+ * parameters, defaults, capabilities and pricing), read once per process.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+export type ModelMediaType = 'video' | 'image' | 'audio';
+
+let modelsConfig: Partial<Record<ModelMediaType, Record<string, any>>> | null = null;
+
+function loadModelsConfig(): Partial<Record<ModelMediaType, Record<string, any>>> {
+  if (modelsConfig) return modelsConfig;
+
+  try {
+    const configPath = path.join(process.cwd(), '..', 'config', 'models.json');
+    modelsConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    logger.warn('Failed to load models config, using empty config', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    modelsConfig = {};
+  }
+
+  return modelsConfig!;
+}
+
+/**
+ * Every configured model of a media type, by model id
+ */
+export function getModelConfigs(mediaType: ModelMediaType): Record<string, any> {
+  return loadModelsConfig()[mediaType] || {};
+}
+
+/**
+ * A model's configuration, or undefined when it isn't in models.json
+ */
+export function getModelConfig(modelId: string, mediaType: ModelMediaType): any | undefined {
+  const models = getModelConfigs(mediaType);
+  return Object.hasOwn(models, modelId) ? models[modelId] : undefined;
+}
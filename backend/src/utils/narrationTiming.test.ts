@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateNarration,
+  estimateNarrationSeconds,
+  wordsForDuration,
+  formatClipTime,
+} from './narrationTiming.js';
+
+const words = (count: number) => Array(count).fill('word').join(' ');
+
+describe('estimateNarration', () => {
+  it('reads plain words at the language rate', () => {
+    const estimate = estimateNarration(words(155), 'en');
+
+    expect(estimate.words).toBe(155);
+    expect(estimate.speechSeconds).toBe(60);
+    expect(estimate.pauseSeconds).toBe(0);
+    expect(estimate.seconds).toBe(60);
+  });
+
+  it('reads German slower than Spanish', () => {
+    const text = words(100);
+
+    expect(estimateNarration(text, 'de').exactSeconds).toBeGreaterThan(estimateNarration(text, 'es').exactSeconds);
+  });
+
+  it('falls back to Brazilian Portuguese for unknown languages', () => {
+    expect(estimateNarration('olá', 'xx').language).toBe('pt-br');
+    expect(estimateNarration('olá').language).toBe('pt-br');
+  });
+
+  it('honours a wordsPerMinute override', () => {
+    expect(estimateNarration(words(100), 'en', { wordsPerMinute: 200 }).speechSeconds).toBe(30);
+  });
+
+  it('counts prices and numbers as the words said aloud', () => {
+    // "mil novecentos e noventa e sete reais"
+    expect(estimateNarration('R$1.997,00', 'pt-br').spokenWords).toBe(8);
+    // "ninety seven dollars"
+    expect(estimateNarration('$97', 'en').spokenWords).toBe(3);
+    // "thirty percent" / "trinta por cento"
+    expect(estimateNarration('30%', 'en').spokenWords).toBe(2);
+    expect(estimateNarration('30%', 'pt-br').spokenWords).toBe(3);
+  });
+
+  it('expands abbreviations and spells out acronyms', () => {
+    const estimate = estimateNarration('e.g. CEO', 'en');
+
+    expect(estimate.words).toBe(2);
+    expect(estimate.spokenWords).toBe(4);
+  });
+
+  it('adds pauses for punctuation and paragraphs', () => {
+    expect(estimateNarration('Stop. Wait, now', 'en').pauseSeconds).toBe(0.75);
+    expect(estimateNarration('Well... maybe; not - yet', 'en').pauseSeconds).toBe(1.35);
+    expect(estimateNarration('One.\n\nTwo.', 'en').pauseSeconds).toBe(1.8);
+  });
+
+  it('is zero for empty text', () => {
+    expect(estimateNarrationSeconds('   ', 'en')).toBe(0);
+  });
+});
+
+describe('wordsForDuration', () => {
+  it('leaves room for pauses', () => {
+    expect(wordsForDuration(60, 'en')).toBe(131);
+    expect(wordsForDuration(0, 'en')).toBe(1);
+  });
+});
+
+describe('formatClipTime', () => {
+  it('formats m:ss', () => {
+    expect(formatClipTime(5)).toBe('0:05');
+    expect(formatClipTime(75)).toBe('1:15');
+  });
+});
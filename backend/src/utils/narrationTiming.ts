@@ -0,0 +1,345 @@
+/**
+ * Narration Timing
+ *
+ * Estimates how long a text takes to narrate, per language:
+ * - Speaking rate from a words-per-minute profile (German runs slower
+ *   because its words are longer, Spanish and French faster)
+ * - Numbers, prices, percentages and abbreviations are counted as the
+ *   words a narrator actually says ("R$ 1.997" → "mil novecentos e
+ *   noventa e sete reais", "e.g." → "for example")
+ * - Pauses for punctuation (comma, clause, sentence end, ellipsis, dash)
+ *   and paragraph breaks
+ *
+ * It is an estimate for sizing sections and clips, not a TTS measurement.
+ * Clip durations of a detailed script are fitted to these estimates
+ * (utils/clipPlanning.ts).
+ */
+
+export type NarrationLanguage = 'pt-br' | 'en' | 'es' | 'it' | 'fr' | 'de';
+
+export const NARRATION_LANGUAGES: NarrationLanguage[] = ['pt-br', 'en', 'es', 'it', 'fr', 'de'];
+
+export const DEFAULT_NARRATION_LANGUAGE: NarrationLanguage = 'pt-br';
+
+// Language names used in prompts
+export const NARRATION_LANGUAGE_NAMES: Record<NarrationLanguage, string> = {
+  'pt-br': 'Portuguese (Brazil)',
+  en: 'English',
+  es: 'Spanish',
+  it: 'Italian',
+  fr: 'French',
+  de: 'German',
+};
+
+// Seconds of silence per punctuation mark
+const PAUSES = {
+  comma: 0.25,
+  clause: 0.35, // ; :
+  dash: 0.3,
+  sentence: 0.5, // . ! ?
+  ellipsis: 0.7,
+  paragraph: 0.8, // Blank line, on top of the sentence pause
+};
+
+interface LanguageProfile {
+  wordsPerMinute: number;
+  decimalSeparator: '.' | ',';
+  hundredWords: number; // "one hundred" = 2, "cento" = 1
+  numberConjunction: boolean; // "cento e vinte", "veinte y uno"
+  percentWords: number; // "percent" = 1, "por cento" = 2
+  timesWords: number; // "2x" → "times" / "vezes"
+  abbreviations: Record<string, number>; // Lowercase abbreviation → spoken words
+}
+
+const PROFILES: Record<NarrationLanguage, LanguageProfile> = {
+  'pt-br': {
+    wordsPerMinute: 150,
+    decimalSeparator: ',',
+    hundredWords: 1,
+    numberConjunction: true,
+    percentWords: 2,
+    timesWords: 1,
+    abbreviations: {
+      'sr.': 1, 'sra.': 1, 'dr.': 1, 'dra.': 1, 'prof.': 1, 'profa.': 1,
+      'p.ex.': 2, 'ex.:': 2, 'etc.': 2, 'nº': 1, 'n.º': 1, 'aprox.': 1,
+      'min.': 1, 'seg.': 1, 'pág.': 1, 'obs.': 1, 'tel.': 1, 'av.': 1,
+      'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+  en: {
+    wordsPerMinute: 155,
+    decimalSeparator: '.',
+    hundredWords: 2,
+    numberConjunction: false,
+    percentWords: 1,
+    timesWords: 1,
+    abbreviations: {
+      'mr.': 1, 'mrs.': 1, 'ms.': 1, 'dr.': 1, 'jr.': 1, 'st.': 1,
+      'e.g.': 2, 'i.e.': 2, 'etc.': 2, 'approx.': 1, 'min.': 1, 'sec.': 1,
+      'no.': 1, 'u.s.': 2, 'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+  es: {
+    wordsPerMinute: 160,
+    decimalSeparator: ',',
+    hundredWords: 1,
+    numberConjunction: true,
+    percentWords: 2,
+    timesWords: 1,
+    abbreviations: {
+      'sr.': 1, 'sra.': 1, 'dr.': 1, 'dra.': 1, 'ud.': 1, 'uds.': 1,
+      'p.ej.': 2, 'etc.': 2, 'aprox.': 1, 'núm.': 1, 'nº': 1, 'min.': 1,
+      'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+  it: {
+    wordsPerMinute: 155,
+    decimalSeparator: ',',
+    hundredWords: 1,
+    numberConjunction: false,
+    percentWords: 2,
+    timesWords: 1,
+    abbreviations: {
+      'sig.': 1, 'sig.ra': 1, 'dott.': 1, 'dott.ssa': 1, 'prof.': 1,
+      'ecc.': 1, 'es.': 2, 'n.': 1, 'nº': 1, 'min.': 1, 'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+  fr: {
+    wordsPerMinute: 160,
+    decimalSeparator: ',',
+    hundredWords: 1,
+    numberConjunction: false,
+    percentWords: 2,
+    timesWords: 1,
+    abbreviations: {
+      'm.': 1, 'mme': 1, 'mlle': 1, 'dr': 1, 'dr.': 1, 'etc.': 2,
+      'p.ex.': 2, 'env.': 1, 'n°': 1, 'nº': 1, 'min.': 1, 'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+  de: {
+    wordsPerMinute: 130,
+    decimalSeparator: ',',
+    hundredWords: 2,
+    numberConjunction: false,
+    percentWords: 1,
+    timesWords: 1,
+    abbreviations: {
+      'z.b.': 2, 'd.h.': 2, 'usw.': 3, 'u.a.': 2, 'bzw.': 1, 'ca.': 1,
+      'dr.': 1, 'hr.': 1, 'fr.': 1, 'nr.': 1, 'min.': 1, 'vs.': 1, 'vs': 1, '&': 1,
+    },
+  },
+};
+
+export interface NarrationEstimate {
+  language: NarrationLanguage;
+  words: number; // Written words
+  spokenWords: number; // After expanding numbers and abbreviations
+  speechSeconds: number;
+  pauseSeconds: number;
+  exactSeconds: number;
+  seconds: number; // Rounded up
+}
+
+export interface NarrationOptions {
+  wordsPerMinute?: number; // Override the language profile (e.g. a fast voice)
+}
+
+export function isNarrationLanguage(value: unknown): value is NarrationLanguage {
+  return typeof value === 'string' && NARRATION_LANGUAGES.includes(value as NarrationLanguage);
+}
+
+function profileFor(language?: string): { language: NarrationLanguage; profile: LanguageProfile } {
+  const resolved = isNarrationLanguage(language) ? language : DEFAULT_NARRATION_LANGUAGE;
+  return { language: resolved, profile: PROFILES[resolved] };
+}
+
+/**
+ * Spoken words for an integer (e.g. 1997 → 5-7 depending on language)
+ */
+function integerWords(value: number, profile: LanguageProfile): number {
+  if (value === 0) return 1;
+
+  const digits = String(value);
+  if (digits.length > 15) return digits.length; // Read digit by digit
+
+  let words = 0;
+  let group = value;
+  let scale = 0;
+
+  while (group > 0) {
+    const chunk = group % 1000;
+
+    if (chunk > 0) {
+      const hundreds = Math.floor(chunk / 100);
+      const rest = chunk % 100;
+      const restWords = rest === 0 ? 0 : rest < 20 || rest % 10 === 0 ? 1 : 2;
+      const hundredWords = hundreds > 0 ? profile.hundredWords : 0;
+
+      words += hundredWords + restWords;
+      if (profile.numberConjunction && hundredWords > 0 && restWords > 0) words += 1;
+      if (profile.numberConjunction && restWords === 2) words += 1; // "vinte e um"
+      if (scale > 0) words += 1; // thousand, million...
+    }
+
+    group = Math.floor(group / 1000);
+    scale++;
+  }
+
+  return words;
+}
+
+const NUMBER_TOKEN =
+  /^(R\$|US\$|\$|€|£)?(\d[\d.,]*)(%|x|k|º|ª|°|st|nd|rd|th)?(R\$|€|£)?$/i;
+
+/**
+ * Spoken words for a number-like token ($97, 1.997,00, 30%, 2x, 10k),
+ * or null when the token isn't one
+ */
+function numberTokenWords(token: string, profile: LanguageProfile): number | null {
+  const match = token.match(NUMBER_TOKEN);
+  if (!match) return null;
+
+  const [, prefix, rawNumber, suffix, postfix] = match;
+  const currency = Boolean(prefix || postfix);
+  const thousands = profile.decimalSeparator === ',' ? '.' : ',';
+
+  let number = rawNumber.replace(/[.,]$/, '');
+  const decimalIndex = number.lastIndexOf(profile.decimalSeparator);
+  let fraction = '';
+
+  if (decimalIndex !== -1 && number.length - decimalIndex - 1 !== 3) {
+    fraction = number.slice(decimalIndex + 1).replace(/\D/g, '');
+    number = number.slice(0, decimalIndex);
+  }
+
+  const integer = Number(number.split(thousands).join('').replace(/\D/g, '')) || 0;
+  let words = integerWords(integer, profile);
+
+  if (fraction && Number(fraction) > 0) {
+    // "e noventa centavos" / "point five"
+    words += 1 + integerWords(Number(fraction), profile) + (currency ? 1 : 0);
+  }
+
+  if (currency) words += 1;
+
+  const unit = suffix?.toLowerCase();
+  if (unit === '%') words += profile.percentWords;
+  else if (unit === 'x') words += profile.timesWords;
+  else if (unit === 'k') words += 1;
+
+  return words;
+}
+
+/**
+ * Estimate how long a text takes to narrate
+ */
+export function estimateNarration(
+  text: string,
+  language?: string,
+  options: NarrationOptions = {}
+): NarrationEstimate {
+  const { language: resolved, profile } = profileFor(language);
+  const wordsPerMinute = options.wordsPerMinute || profile.wordsPerMinute;
+
+  let words = 0;
+  let spokenWords = 0;
+  let pauseSeconds = 0;
+
+  const tokens = text.split(/\s+/).filter(Boolean);
+
+  for (const token of tokens) {
+    // Standalone dashes are pauses, not words
+    if (/^[-–—]+$/.test(token)) {
+      pauseSeconds += PAUSES.dash;
+      continue;
+    }
+
+    const stripped = token.replace(/^["'“‘«(¿¡\[]+/, '');
+    const lower = stripped.toLowerCase();
+
+    // Abbreviations, with or without trailing punctuation after them
+    const abbreviation = Object.keys(profile.abbreviations).find(
+      (key) => lower === key || (lower.startsWith(key) && /^[,;:!?)"'”’»\]]+$/.test(lower.slice(key.length)))
+    );
+
+    let core: string;
+    let trail: string;
+
+    if (abbreviation) {
+      words += 1;
+      spokenWords += profile.abbreviations[abbreviation];
+      core = '';
+      trail = stripped.slice(abbreviation.length);
+    } else {
+      const trailMatch = stripped.match(/[.,;:!?…)"'”’»\]-]+$/);
+      trail = trailMatch ? trailMatch[0] : '';
+      core = stripped.slice(0, stripped.length - trail.length);
+
+      // "1.997," keeps its separators inside the number
+      const numberWords = core ? numberTokenWords(core, profile) : null;
+
+      if (numberWords !== null) {
+        words += 1;
+        spokenWords += numberWords;
+      } else if (/^[A-Z]{2,5}s?$/.test(core)) {
+        // Acronyms are spelled out (CEO, VSL): ~half a word per letter
+        words += 1;
+        spokenWords += Math.max(1, Math.ceil(core.length / 2));
+      } else {
+        const parts = core.split(/[-/]/).filter((part) => /[\p{L}\d]/u.test(part));
+        words += parts.length > 0 ? 1 : 0;
+        spokenWords += parts.length;
+      }
+    }
+
+    if (/\.\.\.|…/.test(trail)) pauseSeconds += PAUSES.ellipsis;
+    else if (/[.!?]/.test(trail)) pauseSeconds += PAUSES.sentence;
+    else if (/[;:]/.test(trail)) pauseSeconds += PAUSES.clause;
+    else if (trail.includes(',')) pauseSeconds += PAUSES.comma;
+    else if (/[-–—]$/.test(trail)) pauseSeconds += PAUSES.dash;
+  }
+
+  pauseSeconds += (text.trim().match(/\n\s*\n/g) || []).length * PAUSES.paragraph;
+
+  const speechSeconds = (spokenWords / wordsPerMinute) * 60;
+  const exactSeconds = speechSeconds + pauseSeconds;
+
+  return {
+    language: resolved,
+    words,
+    spokenWords,
+    speechSeconds: Math.round(speechSeconds * 100) / 100,
+    pauseSeconds: Math.round(pauseSeconds * 100) / 100,
+    exactSeconds: Math.round(exactSeconds * 100) / 100,
+    seconds: Math.ceil(exactSeconds),
+  };
+}
+
+/**
+ * Narration duration in whole seconds (0 for empty text)
+ */
+export function estimateNarrationSeconds(
+  text: string,
+  language?: string,
+  options?: NarrationOptions
+): number {
+  return estimateNarration(text, language, options).seconds;
+}
+
+/**
+ * Roughly how many words fit in a duration - used as a budget in prompts
+ */
+export function wordsForDuration(seconds: number, language?: string): number {
+  const { profile } = profileFor(language);
+  // Leave ~15% of the time for pauses
+  return Math.max(1, Math.floor((seconds * 0.85 * profile.wordsPerMinute) / 60));
+}
+
+/**
+ * Clip timestamp, "m:ss"
+ */
+export function formatClipTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Video Model Limits
+ *
+ * Clip lengths and pricing of the video models in config/models.json, for
+ * clip planning (utils/clipPlanning.ts):
+ * - durations: advancedParams.duration (enum, or min..max), else a model
+ *   with a fixed length (defaults.duration, or num_frames / fps)
+ * - pricing: per second at the model's default resolution for
+ *   resolution_based pricing, otherwise per generated clip
+ *
+ * Models missing from models.json keep the old planning limit of clips of
+ * up to 10 seconds.
+ */
+
+import { logger } from './logger.js';
+import type { ClipLimits } from './clipPlanning.js';
+import { getModelConfig } from './modelsConfig.js';
+
+export interface VideoModelLimits extends ClipLimits {
+  modelId: string;
+  configured: boolean; // false when the model isn't in models.json
+}
+
+const FALLBACK_MAX_DURATION = 10;
+const FALLBACK_PRICE_PER_SECOND = 0.1;
+
+function range(min: number, max: number): number[] {
+  return Array.from({ length: max - min + 1 }, (_, index) => min + index);
+}
+
+function modelDurations(model: any): number[] {
+  const param = model.advancedParams?.duration;
+
+  if (Array.isArray(param?.enum) && param.enum.length > 0) {
+    return param.enum.map(Number).filter((value: number) => Number.isInteger(value) && value > 0);
+  }
+  if (Number.isInteger(param?.min) && Number.isInteger(param?.max)) {
+    return range(Math.max(1, param.min), param.max);
+  }
+  if (Number.isInteger(model.defaults?.duration)) {
+    return [model.defaults.duration];
+  }
+  if (model.defaults?.num_frames && model.defaults?.fps) {
+    return [Math.max(1, Math.round(model.defaults.num_frames / model.defaults.fps))];
+  }
+  return range(1, FALLBACK_MAX_DURATION);
+}
+
+function modelPricing(model: any): ClipLimits['pricing'] {
+  const pricing = model.pricing;
+
+  if (typeof pricing === 'number') {
+    return { type: 'per_clip', price: pricing };
+  }
+  if (pricing?.type === 'resolution_based') {
+    const resolution = model.defaults?.size || model.defaults?.resolution;
+    const tier = pricing.resolutionPricing?.find(
+      (entry: { resolution: string }) => entry.resolution === resolution
+    );
+    return { type: 'per_second', price: tier?.pricePerSecond ?? pricing.basePrice };
+  }
+  if (typeof pricing?.basePrice === 'number') {
+    return { type: 'per_clip', price: pricing.basePrice };
+  }
+  return { type: 'per_second', price: FALLBACK_PRICE_PER_SECOND };
+}
+
+/**
+ * Clip lengths and pricing for a video model
+ */
+export function getVideoModelLimits(modelId: string): VideoModelLimits {
+  const model = getModelConfig(modelId, 'video');
+
+  if (!model) {
+    logger.warn(`Video model ${modelId} not in models.json, planning clips of up to ${FALLBACK_MAX_DURATION}s`);
+    return {
+      modelId,
+      durations: range(1, FALLBACK_MAX_DURATION),
+      pricing: { type: 'per_second', price: FALLBACK_PRICE_PER_SECOND },
+      configured: false,
+    };
+  }
+
+  return {
+    modelId,
+    durations: [...new Set(modelDurations(model))].sort((a, b) => a - b),
+    pricing: modelPricing(model),
+    configured: true,
+  };
+}
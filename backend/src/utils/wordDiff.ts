@@ -0,0 +1,150 @@
+/**
+ * Word-level diff
+ *
+ * Longest-common-subsequence diff over words and whitespace runs, so the
+ * joined output reproduces both texts exactly. Common prefix/suffix are
+ * trimmed before the LCS table is built, and the table is capped: past
+ * MAX_LCS_CELLS the texts are diffed by lines instead.
+ */
+
+export type WordDiffType = 'equal' | 'insert' | 'delete';
+
+export interface WordDiffChange {
+  type: WordDiffType;
+  text: string;
+}
+
+export type WordDiffGranularity = 'word' | 'line' | 'text';
+
+export interface WordDiffResult {
+  changes: WordDiffChange[];
+  granularity: WordDiffGranularity; // Coarser than 'word' for very long, very different texts
+  stats: {
+    added: number; // Words
+    removed: number;
+    unchanged: number;
+  };
+}
+
+// Largest LCS table built (4 bytes per cell, 16 MB)
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffToken = { type: WordDiffType; token: string };
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+|\s+/g) || [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) || [];
+}
+
+function countWords(token: string): number {
+  return token.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * LCS diff of two token lists, or null when the table would exceed
+ * MAX_LCS_CELLS
+ */
+function diffTokens(a: string[], b: string[]): DiffToken[] | null {
+  const tokens: DiffToken[] = [];
+
+  // Trim common prefix and suffix
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    tokens.push({ type: 'equal', token: a[start] });
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: string[] = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    suffix.unshift(a[endA - 1]);
+    endA--;
+    endB--;
+  }
+
+  // LCS lengths for the remaining middle part
+  const rows = endA - start;
+  const cols = endB - start;
+  if ((rows + 1) * (cols + 1) > MAX_LCS_CELLS) {
+    return null;
+  }
+
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[at(i, j)] =
+        a[start + i] === b[start + j]
+          ? lcs[at(i + 1, j + 1)] + 1
+          : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      tokens.push({ type: 'equal', token: a[start + i] });
+      i++;
+      j++;
+    } else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      tokens.push({ type: 'delete', token: a[start + i] });
+      i++;
+    } else {
+      tokens.push({ type: 'insert', token: b[start + j] });
+      j++;
+    }
+  }
+  for (; i < rows; i++) tokens.push({ type: 'delete', token: a[start + i] });
+  for (; j < cols; j++) tokens.push({ type: 'insert', token: b[start + j] });
+
+  suffix.forEach((token) => tokens.push({ type: 'equal', token }));
+
+  return tokens;
+}
+
+/**
+ * Diff by words; texts too long and different for that are diffed by
+ * lines, and failing that replaced as a whole
+ */
+export function diffWords(before: string, after: string): WordDiffResult {
+  let granularity: WordDiffGranularity = 'word';
+  let tokens = diffTokens(tokenize(before), tokenize(after));
+
+  if (!tokens) {
+    granularity = 'line';
+    tokens = diffTokens(tokenizeLines(before), tokenizeLines(after));
+  }
+  if (!tokens) {
+    granularity = 'text';
+    tokens = [
+      { type: 'delete' as const, token: before },
+      { type: 'insert' as const, token: after },
+    ].filter(({ token }) => token !== '');
+  }
+
+  // Merge runs of the same type
+  const changes: WordDiffChange[] = [];
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+
+  for (const { type, token } of tokens) {
+    const words = countWords(token);
+    if (type === 'insert') stats.added += words;
+    else if (type === 'delete') stats.removed += words;
+    else stats.unchanged += words;
+
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.text += token;
+    } else {
+      changes.push({ type, text: token });
+    }
+  }
+
+  return { changes, granularity, stats };
+}